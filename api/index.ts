@@ -2,6 +2,7 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "../server/routes";
+import { isAllowedOrigin } from "../server/auth";
 import dotenv from "dotenv";
 
 // Load environment variables
@@ -9,9 +10,9 @@ dotenv.config();
 
 const app = express();
 
-// Enable CORS for all origins in production
+// Only APP_URL and CORS_ORIGINS may read responses with the session cookie
 app.use(cors({
-  origin: true,
+  origin: (origin, callback) => callback(null, !!origin && isAllowedOrigin(origin)),
   credentials: true,
 }));
 
@@ -4,13 +4,24 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
+import { StepUpProvider } from "@/hooks/use-step-up";
 import Dashboard from "@/pages/dashboard";
+import VerifyPage from "@/pages/verify";
+import SignPage from "@/pages/sign";
+import AccountPage from "@/pages/account";
+import ResetPasswordPage from "@/pages/reset-password";
+import JoinPage from "@/pages/join";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/verify" component={VerifyPage} />
+      <Route path="/sign/:token" component={SignPage} />
+      <Route path="/account" component={AccountPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/join/:token" component={JoinPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -20,10 +31,12 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <StepUpProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </StepUpProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
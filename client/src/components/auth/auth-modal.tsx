@@ -4,6 +4,10 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { TwoFactorForm } from "@/components/auth/two-factor-form";
+import { ForgotPassword } from "@/components/auth/forgot-password";
+import { type TwoFactorCode } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -21,7 +25,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Mail } from "lucide-react";
+import { Loader2, Mail, ShieldCheck } from "lucide-react";
 
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -47,7 +51,10 @@ interface AuthModalProps {
 export function AuthModal({ open, onOpenChange }: AuthModalProps) {
   const [activeTab, setActiveTab] = useState("signin");
   const [showEmailSent, setShowEmailSent] = useState(false);
-  const { login, register } = useAuth();
+  // The password was accepted and the account asks for a second factor
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [forgotPassword, setForgotPassword] = useState(false);
+  const { login, completeTwoFactorLogin, register } = useAuth();
   const { toast } = useToast();
 
   const loginForm = useForm<z.infer<typeof loginSchema>>({
@@ -71,7 +78,11 @@ export function AuthModal({ open, onOpenChange }: AuthModalProps) {
 
   const onLogin = async (values: z.infer<typeof loginSchema>) => {
     try {
-      await login(values.email, values.password);
+      const { twoFactorRequired } = await login(values.email, values.password);
+      if (twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
       onOpenChange(false);
       toast({
         title: "Welcome back!",
@@ -86,6 +97,34 @@ export function AuthModal({ open, onOpenChange }: AuthModalProps) {
     }
   };
 
+  const onTwoFactor = async (input: TwoFactorCode) => {
+    try {
+      await completeTwoFactorLogin(input);
+    } catch (error: any) {
+      toast({
+        title: "Login failed",
+        description: getApiErrorMessage(error, "Could not verify the code"),
+        variant: "destructive",
+      });
+      throw error;
+    }
+    setTwoFactorStep(false);
+    loginForm.reset();
+    onOpenChange(false);
+    toast({
+      title: "Welcome back!",
+      description: "You have successfully signed in.",
+    });
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setTwoFactorStep(false);
+      setForgotPassword(false);
+    }
+    onOpenChange(nextOpen);
+  };
+
   const onRegister = async (values: z.infer<typeof registerSchema>) => {
     try {
       await register({
@@ -143,8 +182,54 @@ export function AuthModal({ open, onOpenChange }: AuthModalProps) {
     );
   }
 
+  if (forgotPassword) {
+    return (
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md" data-testid="forgot-password-modal">
+          <DialogHeader>
+            <DialogTitle>Reset Your Password</DialogTitle>
+          </DialogHeader>
+          <ForgotPassword
+            initialEmail={loginForm.getValues("email")}
+            onBack={() => setForgotPassword(false)}
+            onDone={() => handleOpenChange(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  if (twoFactorStep) {
+    return (
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md" data-testid="two-factor-login-modal">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              Two-Factor Authentication
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <p className="text-sm text-gray-600">
+              Enter the 6-digit code from your authenticator app to finish signing in.
+            </p>
+            <TwoFactorForm onSubmit={onTwoFactor} submitLabel="Verify" />
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={() => setTwoFactorStep(false)}
+              data-testid="button-back-to-password"
+            >
+              Back to Sign In
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-md" data-testid="auth-modal">
         <DialogHeader>
           <DialogTitle>Welcome to XSignature</DialogTitle>
@@ -206,6 +291,14 @@ export function AuthModal({ open, onOpenChange }: AuthModalProps) {
                   )}
                   Sign In
                 </Button>
+                <button
+                  type="button"
+                  className="w-full text-center text-sm text-blue-600 hover:underline"
+                  onClick={() => setForgotPassword(true)}
+                  data-testid="button-forgot-password"
+                >
+                  Forgot your password?
+                </button>
               </form>
             </Form>
           </TabsContent>
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import {
+  useRequestPasswordReset,
+  useRecoveryQuestions,
+  useAnswerRecoveryQuestions,
+} from "@/hooks/use-account-recovery";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Mail } from "lucide-react";
+
+interface ForgotPasswordProps {
+  initialEmail?: string;
+  onBack: () => void;
+  // Called before moving on to the reset page with a token
+  onDone: () => void;
+}
+
+// Recovers an account by an emailed link or, if set up, its security questions
+export function ForgotPassword({ initialEmail = "", onBack, onDone }: ForgotPasswordProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const requestReset = useRequestPasswordReset();
+  const recoveryQuestions = useRecoveryQuestions();
+  const answerQuestions = useAnswerRecoveryQuestions();
+
+  const [email, setEmail] = useState(initialEmail);
+  const [sent, setSent] = useState(false);
+  const [questions, setQuestions] = useState<[string, string] | null>(null);
+  const [answer1, setAnswer1] = useState("");
+  const [answer2, setAnswer2] = useState("");
+
+  const fail = (title: string, error: any) => {
+    toast({ title, description: getApiErrorMessage(error, title), variant: "destructive" });
+  };
+
+  const sendLink = async () => {
+    try {
+      await requestReset.mutateAsync(email.trim());
+      setSent(true);
+    } catch (error: any) {
+      fail("Could not send the reset link", error);
+    }
+  };
+
+  const loadQuestions = async () => {
+    try {
+      setQuestions((await recoveryQuestions.mutateAsync(email.trim())).questions);
+    } catch (error: any) {
+      fail("Security questions unavailable", error);
+    }
+  };
+
+  const submitAnswers = async () => {
+    try {
+      const { token } = await answerQuestions.mutateAsync({ email: email.trim(), answer1, answer2 });
+      onDone();
+      setLocation(`/reset-password?token=${encodeURIComponent(token)}`);
+    } catch (error: any) {
+      setAnswer1("");
+      setAnswer2("");
+      fail("Could not verify your answers", error);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="space-y-4 py-2 text-center" data-testid="password-reset-sent">
+        <div className="mx-auto h-12 w-12 rounded-full bg-blue-100 flex items-center justify-center">
+          <Mail className="h-6 w-6 text-primary" />
+        </div>
+        <p className="text-sm text-gray-600">
+          If an account uses {email.trim()}, we've sent it a link to choose a new password. The link expires in an hour.
+        </p>
+        <Button className="w-full" onClick={onBack} data-testid="button-back-to-signin">
+          Back to Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  if (questions) {
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          submitAnswers();
+        }}
+        data-testid="form-security-answers"
+      >
+        <div className="space-y-2">
+          <Label htmlFor="recovery-answer-1">{questions[0]}</Label>
+          <Input id="recovery-answer-1" value={answer1} onChange={(event) => setAnswer1(event.target.value)} autoFocus />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="recovery-answer-2">{questions[1]}</Label>
+          <Input id="recovery-answer-2" value={answer2} onChange={(event) => setAnswer2(event.target.value)} />
+        </div>
+        <p className="text-xs text-gray-500">
+          If you never set up security questions for this address, no answers will work; use the email link instead.
+        </p>
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={!answer1.trim() || !answer2.trim() || answerQuestions.isPending}
+          data-testid="button-submit-answers"
+        >
+          {answerQuestions.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Continue
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={() => setQuestions(null)}>
+          Email me a link instead
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        sendLink();
+      }}
+      data-testid="form-forgot-password"
+    >
+      <p className="text-sm text-gray-600">Enter your email address and we'll send you a link to choose a new password.</p>
+      <div className="space-y-2">
+        <Label htmlFor="forgot-password-email">Email Address</Label>
+        <Input
+          id="forgot-password-email"
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="Enter your email"
+          autoFocus
+          data-testid="input-email-forgot-password"
+        />
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!email.trim() || requestReset.isPending}
+        data-testid="button-send-reset-link"
+      >
+        {requestReset.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Send Reset Link
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={loadQuestions}
+        disabled={!email.trim() || recoveryQuestions.isPending}
+        data-testid="button-use-security-questions"
+      >
+        {recoveryQuestions.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Answer My Security Questions Instead
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+        Back to Sign In
+      </Button>
+    </form>
+  );
+}
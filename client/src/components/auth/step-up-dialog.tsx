@@ -0,0 +1,30 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TwoFactorForm } from "@/components/auth/two-factor-form";
+import { type TwoFactorCode } from "@shared/schema";
+import { ShieldCheck } from "lucide-react";
+
+interface StepUpDialogProps {
+  open: boolean;
+  onSubmit: (input: TwoFactorCode) => Promise<void>;
+  onCancel: () => void;
+}
+
+// The signing challenge: a fresh two-factor code right before signing
+export function StepUpDialog({ open, onSubmit, onCancel }: StepUpDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && onCancel()}>
+      <DialogContent className="sm:max-w-sm" data-testid="step-up-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-blue-600" />
+            Confirm it's you
+          </DialogTitle>
+          <DialogDescription>
+            Enter the code from your authenticator app to sign. You won't be asked again for a few minutes.
+          </DialogDescription>
+        </DialogHeader>
+        <TwoFactorForm onSubmit={onSubmit} submitLabel="Confirm and sign" />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { type TwoFactorCode } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+interface TwoFactorFormProps {
+  onSubmit: (input: TwoFactorCode) => Promise<void>;
+  submitLabel: string;
+  // Off where the code has to prove the authenticator app is set up
+  allowRecoveryCode?: boolean;
+}
+
+// Asks for a code from the authenticator app, or a recovery code instead
+export function TwoFactorForm({ onSubmit, submitLabel, allowRecoveryCode = true }: TwoFactorFormProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const ready = useRecoveryCode ? !!recoveryCode.trim() : code.length === 6;
+
+  const submit = async (input: TwoFactorCode) => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(input);
+    } catch {
+      // The caller reports the error; clear the code for another try
+      setCode("");
+      setRecoveryCode("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (ready) submit(useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code });
+      }}
+      data-testid="form-two-factor"
+    >
+      {useRecoveryCode ? (
+        <Input
+          value={recoveryCode}
+          onChange={(event) => setRecoveryCode(event.target.value)}
+          placeholder="XXXXX-XXXXX"
+          autoComplete="one-time-code"
+          autoFocus
+          className="font-mono"
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={(value) => setCode(value.replace(/\D/g, ""))}
+            onComplete={(value: string) => {
+              if (!isSubmitting) submit({ code: value });
+            }}
+            autoFocus
+            data-testid="input-two-factor-code"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={!ready || isSubmitting} data-testid="button-submit-two-factor">
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+
+      {allowRecoveryCode && (
+        <button
+          type="button"
+          className="w-full text-center text-xs text-blue-600 hover:underline"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          data-testid="button-toggle-recovery-code"
+        >
+          {useRecoveryCode ? "Use your authenticator app" : "Lost your device? Use a recovery code"}
+        </button>
+      )}
+    </form>
+  );
+}
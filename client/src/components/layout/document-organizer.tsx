@@ -0,0 +1,577 @@
+import { useState } from "react";
+import {
+  useFolders,
+  useCreateFolder,
+  useUpdateFolder,
+  useDeleteFolder,
+  useMoveDocuments,
+  useTags,
+  useCreateTag,
+  useRenameTag,
+  useDeleteTag,
+  useUpdateDocumentTags,
+  useDownloadFolder,
+  useDeleteFolderDocuments,
+  flattenFolderTree,
+  folderSubtreeIds,
+} from "@/hooks/use-folders";
+import { type DocumentScope } from "@/hooks/use-pdf";
+import { usePermissions, useShareDocument } from "@/hooks/use-organization";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MAX_FOLDER_DEPTH, type Folder, type PdfDocument } from "@shared/schema";
+import {
+  Download,
+  Folder as FolderIcon,
+  FolderCog,
+  FolderInput,
+  Loader2,
+  MoreVertical,
+  Pencil,
+  Tag,
+  Trash2,
+  Users,
+} from "lucide-react";
+
+const TOP_LEVEL = "__top";
+
+// Indents a folder name by its depth for flat lists such as selects
+function indent(depth: number): string {
+  return "   ".repeat(depth);
+}
+
+interface DocumentOrganizerBarProps {
+  scope: DocumentScope;
+  onChange: (scope: DocumentScope) => void;
+  onDocumentsDeleted?: (documentIds: string[]) => void;
+}
+
+// Matter/folder and tag filters for the document list, with whole-folder actions
+export function DocumentOrganizerBar({ scope, onChange, onDocumentsDeleted }: DocumentOrganizerBarProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { data: foldersData } = useFolders();
+  const { data: tagsData } = useTags();
+  const downloadFolder = useDownloadFolder();
+  const deleteFolderDocuments = useDeleteFolderDocuments();
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const folders = foldersData?.folders || [];
+  const tags = tagsData?.tags || [];
+  const selectedFolder = folders.find((folder) => folder.id === scope.folderId);
+
+  const handleDownloadAll = async (folder: Folder) => {
+    try {
+      await downloadFolder.mutateAsync(folder.id);
+      toast({ title: "Preparing ZIP", description: `"${folder.name}" will be ready to save in a moment.` });
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: getApiErrorMessage(error, "Failed to start the download"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteAll = async (folder: Folder) => {
+    if (!confirm(`Delete every document in "${folder.name}" and its subfolders? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      const result = await deleteFolderDocuments.mutateAsync(folder.id);
+      onDocumentsDeleted?.(result.deleted);
+      toast({
+        title: "Documents deleted",
+        description: `Deleted ${result.deleted.length} document(s)${result.failed.length > 0 ? `, ${result.failed.length} failed` : ""}.`,
+        variant: result.failed.length > 0 ? "destructive" : "default",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Delete failed",
+        description: getApiErrorMessage(error, "Failed to delete the documents"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="px-6 pt-3 flex items-center gap-2" data-testid="document-organizer">
+      <Select
+        value={scope.folderId || "all"}
+        onValueChange={(folderId) => onChange({ ...scope, folderId: folderId === "all" ? "" : folderId })}
+      >
+        <SelectTrigger className="h-9 flex-1 min-w-0 text-sm" data-testid="select-folder-filter">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All documents</SelectItem>
+          <SelectItem value="unfiled">Not in a folder</SelectItem>
+          {flattenFolderTree(folders).map(({ folder, depth }) => (
+            <SelectItem key={folder.id} value={folder.id}>
+              {indent(depth)}
+              {folder.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={scope.tagId || "all"}
+        onValueChange={(tagId) => onChange({ ...scope, tagId: tagId === "all" ? "" : tagId })}
+      >
+        <SelectTrigger className="h-9 w-28 text-sm" data-testid="select-tag-filter">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any tag</SelectItem>
+          {tags.map((tag) => (
+            <SelectItem key={tag.id} value={tag.id}>
+              {tag.name} ({tag.documentIds.length})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9 px-2.5" data-testid="button-organizer-menu">
+            {downloadFolder.isPending || deleteFolderDocuments.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FolderCog className="h-4 w-4" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setManageOpen(true)} disabled={!can("documents.prepare")}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Manage folders & tags
+          </DropdownMenuItem>
+          {selectedFolder && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="truncate text-xs text-gray-500">{selectedFolder.name}</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => handleDownloadAll(selectedFolder)} data-testid="button-download-folder">
+                <Download className="mr-2 h-4 w-4" />
+                Download all
+              </DropdownMenuItem>
+              {can("documents.delete") && (
+                <DropdownMenuItem
+                  onClick={() => handleDeleteAll(selectedFolder)}
+                  className="text-red-600 focus:text-red-600"
+                  data-testid="button-delete-folder-documents"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete all documents
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ManageOrganizerDialog
+        open={manageOpen}
+        onOpenChange={setManageOpen}
+        onFolderDeleted={(folder) => {
+          if (scope.folderId === folder.id) onChange({ ...scope, folderId: "" });
+        }}
+        onTagDeleted={(tagId) => {
+          if (scope.tagId === tagId) onChange({ ...scope, tagId: "" });
+        }}
+      />
+    </div>
+  );
+}
+
+interface ManageOrganizerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onFolderDeleted: (folder: Folder) => void;
+  onTagDeleted: (tagId: string) => void;
+}
+
+// Create, rename, nest and delete folders; create, rename and delete tags
+function ManageOrganizerDialog({ open, onOpenChange, onFolderDeleted, onTagDeleted }: ManageOrganizerDialogProps) {
+  const { toast } = useToast();
+  const { data: foldersData } = useFolders(open);
+  const { data: tagsData } = useTags(open);
+  const createFolder = useCreateFolder();
+  const updateFolder = useUpdateFolder();
+  const deleteFolder = useDeleteFolder();
+  const createTag = useCreateTag();
+  const renameTag = useRenameTag();
+  const deleteTag = useDeleteTag();
+
+  const [newFolderName, setNewFolderName] = useState("");
+  const [newFolderParent, setNewFolderParent] = useState(TOP_LEVEL);
+  const [newTagName, setNewTagName] = useState("");
+
+  const folders = foldersData?.folders || [];
+  const tree = flattenFolderTree(folders);
+  const tags = tagsData?.tags || [];
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      toast({ title: failure, description: getApiErrorMessage(error, failure), variant: "destructive" });
+    }
+  };
+
+  const handleCreateFolder = () =>
+    run(async () => {
+      await createFolder.mutateAsync({
+        name: newFolderName.trim(),
+        parentId: newFolderParent === TOP_LEVEL ? null : newFolderParent,
+      });
+      setNewFolderName("");
+    }, "Could not create folder");
+
+  const handleRenameFolder = (folder: Folder) => {
+    const name = prompt("Folder name", folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    run(() => updateFolder.mutateAsync({ folderId: folder.id, updates: { name } }), "Could not rename folder");
+  };
+
+  const handleDeleteFolder = (folder: Folder) => {
+    if (!confirm(`Delete the folder "${folder.name}"? Its documents and subfolders move up a level.`)) return;
+    run(async () => {
+      await deleteFolder.mutateAsync(folder.id);
+      onFolderDeleted(folder);
+    }, "Could not delete folder");
+  };
+
+  const handleCreateTag = () =>
+    run(async () => {
+      await createTag.mutateAsync(newTagName.trim());
+      setNewTagName("");
+    }, "Could not create tag");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Folders & tags</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Matters and folders</Label>
+          <ScrollArea className="max-h-56 rounded-md border">
+            <div className="p-1" data-testid="folder-tree">
+              {tree.length === 0 && <p className="p-3 text-center text-xs text-gray-500">No folders yet</p>}
+              {tree.map(({ folder, depth }) => {
+                // A folder cannot go inside itself, and the result must stay within the depth limit
+                const subtree = folderSubtreeIds(folders, folder.id);
+                const height = Math.max(...subtree.map((id) => tree.find((entry) => entry.folder.id === id)!.depth)) - depth + 1;
+                const parents = tree.filter(
+                  (entry) => !subtree.includes(entry.folder.id) && entry.depth + 1 + height <= MAX_FOLDER_DEPTH
+                );
+                return (
+                  <div key={folder.id} className="flex items-center gap-1 rounded px-2 py-1 hover:bg-gray-50">
+                    <span className="flex min-w-0 flex-1 items-center gap-1.5 text-sm" style={{ paddingLeft: depth * 16 }}>
+                      <FolderIcon className="h-4 w-4 shrink-0 text-blue-500" />
+                      <span className="truncate">{folder.name}</span>
+                    </span>
+                    <Select
+                      value={folder.parentId || TOP_LEVEL}
+                      onValueChange={(parentId) =>
+                        run(
+                          () =>
+                            updateFolder.mutateAsync({
+                              folderId: folder.id,
+                              updates: { parentId: parentId === TOP_LEVEL ? null : parentId },
+                            }),
+                          "Could not move folder"
+                        )
+                      }
+                    >
+                      <SelectTrigger className="h-7 w-7 justify-center p-0 [&>svg:last-child]:hidden" title="Move to…">
+                        <FolderInput className="h-3.5 w-3.5" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                        {parents.map((entry) => (
+                          <SelectItem key={entry.folder.id} value={entry.folder.id}>
+                            {indent(entry.depth)}
+                            {entry.folder.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleRenameFolder(folder)} title="Rename">
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-red-600"
+                      onClick={() => handleDeleteFolder(folder)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+          <div className="flex gap-2">
+            <Input
+              value={newFolderName}
+              onChange={(event) => setNewFolderName(event.target.value)}
+              placeholder="New folder"
+              className="h-8 text-sm"
+              data-testid="input-new-folder"
+            />
+            <Select value={newFolderParent} onValueChange={setNewFolderParent}>
+              <SelectTrigger className="h-8 w-36 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                {tree
+                  .filter(({ depth }) => depth + 1 < MAX_FOLDER_DEPTH)
+                  .map(({ folder, depth }) => (
+                    <SelectItem key={folder.id} value={folder.id}>
+                      {indent(depth)}
+                      {folder.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className="h-8"
+              onClick={handleCreateFolder}
+              disabled={!newFolderName.trim() || createFolder.isPending}
+              data-testid="button-create-folder"
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Tags</Label>
+          <div className="flex flex-wrap gap-1.5" data-testid="tag-list">
+            {tags.length === 0 && <p className="text-xs text-gray-500">No tags yet</p>}
+            {tags.map((tag) => (
+              <Badge key={tag.id} variant="secondary" className="gap-1 pr-1">
+                <button
+                  type="button"
+                  onClick={() => {
+                    const name = prompt("Tag name", tag.name)?.trim();
+                    if (name && name !== tag.name) {
+                      run(() => renameTag.mutateAsync({ tagId: tag.id, name }), "Could not rename tag");
+                    }
+                  }}
+                >
+                  {tag.name}
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={`Delete tag ${tag.name}`}
+                  onClick={() => {
+                    if (!confirm(`Delete the tag "${tag.name}"? It is removed from ${tag.documentIds.length} document(s).`)) return;
+                    run(async () => {
+                      await deleteTag.mutateAsync(tag.id);
+                      onTagDeleted(tag.id);
+                    }, "Could not delete tag");
+                  }}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={newTagName}
+              onChange={(event) => setNewTagName(event.target.value)}
+              placeholder="New tag"
+              maxLength={50}
+              className="h-8 text-sm"
+              data-testid="input-new-tag"
+            />
+            <Button
+              size="sm"
+              className="h-8"
+              onClick={handleCreateTag}
+              disabled={!newTagName.trim() || createTag.isPending}
+              data-testid="button-create-tag"
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DocumentOrganizeMenuProps {
+  document: PdfDocument;
+}
+
+// Per-document menu for moving it to a folder, setting its tags and sharing it
+export function DocumentOrganizeMenu({ document }: DocumentOrganizeMenuProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { organization, can } = usePermissions();
+  const { data: foldersData } = useFolders();
+  const { data: tagsData } = useTags();
+  const moveDocuments = useMoveDocuments();
+  const updateDocumentTags = useUpdateDocumentTags();
+  const shareDocument = useShareDocument();
+
+  const tags = tagsData?.tags || [];
+  // Folders belong to the document's owner; colleagues can still tag a shared document
+  const isOwner = document.userId === user?.id;
+  const canPrepare = can("documents.prepare");
+  const canShare = isOwner && !!organization && can("documents.share");
+  if (!canPrepare && !canShare) {
+    return null;
+  }
+
+  const handleShare = async (shared: boolean) => {
+    try {
+      await shareDocument.mutateAsync({ documentId: document.id, shared });
+    } catch (error: any) {
+      toast({ title: "Sharing failed", description: getApiErrorMessage(error, "Failed to update sharing"), variant: "destructive" });
+    }
+  };
+
+  const handleMove = async (value: string) => {
+    try {
+      await moveDocuments.mutateAsync({ documentIds: [document.id], folderId: value === TOP_LEVEL ? null : value });
+    } catch (error: any) {
+      toast({ title: "Move failed", description: getApiErrorMessage(error, "Failed to move document"), variant: "destructive" });
+    }
+  };
+
+  const handleToggleTag = async (tagId: string, checked: boolean) => {
+    try {
+      await updateDocumentTags.mutateAsync({
+        documentIds: [document.id],
+        add: checked ? [tagId] : [],
+        remove: checked ? [] : [tagId],
+      });
+    } catch (error: any) {
+      toast({ title: "Tagging failed", description: getApiErrorMessage(error, "Failed to update tags"), variant: "destructive" });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={(event) => event.stopPropagation()}
+          data-testid={`button-organize-${document.id}`}
+        >
+          <MoreVertical className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+        {canPrepare && isOwner && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FolderInput className="mr-2 h-4 w-4" />
+              Move to
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuRadioGroup value={document.folderId || TOP_LEVEL} onValueChange={handleMove}>
+                <DropdownMenuRadioItem value={TOP_LEVEL}>Not in a folder</DropdownMenuRadioItem>
+                {flattenFolderTree(foldersData?.folders || []).map(({ folder, depth }) => (
+                  <DropdownMenuRadioItem key={folder.id} value={folder.id}>
+                    {indent(depth)}
+                    {folder.name}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+        {canPrepare && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Tag className="mr-2 h-4 w-4" />
+              Tags
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {tags.length === 0 && <DropdownMenuLabel className="text-xs text-gray-500">No tags yet</DropdownMenuLabel>}
+              {tags.map((tag) => (
+                <DropdownMenuCheckboxItem
+                  key={tag.id}
+                  checked={tag.documentIds.includes(document.id)}
+                  onCheckedChange={(checked) => handleToggleTag(tag.id, checked)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {tag.name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+        {canShare && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={!!document.organizationId}
+              onCheckedChange={handleShare}
+              data-testid={`toggle-share-${document.id}`}
+            >
+              <Users className="mr-2 h-4 w-4" />
+              Share with {organization!.name}
+            </DropdownMenuCheckboxItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// The tags on a document, as small badges
+export function DocumentTagBadges({ documentId }: { documentId: string }) {
+  const { data: tagsData } = useTags();
+  const tags = (tagsData?.tags || []).filter((tag) => tag.documentIds.includes(documentId));
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge key={tag.id} variant="secondary" className="px-1.5 py-0 text-[10px] bg-blue-50 text-blue-700">
+          {tag.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import {
+  useDocumentSearch,
+  emptySearchFilters,
+  hasSearchFilters,
+  pageImageUrl,
+  type DocumentScope,
+  type DocumentSearchFilters,
+} from "@/hooks/use-pdf";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type PdfDocument } from "@shared/schema";
+import { FileText, Loader2, Search, SlidersHorizontal, X } from "lucide-react";
+
+interface DocumentSearchBarProps {
+  filters: DocumentSearchFilters;
+  onChange: (filters: DocumentSearchFilters) => void;
+}
+
+// Search box plus the signed status, upload date and signer filters
+export function DocumentSearchBar({ filters, onChange }: DocumentSearchBarProps) {
+  const [text, setText] = useState(filters.q);
+
+  // Searches once typing pauses
+  useEffect(() => {
+    if (text === filters.q) return;
+    const timer = setTimeout(() => onChange({ ...filters, q: text }), 300);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  useEffect(() => {
+    setText(filters.q);
+  }, [filters.q]);
+
+  const activeFilters = [
+    filters.status !== "all",
+    !!filters.uploadedFrom || !!filters.uploadedTo,
+    !!filters.signer.trim(),
+  ].filter(Boolean).length;
+
+  return (
+    <div className="px-6 pt-3 pb-1 flex items-center gap-2" data-testid="document-search">
+      <div className="relative flex-1">
+        <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <Input
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder="Search documents"
+          className="h-9 pl-8 pr-8 text-sm"
+          data-testid="input-document-search"
+        />
+        {hasSearchFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => {
+              setText("");
+              onChange(emptySearchFilters);
+            }}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+            aria-label="Clear search"
+            data-testid="button-clear-search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9 px-2.5 relative" data-testid="button-search-filters">
+            <SlidersHorizontal className="h-4 w-4" />
+            {activeFilters > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 h-4 min-w-4 rounded-full bg-blue-600 px-1 text-[10px] leading-4 text-white">
+                {activeFilters}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 space-y-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Status</Label>
+            <Select
+              value={filters.status}
+              onValueChange={(status) => onChange({ ...filters, status: status as DocumentSearchFilters["status"] })}
+            >
+              <SelectTrigger className="h-8 text-sm" data-testid="select-search-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All documents</SelectItem>
+                <SelectItem value="signed">Signed</SelectItem>
+                <SelectItem value="unsigned">Unsigned</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Uploaded from</Label>
+              <Input
+                type="date"
+                value={filters.uploadedFrom}
+                onChange={(event) => onChange({ ...filters, uploadedFrom: event.target.value })}
+                className="h-8 text-xs"
+                data-testid="input-search-uploaded-from"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Uploaded to</Label>
+              <Input
+                type="date"
+                value={filters.uploadedTo}
+                onChange={(event) => onChange({ ...filters, uploadedTo: event.target.value })}
+                className="h-8 text-xs"
+                data-testid="input-search-uploaded-to"
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Signed by</Label>
+            <Input
+              value={filters.signer}
+              onChange={(event) => onChange({ ...filters, signer: event.target.value })}
+              placeholder="Name or email"
+              className="h-8 text-sm"
+              data-testid="input-search-signer"
+            />
+          </div>
+          {activeFilters > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full h-8 text-xs"
+              onClick={() => onChange({ ...emptySearchFilters, q: filters.q })}
+            >
+              Clear filters
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+interface DocumentSearchResultsProps {
+  filters: DocumentSearchFilters;
+  scope?: DocumentScope;
+  selectedDocumentId?: string;
+  onSelectDocument: (document: PdfDocument) => void;
+}
+
+// Matching documents with the pages and snippets where the search text was found
+export function DocumentSearchResults({ filters, scope, selectedDocumentId, onSelectDocument }: DocumentSearchResultsProps) {
+  const { data, isLoading, isFetching, error } = useDocumentSearch(filters, scope);
+  const results = data?.results || [];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-sm text-gray-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Searching…
+      </div>
+    );
+  }
+  if (error) {
+    return <p className="py-8 text-center text-sm text-red-600">Search failed. Please try again.</p>;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="document-search-results">
+      <p className="flex items-center gap-1.5 text-xs text-gray-500">
+        {results.length === 0 ? "No documents match" : `${results.length} document${results.length === 1 ? "" : "s"}`}
+        {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
+      </p>
+      {results.map(({ document, signed, signers, matches, matchingPages }) => (
+        <div
+          key={document.id}
+          className={`p-2 border rounded-xl cursor-pointer transition-all duration-200 ${
+            document.id === selectedDocumentId
+              ? "bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-400 shadow-lg"
+              : "border-blue-200/50 hover:border-blue-300 hover:bg-blue-50/50"
+          }`}
+          onClick={() => onSelectDocument(document)}
+          data-testid={`search-result-${document.id}`}
+        >
+          <div className="flex items-start gap-2">
+            {document.pagesRenderedAt ? (
+              <img
+                src={pageImageUrl(document.id, matches[0]?.pageNumber || 1, "thumbnail", document.pagesRenderedAt)}
+                alt=""
+                loading="lazy"
+                className="w-10 shrink-0 rounded border border-gray-200 bg-white"
+              />
+            ) : (
+              <FileText className="h-4 w-4 shrink-0 text-red-500" />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium text-gray-900">{document.originalName}</p>
+              <div className="mt-0.5 flex flex-wrap items-center gap-1 text-[11px] text-gray-500">
+                <Badge
+                  variant="secondary"
+                  className={`px-1.5 py-0 text-[10px] ${signed ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"}`}
+                >
+                  {signed ? "Signed" : "Unsigned"}
+                </Badge>
+                {document.uploadedAt && <span>{new Date(document.uploadedAt).toLocaleDateString()}</span>}
+                {signers.length > 0 && <span className="truncate">• {signers.join(", ")}</span>}
+              </div>
+            </div>
+          </div>
+
+          {matches.map((match) => (
+            <p key={match.pageNumber} className="mt-1.5 text-xs leading-snug text-gray-600">
+              <span className="mr-1 font-medium text-blue-700">p. {match.pageNumber}</span>
+              {match.snippet.map((part, index) =>
+                part.match ? (
+                  <mark key={index} className="rounded bg-yellow-200 px-0.5 text-gray-900">
+                    {part.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                )
+              )}
+            </p>
+          ))}
+          {matchingPages > matches.length && (
+            <p className="mt-1 text-[11px] text-gray-400">
+              and {matchingPages - matches.length} more page{matchingPages - matches.length === 1 ? "" : "s"}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
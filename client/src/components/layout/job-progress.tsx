@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useJobs, isActiveJob, downloadJobOutput } from "@/hooks/use-pdf";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { type PdfDocument, type PublicJob } from "@shared/schema";
+import { AlertCircle, Download, Loader2, X } from "lucide-react";
+
+const JOB_LABELS: Record<string, string> = {
+  "document.process": "Processing",
+  "document.thumbnails": "Rendering pages",
+  "document.render": "Preparing PDF",
+  "documents.export": "Preparing ZIP",
+};
+
+// Jobs whose result shows up in the document list rather than as a download
+const BACKGROUND_JOB_TYPES = ["document.process", "document.thumbnails"];
+
+interface JobProgressProps {
+  documents: PdfDocument[];
+  onDocumentsChanged?: () => void;
+}
+
+// Background jobs of the current user: uploads being processed and downloads being prepared
+export function JobProgress({ documents, onDocumentsChanged }: JobProgressProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data } = useJobs();
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const running = useRef(new Set<string>());
+  const jobs = data?.jobs || [];
+
+  // Refresh the documents as their processing finishes
+  useEffect(() => {
+    let documentsChanged = false;
+    for (const job of jobs) {
+      if (isActiveJob(job)) {
+        running.current.add(job.id);
+        continue;
+      }
+      if (!running.current.delete(job.id)) continue;
+
+      if (BACKGROUND_JOB_TYPES.includes(job.type)) {
+        documentsChanged = true;
+      }
+      if (job.status === "failed") {
+        toast({
+          title: `${JOB_LABELS[job.type] || job.type} failed`,
+          description: job.error || "The job could not be completed",
+          variant: "destructive",
+        });
+      }
+    }
+
+    if (documentsChanged) {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      onDocumentsChanged?.();
+    }
+  }, [data]);
+
+  const describe = (job: PublicJob) => {
+    if (job.type === "documents.export") {
+      const { documentIds, fileName } = job.payload as { documentIds?: string[]; fileName?: string };
+      const count = documentIds?.length || 0;
+      return `${fileName ? `${fileName} · ` : ""}${count} document${count === 1 ? "" : "s"}`;
+    }
+    return documents.find((doc) => doc.id === job.documentId)?.originalName || "Document";
+  };
+
+  const handleDownload = async (job: PublicJob) => {
+    setDownloading(job.id);
+    try {
+      await downloadJobOutput(job);
+      setDismissed((previous) => new Set(previous).add(job.id));
+    } catch (error: any) {
+      toast({ title: "Download failed", description: error.message, variant: "destructive" });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  // Finished uploads show in the document list; finished downloads wait here to be saved
+  const visible = jobs.filter(
+    (job) =>
+      !dismissed.has(job.id) &&
+      (isActiveJob(job) || job.status === "failed" || (job.status === "completed" && !BACKGROUND_JOB_TYPES.includes(job.type)))
+  );
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="px-6 py-3 border-b border-blue-200/50 space-y-2" data-testid="job-progress">
+      {visible.map((job) => (
+        <div key={job.id} className="rounded-lg border border-blue-100 bg-white p-2" data-testid={`job-${job.id}`}>
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <div className="flex min-w-0 items-center gap-1.5 text-gray-700">
+              {isActiveJob(job) ? (
+                <Loader2 className="h-3 w-3 shrink-0 animate-spin text-blue-600" />
+              ) : job.status === "failed" ? (
+                <AlertCircle className="h-3 w-3 shrink-0 text-red-600" />
+              ) : (
+                <Download className="h-3 w-3 shrink-0 text-green-600" />
+              )}
+              <span className="font-medium">{JOB_LABELS[job.type] || job.type}</span>
+              <span className="truncate text-gray-500">{describe(job)}</span>
+            </div>
+            {job.status === "completed" ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => handleDownload(job)}
+                disabled={downloading === job.id}
+                data-testid={`button-download-job-${job.id}`}
+              >
+                {downloading === job.id ? <Loader2 className="h-3 w-3 animate-spin" /> : "Download"}
+              </Button>
+            ) : job.status === "failed" ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => setDismissed((previous) => new Set(previous).add(job.id))}
+                aria-label="Dismiss"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            ) : (
+              <span className="text-gray-500">{job.status === "queued" ? "Queued" : `${job.progress}%`}</span>
+            )}
+          </div>
+          {isActiveJob(job) && (
+            <>
+              <Progress value={job.progress} className="mt-1.5 h-1.5" />
+              {job.progressMessage && <p className="mt-1 text-[11px] text-gray-500">{job.progressMessage}</p>}
+            </>
+          )}
+          {job.status === "failed" && <p className="mt-1 text-[11px] text-red-600">{job.error}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,22 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useDigitalSignatures } from "@/hooks/use-signature";
-import { usePdfDocuments, useUploadPdfs, useDeleteDocument } from "@/hooks/use-pdf";
+import {
+  usePdfDocuments,
+  useUploadPdfs,
+  useDeleteDocument,
+  useJobs,
+  isActiveJob,
+  pageImageUrl,
+  emptySearchFilters,
+  hasSearchFilters,
+  allDocumentsScope,
+} from "@/hooks/use-pdf";
+import { useFolders, useTags, filterDocumentsByScope } from "@/hooks/use-folders";
+import { usePermissions } from "@/hooks/use-organization";
 import { useToast } from "@/hooks/use-toast";
+import { apiUrl, getApiErrorMessage } from "@/lib/api";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
@@ -36,6 +50,7 @@ import {
   Upload,
   ChevronDown,
   Shield,
+  Award,
   Signature,
   Clock,
   Check,
@@ -50,6 +65,13 @@ import {
   Pen,
   Trash,
   X,
+  Ban,
+  LayoutTemplate,
+  Lock,
+  Building2,
+  Users,
+  UserCheck,
+  Settings,
 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -59,8 +81,14 @@ import { useCreateSignature, useDeleteSignature } from "@/hooks/use-signature";
 import { AdobeStyleSignature } from "@/components/signature/adobe-style-signature";
 import { AdobeStyleSignatureModal } from "@/components/signature/adobe-style-signature-modal";
 import { SignatureViewer } from "@/components/signature/signature-viewer";
+import { TemplatesModal } from "@/components/template/templates-modal";
+import { OrganizationModal } from "@/components/organization/organization-modal";
+import { DelegationsModal } from "@/components/signature/delegations-modal";
+import { JobProgress } from "@/components/layout/job-progress";
+import { DocumentSearchBar, DocumentSearchResults } from "@/components/layout/document-search";
+import { DocumentOrganizerBar, DocumentOrganizeMenu, DocumentTagBadges } from "@/components/layout/document-organizer";
 import { type PdfDocument } from "@shared/schema";
-import { type DigitalSignature } from "@shared/schema";
+import { type PublicSignature } from "@shared/schema";
 
 const createSignatureSchema = z.object({
   name: z.string().min(1, "Signature name is required"),
@@ -72,10 +100,10 @@ const createSignatureSchema = z.object({
 
 interface SidebarProps {
   selectedDocument: PdfDocument | null;
-  onSelectDocument: (document: PdfDocument) => void;
+  onSelectDocument: (document: PdfDocument | null) => void;
   onOpenMultiSignature: () => void;
   documents: PdfDocument[];
-  signatures: DigitalSignature[];
+  signatures: PublicSignature[];
   onDocumentsRefresh?: () => void;
 }
 
@@ -88,23 +116,35 @@ export function Sidebar({
   onDocumentsRefresh
 }: SidebarProps) {
   const { user, logout } = useAuth();
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [createSignatureOpen, setCreateSignatureOpen] = useState(false);
   const [adobeStyleSignatureOpen, setAdobeStyleSignatureOpen] = useState(false);
   const [adobeStyleSignatureModalOpen, setAdobeStyleSignatureModalOpen] = useState(false);
   const [signatureViewerOpen, setSignatureViewerOpen] = useState(false);
-  const [selectedSignature, setSelectedSignature] = useState<DigitalSignature | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [organizationOpen, setOrganizationOpen] = useState(false);
+  const [delegationsOpen, setDelegationsOpen] = useState(false);
+  const [selectedSignature, setSelectedSignature] = useState<PublicSignature | null>(null);
   const [fileInputKey, setFileInputKey] = useState(0);
   const [bulkDeleteMode, setBulkDeleteMode] = useState(false);
   const [selectedDocumentsForDelete, setSelectedDocumentsForDelete] = useState<Set<string>>(new Set());
   const [isDeleting, setIsDeleting] = useState(false);
+  const [searchFilters, setSearchFilters] = useState(emptySearchFilters);
+  const [documentScope, setDocumentScope] = useState(allDocumentsScope);
 
   const { data: signaturesData } = useDigitalSignatures(user?.id || "");
   const { data: documentsData } = usePdfDocuments(user?.id || "");
-  const uploadPdfs = useUploadPdfs(user?.id || "");
+  // Uploads go into the folder being shown
+  const uploadFolderId = documentScope.folderId !== "unfiled" ? documentScope.folderId : "";
+  const uploadPdfs = useUploadPdfs(user?.id || "", uploadFolderId);
   const deleteDocument = useDeleteDocument(user?.id || "");
   const createSignature = user?.id ? useCreateSignature(user.id) : null;
   const deleteSignature = useDeleteSignature(user?.id || "");
+  const { data: jobsData } = useJobs();
+  const { data: foldersData } = useFolders(!!user?.id);
+  const { data: tagsData } = useTags(!!user?.id);
+  const { organization, can } = usePermissions();
 
   console.log("Sidebar render - Documents data:", {
     userId: user?.id,
@@ -127,13 +167,21 @@ export function Sidebar({
   // Use the documents and signatures from props, with fallback to local data
   const displayDocuments = documents.length > 0 ? documents : (documentsData?.documents || []);
   const displaySignatures = signatures.length > 0 ? signatures : (signaturesData?.signatures || []);
+  const sharedSignatures = signaturesData?.sharedSignatures || [];
+  // The documents in the selected folder and tag; bulk delete works on these
+  const scopedDocuments = filterDocumentsByScope(
+    displayDocuments,
+    documentScope,
+    foldersData?.folders || [],
+    tagsData?.tags || []
+  );
 
-  const handleSignatureClick = (signature: DigitalSignature) => {
+  const handleSignatureClick = (signature: PublicSignature) => {
     setSelectedSignature(signature);
     setSignatureViewerOpen(true);
   };
 
-  const handleDeleteSignature = async (signature: DigitalSignature, e: React.MouseEvent) => {
+  const handleDeleteSignature = async (signature: PublicSignature, e: React.MouseEvent) => {
     e.stopPropagation();
     if (confirm(`Are you sure you want to delete "${signature.name}"?`)) {
       try {
@@ -145,7 +193,7 @@ export function Sidebar({
       } catch (error: any) {
         toast({
           title: "Delete failed",
-          description: error.message || "Failed to delete signature",
+          description: getApiErrorMessage(error, "Failed to delete signature"),
           variant: "destructive",
         });
       }
@@ -298,7 +346,7 @@ export function Sidebar({
       
       toast({
         title: "Upload successful",
-        description: `${files.length} PDF(s) uploaded successfully.`,
+        description: `${files.length} PDF(s) uploaded and being processed.`,
       });
       setFileInputKey(prev => prev + 1); // Reset file input
       
@@ -383,7 +431,7 @@ export function Sidebar({
         // Clear selected document if it was the one deleted
         if (selectedDocument?.id === documentId) {
           console.log("Clearing selected document");
-          onSelectDocument(null as any);
+          onSelectDocument(null);
         }
         
         // Force immediate refresh of documents list
@@ -503,7 +551,7 @@ export function Sidebar({
       
       // Clear selected document if it was deleted
       if (selectedDocument && selectedDocumentsForDelete.has(selectedDocument.id)) {
-        onSelectDocument(null as any);
+        onSelectDocument(null);
       }
       
       if (onDocumentsRefresh) {
@@ -521,12 +569,12 @@ export function Sidebar({
   };
 
   const handleSelectAllForDelete = () => {
-    if (selectedDocumentsForDelete.size === displayDocuments.length) {
+    if (selectedDocumentsForDelete.size === scopedDocuments.length) {
       // Deselect all
       setSelectedDocumentsForDelete(new Set());
     } else {
       // Select all
-      setSelectedDocumentsForDelete(new Set(displayDocuments.map(doc => doc.id)));
+      setSelectedDocumentsForDelete(new Set(scopedDocuments.map(doc => doc.id)));
     }
   };
 
@@ -543,6 +591,16 @@ export function Sidebar({
   };
 
   const getDocumentStatus = (doc: PdfDocument) => {
+    // Set by the server when the document's file cannot be found
+    if (doc.status === "missing") {
+      return "missing";
+    }
+
+    // Finalized documents are locked whatever their processing status
+    if (doc.isReadOnly) {
+      return "finalized";
+    }
+
     // Use the status field from the document if available
     if (doc.status) {
       return doc.status;
@@ -554,7 +612,14 @@ export function Sidebar({
     return "pending"; // TODO: Implement proper status checking
   };
 
-  const getStatusBadge = (status: string) => {
+  // Upload processing progress by document
+  const processingProgress = new Map(
+    (jobsData?.jobs || [])
+      .filter((job) => job.type === "document.process" && job.documentId && isActiveJob(job))
+      .map((job) => [job.documentId!, job.progress])
+  );
+
+  const getStatusBadge = (status: string, progress?: number) => {
     switch (status) {
       case "processed":
         return (
@@ -567,7 +632,7 @@ export function Sidebar({
         return (
           <Badge variant="secondary" className="bg-blue-100 text-blue-800">
             <Loader2 className="mr-1 h-3 w-3 animate-spin" />
-            Processing
+            Processing{progress !== undefined ? ` ${progress}%` : ""}
           </Badge>
         );
       case "pending":
@@ -584,6 +649,13 @@ export function Sidebar({
             Error
           </Badge>
         );
+      case "missing":
+        return (
+          <Badge variant="secondary" className="bg-red-100 text-red-800" data-testid="badge-file-missing">
+            <AlertCircle className="mr-1 h-3 w-3" />
+            File missing
+          </Badge>
+        );
       case "signed":
         return (
           <Badge variant="secondary" className="bg-green-100 text-green-800">
@@ -591,6 +663,17 @@ export function Sidebar({
             Signed
           </Badge>
         );
+      case "finalized":
+        return (
+          <Badge
+            variant="secondary"
+            className="bg-amber-100 text-amber-800 border border-amber-200"
+            data-testid="badge-finalized"
+          >
+            <Lock className="mr-1 h-3 w-3" />
+            Finalized
+          </Badge>
+        );
       default:
         return (
           <Badge variant="secondary" className="bg-gray-100 text-gray-800">
@@ -601,7 +684,7 @@ export function Sidebar({
     }
   };
 
-  const canUseMultiSignature = displayDocuments.length > 0 && displaySignatures.length > 0;
+  const canUseMultiSignature = displayDocuments.length > 0 && displaySignatures.length > 0 && can("documents.sign");
 
   return (
     <div className="w-full lg:w-80 sticky top-0 h-[100vh] flex flex-col border-r border-blue-200/50">
@@ -627,6 +710,28 @@ export function Sidebar({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setLocation("/verify")} data-testid="button-verify-pdf">
+                  <Shield className="w-4 h-4 mr-2" />
+                  Verify a PDF
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild data-testid="button-download-ca">
+                  <a href={apiUrl("api/ca/root.crt")} download>
+                    <Award className="w-4 h-4 mr-2" />
+                    Download CA Certificate
+                  </a>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setOrganizationOpen(true)} data-testid="button-organization">
+                  <Building2 className="w-4 h-4 mr-2" />
+                  {organization ? organization.name : "Organization"}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setDelegationsOpen(true)} data-testid="button-delegations">
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  Delegated signing
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setLocation("/account")} data-testid="button-account-settings">
+                  <Settings className="w-4 h-4 mr-2" />
+                  Account settings
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={logout} data-testid="button-logout">
                   Logout
                 </DropdownMenuItem>
@@ -664,14 +769,25 @@ export function Sidebar({
               <Type className="mr-2 h-4 w-4 text-blue-600" />
               Adobe-Style Signature
             </Button> */}
+            {can("signatures.manage") && (
+              <Button
+                variant="outline"
+                className="w-full hover:!text-green-600 bg-gradient-to-r from-green-50 to-emerald-50 border-green-200 hover:from-green-100 hover:to-emerald-100 transition-all duration-200 hover:scale-[1.02]"
+                onClick={() => setAdobeStyleSignatureModalOpen(true)}
+                data-testid="button-adobe-signature-modal"
+              >
+                <Pen className="mr-2 h-4 w-4 text-green-600" />
+                Add Signature
+              </Button>
+            )}
             <Button
               variant="outline"
-              className="w-full hover:!text-green-600 bg-gradient-to-r from-green-50 to-emerald-50 border-green-200 hover:from-green-100 hover:to-emerald-100 transition-all duration-200 hover:scale-[1.02]"
-              onClick={() => setAdobeStyleSignatureModalOpen(true)}
-              data-testid="button-adobe-signature-modal"
+              className="w-full hover:!text-blue-600 bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200 hover:from-blue-100 hover:to-indigo-100 transition-all duration-200 hover:scale-[1.02]"
+              onClick={() => setTemplatesOpen(true)}
+              data-testid="button-templates"
             >
-              <Pen className="mr-2 h-4 w-4 text-green-600" />
-              Add Signature
+              <LayoutTemplate className="mr-2 h-4 w-4 text-blue-600" />
+              Templates
             </Button>
           </div>
           </div>
@@ -837,23 +953,52 @@ export function Sidebar({
                 </span>
               </div>
               <div className="flex items-center space-x-2">
-                <Shield className="h-4 w-4 text-green-600" />
+                {signature.revokedAt ? (
+                  <Ban className="h-4 w-4 text-red-600" aria-label="Revoked" />
+                ) : (
+                  <Shield className="h-4 w-4 text-green-600" />
+                )}
                 <span className="text-xs text-gray-500 group-hover:text-gray-600 transition-colors duration-200">
                   Click to view
                 </span>
-                <Button
-                  variant="destructive"
-                  size="sm"
-                  onClick={(e) => handleDeleteSignature(signature, e)}
-                  className="h-6 w-6 p-0 text-white hover:bg-red-700 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
-                  data-testid={`button-delete-signature-${signature.id}`}
-                >
-                  <Trash2 className="h-3 w-3" />
-                </Button>
+                {can("signatures.manage") && (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={(e) => handleDeleteSignature(signature, e)}
+                    className="h-6 w-6 p-0 text-white hover:bg-red-700 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                    data-testid={`button-delete-signature-${signature.id}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+          {/* Shared by other members: viewable, but only their owners can apply them */}
+          {sharedSignatures.map((signature) => (
+            <div
+              key={signature.id}
+              className="flex items-center justify-between p-1 rounded-md hover:bg-gray-100 cursor-pointer transition-colors duration-200 border border-dashed border-gray-200"
+              onClick={() => handleSignatureClick(signature)}
+              role="button"
+              aria-label={`View ${signature.fullName}'s shared signature ${signature.name}`}
+              data-testid={`shared-signature-item-${signature.id}`}
+            >
+              <div className="flex items-center space-x-3 flex-1 min-w-0">
+                <Users className="h-4 w-4 text-gray-400" />
+                <span className="truncate text-sm text-gray-600">
+                  {signature.name} <span className="text-xs text-gray-400">· {signature.fullName}</span>
+                </span>
               </div>
+              {signature.revokedAt ? (
+                <Ban className="h-4 w-4 text-red-600" aria-label="Revoked" />
+              ) : (
+                <Shield className="h-4 w-4 text-gray-400" />
+              )}
             </div>
           ))}
-          {displaySignatures.length === 0 && (
+          {displaySignatures.length === 0 && sharedSignatures.length === 0 && (
             <div className="text-center py-8">
               <Signature className="h-12 w-12 text-gray-300 mx-auto mb-3" />
               <p className="text-sm text-gray-500 mb-2" data-testid="no-signatures">
@@ -883,28 +1028,30 @@ export function Sidebar({
                     id="pdf-upload"
                     data-testid="input-file-upload"
                   />
-                  <Button 
-                    asChild 
-                    size="sm" 
-                    disabled={uploadPdfs.isPending}
-                    className="bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white font-medium rounded-md hover:shadow-xl transition-all duration-200 hover:scale-[1.02]"
-                    data-testid="button-upload-pdfs"
-                  >
-                    <label htmlFor="pdf-upload" className="cursor-pointer">
-                      {uploadPdfs.isPending ? (
-                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
-                      ) : (
-                        <Upload className="mr-1 h-4 w-4" />
-                      )}
-                      Upload
-                    </label>
-                  </Button>
+                  {can("documents.prepare") && (
+                    <Button 
+                      asChild 
+                      size="sm" 
+                      disabled={uploadPdfs.isPending}
+                      className="bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white font-medium rounded-md hover:shadow-xl transition-all duration-200 hover:scale-[1.02]"
+                      data-testid="button-upload-pdfs"
+                    >
+                      <label htmlFor="pdf-upload" className="cursor-pointer">
+                        {uploadPdfs.isPending ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Upload className="mr-1 h-4 w-4" />
+                        )}
+                        Upload
+                      </label>
+                    </Button>
+                  )}
             </div>
                       </div>
             <div className="flex w-full items-center space-x-2">
            {!bulkDeleteMode ? (
         <>
-              {displayDocuments.length > 0 && (
+              {scopedDocuments.length > 0 && can("documents.delete") && (
               <Button
                 size="sm"
                 variant="outline"
@@ -929,11 +1076,11 @@ export function Sidebar({
                             <div className="flex items-center space-x-3">
                               <Checkbox
                               className="border-red-300 hover:border-red-400 checked:!bg-red-600"
-                                checked={selectedDocumentsForDelete.size === displayDocuments.length && displayDocuments.length > 0}
+                                checked={selectedDocumentsForDelete.size === scopedDocuments.length && scopedDocuments.length > 0}
                                 onCheckedChange={handleSelectAllForDelete}
                               />
                               <span className="text-sm font-medium text-red-800">
-                                Select All ({selectedDocumentsForDelete.size}/{displayDocuments.length})
+                                Select All ({selectedDocumentsForDelete.size}/{scopedDocuments.length})
                               </span>
                             </div>
                             <div className="text-xs text-red-600">
@@ -986,83 +1133,133 @@ export function Sidebar({
         
         </div>
         
+        <JobProgress documents={displayDocuments} onDocumentsChanged={onDocumentsRefresh} />
+
+        <DocumentOrganizerBar
+          scope={documentScope}
+          onChange={setDocumentScope}
+          onDocumentsDeleted={(documentIds) => {
+            if (selectedDocument && documentIds.includes(selectedDocument.id)) {
+              onSelectDocument(null);
+            }
+            onDocumentsRefresh?.();
+          }}
+        />
+
+        <DocumentSearchBar filters={searchFilters} onChange={setSearchFilters} />
+
         {/* PDF File List */}
         <ScrollArea className="flex-1 px-6 py-2 custom-scrollbar min-h-0 pdf-documents-list">
-          <div className="space-y-2">
-            {displayDocuments.map((doc) => {
-              const isSelectedForDelete = selectedDocumentsForDelete.has(doc.id);
-              const isSelected = selectedDocument?.id === doc.id;
+          {hasSearchFilters(searchFilters) ? (
+            <DocumentSearchResults
+              filters={searchFilters}
+              scope={documentScope}
+              selectedDocumentId={selectedDocument?.id}
+              onSelectDocument={onSelectDocument}
+            />
+          ) : (
+            <div className="space-y-2">
+              {scopedDocuments.map((doc) => {
+                const isSelectedForDelete = selectedDocumentsForDelete.has(doc.id);
+                const isSelected = selectedDocument?.id === doc.id;
               
-              return (
-                <div 
-                  key={doc.id}
-                  className={`p-2 border rounded-xl transition-all duration-200 ${
-                    bulkDeleteMode 
-                      ? isSelectedForDelete 
-                        ? 'bg-red-50 border-red-300 shadow-lg' 
-                        : 'bg-white border-gray-200 hover:border-red-300 hover:bg-red-50/50'
-                      : isSelected 
-                        ? 'bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-400 shadow-lg cursor-pointer' 
-                        : 'border-blue-200/50 hover:border-blue-300 hover:bg-blue-50/50 cursor-pointer'
-                  }`}
-                  onClick={bulkDeleteMode ? undefined : () => onSelectDocument(doc)}
-                  data-testid={`document-item-${doc.id}`}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-1">
-                        {bulkDeleteMode && (
-                          <Checkbox
-                            checked={isSelectedForDelete}
-                            onCheckedChange={() => handleDocumentSelectForDelete(doc.id)}
-                            onClick={(e) => e.stopPropagation()}
-                          />
+                return (
+                  <div 
+                    key={doc.id}
+                    className={`p-2 border rounded-xl transition-all duration-200 ${
+                      bulkDeleteMode 
+                        ? isSelectedForDelete 
+                          ? 'bg-red-50 border-red-300 shadow-lg' 
+                          : 'bg-white border-gray-200 hover:border-red-300 hover:bg-red-50/50'
+                        : isSelected 
+                          ? 'bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-400 shadow-lg cursor-pointer' 
+                          : 'border-blue-200/50 hover:border-blue-300 hover:bg-blue-50/50 cursor-pointer'
+                    }`}
+                    onClick={bulkDeleteMode ? undefined : () => onSelectDocument(doc)}
+                    data-testid={`document-item-${doc.id}`}
+                  >
+                    <div className="flex items-start justify-between">
+                      {doc.pagesRenderedAt && (
+                        <img
+                          src={pageImageUrl(doc.id, 1, "thumbnail", doc.pagesRenderedAt)}
+                          alt=""
+                          loading="lazy"
+                          className="mr-2 w-12 shrink-0 rounded border border-gray-200 bg-white"
+                          data-testid={`document-thumbnail-${doc.id}`}
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 mb-1">
+                          {bulkDeleteMode && (
+                            <Checkbox
+                              checked={isSelectedForDelete}
+                              onCheckedChange={() => handleDocumentSelectForDelete(doc.id)}
+                              onClick={(e) => e.stopPropagation()}
+                            />
+                          )}
+                          <FileText className="h-4 w-4 text-red-500" />
+                          <span className="font-medium text-sm text-gray-900" data-testid={`document-name-${doc.id}`}>
+                            {doc.originalName}
+                          </span>
+                          {doc.organizationId && (
+                            <Users
+                              className="h-3.5 w-3.5 shrink-0 text-blue-500"
+                              aria-label={doc.userId === user?.id ? "Shared with your organization" : "Shared by a colleague"}
+                            />
+                          )}
+                          {/* {!bulkDeleteMode && isSelected && (
+                            <Eye className="h-4 w-4 text-primary" />
+                          )} */}
+                        </div>
+                      <p className="text-xs text-gray-500" data-testid={`document-details-${doc.id}`}>
+                        {doc.pageCount} pages • {(doc.fileSize / 1024 / 1024).toFixed(1)} MB
+                      </p>
+                      <DocumentTagBadges documentId={doc.id} />
+                      <div className="mt-2 flex items-center justify-between">
+                        {getStatusBadge(getDocumentStatus(doc), processingProgress.get(doc.id))}
+                        {!bulkDeleteMode && (
+                          <div className="flex items-center gap-1">
+                            <DocumentOrganizeMenu document={doc} />
+                            {can("documents.delete") && (
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (confirm(`Are you sure you want to delete "${doc.originalName}"?`)) {
+                                    handleDeleteDocument(doc.id);
+                                  }
+                                }}
+                                className="h-8 w-8 p-0 text-white hover:bg-red-700"
+                                data-testid={`button-delete-${doc.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
                         )}
-                        <FileText className="h-4 w-4 text-red-500" />
-                        <span className="font-medium text-sm text-gray-900" data-testid={`document-name-${doc.id}`}>
-                          {doc.originalName}
-                        </span>
-                        {/* {!bulkDeleteMode && isSelected && (
-                          <Eye className="h-4 w-4 text-primary" />
-                        )} */}
                       </div>
-                    <p className="text-xs text-gray-500" data-testid={`document-details-${doc.id}`}>
-                      {doc.pageCount} pages • {(doc.fileSize / 1024 / 1024).toFixed(1)} MB
-                    </p>
-                    <div className="mt-2 flex items-center justify-between">
-                      {getStatusBadge(getDocumentStatus(doc))}
-                      {!bulkDeleteMode && (
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (confirm(`Are you sure you want to delete "${doc.originalName}"?`)) {
-                              handleDeleteDocument(doc.id);
-                            }
-                          }}
-                          className="h-8 w-8 p-0 text-white hover:bg-red-700"
-                          data-testid={`button-delete-${doc.id}`}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
-                    </div>
+                      </div>
                     </div>
                   </div>
+                );
+              })}
+              {scopedDocuments.length === 0 && displayDocuments.length > 0 && (
+                <p className="text-center py-12 text-sm text-gray-500" data-testid="no-documents-in-scope">
+                  No documents in this folder or tag
+                </p>
+              )}
+              {displayDocuments.length === 0 && (
+                <div className="text-center py-12" data-testid="no-documents">
+                  <div className="w-16 h-16 bg-gradient-to-br from-blue-100 to-indigo-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <FileText className="h-8 w-8 text-blue-400" />
+                  </div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">No documents uploaded yet</p>
+                  <p className="text-xs text-gray-500">Upload PDF files to get started with digital signatures</p>
                 </div>
-              );
-            })}
-            {displayDocuments.length === 0 && (
-              <div className="text-center py-12" data-testid="no-documents">
-                <div className="w-16 h-16 bg-gradient-to-br from-blue-100 to-indigo-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <FileText className="h-8 w-8 text-blue-400" />
-                </div>
-                <p className="text-sm font-medium text-gray-700 mb-2">No documents uploaded yet</p>
-                <p className="text-xs text-gray-500">Upload PDF files to get started with digital signatures</p>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
         </ScrollArea>
       </div>
       
@@ -1084,6 +1281,21 @@ export function Sidebar({
           onOpenChange={setAdobeStyleSignatureModalOpen}
           onSave={handleSaveAdobeStyleSignatureModal}
         />
+
+        <OrganizationModal open={organizationOpen} onOpenChange={setOrganizationOpen} />
+
+        <DelegationsModal open={delegationsOpen} onOpenChange={setDelegationsOpen} />
+
+        <TemplatesModal
+          open={templatesOpen}
+          onOpenChange={setTemplatesOpen}
+          onDocumentCreated={(document) => {
+            if (onDocumentsRefresh) {
+              onDocumentsRefresh();
+            }
+            onSelectDocument(document);
+          }}
+        />
       </div>
     );
   }
@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  useOrganization,
+  useCreateOrganization,
+  useLeaveOrganization,
+  useInviteOrganizationMember,
+  useCancelOrganizationInvitation,
+  useUpdateOrganizationMember,
+  useRemoveOrganizationMember,
+} from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { organizationRoles, permissions, rolePermissions, type OrganizationRole, type Permission } from "@shared/schema";
+import { Building2, Check, Loader2, LogOut, Mail, Trash2, UserPlus, X } from "lucide-react";
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: "Admin",
+  attorney: "Attorney",
+  paralegal: "Paralegal",
+  viewer: "Viewer",
+};
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  "documents.view": "View & download documents",
+  "documents.prepare": "Upload & prepare documents",
+  "documents.delete": "Delete documents",
+  "documents.sign": "Sign with own signatures",
+  "documents.share": "Share with the organization",
+  "signatures.manage": "Create & revoke signatures",
+  "templates.manage": "Manage templates",
+  "envelopes.send": "Send for signing",
+  "organization.manage": "Manage members",
+};
+
+interface OrganizationModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function OrganizationModal({ open, onOpenChange }: OrganizationModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data, isLoading } = useOrganization(open);
+  const createOrganization = useCreateOrganization();
+  const leaveOrganization = useLeaveOrganization();
+  const inviteMember = useInviteOrganizationMember();
+  const cancelInvitation = useCancelOrganizationInvitation();
+  const updateMember = useUpdateOrganizationMember();
+  const removeMember = useRemoveOrganizationMember();
+
+  const [name, setName] = useState(user?.companyName || "");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OrganizationRole>("paralegal");
+
+  const organization = data?.organization;
+  const canManage = !!data?.permissions.includes("organization.manage");
+
+  const run = async (action: () => Promise<unknown>, failure: string, success?: string) => {
+    try {
+      await action();
+      if (success) toast({ title: success });
+    } catch (error: any) {
+      toast({ title: failure, description: getApiErrorMessage(error, failure), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" data-testid="organization-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-blue-600" />
+            {organization ? organization.name : "Organization"}
+            {data?.role && <Badge variant="secondary">{ROLE_LABELS[data.role]}</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : !organization ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Create an organization for your firm to share documents and signatures with colleagues and give each
+              of them a role. You will be its first admin.
+            </p>
+            <p className="text-xs text-gray-500">
+              Invited to an existing organization? Open the link in the invitation email to join.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Firm name"
+                data-testid="input-organization-name"
+              />
+              <Button
+                onClick={() => run(() => createOrganization.mutateAsync(name.trim()), "Could not create organization", "Organization created")}
+                disabled={!name.trim() || createOrganization.isPending}
+                data-testid="button-create-organization"
+              >
+                {createOrganization.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label className="text-xs">Members</Label>
+              <ScrollArea className="max-h-56 rounded-md border">
+                <div className="divide-y" data-testid="organization-members">
+                  {data.members.map((member) => (
+                    <div key={member.id} className="flex items-center gap-2 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-gray-900">
+                          {member.fullName}
+                          {member.userId === user?.id && <span className="ml-1 text-xs text-gray-500">(you)</span>}
+                        </p>
+                        <p className="truncate text-xs text-gray-500">{member.email}</p>
+                      </div>
+                      {canManage ? (
+                        <>
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) =>
+                              run(
+                                () => updateMember.mutateAsync({ userId: member.userId, role: value as OrganizationRole }),
+                                "Could not change role"
+                              )
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-32 text-sm" data-testid={`select-member-role-${member.userId}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {organizationRoles.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                  {ROLE_LABELS[value]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {member.userId !== user?.id && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 text-red-600"
+                              onClick={() => {
+                                if (confirm(`Remove ${member.fullName}? Documents they shared stop being shared.`)) {
+                                  run(() => removeMember.mutateAsync(member.userId), "Could not remove member");
+                                }
+                              }}
+                              aria-label={`Remove ${member.fullName}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </>
+                      ) : (
+                        <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+
+            {canManage && (
+              <div className="space-y-2">
+                <Label className="text-xs">Invite a member</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(event) => setEmail(event.target.value)}
+                    placeholder="Email address"
+                    className="h-9 text-sm"
+                    data-testid="input-member-email"
+                  />
+                  <Select value={role} onValueChange={(value) => setRole(value as OrganizationRole)}>
+                    <SelectTrigger className="h-9 w-32 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {organizationRoles.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {ROLE_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    className="h-9"
+                    onClick={() =>
+                      run(async () => {
+                        await inviteMember.mutateAsync({ email: email.trim(), role });
+                        setEmail("");
+                      }, "Could not send invitation", "Invitation sent")
+                    }
+                    disabled={!email.trim() || inviteMember.isPending}
+                    data-testid="button-invite-member"
+                  >
+                    <UserPlus className="mr-1 h-4 w-4" />
+                    Invite
+                  </Button>
+                </div>
+                {data.pendingInvitations.length > 0 && (
+                  <div className="divide-y rounded-md border" data-testid="pending-invitations">
+                    {data.pendingInvitations.map((invitation) => (
+                      <div key={invitation.id} className="flex items-center gap-2 px-3 py-1.5">
+                        <Mail className="h-4 w-4 shrink-0 text-gray-400" />
+                        <span className="min-w-0 flex-1 truncate text-sm text-gray-700">{invitation.email}</span>
+                        <Badge variant="outline">{ROLE_LABELS[invitation.role]}</Badge>
+                        <span className="text-xs text-gray-500">Invited</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-red-600"
+                          onClick={() => run(() => cancelInvitation.mutateAsync(invitation.id), "Could not cancel invitation")}
+                          aria-label={`Cancel the invitation to ${invitation.email}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-xs">What each role can do</Label>
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-xs" data-testid="permission-matrix">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-1.5 text-left font-medium">Permission</th>
+                      {organizationRoles.map((value) => (
+                        <th key={value} className="px-2 py-1.5 text-center font-medium">
+                          {ROLE_LABELS[value]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {permissions.map((permission) => (
+                      <tr key={permission}>
+                        <td className="px-3 py-1.5 text-gray-700">{PERMISSION_LABELS[permission]}</td>
+                        {organizationRoles.map((value) => (
+                          <td key={value} className="px-2 py-1.5 text-center">
+                            {rolePermissions[value].includes(permission) && (
+                              <Check className="mx-auto h-3.5 w-3.5 text-green-600" />
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="flex justify-end border-t pt-4">
+              <Button
+                variant="outline"
+                className="text-red-600 border-red-200 hover:bg-red-50"
+                onClick={() => {
+                  if (confirm(`Leave ${organization.name}? Documents and signatures you shared stop being shared.`)) {
+                    run(() => leaveOrganization.mutateAsync(), "Could not leave organization", "You left the organization");
+                  }
+                }}
+                disabled={leaveOrganization.isPending}
+                data-testid="button-leave-organization"
+              >
+                <LogOut className="mr-2 h-4 w-4" />
+                Leave organization
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -106,7 +106,7 @@ export function AreaSelection({ onAreaSelected, onCancel, isActive }: AreaSelect
   const selectionBox = getSelectionBox();
 
   return (
-    <div className="relative">
+    <div className="relative h-full">
       {/* Area Selection Overlay */}
       <div
         ref={containerRef}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useDocumentAuditTrail } from "@/hooks/use-pdf";
+import { useToast } from "@/hooks/use-toast";
+import { apiUrl } from "@/lib/api";
+import { type PdfDocument } from "@shared/schema";
+import {
+  History,
+  ShieldCheck,
+  ShieldAlert,
+  FileDown,
+  Loader2,
+  Upload,
+  Eye,
+  Download,
+  Trash2,
+  PenLine,
+  Move,
+  Eraser,
+  XCircle,
+  Send,
+  CheckCircle2,
+  Ban,
+  SquarePlus,
+  TextCursorInput,
+  SquareMinus,
+  Lock,
+  Users,
+  UserX,
+  UserCheck,
+  Hourglass,
+} from "lucide-react";
+
+const ACTION_LABELS: Record<string, { label: string; icon: typeof Eye }> = {
+  "document.uploaded": { label: "Document uploaded", icon: Upload },
+  "document.viewed": { label: "Document viewed", icon: Eye },
+  "document.downloaded": { label: "Document downloaded", icon: Download },
+  "document.deleted": { label: "Document deleted", icon: Trash2 },
+  "signature.applied": { label: "Signature applied", icon: PenLine },
+  "signature.moved": { label: "Signature moved", icon: Move },
+  "signature.removed": { label: "Signature removed", icon: Eraser },
+  "signature.declined": { label: "Signing declined", icon: XCircle },
+  "document.finalized": { label: "Document finalized", icon: Lock },
+  "envelope.sent": { label: "Sent for signing", icon: Send },
+  "envelope.completed": { label: "All parties signed", icon: CheckCircle2 },
+  "envelope.voided": { label: "Signing cancelled", icon: Ban },
+  "field.added": { label: "Field added", icon: SquarePlus },
+  "field.filled": { label: "Field filled in", icon: TextCursorInput },
+  "field.removed": { label: "Field removed", icon: SquareMinus },
+  "document.shared": { label: "Shared with organization", icon: Users },
+  "document.unshared": { label: "No longer shared", icon: UserX },
+  "delegation.requested": { label: "Delegated signing awaits approval", icon: Hourglass },
+  "delegation.rejected": { label: "Delegated signing rejected", icon: XCircle },
+};
+
+interface AuditTrailModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: PdfDocument;
+}
+
+export function AuditTrailModal({ open, onOpenChange, document }: AuditTrailModalProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+  const { data, isLoading, error, refetch } = useDocumentAuditTrail(document.id, open);
+
+  // The trail grows with every view, so always show the latest state
+  useEffect(() => {
+    if (open) {
+      refetch();
+    }
+  }, [open, refetch]);
+
+  const events = data?.events || [];
+  const chain = data?.chain;
+
+  const handleExportCertificate = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch(apiUrl(`api/documents/${document.id}/audit/certificate`), {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to generate certificate of completion");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = url;
+      link.download = `${document.originalName.replace(/\.pdf$/i, "")}-certificate-of-completion.pdf`;
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (exportError: any) {
+      console.error("Certificate of completion export error:", exportError);
+      toast({
+        title: "Export failed",
+        description: exportError.message || "Failed to export certificate of completion",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg">
+            <History className="h-5 w-5 text-blue-600" />
+            Audit Trail
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm text-gray-600 truncate">{document.originalName}</div>
+            {chain && (
+              <Badge
+                className={chain.valid ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}
+                data-testid="badge-audit-chain"
+              >
+                {chain.valid ? (
+                  <ShieldCheck className="mr-1 h-3 w-3" />
+                ) : (
+                  <ShieldAlert className="mr-1 h-3 w-3" />
+                )}
+                {chain.valid ? "Chain intact" : `Chain broken at #${chain.brokenAt}`}
+              </Badge>
+            )}
+          </div>
+
+          {chain && !chain.valid && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              The audit trail has been altered outside the application.
+              <ul className="mt-1 list-disc pl-5">
+                {chain.errors.map((chainError) => (
+                  <li key={chainError}>{chainError}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10 text-gray-500">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading audit trail...
+            </div>
+          ) : error ? (
+            <div className="py-10 text-center text-sm text-red-600">Failed to load audit trail</div>
+          ) : events.length === 0 ? (
+            <div className="py-10 text-center text-sm text-gray-500">No events recorded yet</div>
+          ) : (
+            <ScrollArea className="h-[360px] pr-3">
+              <ol className="space-y-2">
+                {[...events].reverse().map((event) => {
+                  const action = ACTION_LABELS[event.action] || { label: event.action, icon: History };
+                  const appliedByName = (event.details as { appliedByName?: string } | null)?.appliedByName;
+                  const Icon = action.icon;
+                  return (
+                    <li
+                      key={event.id}
+                      className="rounded-lg border border-blue-100 bg-white p-3"
+                      data-testid={`audit-event-${event.sequence}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                          <Icon className="h-4 w-4 text-blue-600" />
+                          {action.label}
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          #{event.sequence} · {new Date(event.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        {event.userEmail || event.userId || "system"}
+                        {event.ipAddress && ` from ${event.ipAddress}`}
+                      </div>
+                      {appliedByName && (
+                        <div className="mt-0.5 flex items-center gap-1 text-xs text-blue-700">
+                          <UserCheck className="h-3 w-3" />
+                          Applied by {appliedByName} on behalf of the signature's owner
+                        </div>
+                      )}
+                      {event.userAgent && (
+                        <div className="truncate text-xs text-gray-400" title={event.userAgent}>
+                          {event.userAgent}
+                        </div>
+                      )}
+                      <div className="mt-1 truncate font-mono text-[10px] text-gray-400" title={event.hash}>
+                        {event.hash}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </ScrollArea>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleExportCertificate}
+              disabled={isExporting || events.length === 0}
+              className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-xl"
+              data-testid="button-export-completion-certificate"
+            >
+              {isExporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileDown className="mr-2 h-4 w-4" />
+              )}
+              Certificate of Completion
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,432 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useAddDocumentField,
+  useDocumentFields,
+  useRemoveDocumentField,
+  useSaveDocumentFieldValues,
+} from "@/hooks/use-templates";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { fieldTypeLabels, parseOptions } from "@/lib/field-types";
+import { gridPositionOptions } from "@/lib/grid-positions";
+import {
+  fieldTypes,
+  inputFieldTypes,
+  signerFieldTypes,
+  type DocumentField,
+  type FieldType,
+  type PdfDocument,
+} from "@shared/schema";
+import { PenLine, Loader2, Plus, X, Check, Save } from "lucide-react";
+
+interface DocumentFieldsBarProps {
+  document: PdfDocument;
+  pageNumber: number;
+  signingFieldId?: string;
+  onSignField: (field: DocumentField) => void;
+  onFieldsChanged: () => void;
+}
+
+interface NewFieldDraft {
+  type: FieldType;
+  name: string;
+  gridPosition: string;
+  required: boolean;
+  groupName: string;
+  options: string;
+}
+
+const emptyDraft: NewFieldDraft = {
+  type: "text",
+  name: "",
+  gridPosition: "bottom-center",
+  required: true,
+  groupName: "",
+  options: "",
+};
+
+/**
+ * The owner's fields on the document: place new ones, type into text fields,
+ * pick from dropdowns, tick checkboxes and radio buttons, then sign. Initials,
+ * name, company and date fields fill themselves when the signature field next
+ * to them is signed. Fields found in an uploaded PDF's form are listed too.
+ */
+export function DocumentFieldsBar({
+  document,
+  pageNumber,
+  signingFieldId,
+  onSignField,
+  onFieldsChanged,
+}: DocumentFieldsBarProps) {
+  const { toast } = useToast();
+  const { data: fieldsData } = useDocumentFields(document.id);
+  const addField = useAddDocumentField();
+  const saveValues = useSaveDocumentFieldValues();
+  const removeField = useRemoveDocumentField();
+
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [adding, setAdding] = useState(false);
+  const [newField, setNewField] = useState<NewFieldDraft>(emptyDraft);
+
+  const ownerFields = (fieldsData?.fields || []).filter((field) => !field.recipientId);
+
+  useEffect(() => {
+    setDrafts({});
+    setAdding(false);
+  }, [document.id]);
+
+  const valueOf = (field: DocumentField) => (field.id in drafts ? drafts[field.id] : field.value || "");
+
+  const showError = (title: string, error: any, fallback: string) => {
+    toast({ title, description: getApiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const handleSign = (field: DocumentField) => {
+    if (Object.keys(drafts).length > 0) {
+      toast({
+        title: "Unsaved values",
+        description: "Save the values you entered before signing.",
+        variant: "destructive",
+      });
+      return;
+    }
+    onSignField(field);
+  };
+
+  const handleSaveValues = async () => {
+    try {
+      await saveValues.mutateAsync({ documentId: document.id, values: drafts });
+      setDrafts({});
+      toast({ title: "Fields saved", description: "Your entries were added to the document" });
+      onFieldsChanged();
+    } catch (error: any) {
+      showError("Could not save fields", error, "Failed to save field values");
+    }
+  };
+
+  const handleAddField = async () => {
+    try {
+      await addField.mutateAsync({
+        documentId: document.id,
+        field: {
+          name: newField.name,
+          type: newField.type,
+          role: "Owner",
+          pageNumber,
+          position: { gridPosition: newField.gridPosition },
+          required: newField.required,
+          groupName: newField.type === "radio" ? newField.groupName : undefined,
+          options: newField.type === "dropdown" ? parseOptions(newField.options) : undefined,
+        },
+      });
+      setNewField({ ...emptyDraft, type: newField.type, groupName: newField.groupName, options: newField.options });
+      toast({ title: "Field added", description: `"${newField.name}" was placed on page ${pageNumber}` });
+    } catch (error: any) {
+      showError("Could not add field", error, "Failed to add field");
+    }
+  };
+
+  const handleRemove = async (field: DocumentField) => {
+    try {
+      await removeField.mutateAsync({ documentId: document.id, fieldId: field.id });
+      setDrafts(({ [field.id]: _, ...rest }) => rest);
+      if (field.filledAt) onFieldsChanged();
+    } catch (error: any) {
+      showError("Could not remove field", error, "Failed to remove field");
+    }
+  };
+
+  // Radio buttons are shown together, once per group
+  const radioGroups = new Map<string, DocumentField[]>();
+  for (const field of ownerFields.filter((candidate) => candidate.type === "radio")) {
+    radioGroups.set(field.groupName!, [...(radioGroups.get(field.groupName!) || []), field]);
+  }
+
+  const removeButton = (field: DocumentField) =>
+    !field.appliedSignatureId && (
+      <button
+        type="button"
+        onClick={() => handleRemove(field)}
+        className="text-gray-400 hover:text-red-600"
+        title="Remove field"
+        data-testid={`button-remove-field-${field.id}`}
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    );
+
+  const renderField = (field: DocumentField) => {
+    const label = (
+      <span className="text-sm text-gray-800">
+        {field.name}
+        {field.required && inputFieldTypes.includes(field.type as FieldType) && <span className="text-red-600">*</span>}
+      </span>
+    );
+    const page = (
+      <Badge variant="secondary" className="text-xs">
+        p. {field.pageNumber}
+      </Badge>
+    );
+
+    if (field.type === "signature") {
+      return (
+        <>
+          {label}
+          {page}
+          {field.filledAt ? (
+            <Check className="h-4 w-4 text-green-600" />
+          ) : (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-blue-700"
+              onClick={() => handleSign(field)}
+              disabled={!!signingFieldId}
+              data-testid={`button-sign-field-${field.id}`}
+            >
+              {signingFieldId === field.id ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <PenLine className="h-4 w-4" />
+              )}
+              <span className="ml-1">Sign</span>
+            </Button>
+          )}
+        </>
+      );
+    }
+
+    if (signerFieldTypes.includes(field.type as FieldType)) {
+      return (
+        <>
+          {label}
+          {page}
+          {field.filledAt ? (
+            <span className="text-xs text-gray-600">{field.value}</span>
+          ) : (
+            <span className="text-xs text-gray-500">filled when you sign</span>
+          )}
+        </>
+      );
+    }
+
+    if (field.type === "checkbox") {
+      return (
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={valueOf(field) === "true"}
+            onCheckedChange={(checked) => setDrafts((current) => ({ ...current, [field.id]: checked === true ? "true" : "false" }))}
+            data-testid={`checkbox-field-${field.id}`}
+          />
+          {label}
+          {page}
+        </label>
+      );
+    }
+
+    if (field.type === "dropdown") {
+      return (
+        <>
+          {label}
+          {page}
+          <Select
+            value={valueOf(field)}
+            onValueChange={(value) => setDrafts((current) => ({ ...current, [field.id]: value }))}
+          >
+            <SelectTrigger className="h-7 w-44" data-testid={`select-field-${field.id}`}>
+              <SelectValue placeholder="Choose..." />
+            </SelectTrigger>
+            <SelectContent>
+              {((field.options as string[] | null) || []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      );
+    }
+
+    return (
+      <>
+        {label}
+        {page}
+        <Input
+          className="h-7 w-44"
+          value={valueOf(field)}
+          maxLength={field.maxLength ?? undefined}
+          onChange={(e) => setDrafts((current) => ({ ...current, [field.id]: e.target.value }))}
+          data-testid={`input-field-${field.id}`}
+        />
+      </>
+    );
+  };
+
+  return (
+    <div
+      className="flex max-h-40 flex-wrap items-center gap-2 overflow-y-auto border-b border-blue-200/50 bg-blue-50/60 px-4 py-2"
+      data-testid="document-fields-bar"
+    >
+      <span className="text-sm font-medium text-blue-900">
+        {ownerFields.length > 0 ? "Your fields:" : "No fields placed"}
+      </span>
+
+      {ownerFields
+        .filter((field) => field.type !== "radio")
+        .map((field) => (
+          <div
+            key={field.id}
+            className="flex items-center gap-2 rounded-xl border border-blue-200 bg-white px-2 py-1"
+            data-testid={`document-field-${field.id}`}
+          >
+            {renderField(field)}
+            {removeButton(field)}
+          </div>
+        ))}
+
+      {Array.from(radioGroups).map(([groupName, options]) => {
+        const selected = options.find((option) => valueOf(option) === "true");
+        return (
+          <div
+            key={groupName}
+            className="flex items-center gap-2 rounded-xl border border-blue-200 bg-white px-2 py-1"
+            data-testid={`document-field-group-${groupName}`}
+          >
+            <span className="text-sm text-gray-800">
+              {groupName}
+              {options.some((option) => option.required) && <span className="text-red-600">*</span>}
+            </span>
+            <RadioGroup
+              className="flex items-center gap-3"
+              value={selected?.id || ""}
+              onValueChange={(fieldId) =>
+                setDrafts((current) => ({
+                  ...current,
+                  ...Object.fromEntries(options.map((option) => [option.id, option.id === fieldId ? "true" : "false"])),
+                }))
+              }
+            >
+              {options.map((option) => (
+                <label key={option.id} className="flex items-center gap-1 text-sm">
+                  <RadioGroupItem value={option.id} data-testid={`radio-field-${option.id}`} />
+                  {option.name}
+                  {removeButton(option)}
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+        );
+      })}
+
+      {Object.keys(drafts).length > 0 && (
+        <Button
+          size="sm"
+          onClick={handleSaveValues}
+          disabled={saveValues.isPending}
+          className="h-8 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-700 text-white"
+          data-testid="button-save-field-values"
+        >
+          {saveValues.isPending ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Save className="mr-1 h-4 w-4" />}
+          Save
+        </Button>
+      )}
+
+      {adding ? (
+        <div className="flex flex-wrap items-center gap-2 rounded-xl border border-dashed border-blue-300 bg-white px-2 py-1">
+          <Select value={newField.type} onValueChange={(value) => setNewField({ ...newField, type: value as FieldType })}>
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {fieldTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {fieldTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="h-8 w-40"
+            placeholder={newField.type === "radio" ? "Option label" : "Field name"}
+            value={newField.name}
+            onChange={(e) => setNewField({ ...newField, name: e.target.value })}
+            data-testid="input-new-field-name"
+          />
+          {newField.type === "radio" && (
+            <Input
+              className="h-8 w-40"
+              placeholder="Group name"
+              value={newField.groupName}
+              onChange={(e) => setNewField({ ...newField, groupName: e.target.value })}
+            />
+          )}
+          {newField.type === "dropdown" && (
+            <Input
+              className="h-8 w-56"
+              placeholder="Choices, separated by commas"
+              value={newField.options}
+              onChange={(e) => setNewField({ ...newField, options: e.target.value })}
+            />
+          )}
+          <Select value={newField.gridPosition} onValueChange={(value) => setNewField({ ...newField, gridPosition: value })}>
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {gridPositionOptions.map((position) => (
+                <SelectItem key={position.id} value={position.id}>
+                  {position.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {inputFieldTypes.includes(newField.type) && (
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <Checkbox
+                checked={newField.required}
+                onCheckedChange={(checked) => setNewField({ ...newField, required: checked === true })}
+              />
+              Required
+            </label>
+          )}
+          <span className="text-xs text-gray-500">on page {pageNumber}</span>
+          <Button
+            size="sm"
+            className="h-8"
+            onClick={handleAddField}
+            disabled={
+              addField.isPending ||
+              newField.name.trim() === "" ||
+              (newField.type === "radio" && newField.groupName.trim() === "") ||
+              (newField.type === "dropdown" && parseOptions(newField.options).length === 0)
+            }
+            data-testid="button-place-field"
+          >
+            {addField.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Place"}
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8 px-2" onClick={() => setAdding(false)} title="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 text-blue-700"
+          onClick={() => setAdding(true)}
+          data-testid="button-add-document-field"
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add field
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,8 @@ import {
 } from "lucide-react";
 import { type PdfDocument } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useExportDocuments, useJob, downloadJobOutput } from "@/hooks/use-pdf";
+import { getApiErrorMessage } from "@/lib/api";
 
 interface DownloadModalProps {
   open: boolean;
@@ -33,7 +35,12 @@ export function DownloadModal({ open, onOpenChange, documents, userId }: Downloa
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
   const [downloadStatus, setDownloadStatus] = useState<'idle' | 'downloading' | 'success' | 'error'>('idle');
+  const [flattenForms, setFlattenForms] = useState(false);
+  const [jobId, setJobId] = useState<string>();
   const { toast } = useToast();
+  const exportDocuments = useExportDocuments();
+  const { data: jobData } = useJob(jobId);
+  const job = jobData?.job;
 
   // Reset selection when modal opens
   useEffect(() => {
@@ -41,9 +48,59 @@ export function DownloadModal({ open, onOpenChange, documents, userId }: Downloa
       setSelectedDocuments(new Set());
       setDownloadStatus('idle');
       setDownloadProgress(0);
+      setIsDownloading(false);
+      setJobId(undefined);
     }
   }, [open]);
 
+  // The files are put together by a background job; follow it and save its output
+  useEffect(() => {
+    if (!job || job.id !== jobId) return;
+
+    if (job.status === 'queued' || job.status === 'running') {
+      setDownloadProgress(job.progress);
+      return;
+    }
+
+    setJobId(undefined);
+    if (job.status === 'failed') {
+      setDownloadStatus('error');
+      setIsDownloading(false);
+      toast({
+        title: "Download failed",
+        description: job.error || "Failed to prepare the download",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    downloadJobOutput(job)
+      .then(() => {
+        setDownloadProgress(100);
+        setDownloadStatus('success');
+        const skipped = job.result?.skipped?.length || 0;
+        toast({
+          title: "Download successful",
+          description: `${job.result?.documentIds?.length || 1} document(s) downloaded as ${job.result?.fileName}` +
+            (skipped > 0 ? `; ${skipped} could not be included` : ''),
+        });
+
+        // Auto-close modal after 2 seconds
+        setTimeout(() => {
+          onOpenChange(false);
+        }, 2000);
+      })
+      .catch((error: any) => {
+        setDownloadStatus('error');
+        toast({
+          title: "Download failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsDownloading(false));
+  }, [job, jobId]);
+
   const handleSelectAll = () => {
     if (selectedDocuments.size === documents.length) {
       // Deselect all
@@ -80,81 +137,18 @@ export function DownloadModal({ open, onOpenChange, documents, userId }: Downloa
 
     try {
       const selectedIds = Array.from(selectedDocuments);
-      console.log('Downloading documents:', { documentIds: selectedIds, userId });
-      
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setDownloadProgress(prev => {
-          if (prev >= 90) return prev;
-          return prev + Math.random() * 15;
-        });
-      }, 200);
-
-      const response = await fetch(`/api/documents/bulk-download`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          documentIds: selectedIds,
-          userId: userId
-        }),
-      });
-
-      clearInterval(progressInterval);
-      setDownloadProgress(95);
-
-      console.log('Response status:', response.status);
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Error response:', errorText);
-        throw new Error(`Failed to download documents: ${response.status} ${errorText}`);
-      }
-
-      // Create blob from response
-      const blob = await response.blob();
-      console.log('Blob size:', blob.size, 'bytes');
-      console.log('Blob type:', blob.type);
-      
-      if (blob.size === 0) {
-        throw new Error('Downloaded file is empty');
-      }
-
-      setDownloadProgress(100);
-
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'XSignature.zip';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-
-      setDownloadStatus('success');
-      
-      toast({
-        title: "Download successful",
-        description: `${selectedDocuments.size} document(s) downloaded as XSignature.zip`,
-      });
-
-      // Auto-close modal after 2 seconds
-      setTimeout(() => {
-        onOpenChange(false);
-      }, 2000);
-
+      console.log('Queueing download of documents:', { documentIds: selectedIds, userId });
+      const { job: queued } = await exportDocuments.mutateAsync({ documentIds: selectedIds, flattenForms });
+      setJobId(queued.id);
     } catch (error: any) {
       console.error('Download error:', error);
       setDownloadStatus('error');
+      setIsDownloading(false);
       toast({
         title: "Download failed",
-        description: error.message || "Failed to download documents",
+        description: getApiErrorMessage(error, "Failed to download documents"),
         variant: "destructive",
       });
-    } finally {
-      setIsDownloading(false);
     }
   };
 
@@ -195,7 +189,7 @@ export function DownloadModal({ open, onOpenChange, documents, userId }: Downloa
                   Download Documents
                 </DialogTitle>
                 <p className="text-blue-100 text-sm">
-                  Select files to download as XSignature.zip
+                  Select files to download; several are bundled as XSignature.zip
                 </p>
               </div>
             </div>
@@ -204,7 +198,6 @@ export function DownloadModal({ open, onOpenChange, documents, userId }: Downloa
               size="sm"
               onClick={() => onOpenChange(false)}
               className="text-white hover:bg-white/20"
-              disabled={isDownloading}
             >
               <X className="h-4 w-4" />
             </Button>
@@ -248,11 +241,13 @@ export function DownloadModal({ open, onOpenChange, documents, userId }: Downloa
             <div className="mb-6 p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl border border-blue-200">
               <div className="flex items-center space-x-3 mb-3">
                 <Loader2 className="h-5 w-5 text-blue-600 animate-spin" />
-                <span className="font-medium text-blue-900">Preparing your download...</span>
+                <span className="font-medium text-blue-900">
+                  {job?.progressMessage || (job?.status === 'queued' ? 'Waiting to start...' : 'Preparing your download...')}
+                </span>
               </div>
               <Progress value={downloadProgress} className="h-2" />
               <p className="text-sm text-blue-700 mt-2">
-                {Math.round(downloadProgress)}% complete
+                {Math.round(downloadProgress)}% complete. You can close this window; the download stays available in the sidebar.
               </p>
             </div>
           )}
@@ -339,21 +334,30 @@ export function DownloadModal({ open, onOpenChange, documents, userId }: Downloa
 
           {/* Footer with download button */}
           <div className="flex justify-between items-center pt-6 border-t border-gray-200 mt-6">
-            <div className="text-sm text-gray-600">
+            <div className="flex items-center gap-4 text-sm text-gray-600">
               {selectedDocuments.size > 0 && (
                 <span className="font-medium">
                   {selectedDocuments.size} document{selectedDocuments.size !== 1 ? 's' : ''} selected
                 </span>
               )}
+              {/* Bakes filled-in form fields into the page so they can no longer be edited */}
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={flattenForms}
+                  onCheckedChange={(checked) => setFlattenForms(checked === true)}
+                  disabled={isDownloading}
+                  data-testid="checkbox-flatten-forms"
+                />
+                Flatten form fields
+              </label>
             </div>
             <div className="flex space-x-3">
               <Button
                 variant="outline"
                 onClick={() => onOpenChange(false)}
-                disabled={isDownloading}
                 className="px-6"
               >
-                Cancel
+                {isDownloading ? 'Close' : 'Cancel'}
               </Button>
               <Button
                 onClick={handleDownload}
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { type DigitalSignature, type AppliedSignature } from "@shared/schema";
+import { type PublicSignature, type AppliedSignature } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { 
@@ -10,7 +10,7 @@ import {
 } from "lucide-react";
 
 interface SignatureBoxProps {
-  signature: DigitalSignature;
+  signature: PublicSignature;
   appliedSignature: AppliedSignature;
   position: { x: number; y: number };
   onMove: (x: number, y: number) => void;
@@ -202,7 +202,7 @@ function SignatureBox({
 }
 
 interface EnhancedSignatureGridProps {
-  signatures: DigitalSignature[];
+  signatures: PublicSignature[];
   appliedSignatures: AppliedSignature[];
   onApplySignature: (signatureId: string, position: string) => void;
   onRemoveSignature: (appliedSignatureId: string) => void;
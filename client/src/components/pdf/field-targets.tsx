@@ -0,0 +1,59 @@
+import { useDocumentFields } from "@/hooks/use-templates";
+import { getPageSize, isPdfPosition, toViewerBox } from "@/lib/pdf-coordinates";
+import { type DocumentField, type PdfDocument, type PdfPosition } from "@shared/schema";
+import { PenLine, Loader2 } from "lucide-react";
+
+interface FieldTargetsProps {
+  document: PdfDocument;
+  pageNumber: number;
+  scale: number;
+  signingFieldId?: string;
+  onSignField: (field: DocumentField) => void;
+}
+
+/**
+ * Outlines the owner's unsigned signature fields on the page being viewed,
+ * including those that came with the uploaded PDF's form, so the owner can
+ * sign straight into them.
+ */
+export function FieldTargets({ document, pageNumber, scale, signingFieldId, onSignField }: FieldTargetsProps) {
+  const { data: fieldsData } = useDocumentFields(document.id);
+
+  const pageSize = getPageSize(document, pageNumber);
+  const targets = (fieldsData?.fields || []).filter(
+    (field) =>
+      field.type === "signature" &&
+      !field.recipientId &&
+      !field.filledAt &&
+      field.pageNumber === pageNumber &&
+      isPdfPosition(field.position)
+  );
+
+  return (
+    <>
+      {targets.map((field) => {
+        const position = field.position as PdfPosition;
+        const box = toViewerBox(position, pageSize, scale);
+        return (
+          <button
+            key={field.id}
+            type="button"
+            onClick={() => onSignField(field)}
+            disabled={!!signingFieldId}
+            title={`Sign "${field.name}"`}
+            className="absolute flex items-center justify-center gap-1 rounded border-2 border-dashed border-blue-500 bg-blue-100/60 text-xs font-medium text-blue-800 hover:bg-blue-200/70"
+            style={{
+              ...box,
+              transform: position.rotation ? `rotate(${position.rotation}deg)` : undefined,
+              zIndex: 900,
+            }}
+            data-testid={`field-target-${field.id}`}
+          >
+            {signingFieldId === field.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <PenLine className="h-4 w-4" />}
+            Sign here
+          </button>
+        );
+      })}
+    </>
+  );
+}
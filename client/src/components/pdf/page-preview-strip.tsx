@@ -0,0 +1,55 @@
+import { useDocumentPages, pageImageUrl } from "@/hooks/use-pdf";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+
+interface PagePreviewStripProps {
+  documentId: string;
+  pageNumber: number;
+  onPageChange: (pageNumber: number) => void;
+}
+
+// Server-rendered pages shown while the PDF itself is still loading
+export function PagePreviewStrip({ documentId, pageNumber, onPageChange }: PagePreviewStripProps) {
+  const { data } = useDocumentPages(documentId);
+  const pages = data?.pages || [];
+  if (pages.length === 0) {
+    return null;
+  }
+
+  const current = pages.find((page) => page.pageNumber === pageNumber) || pages[0];
+
+  return (
+    <div className="mb-6 space-y-3" data-testid="page-preview-strip">
+      <img
+        src={pageImageUrl(documentId, current.pageNumber, "preview", data!.renderedAt)}
+        alt={`Page ${current.pageNumber}`}
+        className="mx-auto max-h-[45vh] w-auto rounded border border-gray-200 bg-white shadow-sm"
+        style={{ aspectRatio: `${current.width} / ${current.height}` }}
+        data-testid="page-preview"
+      />
+      <ScrollArea className="w-full whitespace-nowrap">
+        <div className="flex gap-2 pb-2">
+          {pages.map((page) => (
+            <button
+              key={page.pageNumber}
+              type="button"
+              onClick={() => onPageChange(page.pageNumber)}
+              className={`shrink-0 rounded border-2 bg-white ${
+                page.pageNumber === current.pageNumber ? "border-blue-500" : "border-transparent hover:border-blue-200"
+              }`}
+              aria-label={`Page ${page.pageNumber}`}
+              data-testid={`page-thumbnail-${page.pageNumber}`}
+            >
+              <img
+                src={pageImageUrl(documentId, page.pageNumber, "thumbnail", data!.renderedAt)}
+                alt=""
+                loading="lazy"
+                className="h-20 w-auto"
+              />
+            </button>
+          ))}
+        </div>
+        <ScrollBar orientation="horizontal" />
+      </ScrollArea>
+    </div>
+  );
+}
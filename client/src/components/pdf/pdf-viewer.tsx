@@ -1,16 +1,32 @@
 import { useState, useRef, useEffect } from "react";
 import { Document, Page, pdfjs } from "react-pdf";
-import { useDocumentSignatures, useApplySignature, useRemoveSignature, useUpdateSignaturePosition } from "@/hooks/use-pdf";
+import {
+  useDocumentSignatures,
+  useApplySignature,
+  useRemoveSignature,
+  useUpdateSignaturePosition,
+  useFinalizeDocument,
+} from "@/hooks/use-pdf";
 import { useDigitalSignatures } from "@/hooks/use-signature";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { PasswordVerificationModal } from "@/components/signature/password-verification-modal";
 import { DownloadModal } from "./download-modal";
-import { apiUrl } from "@/lib/api";
+import { AuditTrailModal } from "./audit-trail-modal";
+import { VersionHistoryModal } from "./version-history-modal";
+import { PagePreviewStrip } from "./page-preview-strip";
+import { SendForSigningModal } from "./send-for-signing-modal";
+import { DocumentFieldsBar } from "./document-fields-bar";
+import { FieldTargets } from "./field-targets";
+import { useFieldSigning } from "@/hooks/use-field-signing";
+import { getPageSize, isPdfPosition, toPdfPosition } from "@/lib/pdf-coordinates";
+import { TemplateEditorModal } from "@/components/template/template-editor-modal";
+import { apiUrl, getApiErrorMessage } from "@/lib/api";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { SimpleDragLayer } from "./simple-drag-layer";
 import { AreaSelection } from "./area-selection";
-import { type PdfDocument } from "@shared/schema";
+import { type PdfDocument, type PdfPosition } from "@shared/schema";
 import { useQueryClient } from "@tanstack/react-query";
 import {
   ZoomIn,
@@ -18,9 +34,14 @@ import {
   ChevronLeft,
   ChevronRight,
   Download,
+  History,
+  Users,
   Grid3X3,
   RefreshCw,
   FileText,
+  LayoutTemplate,
+  Layers,
+  Lock,
 } from "lucide-react";
 
 // Set up PDF.js worker with improved error handling
@@ -100,8 +121,8 @@ export function PdfViewer({
   const [scale, setScale] = useState<number>(1);
   const [showGrid, setShowGrid] = useState<boolean>(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
-  const [selectedGridPosition, setSelectedGridPosition] = useState<string>("middle-center");
   const [pdfTimestamp, setPdfTimestamp] = useState<number>(Date.now());
+  const fieldSigning = useFieldSigning(document, selectedSignatureId, () => setPdfTimestamp(Date.now()));
   const [retryCount, setRetryCount] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isApplyingSignature, setIsApplyingSignature] = useState<boolean>(false);
@@ -182,7 +203,6 @@ export function PdfViewer({
   }, [isSignaturePanelLoading, isApplyingSignature]);
 
   const [pdfLoaded, setPdfLoaded] = useState<boolean>(false);
-  const [isReadOnly, setIsReadOnly] = useState<boolean>(false);
   const [preloadNext, setPreloadNext] = useState<boolean>(false);
   const [areaSelectionMode, setAreaSelectionMode] = useState<boolean>(false);
   const [selectedAreas, setSelectedAreas] = useState<Array<{
@@ -194,9 +214,13 @@ export function PdfViewer({
   }>>([]);
   const [passwordModalOpen, setPasswordModalOpen] = useState(false);
   const [showDownloadModal, setShowDownloadModal] = useState(false);
+  const [showAuditTrail, setShowAuditTrail] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showSendForSigning, setShowSendForSigning] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
   const [pendingSignatureApplication, setPendingSignatureApplication] = useState<{
     signatureId: string;
-    position: string | { x: number; y: number; width: number; height: number };
+    position: string | PdfPosition;
     pageNumbers?: number[];
     applyToAllPages?: boolean;
     isMoveOperation?: boolean;
@@ -205,7 +229,6 @@ export function PdfViewer({
   const [pageInputValue, setPageInputValue] = useState<string>("");
   
   // Use external position if provided, otherwise use internal state
-  const currentGridPosition = externalSelectedPosition || selectedGridPosition;
   const containerRef = useRef<HTMLDivElement>(null);
   const previousDocumentRef = useRef<string | null>(null);
 
@@ -348,13 +371,10 @@ export function PdfViewer({
   const applySignature = useApplySignature();
   const removeSignature = useRemoveSignature();
   const updateSignaturePosition = useUpdateSignaturePosition();
+  const finalizeDocument = useFinalizeDocument();
 
-  // Check if document is read-only (has been signed)
-  useEffect(() => {
-    if (document) {
-      setIsReadOnly(false);
-    }
-  }, [document]);
+  // A finalized document is locked: nothing on it can be placed, moved or removed
+  const isReadOnly = document.isReadOnly;
 
   const signatures = (signaturesData as any)?.signatures || [];
   const appliedSignatures = (appliedSignaturesData as any)?.signatures || [];
@@ -501,26 +521,6 @@ export function PdfViewer({
     setScale(prevScale => Math.max(0.5, Math.min(prevScale + offset, 2.0)));
   };
 
-  // UPDATED: Handle apply signature with page selection
-  const handleApplySignature = async (signatureId: string, position: string) => {
-    const signatures = (signaturesData as any)?.signatures || [];
-    const selectedSignature = signatures.find((s: any) => s.id === signatureId);
-    console.log("PDF Viewer - Selected signature:", selectedSignature);
-    console.log("PDF Viewer - Signature password:", selectedSignature?.password);
-    
-    if (selectedSignature?.password && selectedSignature.password.trim() !== "") {
-      setPendingSignatureApplication({
-        signatureId,
-        position,
-        applyToAllPages // Store the current setting
-      });
-      setPasswordModalOpen(true);
-      return;
-    }
-
-    await applySignatureWithData(signatureId, position, undefined, applyToAllPages);
-  };
-
   // UPDATED: Apply signature with page selection
   const applySignatureWithData = async (
     signatureId: string, 
@@ -539,21 +539,8 @@ export function PdfViewer({
           width: 220,
           height: 100,
         };
-      } else if (typeof position === 'object' && position.x !== undefined && position.y !== undefined) {
-        const pdfPageElement = globalThis.document?.querySelector('.react-pdf__Page') as HTMLElement;
-        const viewerDimensions = pdfPageElement ? {
-          viewerWidth: pdfPageElement.getBoundingClientRect().width,
-          viewerHeight: pdfPageElement.getBoundingClientRect().height
-        } : { viewerWidth: 800, viewerHeight: 600 };
-        
-        positionData = {
-          gridPosition: position.gridPosition || "custom",
-          x: position.x,
-          y: position.y,
-          width: 220,
-          height: 100,
-          ...viewerDimensions
-        };
+      } else if (isPdfPosition(position)) {
+        positionData = position;
       } else {
         positionData = {
           gridPosition: "middle-center",
@@ -612,7 +599,6 @@ export function PdfViewer({
         title: "Signature applied",
         description: `Signature applied to ${applyToAll ? 'all' : 'current'} page(s).`,
       });
-      setSelectedGridPosition("");
       
     } catch (error: any) {
       toast({
@@ -701,24 +687,9 @@ export function PdfViewer({
         
         let positionData;
         
-        if (typeof pendingSignatureApplication.position === 'object' && pendingSignatureApplication.position !== null) {
-          const pos = pendingSignatureApplication.position as { x: number; y: number; width: number; height: number };
-          
-          const pdfPageElement = globalThis.document?.querySelector('.react-pdf__Page') as HTMLElement;
-          const viewerDimensions = pdfPageElement ? {
-            viewerWidth: pdfPageElement.getBoundingClientRect().width,
-            viewerHeight: pdfPageElement.getBoundingClientRect().height
-          } : { viewerWidth: 800, viewerHeight: 600 };
-          
-          positionData = {
-            gridPosition: "custom",
-            x: pos.x,
-            y: pos.y,
-            width: pos.width || 220,
-            height: pos.height || 100,
-            ...viewerDimensions
-          };
-          console.log('✅ Using custom position from drag operation:', positionData);
+        if (isPdfPosition(pendingSignatureApplication.position)) {
+          positionData = pendingSignatureApplication.position;
+          console.log('✅ Using position from area selection:', positionData);
         } else {
           positionData = {
             gridPosition: "middle-center",
@@ -779,24 +750,9 @@ export function PdfViewer({
             height: 100,
           };
           console.log('📍 Using grid position from pending application:', positionData);
-        } else if (typeof pendingSignatureApplication.position === 'object' && pendingSignatureApplication.position !== null) {
-          const pos = pendingSignatureApplication.position as { x: number; y: number; width: number; height: number };
-          
-          const pdfPageElement = globalThis.document?.querySelector('.react-pdf__Page') as HTMLElement;
-          const viewerDimensions = pdfPageElement ? {
-            viewerWidth: pdfPageElement.getBoundingClientRect().width,
-            viewerHeight: pdfPageElement.getBoundingClientRect().height
-          } : { viewerWidth: 800, viewerHeight: 600 };
-          
-          positionData = {
-            gridPosition: "custom",
-            x: pos.x,
-            y: pos.y,
-            width: pos.width || 220,
-            height: pos.height || 100,
-            ...viewerDimensions
-          };
-          console.log('✅ Using custom position from drag operation:', positionData);
+        } else if (isPdfPosition(pendingSignatureApplication.position)) {
+          positionData = pendingSignatureApplication.position;
+          console.log('✅ Using position from area selection:', positionData);
         } else {
           positionData = {
             gridPosition: "middle-center",
@@ -868,10 +824,10 @@ export function PdfViewer({
       console.log('🗑️ Removing signature:', { 
         appliedSignatureId, 
         signatureId: currentSignature.signatureId,
-        hasPassword: !!originalSignature.password 
+        hasPassword: originalSignature.hasPassword 
       });
 
-      if (originalSignature.password && originalSignature.password.trim() !== "") {
+      if (originalSignature.hasPassword) {
         setPendingSignatureApplication({
           signatureId: currentSignature.signatureId,
           position: "remove",
@@ -950,7 +906,7 @@ export function PdfViewer({
         appliedSignatureId, 
         signatureId: currentSignature.signatureId,
         removeFromAllPages,
-        hasPassword: !!originalSignature.password 
+        hasPassword: originalSignature.hasPassword 
       });
 
       setPendingSignatureApplication({
@@ -995,10 +951,10 @@ export function PdfViewer({
       console.log('🗑️ Removing signature from all pages:', { 
         appliedSignatureId, 
         signatureId: currentSignature.signatureId,
-        hasPassword: !!originalSignature.password 
+        hasPassword: originalSignature.hasPassword 
       });
 
-      if (originalSignature.password && originalSignature.password.trim() !== "") {
+      if (originalSignature.hasPassword) {
         setPendingSignatureApplication({
           signatureId: currentSignature.signatureId,
           position: "remove-all",
@@ -1061,7 +1017,7 @@ export function PdfViewer({
   };
 
   // UPDATED: Handle move signature with page selection - NO PASSWORD REQUIRED for drag operations
-  const handleMoveSignature = async (appliedSignatureId: string, x: number, y: number, viewerDimensions?: { viewerWidth: number; viewerHeight: number }) => {
+  const handleMoveSignature = async (appliedSignatureId: string, newPosition: PdfPosition) => {
     try {
       const currentSignature = currentPageSignatures.find((sig: any) => sig.id === appliedSignatureId);
       if (!currentSignature) {
@@ -1083,19 +1039,10 @@ export function PdfViewer({
         return;
       }
 
-      const newPosition = { 
-        gridPosition: "custom",
-        x: x,
-        y: y,
-        width: 220,
-        height: 100,
-        ...(viewerDimensions || {})
-      };
-
       console.log('🔄 Moving signature (drag operation - no password required):', { 
         appliedSignatureId, 
         newPosition, 
-        hasPassword: !!originalSignature.password 
+        hasPassword: originalSignature.hasPassword 
       });
 
       // SKIP PASSWORD CHECK FOR DRAG OPERATIONS - Directly update position
@@ -1140,156 +1087,6 @@ export function PdfViewer({
     }
   };
 
-  const handleSaveSignatureToPages = async (appliedSignatureId: string, pageOption: 'current' | 'all', currentPosition?: any) => {
-    try {
-      console.log('💾 handleSaveSignatureToPages called - setting isApplyingSignature to true');
-      setIsApplyingSignature(true);
-      
-      const appliedSignature = currentPageSignatures.find((sig: any) => sig.id === appliedSignatureId);
-      if (!appliedSignature) {
-        toast({
-          title: "Signature not found",
-          description: "The signature could not be found.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      console.log('💾 Saving signature - current position data:', {
-        appliedSignatureId,
-        originalPosition: appliedSignature.position,
-        currentPageSignatures: currentPageSignatures.map((s: any) => ({ id: s.id, position: s.position }))
-      });
-
-      const signature = signatures.find((s: any) => s.id === appliedSignature.signatureId);
-      if (!signature) {
-        toast({
-          title: "Signature not found",
-          description: "The signature data could not be found.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      let pageNumbers: number[];
-      if (pageOption === 'current') {
-        pageNumbers = [pageNumber];
-      } else {
-        pageNumbers = Array.from({ length: numPages }, (_, i) => i + 1);
-      }
-
-      let finalPosition = currentPosition;
-      if (!finalPosition) {
-        const cachedData = queryClient.getQueryData(["/api/documents", document.id, "signatures"]) as any;
-        const updatedSignature = cachedData?.signatures?.find((s: any) => s.id === appliedSignatureId);
-        finalPosition = updatedSignature?.position || appliedSignature.position;
-      }
-
-      console.log('💾 Using position:', {
-        providedPosition: currentPosition,
-        originalPosition: appliedSignature.position,
-        finalPosition: finalPosition
-      });
-
-      if (signature.password && signature.password.trim() !== "") {
-        setPendingSignatureApplication({
-          signatureId: appliedSignature.signatureId,
-          position: finalPosition,
-        });
-        setPasswordModalOpen(true);
-        return;
-      }
-
-      let positionData;
-      if (finalPosition && typeof finalPosition === 'object') {
-        const pos = finalPosition as any;
-        
-        console.log('🔍 Processing position data:', {
-          pos,
-          gridPosition: pos.gridPosition,
-          hasX: pos.x !== undefined,
-          hasY: pos.y !== undefined,
-          x: pos.x,
-          y: pos.y,
-          gridPositionType: typeof pos.gridPosition
-        });
-        
-        if (pos.gridPosition && typeof pos.gridPosition === 'object') {
-          const gridPos = pos.gridPosition as any;
-          positionData = { 
-            gridPosition: "custom",
-            x: gridPos.x,
-            y: gridPos.y
-          };
-          console.log('✅ Using nested gridPosition object:', positionData);
-        } else if (pos.gridPosition === "custom" && pos.x !== undefined && pos.y !== undefined) {
-          positionData = { 
-            gridPosition: "custom",
-            x: pos.x,
-            y: pos.y
-          };
-          console.log('✅ Using custom position with coordinates:', positionData);
-        } else if (pos.gridPosition && typeof pos.gridPosition === 'string' && pos.gridPosition !== "custom") {
-          positionData = { gridPosition: pos.gridPosition };
-          console.log('📍 Using grid position:', positionData);
-        } else if (pos.x !== undefined && pos.y !== undefined) {
-          positionData = { 
-            gridPosition: "custom",
-            x: pos.x,
-            y: pos.y
-          };
-          console.log('🎯 Using fallback custom position:', positionData);
-        } else {
-          positionData = finalPosition;
-          console.log('🔄 Using fallback position:', positionData);
-        }
-      } else {
-        positionData = finalPosition;
-        console.log('🔄 Using original position (not object):', positionData);
-      }
-
-      console.log('💾 Processed position data:', positionData);
-
-      console.log("Sending position data to backend:", positionData);
-      await applySignature.mutateAsync({
-        documentId: document.id,
-        signatureId: appliedSignature.signatureId,
-        pageNumbers: pageNumbers,
-        position: positionData,
-      });
-
-      setTimeout(() => {
-        const queryKey = ["/api/documents", document.id, "signatures"];
-        queryClient.invalidateQueries({ 
-          queryKey,
-          refetchType: 'active'
-        });
-        
-        setPdfTimestamp(Date.now());
-      }, 100);
-
-      toast({
-        title: "Signature saved",
-        description: `Signature saved to ${pageNumbers.length} page(s).`,
-      });
-    } catch (error: any) {
-      toast({
-        title: "Failed to save signature",
-        description: error.message,
-        variant: "destructive",
-      });
-    } finally {
-      setIsApplyingSignature(false);
-    }
-  };
-
-  const handleGridPositionChange = (position: string) => {
-    setSelectedGridPosition(position);
-    if (onPositionChange) {
-      onPositionChange(position);
-    }
-  };
-
   const handleDownload = () => {
     setShowDownloadModal(true);
   };
@@ -1321,6 +1118,31 @@ export function PdfViewer({
     setShowGrid(!showGrid);
   };
 
+  const handleFinalize = async () => {
+    if (
+      !window.confirm(
+        `Finalize "${document.originalName}"? The signed PDF is sealed and signatures can no longer be added, moved or removed.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const result = await finalizeDocument.mutateAsync({ documentId: document.id });
+      setShowGrid(false);
+      toast({
+        title: "Document finalized",
+        description: `The sealed copy is stored as version ${result.version.versionNumber}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not finalize document",
+        description: getApiErrorMessage(error, "Failed to finalize document"),
+        variant: "destructive",
+      });
+    }
+  };
+
   // UPDATED: Handle area selection with page selection
   const handleAreaSelected = async (area: { x: number; y: number; width: number; height: number }) => {
     if (!selectedSignatureId) {
@@ -1335,31 +1157,27 @@ export function PdfViewer({
     const signatures = (signaturesData as any)?.signatures || [];
     const selectedSignature = signatures.find((s: any) => s.id === selectedSignatureId);
     console.log("Area Selection - Selected signature:", selectedSignature);
-    console.log("Area Selection - Signature password:", selectedSignature?.password);
+    console.log("Area Selection - Signature has password:", selectedSignature?.hasPassword);
     
-    if (selectedSignature?.password && selectedSignature.password.trim() !== "") {
+    // The overlay covers the rendered page, so the area is in page CSS pixels
+    const position = toPdfPosition(
+      { left: area.x, top: area.y, width: area.width, height: area.height },
+      getPageSize(document, pageNumber),
+      scale
+    );
+
+    if (selectedSignature?.hasPassword) {
       setPendingSignatureApplication({
         signatureId: selectedSignatureId,
         pageNumbers: applyToAllPages ? undefined : [pageNumber],
-        position: {
-          x: area.x,
-          y: area.y,
-          width: area.width,
-          height: area.height,
-        },
+        position,
         applyToAllPages // Store the current setting
       });
       setPasswordModalOpen(true);
       return;
     }
 
-    await applySignatureWithData(selectedSignatureId, {
-      gridPosition: "custom",
-      x: area.x,
-      y: area.y,
-      width: area.width,
-      height: area.height,
-    }, undefined, applyToAllPages);
+    await applySignatureWithData(selectedSignatureId, position, undefined, applyToAllPages);
 
     const newArea = {
       id: `area-${Date.now()}`,
@@ -1440,6 +1258,16 @@ export function PdfViewer({
                   : document.originalName
                 }
               </h2>
+              {isReadOnly && (
+                <Badge
+                  className="bg-amber-100 text-amber-800 hover:bg-amber-100 border border-amber-200"
+                  title={document.finalizedAt ? `Finalized ${new Date(document.finalizedAt).toLocaleString()}` : "Finalized"}
+                  data-testid="badge-document-finalized"
+                >
+                  <Lock className="mr-1 h-3 w-3" />
+                  Finalized
+                </Badge>
+              )}
             </div>
             <div className="flex items-center space-x-2 text-sm text-gray-600 bg-white/60 px-3 py-1 rounded-full backdrop-blur-sm">
               <span className="text-gray-400">Pages</span>
@@ -1520,18 +1348,32 @@ export function PdfViewer({
             
             {/* Action Buttons */}
             <div className="flex items-center space-x-3">
-              <Button
-                onClick={toggleGrid}
-                className={`${
-                  showGrid 
-                    ? "bg-gradient-to-r from-blue-600 to-indigo-700 text-white" 
-                    : "bg-gradient-to-r from-blue-600 to-indigo-700 text-white border-blue-200/50"
-                } rounded-xl transition-all duration-200 hover:scale-[1.02]`}
-                data-testid="button-apply-signature"
-              >
-                <Grid3X3 className="mr-2 h-4 w-4" />
-                {showGrid ? "Save " : "Edit"}
-              </Button>
+              {!isReadOnly && (
+                <Button
+                  onClick={toggleGrid}
+                  className={`${
+                    showGrid 
+                      ? "bg-gradient-to-r from-blue-600 to-indigo-700 text-white" 
+                      : "bg-gradient-to-r from-blue-600 to-indigo-700 text-white border-blue-200/50"
+                  } rounded-xl transition-all duration-200 hover:scale-[1.02]`}
+                  data-testid="button-apply-signature"
+                >
+                  <Grid3X3 className="mr-2 h-4 w-4" />
+                  {showGrid ? "Save " : "Edit"}
+                </Button>
+              )}
+              {!isReadOnly && appliedSignatures.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={handleFinalize}
+                  disabled={finalizeDocument.isPending}
+                  className="rounded-xl border-amber-300 text-amber-800 hover:bg-amber-50"
+                  data-testid="button-finalize-document"
+                >
+                  <Lock className="mr-2 h-4 w-4" />
+                  {finalizeDocument.isPending ? "Finalizing..." : "Finalize"}
+                </Button>
+              )}
               <Button
                 variant="secondary"
                 onClick={handleDownload}
@@ -1541,11 +1383,60 @@ export function PdfViewer({
                 <Download className="mr-2 h-4 w-4" />
                 Download
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowAuditTrail(true)}
+                className="rounded-xl border-blue-200 text-blue-700 hover:bg-blue-50"
+                data-testid="button-audit-trail"
+              >
+                <History className="mr-2 h-4 w-4" />
+                Audit Trail
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowVersions(true)}
+                className="rounded-xl border-blue-200 text-blue-700 hover:bg-blue-50"
+                data-testid="button-version-history"
+              >
+                <Layers className="mr-2 h-4 w-4" />
+                Versions
+              </Button>
+              {!isReadOnly && (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowSendForSigning(true)}
+                  className="rounded-xl border-blue-200 text-blue-700 hover:bg-blue-50"
+                  data-testid="button-send-for-signing"
+                >
+                  <Users className="mr-2 h-4 w-4" />
+                  Send for Signing
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => setShowSaveTemplate(true)}
+                className="rounded-xl border-blue-200 text-blue-700 hover:bg-blue-50"
+                data-testid="button-save-as-template"
+              >
+                <LayoutTemplate className="mr-2 h-4 w-4" />
+                Save as Template
+              </Button>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Fields the owner places, fills in and signs */}
+      {!isReadOnly && (
+        <DocumentFieldsBar
+          document={document}
+          pageNumber={pageNumber}
+          signingFieldId={fieldSigning.signingFieldId}
+          onSignField={fieldSigning.requestSign}
+          onFieldsChanged={() => setPdfTimestamp(Date.now())}
+        />
+      )}
+
       {/* PDF Display */}
       <div className="flex-1 p-4 overflow-auto" ref={containerRef}>
         <div className="max-w-6xl mx-auto h-full flex flex-col">
@@ -1677,6 +1568,10 @@ export function PdfViewer({
                     </>
                   ) : (
                     <>
+                      {/* Also queues the images of documents uploaded before they existed */}
+                      {document?.status === "processed" && (
+                        <PagePreviewStrip documentId={document.id} pageNumber={pageNumber} onPageChange={setPageNumber} />
+                      )}
                       <h3 className="text-xl font-semibold text-gray-900 mb-3">Loading PDF...</h3>
                       <p className="text-gray-600 mb-6">
                         {retryCount > 0 ? `Retry attempt ${retryCount}/3` : "This may take a few moments"}
@@ -1795,44 +1690,53 @@ export function PdfViewer({
                           </div>
                         }
                       />
+                      {/* Unsigned signature fields to sign into */}
+                      {!isReadOnly && (
+                        <FieldTargets
+                          document={document}
+                          pageNumber={pageNumber}
+                          scale={scale}
+                          signingFieldId={fieldSigning.signingFieldId}
+                          onSignField={fieldSigning.requestSign}
+                        />
+                      )}
+
+                      {/* Simple Drag Layer - Only show when grid is visible AND there are applied signatures */}
+                      {!passwordModalOpen && !isReadOnly && showGrid && currentPageSignatures.length > 0 && (
+                        <div
+                          className="absolute inset-0"
+                          data-testid="simple-drag-layer"
+                          style={{
+                            pointerEvents: 'none',
+                            zIndex: 1000,
+                          }}
+                        >
+                          <SimpleDragLayer
+                            signatures={signatures}
+                            appliedSignatures={currentPageSignatures}
+                            pageSize={getPageSize(document, pageNumber)}
+                            scale={scale}
+                            onRemoveSignature={handleRemoveSignature}
+                            onRemoveSignatureFromAllPages={handleRemoveSignatureFromAllPages}
+                            onRemoveWithPassword={handleRemoveWithPassword}
+                            onMoveSignature={handleMoveSignature}
+                            applyToAllPages={applyToAllPages}
+                          />
+                        </div>
+                      )}
+
+                      {/* Area Selection Overlay */}
+                      {areaSelectionMode && !isReadOnly && (
+                        <div className="absolute inset-0" style={{ zIndex: 1001 }} data-testid="area-selection-overlay">
+                          <AreaSelection
+                            onAreaSelected={handleAreaSelected}
+                            onCancel={handleAreaSelectionCancel}
+                            isActive={areaSelectionMode}
+                          />
+                        </div>
+                      )}
                     </div>
                     
-                    {/* Simple Drag Layer - Only show when grid is visible AND there are applied signatures */}
-                    {!passwordModalOpen && showGrid && currentPageSignatures.length > 0 && (
-                      <div 
-                        className="absolute inset-0" 
-                        data-testid="simple-drag-layer"
-                        style={{
-                          pointerEvents: 'none',
-                          zIndex: 1000,
-                        }}
-                      >
-                        <SimpleDragLayer
-                          signatures={signatures}
-                          appliedSignatures={currentPageSignatures}
-                          onApplySignature={handleApplySignature}
-                          onRemoveSignature={handleRemoveSignature}
-                          onRemoveSignatureFromAllPages={handleRemoveSignatureFromAllPages}
-                          onRemoveWithPassword={handleRemoveWithPassword}
-                          onMoveSignature={handleMoveSignature}
-                          onPositionChange={handleGridPositionChange}
-                          selectedPosition={currentGridPosition}
-                          onSaveSignatureToPages={handleSaveSignatureToPages}
-                          applyToAllPages={applyToAllPages} 
-                        />
-                      </div>
-                    )}
-
-                    {/* Area Selection Overlay */}
-                    {areaSelectionMode && (
-                      <div className="absolute inset-0 pointer-events-none" data-testid="area-selection-overlay">
-                        <AreaSelection
-                          onAreaSelected={handleAreaSelected}
-                          onCancel={handleAreaSelectionCancel}
-                          isActive={areaSelectionMode}
-                        />
-                      </div>
-                    )}
                 </Document>
                 
                 {/* Fallback PDF Viewer (if main viewer fails) */}
@@ -1865,6 +1769,16 @@ export function PdfViewer({
       signatureName={(signaturesData as any)?.signatures?.find((s: any) => s.id === pendingSignatureApplication?.signatureId)?.name || ""}
     />
 
+    {/* Password for signing a field */}
+    <PasswordVerificationModal
+      open={fieldSigning.passwordPending}
+      onOpenChange={(open) => {
+        if (!open) fieldSigning.cancelPassword();
+      }}
+      onPasswordVerified={fieldSigning.confirmPassword}
+      signatureName={fieldSigning.signatureName}
+    />
+
     {/* Download Modal */}
     <DownloadModal
       open={showDownloadModal}
@@ -1872,6 +1786,34 @@ export function PdfViewer({
       documents={documents}
       userId={user?.id || ""}
     />
+
+    {/* Audit Trail Modal */}
+    <AuditTrailModal
+      open={showAuditTrail}
+      onOpenChange={setShowAuditTrail}
+      document={document}
+    />
+
+    {/* Version History Modal */}
+    <VersionHistoryModal
+      open={showVersions}
+      onOpenChange={setShowVersions}
+      document={document}
+    />
+
+    {/* Send for Signing Modal */}
+    <SendForSigningModal
+      open={showSendForSigning}
+      onOpenChange={setShowSendForSigning}
+      document={document}
+    />
+
+    {/* Save as Template Modal */}
+    <TemplateEditorModal
+      open={showSaveTemplate}
+      onOpenChange={setShowSaveTemplate}
+      document={document}
+    />
   </>
   );
 }
\ No newline at end of file
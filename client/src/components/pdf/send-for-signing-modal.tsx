@@ -0,0 +1,361 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDocumentEnvelopes, useCreateEnvelope, useVoidEnvelope, useResendInvitation } from "@/hooks/use-envelopes";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { gridPositionOptions } from "@/lib/grid-positions";
+import { type PdfDocument, type EnvelopeWithRecipients } from "@shared/schema";
+import { Send, Plus, Trash2, Loader2, RotateCw, Ban, Users } from "lucide-react";
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  pending: "bg-gray-100 text-gray-700",
+  sent: "bg-blue-100 text-blue-800",
+  viewed: "bg-indigo-100 text-indigo-800",
+  signed: "bg-green-100 text-green-800",
+  completed: "bg-green-100 text-green-800",
+  declined: "bg-red-100 text-red-800",
+  voided: "bg-gray-200 text-gray-600",
+};
+
+interface RecipientDraft {
+  name: string;
+  email: string;
+  pageNumber: number;
+  gridPosition: string;
+}
+
+interface SendForSigningModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: PdfDocument;
+}
+
+export function SendForSigningModal({ open, onOpenChange, document }: SendForSigningModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data, isLoading, refetch } = useDocumentEnvelopes(document.id, open);
+  const createEnvelope = useCreateEnvelope();
+  const voidEnvelope = useVoidEnvelope();
+  const resendInvitation = useResendInvitation();
+
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+  const [signingOrder, setSigningOrder] = useState<"sequential" | "parallel">("sequential");
+  const [recipients, setRecipients] = useState<RecipientDraft[]>([]);
+
+  const newRecipient = (index: number): RecipientDraft => ({
+    name: "",
+    email: "",
+    pageNumber: document.pageCount,
+    gridPosition: gridPositionOptions[(6 + index) % gridPositionOptions.length].id,
+  });
+
+  // Recipient statuses change while the dialog is closed
+  useEffect(() => {
+    if (open) {
+      refetch();
+      setTitle(`Please sign: ${document.originalName.replace(/\.pdf$/i, "")}`);
+      setMessage("");
+      setSigningOrder("sequential");
+      setRecipients([newRecipient(0)]);
+    }
+  }, [open, refetch, document.id]);
+
+  const envelopes = data?.envelopes || [];
+
+  const updateRecipient = (index: number, updates: Partial<RecipientDraft>) => {
+    setRecipients((current) =>
+      current.map((recipient, i) => (i === index ? { ...recipient, ...updates } : recipient))
+    );
+  };
+
+  const handleSend = async () => {
+    try {
+      await createEnvelope.mutateAsync({
+        documentId: document.id,
+        title,
+        message: message || undefined,
+        signingOrder,
+        send: true,
+        recipients: recipients.map((recipient, index) => ({
+          name: recipient.name,
+          email: recipient.email,
+          routingOrder: signingOrder === "sequential" ? index + 1 : 1,
+          pageNumber: recipient.pageNumber,
+          position: { gridPosition: recipient.gridPosition, width: 220, height: 100 },
+        })),
+      });
+      toast({
+        title: "Sent for signing",
+        description:
+          signingOrder === "sequential"
+            ? `${recipients[0].name} has been invited to sign first`
+            : `${recipients.length} recipient(s) have been invited to sign`,
+      });
+      setRecipients([newRecipient(0)]);
+    } catch (error: any) {
+      toast({
+        title: "Could not send",
+        description: getApiErrorMessage(error, "Failed to send for signing"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleVoid = async (envelope: EnvelopeWithRecipients) => {
+    try {
+      await voidEnvelope.mutateAsync({ envelopeId: envelope.id, documentId: document.id });
+      toast({ title: "Signing request cancelled", description: envelope.title });
+    } catch (error: any) {
+      toast({
+        title: "Could not cancel",
+        description: getApiErrorMessage(error, "Failed to cancel signing request"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResend = async (envelope: EnvelopeWithRecipients, recipientId: string) => {
+    try {
+      await resendInvitation.mutateAsync({ envelopeId: envelope.id, recipientId, documentId: document.id });
+      toast({ title: "Invitation resent", description: "A new signing link has been emailed" });
+    } catch (error: any) {
+      toast({
+        title: "Could not resend",
+        description: getApiErrorMessage(error, "Failed to resend invitation"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canSend =
+    title.trim() !== "" &&
+    recipients.length > 0 &&
+    recipients.every((recipient) => recipient.name.trim() !== "" && recipient.email.trim() !== "");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg">
+            <Users className="h-5 w-5 text-blue-600" />
+            Send for Signing
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-3">
+          <div className="space-y-6">
+            {/* Existing signing requests */}
+            {isLoading ? (
+              <div className="flex items-center justify-center py-6 text-gray-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading signing requests...
+              </div>
+            ) : (
+              envelopes.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-900">Signing requests</h3>
+                  {envelopes.map((envelope) => (
+                    <div
+                      key={envelope.id}
+                      className="rounded-lg border border-blue-100 bg-white p-3"
+                      data-testid={`envelope-${envelope.id}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="truncate text-sm font-medium text-gray-900">{envelope.title}</div>
+                          <div className="text-xs text-gray-500">
+                            {envelope.signingOrder === "sequential" ? "In order" : "All at once"}
+                            {envelope.sentAt && ` · sent ${new Date(envelope.sentAt).toLocaleString()}`}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge className={STATUS_STYLES[envelope.status]}>{envelope.status}</Badge>
+                          {envelope.status === "sent" && envelope.ownerId === user?.id && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleVoid(envelope)}
+                              disabled={voidEnvelope.isPending}
+                              className="text-red-600 hover:bg-red-50"
+                              data-testid={`button-void-envelope-${envelope.id}`}
+                            >
+                              <Ban className="mr-1 h-3 w-3" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      <ul className="mt-2 space-y-1">
+                        {envelope.recipients.map((recipient) => (
+                          <li key={recipient.id} className="flex items-center justify-between gap-2 text-xs">
+                            <span className="truncate text-gray-700">
+                              {envelope.signingOrder === "sequential" && `${recipient.routingOrder}. `}
+                              {recipient.name} &lt;{recipient.email}&gt; · page {recipient.pageNumber}
+                              {recipient.declineReason && ` · "${recipient.declineReason}"`}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <Badge className={STATUS_STYLES[recipient.status]}>{recipient.status}</Badge>
+                              {envelope.status === "sent" &&
+                                envelope.ownerId === user?.id &&
+                                (recipient.status === "sent" || recipient.status === "viewed") && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-6 px-2"
+                                  onClick={() => handleResend(envelope, recipient.id)}
+                                  disabled={resendInvitation.isPending}
+                                  title="Resend invitation"
+                                  data-testid={`button-resend-${recipient.id}`}
+                                >
+                                  <RotateCw className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+
+            {/* New signing request */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-gray-900">New signing request</h3>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="envelope-title">Title</Label>
+                  <Input
+                    id="envelope-title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    data-testid="input-envelope-title"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Signing order</Label>
+                  <Select value={signingOrder} onValueChange={(value) => setSigningOrder(value as "sequential" | "parallel")}>
+                    <SelectTrigger data-testid="select-signing-order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sequential">In order, one after another</SelectItem>
+                      <SelectItem value="parallel">All at once</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="envelope-message">Message (optional)</Label>
+                <Textarea
+                  id="envelope-message"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={2}
+                  data-testid="input-envelope-message"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Recipients</Label>
+                {recipients.map((recipient, index) => (
+                  <div key={index} className="grid grid-cols-12 items-center gap-2" data-testid={`recipient-row-${index}`}>
+                    <span className="col-span-1 text-center text-sm text-gray-500">
+                      {signingOrder === "sequential" ? index + 1 : "•"}
+                    </span>
+                    <Input
+                      className="col-span-3"
+                      placeholder="Name"
+                      value={recipient.name}
+                      onChange={(e) => updateRecipient(index, { name: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      type="email"
+                      placeholder="Email"
+                      value={recipient.email}
+                      onChange={(e) => updateRecipient(index, { email: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-1 px-2"
+                      type="number"
+                      min={1}
+                      max={document.pageCount}
+                      title="Page"
+                      value={recipient.pageNumber}
+                      onChange={(e) => updateRecipient(index, { pageNumber: parseInt(e.target.value) || 1 })}
+                    />
+                    <div className="col-span-3">
+                      <Select
+                        value={recipient.gridPosition}
+                        onValueChange={(value) => updateRecipient(index, { gridPosition: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {gridPositionOptions.map((position) => (
+                            <SelectItem key={position.id} value={position.id}>
+                              {position.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="col-span-1"
+                      onClick={() => setRecipients((current) => current.filter((_, i) => i !== index))}
+                      disabled={recipients.length === 1}
+                      title="Remove recipient"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRecipients((current) => [...current, newRecipient(current.length)])}
+                  className="rounded-xl"
+                  data-testid="button-add-recipient"
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add recipient
+                </Button>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSend}
+            disabled={!canSend || createEnvelope.isPending}
+            className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-xl"
+            data-testid="button-send-envelope"
+          >
+            {createEnvelope.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
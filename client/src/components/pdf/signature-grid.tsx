@@ -1,11 +1,11 @@
 import { useState } from "react";
 import { useDrag, useDrop, DndProvider } from "react-dnd";
 import { HTML5Backend } from "react-dnd-html5-backend";
-import { type DigitalSignature, type AppliedSignature } from "@shared/schema";
+import { type PublicSignature, type AppliedSignature } from "@shared/schema";
 import { CertificateViewer } from "@/components/signature/certificate-viewer";
 
 interface SignatureBoxProps {
-  signature: DigitalSignature;
+  signature: PublicSignature;
   appliedSignature?: AppliedSignature;
   position: { x: number; y: number };
   onMove: (x: number, y: number) => void;
@@ -111,7 +111,7 @@ function GridCell({ position, children, onDrop, onClick }: GridCellProps) {
 }
 
 interface SignatureGridProps {
-  signatures: DigitalSignature[];
+  signatures: PublicSignature[];
   appliedSignatures: AppliedSignature[];
   onApplySignature: (signatureId: string, position: string) => void;
   onRemoveSignature: (appliedSignatureId: string) => void;
@@ -178,8 +178,8 @@ export function SignatureGrid({
           >
             <option value="">Select signature to apply</option>
             {signatures.map((sig) => (
-              <option key={sig.id} value={sig.id}>
-                {sig.name}
+              <option key={sig.id} value={sig.id} disabled={!!sig.revokedAt}>
+                {sig.name}{sig.revokedAt ? " (revoked)" : ""}
               </option>
             ))}
           </select>
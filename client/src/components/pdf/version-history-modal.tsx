@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDocumentVersions, useVersionDiff } from "@/hooks/use-pdf";
+import { useToast } from "@/hooks/use-toast";
+import { apiUrl, getApiErrorMessage } from "@/lib/api";
+import { type PdfDocument } from "@shared/schema";
+import { Layers, Download, Loader2, Upload, PenLine, GitCompare, Lock } from "lucide-react";
+
+const ACTION_LABELS: Record<string, { label: string; icon: typeof Upload }> = {
+  "document.uploaded": { label: "Original upload", icon: Upload },
+  "signature.applied": { label: "Signed", icon: PenLine },
+  "document.finalized": { label: "Finalized (sealed)", icon: Lock },
+};
+
+interface VersionHistoryModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: PdfDocument;
+}
+
+export function VersionHistoryModal({ open, onOpenChange, document }: VersionHistoryModalProps) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState<number | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number>();
+  const [compareTo, setCompareTo] = useState<number>();
+  const { data, isLoading, error, refetch } = useDocumentVersions(document.id, open);
+  const { data: diffData, isFetching: isComparing, error: diffError } = useVersionDiff(
+    document.id,
+    compareFrom,
+    compareTo
+  );
+
+  const versions = data?.versions || [];
+  const diff = diffData?.diff;
+
+  // Signing adds versions while the viewer is open
+  useEffect(() => {
+    if (open) {
+      refetch();
+    }
+  }, [open, refetch]);
+
+  // Compare the two latest versions by default
+  useEffect(() => {
+    if (versions.length > 1 && compareFrom === undefined && compareTo === undefined) {
+      setCompareFrom(versions[versions.length - 2].versionNumber);
+      setCompareTo(versions[versions.length - 1].versionNumber);
+    }
+  }, [versions, compareFrom, compareTo]);
+
+  const handleDownload = async (versionNumber: number) => {
+    setDownloading(versionNumber);
+    try {
+      const response = await fetch(apiUrl(`api/documents/${document.id}/versions/${versionNumber}/download`), {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Failed to download version ${versionNumber}`);
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement("a");
+      link.href = url;
+      link.download = `${document.originalName.replace(/\.pdf$/i, "")}-v${versionNumber}.pdf`;
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (downloadError: any) {
+      toast({
+        title: "Download failed",
+        description: downloadError.message,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const versionSelect = (value: number | undefined, onChange: (value: number) => void, testId: string) => (
+    <Select value={value?.toString()} onValueChange={(selected) => onChange(Number(selected))}>
+      <SelectTrigger className="h-8 w-28" data-testid={testId}>
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.versionNumber} value={version.versionNumber.toString()}>
+            v{version.versionNumber}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg">
+            <Layers className="h-5 w-5 text-blue-600" />
+            Version History
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm text-gray-600 truncate">{document.originalName}</div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10 text-gray-500">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading versions...
+            </div>
+          ) : error ? (
+            <div className="py-10 text-center text-sm text-red-600">Failed to load versions</div>
+          ) : (
+            <ScrollArea className="h-[240px] pr-3">
+              <ol className="space-y-2">
+                {[...versions].reverse().map((version) => {
+                  const action = ACTION_LABELS[version.action] || { label: version.action, icon: Layers };
+                  const Icon = action.icon;
+                  return (
+                    <li
+                      key={version.id}
+                      className="flex items-center justify-between gap-3 rounded-lg border border-blue-100 bg-white p-3"
+                      data-testid={`version-${version.versionNumber}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                          <Badge variant="secondary">v{version.versionNumber}</Badge>
+                          <Icon className="h-4 w-4 text-blue-600" />
+                          {action.label}
+                        </div>
+                        <div className="mt-1 text-xs text-gray-600">
+                          {version.authorEmail || "owner"} · {new Date(version.createdAt).toLocaleString()}
+                        </div>
+                        <div className="mt-1 truncate font-mono text-[10px] text-gray-400" title={version.sha256}>
+                          SHA-256 {version.sha256}
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(version.versionNumber)}
+                        disabled={downloading !== null}
+                        data-testid={`button-download-version-${version.versionNumber}`}
+                      >
+                        {downloading === version.versionNumber ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ol>
+            </ScrollArea>
+          )}
+
+          {versions.length > 1 && (
+            <div className="space-y-2 rounded-lg border border-gray-200 p-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                <GitCompare className="h-4 w-4 text-blue-600" />
+                Compare
+                {versionSelect(compareFrom, setCompareFrom, "select-compare-from")}
+                with
+                {versionSelect(compareTo, setCompareTo, "select-compare-to")}
+              </div>
+
+              {compareFrom === compareTo ? (
+                <div className="text-xs text-gray-500">Choose two different versions</div>
+              ) : isComparing ? (
+                <div className="flex items-center text-xs text-gray-500">
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                  Comparing...
+                </div>
+              ) : diffError ? (
+                <div className="text-xs text-red-600">{getApiErrorMessage(diffError, "Failed to compare versions")}</div>
+              ) : diff ? (
+                <ul className="list-disc space-y-1 pl-5 text-xs text-gray-700" data-testid="version-diff">
+                  {diff.identical && <li>The files are identical</li>}
+                  {diff.pageCount.from !== diff.pageCount.to && (
+                    <li>
+                      {diff.pageCount.from} → {diff.pageCount.to} pages
+                    </li>
+                  )}
+                  {diff.pages.length > 0 && (
+                    <li>
+                      Pages {diff.pages.map((page) => `${page.pageNumber} (${page.change})`).join(", ")}
+                    </li>
+                  )}
+                  {diff.signatures.added.map((sig) => (
+                    <li key={`added-${sig.appliedSignatureId}`}>
+                      Signed by {sig.signerName} on page {sig.pageNumber}
+                    </li>
+                  ))}
+                  {diff.signatures.removed.map((sig) => (
+                    <li key={`removed-${sig.appliedSignatureId}`}>
+                      Signature of {sig.signerName} removed from page {sig.pageNumber}
+                    </li>
+                  ))}
+                  {diff.signatures.moved.map((sig) => (
+                    <li key={`moved-${sig.appliedSignatureId}`}>
+                      Signature of {sig.signerName} moved (page {sig.pageNumber})
+                    </li>
+                  ))}
+                  {diff.fields.map((field) => (
+                    <li key={field.fieldId}>
+                      {field.name}: {field.from ?? "empty"} → {field.to ?? "empty"}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useDigitalSignatures } from "@/hooks/use-signature";
+import { usePdfDocuments } from "@/hooks/use-pdf";
+import { useFolders, flattenFolderTree } from "@/hooks/use-folders";
+import {
+  useDelegations,
+  useCreateDelegation,
+  useRevokeDelegation,
+  useDecideDelegationRequest,
+} from "@/hooks/use-delegations";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { type DelegationScope, type DelegationWithNames, type Folder } from "@shared/schema";
+import { Check, Hourglass, Loader2, UserCheck, X } from "lucide-react";
+
+const SCOPE_LABELS: Record<DelegationScope, string> = {
+  all: "All documents",
+  documents: "Selected documents",
+  matter: "A matter",
+};
+
+const DEFAULT_VALID_DAYS = 30;
+
+function defaultExpiry(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + DEFAULT_VALID_DAYS);
+  return date.toISOString().slice(0, 10);
+}
+
+function describeScope(delegation: DelegationWithNames, folders: Folder[]): string {
+  if (delegation.scope === "documents") {
+    return `${delegation.documentIds.length} document${delegation.documentIds.length === 1 ? "" : "s"}`;
+  }
+  if (delegation.scope === "matter") {
+    return folders.find((folder) => folder.id === delegation.folderId)?.name || "A matter";
+  }
+  return SCOPE_LABELS.all;
+}
+
+function DelegationStatus({ delegation }: { delegation: DelegationWithNames }) {
+  if (delegation.revokedAt) return <Badge variant="outline">Revoked</Badge>;
+  if (new Date(delegation.expiresAt) <= new Date()) return <Badge variant="outline">Expired</Badge>;
+  return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>;
+}
+
+interface DelegationsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DelegationsModal({ open, onOpenChange }: DelegationsModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data, isLoading } = useDelegations(open);
+  const { data: signaturesData } = useDigitalSignatures(open ? user?.id || "" : "");
+  const { data: documentsData } = usePdfDocuments(open ? user?.id || "" : "");
+  const { data: foldersData } = useFolders(open);
+  const createDelegation = useCreateDelegation();
+  const revokeDelegation = useRevokeDelegation();
+  const decideRequest = useDecideDelegationRequest();
+
+  const [signatureId, setSignatureId] = useState("");
+  const [delegateEmail, setDelegateEmail] = useState("");
+  const [scope, setScope] = useState<DelegationScope>("all");
+  const [documentIds, setDocumentIds] = useState<string[]>([]);
+  const [folderId, setFolderId] = useState("");
+  const [expiresOn, setExpiresOn] = useState(defaultExpiry);
+  const [requiresApproval, setRequiresApproval] = useState(false);
+
+  const signatures = (signaturesData?.signatures || []).filter((signature) => !signature.revokedAt);
+  const documents = documentsData?.documents || [];
+  const folders = foldersData?.folders || [];
+  const requests = data?.requests || [];
+  const toApprove = requests.filter((request) => request.delegation.ownerId === user?.id);
+  const waiting = requests.filter((request) => request.delegation.delegateId === user?.id);
+
+  const run = async (action: () => Promise<unknown>, failure: string, success?: string) => {
+    try {
+      await action();
+      if (success) toast({ title: success });
+    } catch (error: any) {
+      toast({ title: failure, description: getApiErrorMessage(error, failure), variant: "destructive" });
+    }
+  };
+
+  const handleGrant = () =>
+    run(
+      async () => {
+        await createDelegation.mutateAsync({
+          signatureId,
+          delegateEmail: delegateEmail.trim(),
+          scope,
+          documentIds: scope === "documents" ? documentIds : [],
+          folderId: scope === "matter" ? folderId || null : null,
+          // Valid through the end of the chosen day
+          expiresAt: new Date(`${expiresOn}T23:59:59`).toISOString(),
+          requiresApproval,
+        });
+        setDelegateEmail("");
+        setDocumentIds([]);
+      },
+      "Could not delegate signature",
+      "Signature delegated"
+    );
+
+  const toggleDocument = (documentId: string, checked: boolean) =>
+    setDocumentIds((current) =>
+      checked ? [...current, documentId] : current.filter((candidate) => candidate !== documentId)
+    );
+
+  const canGrant =
+    !!signatureId &&
+    !!delegateEmail.trim() &&
+    !!expiresOn &&
+    (scope !== "documents" || documentIds.length > 0) &&
+    (scope !== "matter" || !!folderId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="delegations-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5 text-blue-600" />
+            Delegated signing
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {toApprove.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-xs">Waiting for your approval</Label>
+                <div className="divide-y rounded-md border" data-testid="delegation-requests">
+                  {toApprove.map((request) => (
+                    <div key={request.id} className="flex items-center gap-2 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-gray-900">{request.documentName}</p>
+                        <p className="truncate text-xs text-gray-500">
+                          {request.delegation.delegateName} wants to apply {request.delegation.signatureName}
+                          {request.placement.fieldId
+                            ? " to a signature field"
+                            : ` on page${request.placement.pageNumbers.length === 1 ? "" : "s"} ${request.placement.pageNumbers.join(", ")}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        className="h-8"
+                        onClick={() =>
+                          run(
+                            () => decideRequest.mutateAsync({ requestId: request.id, approve: true }),
+                            "Could not approve",
+                            "Signature applied"
+                          )
+                        }
+                        disabled={decideRequest.isPending}
+                        data-testid={`button-approve-${request.id}`}
+                      >
+                        <Check className="mr-1 h-4 w-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8 text-red-600"
+                        onClick={() =>
+                          run(
+                            () => decideRequest.mutateAsync({ requestId: request.id, approve: false }),
+                            "Could not reject"
+                          )
+                        }
+                        disabled={decideRequest.isPending}
+                        data-testid={`button-reject-${request.id}`}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Reject
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {waiting.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-xs">Your requests</Label>
+                <div className="divide-y rounded-md border">
+                  {waiting.map((request) => (
+                    <div key={request.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                      <Hourglass className="h-4 w-4 shrink-0 text-amber-500" />
+                      <span className="min-w-0 flex-1 truncate">
+                        {request.delegation.signatureName} on {request.documentName}
+                      </span>
+                      <span className="text-xs text-gray-500">Waiting for {request.delegation.ownerName}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3 rounded-md border p-3">
+              <Label className="text-xs">Let someone apply one of your signatures</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={signatureId} onValueChange={setSignatureId}>
+                  <SelectTrigger className="h-9 text-sm" data-testid="select-delegation-signature">
+                    <SelectValue placeholder="Signature" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {signatures.map((signature) => (
+                      <SelectItem key={signature.id} value={signature.id}>
+                        {signature.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="email"
+                  value={delegateEmail}
+                  onChange={(event) => setDelegateEmail(event.target.value)}
+                  placeholder="Email of a registered user"
+                  className="h-9 text-sm"
+                  data-testid="input-delegate-email"
+                />
+                <Select value={scope} onValueChange={(value) => setScope(value as DelegationScope)}>
+                  <SelectTrigger className="h-9 text-sm" data-testid="select-delegation-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="delegation-expiry" className="shrink-0 text-xs text-gray-600">
+                    Until
+                  </Label>
+                  <Input
+                    id="delegation-expiry"
+                    type="date"
+                    value={expiresOn}
+                    min={new Date().toISOString().slice(0, 10)}
+                    onChange={(event) => setExpiresOn(event.target.value)}
+                    className="h-9 text-sm"
+                    data-testid="input-delegation-expiry"
+                  />
+                </div>
+              </div>
+
+              {scope === "documents" && (
+                <ScrollArea className="h-36 rounded-md border">
+                  <div className="space-y-1 p-2">
+                    {documents.map((document) => (
+                      <label key={document.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={documentIds.includes(document.id)}
+                          onCheckedChange={(checked) => toggleDocument(document.id, checked === true)}
+                        />
+                        <span className="truncate">{document.originalName}</span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+
+              {scope === "matter" && (
+                <Select value={folderId} onValueChange={setFolderId}>
+                  <SelectTrigger className="h-9 text-sm" data-testid="select-delegation-folder">
+                    <SelectValue placeholder="Matter or folder" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {flattenFolderTree(folders).map(({ folder, depth }) => (
+                      <SelectItem key={folder.id} value={folder.id}>
+                        <span style={{ paddingLeft: depth * 12 }}>{folder.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <Checkbox
+                    checked={requiresApproval}
+                    onCheckedChange={(checked) => setRequiresApproval(checked === true)}
+                    data-testid="checkbox-delegation-approval"
+                  />
+                  I approve every use
+                </label>
+                <Button
+                  size="sm"
+                  onClick={handleGrant}
+                  disabled={!canGrant || createDelegation.isPending}
+                  data-testid="button-grant-delegation"
+                >
+                  {createDelegation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Delegate
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Delegated by you</Label>
+              {data?.granted.length ? (
+                <div className="divide-y rounded-md border" data-testid="delegations-granted">
+                  {data.granted.map((delegation) => (
+                    <div key={delegation.id} className="flex items-center gap-2 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-gray-900">
+                          {delegation.signatureName} → {delegation.delegateName}
+                        </p>
+                        <p className="truncate text-xs text-gray-500">
+                          {describeScope(delegation, folders)} · until{" "}
+                          {new Date(delegation.expiresAt).toLocaleDateString()}
+                          {delegation.requiresApproval && " · needs your approval"}
+                        </p>
+                      </div>
+                      <DelegationStatus delegation={delegation} />
+                      {!delegation.revokedAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 text-red-600"
+                          onClick={() => {
+                            if (confirm(`Stop ${delegation.delegateName} from applying ${delegation.signatureName}?`)) {
+                              run(() => revokeDelegation.mutateAsync(delegation.id), "Could not revoke delegation");
+                            }
+                          }}
+                          data-testid={`button-revoke-delegation-${delegation.id}`}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">You have not delegated any signatures.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Delegated to you</Label>
+              {data?.received.length ? (
+                <div className="divide-y rounded-md border" data-testid="delegations-received">
+                  {data.received.map((delegation) => (
+                    <div key={delegation.id} className="flex items-center gap-2 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-gray-900">
+                          {delegation.signatureName} of {delegation.ownerName}
+                        </p>
+                        <p className="truncate text-xs text-gray-500">
+                          {SCOPE_LABELS[delegation.scope]} · until{" "}
+                          {new Date(delegation.expiresAt).toLocaleDateString()}
+                          {delegation.requiresApproval && " · each use needs approval"}
+                        </p>
+                      </div>
+                      <DelegationStatus delegation={delegation} />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Nobody has delegated a signature to you.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,14 +13,14 @@ import {
   Download,
   Eye
 } from "lucide-react";
-import { type DigitalSignature, type PdfDocument } from "@shared/schema";
+import { type PublicSignature, type PdfDocument } from "@shared/schema";
 import { useApplySignature, useDocumentSignatures } from "@/hooks/use-pdf";
 import { useToast } from "@/hooks/use-toast";
 import { PasswordVerificationModal } from "./password-verification-modal";
 
 interface MultiDocumentSignatureProps {
   documents: PdfDocument[];
-  signatures: DigitalSignature[];
+  signatures: PublicSignature[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSignatureApplied?: () => void;
@@ -161,8 +161,8 @@ export function MultiDocumentSignature({
     // Check if signature has password protection
     const selectedSignature = signatures.find(s => s.id === selectedSignatureId);
     console.log("Bulk - Selected signature:", selectedSignature);
-    console.log("Bulk - Signature password:", selectedSignature?.password);
-    if (selectedSignature?.password && selectedSignature.password.trim() !== "") {
+    console.log("Bulk - Signature has password:", selectedSignature?.hasPassword);
+    if (selectedSignature?.hasPassword) {
       // Store pending application and show password modal
       setPendingBulkApplication({
         documents: documentsToSign,
@@ -336,8 +336,8 @@ export function MultiDocumentSignature({
                   >
                     <option value="">Choose a signature to apply</option>
                     {signatures.map((sig) => (
-                      <option key={sig.id} value={sig.id}>
-                        {sig.name}
+                      <option key={sig.id} value={sig.id} disabled={!!sig.revokedAt}>
+                        {sig.name}{sig.revokedAt ? " (revoked)" : ""}
                       </option>
                     ))}
                   </select>
@@ -17,7 +17,7 @@ import {
   Tag,
   Plus,
 } from "lucide-react";
-import { type PdfDocument, type DigitalSignature } from "@shared/schema";
+import { type PdfDocument, type PublicSignature } from "@shared/schema";
 import { WorkflowTester } from "@/components/ui/workflow-tester";
 import { PasswordVerificationModal } from "./password-verification-modal";
 
@@ -99,6 +99,8 @@ export function SignaturePanel({
   const removeSignature = useRemoveSignature();
 
   const signatures = signaturesData?.signatures || [];
+  // Applied on their owner's behalf, without the owner's password
+  const delegatedSignatures = signaturesData?.delegatedSignatures || [];
   const selectedSignature = signatures.find(s => s.id === selectedSignatureId);
 
   const gridPositions = [
@@ -189,13 +191,10 @@ export function SignaturePanel({
     console.log("=== SIGNATURE PANEL DEBUG ===");
     console.log("Selected signature ID:", selectedSignatureId);
     console.log("Selected signature:", selectedSignature);
-    console.log("Signature password:", selectedSignature?.password);
-    console.log("Password type:", typeof selectedSignature?.password);
-    console.log("Password length:", selectedSignature?.password?.length);
-    console.log("Password trimmed:", selectedSignature?.password?.trim());
-    console.log("Password check result:", selectedSignature?.password && selectedSignature.password.trim() !== "");
+    console.log("Signature has password:", selectedSignature?.hasPassword);
+    console.log("Password check result:", selectedSignature?.hasPassword);
     
-    if (selectedSignature?.password && selectedSignature.password.trim() !== "") {
+    if (selectedSignature?.hasPassword) {
       // Store pending application and show password modal
       const finalPosition = currentPosition && currentPosition.trim() !== "" ? currentPosition : "middle-center";
       const positionData = {
@@ -288,7 +287,7 @@ export function SignaturePanel({
       console.log('📊 Signature Panel: Starting automatic progress tracking');
 
       // Apply signature to all pages at once
-      await applySignature.mutateAsync({
+      const result = await applySignature.mutateAsync({
         documentId: document!.id,
         signatureId,
         pageNumbers,
@@ -298,6 +297,18 @@ export function SignaturePanel({
 
       // Clear automatic progress and set to 100%
       clearInterval(progressInterval);
+      if (result.approvalRequest) {
+        const owner = delegatedSignatures.find((signature) => signature.id === signatureId)?.ownerName;
+        if (onProgressChange) {
+          onProgressChange(100);
+        }
+        toast({
+          title: "Sent for approval",
+          description: `${owner || "The signature's owner"} has to approve this before the signature is applied.`,
+        });
+        setSelectedSignatureId("");
+        return;
+      }
       if (onProgressChange) {
         onProgressChange(100);
       }
@@ -435,8 +446,13 @@ export function SignaturePanel({
                 </SelectTrigger>
                 <SelectContent>
                   {signatures.map((signature) => (
-                    <SelectItem key={signature.id} value={signature.id}>
-                      {signature.name}
+                    <SelectItem key={signature.id} value={signature.id} disabled={!!signature.revokedAt}>
+                      {signature.name}{signature.revokedAt ? " (revoked)" : ""}
+                    </SelectItem>
+                  ))}
+                  {delegatedSignatures.map((signature) => (
+                    <SelectItem key={signature.id} value={signature.id} data-testid={`delegated-signature-${signature.id}`}>
+                      {signature.name} (for {signature.ownerName})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -531,9 +547,14 @@ export function SignaturePanel({
 
             {/* Action Buttons */}
             <div className="space-y-3">
+              {document?.isReadOnly && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2" data-testid="text-document-finalized">
+                  This document is finalized. Its signatures can no longer be added, moved or removed.
+                </p>
+              )}
               <Button
                 onClick={handleApplySignature}
-                disabled={!selectedSignatureId || !document || applySignature.isPending}
+                disabled={!selectedSignatureId || !document || document.isReadOnly || applySignature.isPending}
                 className="w-full bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white font-medium rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-[1.02]"
                 data-testid="button-apply-signature-to-pages"
               >
@@ -543,7 +564,7 @@ export function SignaturePanel({
               <Button
                 variant="outline"
                 onClick={handleRemoveSignatures}
-                disabled={!document || removeSignature.isPending}
+                disabled={!document || document.isReadOnly || removeSignature.isPending}
                 className="w-full border-blue-200 text-blue-700 hover:bg-blue-50 rounded-xl transition-all duration-200 hover:scale-[1.02]"
                 data-testid="button-remove-signatures"
               >
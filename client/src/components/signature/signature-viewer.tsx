@@ -13,15 +13,28 @@ import {
   Download,
   Eye,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Ban,
+  Users
 } from "lucide-react";
-import { type DigitalSignature } from "@shared/schema";
-import { useDeleteSignature } from "@/hooks/use-signature";
+import { type PublicSignature, type RevocationReason } from "@shared/schema";
+import { useDeleteSignature, useRevokeSignature } from "@/hooks/use-signature";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions, useShareSignature } from "@/hooks/use-organization";
+import { getApiErrorMessage } from "@/lib/api";
+
+const REVOCATION_REASON_LABELS: Record<RevocationReason, string> = {
+  unspecified: "No reason given",
+  keyCompromise: "Key compromised",
+  affiliationChanged: "Left the firm",
+  superseded: "Replaced by a new signature",
+  cessationOfOperation: "No longer needed",
+};
 
 interface SignatureViewerProps {
-  signature: DigitalSignature | null;
+  signature: PublicSignature | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
@@ -30,10 +43,15 @@ export function SignatureViewer({ signature, open, onOpenChange }: SignatureView
   const [isImageLoaded, setIsImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showRevokeConfirm, setShowRevokeConfirm] = useState(false);
+  const [revocationReason, setRevocationReason] = useState<RevocationReason>("unspecified");
   
   const { user } = useAuth();
   const { toast } = useToast();
   const deleteSignature = useDeleteSignature(user?.id || "");
+  const revokeSignature = useRevokeSignature(user?.id || "");
+  const shareSignature = useShareSignature();
+  const { organization, can } = usePermissions();
 
   // Debug log to verify component is rendering
   console.log("SignatureViewer render:", { 
@@ -45,6 +63,28 @@ export function SignatureViewer({ signature, open, onOpenChange }: SignatureView
 
   if (!signature) return null;
 
+  // Signatures shared by other members can only be looked at
+  const isOwner = signature.userId === user?.id;
+
+  const handleToggleShare = async () => {
+    try {
+      await shareSignature.mutateAsync({ signatureId: signature.id, shared: !signature.organizationId });
+      toast({
+        title: signature.organizationId ? "No longer shared" : "Signature shared",
+        description: signature.organizationId
+          ? `"${signature.name}" is no longer visible to ${organization?.name}.`
+          : `Members of ${organization?.name} can now see "${signature.name}". Only you can apply it.`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Sharing failed",
+        description: getApiErrorMessage(error, "Failed to update sharing"),
+        variant: "destructive",
+      });
+    }
+  };
+
   // Reset states when modal opens
   const handleOpenChange = (newOpen: boolean) => {
     if (newOpen) {
@@ -120,7 +160,25 @@ export function SignatureViewer({ signature, open, onOpenChange }: SignatureView
     } catch (error: any) {
       toast({
         title: "Delete failed",
-        description: error.message || "Failed to delete signature",
+        description: getApiErrorMessage(error, "Failed to delete signature"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      await revokeSignature.mutateAsync({ signatureId: signature.id, reason: revocationReason });
+      toast({
+        title: "Signature revoked",
+        description: "The certificate is revoked. Documents already signed keep their signatures.",
+      });
+      onOpenChange(false);
+      setShowRevokeConfirm(false);
+    } catch (error: any) {
+      toast({
+        title: "Revoke failed",
+        description: error.message || "Failed to revoke signature",
         variant: "destructive",
       });
     }
@@ -156,12 +214,30 @@ export function SignatureViewer({ signature, open, onOpenChange }: SignatureView
               <h3 className="text-lg font-semibold text-gray-900">{signature.name}</h3>
               <p className="text-sm text-gray-600">Digital Signature</p>
             </div>
-            <Badge variant="secondary" className="bg-green-100 text-green-800">
-              <Shield className="h-3 w-3 mr-1" />
-              Valid
-            </Badge>
+            {signature.revokedAt ? (
+              <Badge variant="secondary" className="bg-red-100 text-red-800" data-testid="badge-revoked">
+                <Ban className="h-3 w-3 mr-1" />
+                Revoked
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="bg-green-100 text-green-800">
+                <Shield className="h-3 w-3 mr-1" />
+                Valid
+              </Badge>
+            )}
           </div>
 
+          {signature.revokedAt && (
+            <div className="flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                Revoked on {new Date(signature.revokedAt).toLocaleString()} (
+                {REVOCATION_REASON_LABELS[signature.revocationReason as RevocationReason] || signature.revocationReason}).
+                It can no longer be applied to documents.
+              </span>
+            </div>
+          )}
+
           {/* Signature Image */}
           {signature.signatureImage && (
             <Card>
@@ -294,17 +370,80 @@ export function SignatureViewer({ signature, open, onOpenChange }: SignatureView
 
           {/* Actions */}
           <div className="flex justify-between pt-4 border-t border-gray-200">
-            <div className="flex items-center">
-              {!showDeleteConfirm ? (
-                <Button
-                  variant="destructive"
-                  onClick={handleDeleteClick}
-                  className="px-6 py-3 font-medium font-sm"
-                  data-testid="delete-signature-button"
-                >
-                  <Trash2 className="h-5 w-5 mr-2" />
-                  DELETE SIGNATURE
-                </Button>
+            <div className="flex items-center space-x-2">
+              {showRevokeConfirm ? (
+                <div className="flex items-center space-x-2">
+                  <Select value={revocationReason} onValueChange={(value) => setRevocationReason(value as RevocationReason)}>
+                    <SelectTrigger className="w-52 h-9" data-testid="select-revocation-reason">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(REVOCATION_REASON_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowRevokeConfirm(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={handleRevoke}
+                    disabled={revokeSignature.isPending}
+                    data-testid="confirm-revoke-signature"
+                  >
+                    {revokeSignature.isPending ? "Revoking..." : "Revoke"}
+                  </Button>
+                </div>
+              ) : !isOwner ? (
+                <p className="flex items-center text-sm text-gray-500" data-testid="text-shared-signature">
+                  <Users className="h-4 w-4 mr-1.5" />
+                  Shared by {signature.fullName} with your organization
+                </p>
+              ) : !showDeleteConfirm ? (
+                <>
+                {organization && can("documents.share") && (
+                  <Button
+                    variant="outline"
+                    onClick={handleToggleShare}
+                    disabled={shareSignature.isPending}
+                    className="px-4 py-3 font-medium"
+                    data-testid="share-signature-button"
+                  >
+                    <Users className="h-5 w-5 mr-2" />
+                    {signature.organizationId ? "UNSHARE" : "SHARE"}
+                  </Button>
+                )}
+                {can("signatures.manage") && !signature.revokedAt && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowRevokeConfirm(true)}
+                    className="px-4 py-3 font-medium text-red-600 border-red-200 hover:bg-red-50"
+                    data-testid="revoke-signature-button"
+                  >
+                    <Ban className="h-5 w-5 mr-2" />
+                    REVOKE
+                  </Button>
+                )}
+                {can("signatures.manage") && (
+                  <Button
+                    variant="destructive"
+                    onClick={handleDeleteClick}
+                    className="px-6 py-3 font-medium font-sm"
+                    data-testid="delete-signature-button"
+                  >
+                    <Trash2 className="h-5 w-5 mr-2" />
+                    DELETE SIGNATURE
+                  </Button>
+                )}
+                </>
               ) : (
                 <div className="flex items-center space-x-2">
                   <div className="flex items-center text-red-600 text-sm mr-3">
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useCreateTemplate } from "@/hooks/use-templates";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { gridPositionOptions } from "@/lib/grid-positions";
+import { fieldTypeLabels, newTemplateField, parseOptions } from "@/lib/field-types";
+import {
+  fieldDefaultSizes,
+  fieldTypes,
+  inputFieldTypes,
+  type FieldType,
+  type PdfDocument,
+  type TemplateField,
+} from "@shared/schema";
+import { LayoutTemplate, Plus, Trash2, Loader2, Save } from "lucide-react";
+
+interface TemplateEditorModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: PdfDocument;
+}
+
+export function TemplateEditorModal({ open, onOpenChange, document }: TemplateEditorModalProps) {
+  const { toast } = useToast();
+  const createTemplate = useCreateTemplate();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [roles, setRoles] = useState<string[]>([]);
+  const [fields, setFields] = useState<TemplateField[]>([]);
+
+  // Start from a signature and date for one signer on the last page
+  useEffect(() => {
+    if (open) {
+      setName(document.originalName.replace(/\.pdf$/i, ""));
+      setDescription("");
+      setRoles(["Client"]);
+      setFields([
+        newTemplateField("signature", "Client", document.pageCount, "bottom-left", "Client signature"),
+        newTemplateField("date", "Client", document.pageCount, "bottom-right", "Date signed"),
+      ]);
+    }
+  }, [open, document.id]);
+
+  const updateField = (index: number, updates: Partial<TemplateField>) => {
+    setFields((current) => current.map((field, i) => (i === index ? { ...field, ...updates } : field)));
+  };
+
+  // A new type brings that type's box size along
+  const changeFieldType = (index: number, type: FieldType) => {
+    const field = fields[index];
+    updateField(index, { type, position: { ...field.position, ...fieldDefaultSizes[type] } });
+  };
+
+  const renameRole = (index: number, role: string) => {
+    const previous = roles[index];
+    setRoles((current) => current.map((existing, i) => (i === index ? role : existing)));
+    setFields((current) => current.map((field) => (field.role === previous ? { ...field, role } : field)));
+  };
+
+  const removeRole = (index: number) => {
+    const removed = roles[index];
+    const remaining = roles.filter((_, i) => i !== index);
+    setRoles(remaining);
+    setFields((current) => current.filter((field) => field.role !== removed));
+  };
+
+  const addField = () => {
+    setFields((current) => [
+      ...current,
+      newTemplateField("signature", roles[0] || "", document.pageCount, "bottom-center"),
+    ]);
+  };
+
+  const handleSave = async () => {
+    try {
+      await createTemplate.mutateAsync({
+        documentId: document.id,
+        name,
+        description: description || undefined,
+        roles,
+        fields,
+      });
+      toast({ title: "Template saved", description: `"${name}" is ready to use for new documents` });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Could not save template",
+        description: getApiErrorMessage(error, "Failed to save template"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canSave =
+    name.trim() !== "" &&
+    roles.length > 0 &&
+    roles.every((role) => role.trim() !== "") &&
+    fields.length > 0 &&
+    fields.every(
+      (field) =>
+        field.name.trim() !== "" &&
+        field.role !== "" &&
+        (field.type !== "radio" || !!field.groupName?.trim()) &&
+        (field.type !== "dropdown" || !!field.options?.length)
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg">
+            <LayoutTemplate className="h-5 w-5 text-blue-600" />
+            Save as Template
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-3">
+          <div className="space-y-6">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="template-name">Template name</Label>
+                <Input
+                  id="template-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-description">Description (optional)</Label>
+                <Textarea
+                  id="template-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={1}
+                  data-testid="input-template-description"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Roles, in signing order</Label>
+              {roles.map((role, index) => (
+                <div key={index} className="flex items-center gap-2" data-testid={`template-role-${index}`}>
+                  <span className="w-6 text-center text-sm text-gray-500">{index + 1}</span>
+                  <Input value={role} onChange={(e) => renameRole(index, e.target.value)} placeholder="e.g. Client" />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeRole(index)}
+                    disabled={roles.length === 1}
+                    title="Remove role and its fields"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRoles((current) => [...current, `Signer ${current.length + 1}`])}
+                className="rounded-xl"
+                data-testid="button-add-role"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add role
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Fields</Label>
+              {fields.map((field, index) => (
+                <div key={field.id} className="space-y-2 rounded-xl border border-gray-200 p-2" data-testid={`template-field-${index}`}>
+                  <div className="grid grid-cols-12 items-center gap-2">
+                    <Input
+                      className="col-span-3"
+                      placeholder="Field name"
+                      value={field.name}
+                      onChange={(e) => updateField(index, { name: e.target.value })}
+                    />
+                    <div className="col-span-2">
+                      <Select value={field.type} onValueChange={(value) => changeFieldType(index, value as FieldType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fieldTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {fieldTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-2">
+                      <Select value={field.role} onValueChange={(value) => updateField(index, { role: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Role" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles
+                            .filter((role) => role.trim() !== "")
+                            .map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {role}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Input
+                      className="col-span-1 px-2"
+                      type="number"
+                      min={1}
+                      max={document.pageCount}
+                      title="Page"
+                      value={field.pageNumber}
+                      onChange={(e) => updateField(index, { pageNumber: parseInt(e.target.value) || 1 })}
+                    />
+                    <div className="col-span-3">
+                      <Select
+                        value={field.position.gridPosition}
+                        onValueChange={(value) =>
+                          updateField(index, { position: { ...field.position, gridPosition: value } })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {gridPositionOptions.map((position) => (
+                            <SelectItem key={position.id} value={position.id}>
+                              {position.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="col-span-1"
+                      onClick={() => setFields((current) => current.filter((_, i) => i !== index))}
+                      title="Remove field"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {inputFieldTypes.includes(field.type) && (
+                    <div className="flex flex-wrap items-center gap-4 pl-1">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <Checkbox
+                          checked={field.required}
+                          onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+                        />
+                        Required
+                      </label>
+                      {field.type === "radio" && (
+                        <Input
+                          className="h-8 w-56"
+                          placeholder="Group name, e.g. Payment terms"
+                          value={field.groupName || ""}
+                          onChange={(e) => updateField(index, { groupName: e.target.value })}
+                        />
+                      )}
+                      {field.type === "text" && (
+                        <Input
+                          className="h-8 w-40"
+                          type="number"
+                          min={1}
+                          placeholder="Max length"
+                          value={field.maxLength ?? ""}
+                          onChange={(e) => updateField(index, { maxLength: parseInt(e.target.value) || undefined })}
+                        />
+                      )}
+                      {field.type === "dropdown" && (
+                        <Input
+                          className="h-8 w-72"
+                          placeholder="Choices, separated by commas"
+                          defaultValue={field.options?.join(", ") || ""}
+                          onBlur={(e) => updateField(index, { options: parseOptions(e.target.value) })}
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addField} className="rounded-xl" data-testid="button-add-field">
+                <Plus className="mr-1 h-4 w-4" />
+                Add field
+              </Button>
+            </div>
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={!canSave || createTemplate.isPending}
+            className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-xl"
+            data-testid="button-save-template"
+          >
+            {createTemplate.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Template
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useTemplates, useDeleteTemplate, useCreateFromTemplate } from "@/hooks/use-templates";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { type DocumentTemplate, type PdfDocument, type TemplateField } from "@shared/schema";
+import { LayoutTemplate, FileText, Trash2, ArrowLeft, Loader2, FilePlus } from "lucide-react";
+
+interface TemplatesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDocumentCreated: (document: PdfDocument) => void;
+}
+
+interface RoleDraft {
+  signer: "me" | "recipient";
+  name: string;
+  email: string;
+}
+
+export function TemplatesModal({ open, onOpenChange, onDocumentCreated }: TemplatesModalProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: templatesData, isLoading } = useTemplates(open);
+  const deleteTemplate = useDeleteTemplate();
+  const createFromTemplate = useCreateFromTemplate(user?.id || "");
+
+  const [selectedTemplate, setSelectedTemplate] = useState<DocumentTemplate | null>(null);
+  const [documentName, setDocumentName] = useState("");
+  const [roleDrafts, setRoleDrafts] = useState<Record<string, RoleDraft>>({});
+  const [signingOrder, setSigningOrder] = useState<"sequential" | "parallel">("sequential");
+  const [message, setMessage] = useState("");
+  const [sendNow, setSendNow] = useState(true);
+
+  const templates = templatesData?.templates || [];
+
+  useEffect(() => {
+    if (!open) {
+      setSelectedTemplate(null);
+    }
+  }, [open]);
+
+  const startFromTemplate = (template: DocumentTemplate) => {
+    const roles = template.roles as string[];
+    setSelectedTemplate(template);
+    setDocumentName(template.originalName);
+    setRoleDrafts(
+      Object.fromEntries(
+        roles.map((role, index) => [role, { signer: index === 0 ? "me" : "recipient", name: "", email: "" }])
+      )
+    );
+    setSigningOrder("sequential");
+    setMessage("");
+    setSendNow(true);
+  };
+
+  const updateRole = (role: string, updates: Partial<RoleDraft>) => {
+    setRoleDrafts((current) => ({ ...current, [role]: { ...current[role], ...updates } }));
+  };
+
+  const handleDelete = async (template: DocumentTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Documents already created from it are kept.`)) {
+      return;
+    }
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast({ title: "Template deleted", description: `"${template.name}" was removed` });
+    } catch (error: any) {
+      toast({
+        title: "Could not delete template",
+        description: getApiErrorMessage(error, "Failed to delete template"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!selectedTemplate) return;
+
+    const roles = selectedTemplate.roles as string[];
+    try {
+      const result = await createFromTemplate.mutateAsync({
+        templateId: selectedTemplate.id,
+        request: {
+          documentName: documentName || undefined,
+          assignments: roles.map((role) => {
+            const draft = roleDrafts[role];
+            return draft.signer === "me"
+              ? { role, signer: "me" as const }
+              : { role, signer: "recipient" as const, name: draft.name, email: draft.email };
+          }),
+          message: message || undefined,
+          signingOrder,
+          send: sendNow,
+        },
+      });
+
+      const invited = result.envelope?.recipients.length || 0;
+      toast({
+        title: "Document created",
+        description:
+          invited > 0
+            ? sendNow
+              ? `Invitations sent to ${invited} recipient${invited > 1 ? "s" : ""}`
+              : `Envelope saved as a draft for ${invited} recipient${invited > 1 ? "s" : ""}`
+            : "All fields are yours to sign",
+      });
+      onOpenChange(false);
+      onDocumentCreated(result.document);
+    } catch (error: any) {
+      toast({
+        title: "Could not create document",
+        description: getApiErrorMessage(error, "Failed to create document from template"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectedRoles = (selectedTemplate?.roles as string[] | undefined) || [];
+  const hasRecipients = selectedRoles.some((role) => roleDrafts[role]?.signer === "recipient");
+  const canCreate = selectedRoles.every((role) => {
+    const draft = roleDrafts[role];
+    return draft && (draft.signer === "me" || (draft.name.trim() !== "" && draft.email.trim() !== ""));
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" data-testid="templates-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg">
+            <LayoutTemplate className="h-5 w-5 text-blue-600" />
+            {selectedTemplate ? `New document from "${selectedTemplate.name}"` : "Templates"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!selectedTemplate ? (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            {isLoading ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+              </div>
+            ) : templates.length === 0 ? (
+              <div className="text-center py-10" data-testid="no-templates">
+                <LayoutTemplate className="h-10 w-10 text-blue-300 mx-auto mb-3" />
+                <p className="text-sm font-medium text-gray-700">No templates yet</p>
+                <p className="text-xs text-gray-500">Open a document and choose "Save as Template" to create one</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {templates.map((template) => {
+                  const fields = template.fields as TemplateField[];
+                  return (
+                    <div
+                      key={template.id}
+                      className="flex items-center justify-between gap-3 rounded-xl border border-gray-200 p-3"
+                      data-testid={`template-${template.id}`}
+                    >
+                      <div className="flex items-start gap-3 min-w-0">
+                        <FileText className="h-5 w-5 text-blue-600 mt-0.5 shrink-0" />
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{template.name}</p>
+                          {template.description && (
+                            <p className="text-xs text-gray-500 truncate">{template.description}</p>
+                          )}
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {(template.roles as string[]).map((role) => (
+                              <Badge key={role} variant="secondary" className="text-xs">
+                                {role}
+                              </Badge>
+                            ))}
+                            <Badge variant="outline" className="text-xs">
+                              {fields.length} field{fields.length === 1 ? "" : "s"}
+                            </Badge>
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Button
+                          size="sm"
+                          onClick={() => startFromTemplate(template)}
+                          className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-xl"
+                          data-testid={`button-use-template-${template.id}`}
+                        >
+                          Use
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(template)}
+                          disabled={deleteTemplate.isPending}
+                          title="Delete template"
+                          data-testid={`button-delete-template-${template.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        ) : (
+          <ScrollArea className="max-h-[65vh] pr-3">
+            <div className="space-y-5">
+              <div className="space-y-1">
+                <Label htmlFor="template-document-name">Document name</Label>
+                <Input
+                  id="template-document-name"
+                  value={documentName}
+                  onChange={(e) => setDocumentName(e.target.value)}
+                  data-testid="input-template-document-name"
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label>Who signs each role?</Label>
+                {selectedRoles.map((role, index) => {
+                  const draft = roleDrafts[role];
+                  if (!draft) return null;
+                  return (
+                    <div key={role} className="rounded-xl border border-gray-200 p-3 space-y-2" data-testid={`role-assignment-${index}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900">
+                          {index + 1}. {role}
+                        </span>
+                        <Select
+                          value={draft.signer}
+                          onValueChange={(value) => updateRole(role, { signer: value as RoleDraft["signer"] })}
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="me">Me</SelectItem>
+                            <SelectItem value="recipient">Someone else</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {draft.signer === "recipient" && (
+                        <div className="grid gap-2 sm:grid-cols-2">
+                          <Input
+                            placeholder="Full name"
+                            value={draft.name}
+                            onChange={(e) => updateRole(role, { name: e.target.value })}
+                          />
+                          <Input
+                            type="email"
+                            placeholder="Email address"
+                            value={draft.email}
+                            onChange={(e) => updateRole(role, { email: e.target.value })}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {hasRecipients && (
+                <>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="space-y-1">
+                      <Label>Signing order</Label>
+                      <Select
+                        value={signingOrder}
+                        onValueChange={(value) => setSigningOrder(value as "sequential" | "parallel")}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="sequential">In role order</SelectItem>
+                          <SelectItem value="parallel">All at once</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center justify-between rounded-xl border border-gray-200 px-3">
+                      <Label htmlFor="template-send-now">Send invitations now</Label>
+                      <Switch id="template-send-now" checked={sendNow} onCheckedChange={setSendNow} />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="template-message">Message (optional)</Label>
+                    <Textarea
+                      id="template-message"
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setSelectedTemplate(null)} className="rounded-xl">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={!canCreate || createFromTemplate.isPending}
+                  className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white rounded-xl"
+                  data-testid="button-create-from-template"
+                >
+                  {createFromTemplate.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <FilePlus className="mr-2 h-4 w-4" />
+                  )}
+                  Create Document
+                </Button>
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { type SecurityQuestions } from "@shared/schema";
+
+export function useRequestPasswordReset() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/request", { email });
+      return response.json() as Promise<{ success: boolean; message: string }>;
+    },
+  });
+}
+
+// The questions an account chose, to recover it without email
+export function useRecoveryQuestions() {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/questions", { email });
+      return response.json() as Promise<{ success: boolean; questions: [string, string] }>;
+    },
+  });
+}
+
+// Correct answers return a reset token for useCompletePasswordReset
+export function useAnswerRecoveryQuestions() {
+  return useMutation({
+    mutationFn: async (answers: { email: string; answer1: string; answer2: string }) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/answers", answers);
+      return response.json() as Promise<{ success: boolean; token: string }>;
+    },
+  });
+}
+
+export function useCompletePasswordReset() {
+  return useMutation({
+    mutationFn: async ({ token, password }: { token: string; password: string }) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/complete", { token, password });
+      return response.json();
+    },
+  });
+}
+
+export function useSecurityQuestions(enabled = true) {
+  return useQuery<{ success: boolean; questions: [string, string] | null }>({
+    queryKey: ["/api/auth/security-questions"],
+    enabled,
+  });
+}
+
+export function useSaveSecurityQuestions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: SecurityQuestions) => {
+      const response = await apiRequest("PUT", "/api/auth/security-questions", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/security-questions"] });
+    },
+  });
+}
+
+export function useRemoveSecurityQuestions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (password: string) => {
+      const response = await apiRequest("DELETE", "/api/auth/security-questions", { password });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/security-questions"] });
+    },
+  });
+}
@@ -1,40 +1,67 @@
 import { useState, useEffect, createContext, useContext } from "react";
-import { apiRequest } from "@/lib/queryClient";
-import { type User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiUrl } from "@/lib/api";
+import { type PublicUser, type TwoFactorCode } from "@shared/schema";
+
+// The server never sends password hashes, tokens or two-factor secrets
+type AuthUser = PublicUser;
 
 interface AuthContextType {
-  user: User | null;
-  login: (email: string, password: string) => Promise<void>;
+  user: AuthUser | null;
+  // With two-factor authentication on, the session starts only once
+  // completeTwoFactorLogin accepts a code
+  login: (email: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
+  completeTwoFactorLogin: (input: TwoFactorCode) => Promise<void>;
   register: (userData: any) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Check for stored user data
-    const storedUser = localStorage.getItem("user");
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
-    }
-    setIsLoading(false);
+    // Resolve the current user from the session cookie
+    fetch(apiUrl("api/auth/me"), { credentials: "include" })
+      .then(async (response) => {
+        if (response.ok) {
+          const data = await response.json();
+          setUser(data.user);
+        } else {
+          setUser(null);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load session:", error);
+        setUser(null);
+      })
+      .finally(() => setIsLoading(false));
+
+    // Drop the pre-session copy that older versions kept in localStorage
+    localStorage.removeItem("user");
   }, []);
 
   const login = async (email: string, password: string) => {
     const response = await apiRequest("POST", "/api/auth/login", { email, password });
     const data = await response.json();
     
-    if (data.success) {
-      setUser(data.user);
-      localStorage.setItem("user", JSON.stringify(data.user));
-    } else {
+    if (!data.success) {
       throw new Error(data.error);
     }
+    if (data.twoFactorRequired) {
+      return { twoFactorRequired: true };
+    }
+    setUser(data.user);
+    return { twoFactorRequired: false };
+  };
+
+  const completeTwoFactorLogin = async (input: TwoFactorCode) => {
+    const response = await apiRequest("POST", "/api/auth/login/two-factor", input);
+    const data = await response.json();
+    setUser(data.user);
   };
 
   const register = async (userData: any) => {
@@ -42,21 +69,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const data = await response.json();
     
     if (data.success) {
-      // Automatically log in the user after successful registration
+      // The server starts a session as part of registration
       setUser(data.user);
-      localStorage.setItem("user", JSON.stringify(data.user));
     } else {
       throw new Error(data.error);
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("user");
+  const logout = async () => {
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } catch (error) {
+      console.error("Logout request failed:", error);
+    } finally {
+      setUser(null);
+      queryClient.clear();
+    }
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, completeTwoFactorLogin, register, logout, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useStepUp } from "@/hooks/use-step-up";
+import {
+  type AppliedSignature,
+  type CreateDelegation,
+  type DelegationRequest,
+  type DelegationRequestWithDetails,
+  type DelegationWithNames,
+  type SignatureDelegation,
+} from "@shared/schema";
+
+// granted: delegations of the user's signatures; received: those given to the
+// user; requests: pending uses the user has to decide on or is waiting for
+export function useDelegations(enabled = true) {
+  return useQuery<{
+    success: boolean;
+    granted: DelegationWithNames[];
+    received: DelegationWithNames[];
+    requests: DelegationRequestWithDetails[];
+  }>({
+    queryKey: ["/api/delegations"],
+    enabled,
+  });
+}
+
+// What the delegate may sign changes with every grant and revocation
+function useInvalidateDelegations() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/signatures"] });
+  };
+}
+
+export function useCreateDelegation() {
+  const invalidateDelegations = useInvalidateDelegations();
+
+  return useMutation({
+    mutationFn: async (delegation: Omit<CreateDelegation, "expiresAt"> & { expiresAt: string }) => {
+      const response = await apiRequest("POST", "/api/delegations", delegation);
+      return response.json() as Promise<{ success: boolean; delegation: SignatureDelegation }>;
+    },
+    onSuccess: invalidateDelegations,
+  });
+}
+
+export function useRevokeDelegation() {
+  const invalidateDelegations = useInvalidateDelegations();
+
+  return useMutation({
+    mutationFn: async (delegationId: string) => {
+      const response = await apiRequest("POST", `/api/delegations/${delegationId}/revoke`);
+      return response.json() as Promise<{ success: boolean; delegation: SignatureDelegation }>;
+    },
+    onSuccess: invalidateDelegations,
+  });
+}
+
+export function useDecideDelegationRequest() {
+  const queryClient = useQueryClient();
+  const { withStepUp } = useStepUp();
+
+  return useMutation({
+    mutationFn: async ({ requestId, approve }: { requestId: string; approve: boolean }) => {
+      // Approving signs the document, so it may meet the signing challenge
+      const response = await withStepUp(() =>
+        apiRequest("POST", `/api/delegations/requests/${requestId}/${approve ? "approve" : "reject"}`)
+      );
+      return response.json() as Promise<{
+        success: boolean;
+        appliedSignatures?: AppliedSignature[];
+        request?: DelegationRequest;
+      }>;
+    },
+    onSuccess: (_data, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      }
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { apiUrl } from "@/lib/api";
+import { type CreateEnvelope, type EnvelopeWithRecipients } from "@shared/schema";
+
+export function useDocumentEnvelopes(documentId: string, enabled = true) {
+  return useQuery<{ success: boolean; envelopes: EnvelopeWithRecipients[] }>({
+    queryKey: ["/api/envelopes", documentId],
+    queryFn: async () => {
+      const response = await fetch(apiUrl(`api/envelopes?documentId=${encodeURIComponent(documentId)}`), {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to load signing requests");
+      }
+      return response.json();
+    },
+    enabled: !!documentId && enabled,
+  });
+}
+
+export function useCreateEnvelope() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (envelope: CreateEnvelope) => {
+      const response = await apiRequest("POST", "/api/envelopes", envelope);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/envelopes", variables.documentId] });
+    },
+  });
+}
+
+export function useVoidEnvelope() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ envelopeId }: { envelopeId: string; documentId: string }) => {
+      const response = await apiRequest("POST", `/api/envelopes/${envelopeId}/void`);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/envelopes", variables.documentId] });
+    },
+  });
+}
+
+export function useResendInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      envelopeId,
+      recipientId,
+    }: {
+      envelopeId: string;
+      recipientId: string;
+      documentId: string;
+    }) => {
+      const response = await apiRequest("POST", `/api/envelopes/${envelopeId}/recipients/${recipientId}/resend`);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/envelopes", variables.documentId] });
+    },
+  });
+}
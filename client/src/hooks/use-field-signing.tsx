@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useDigitalSignatures } from "@/hooks/use-signature";
+import { useFillDocumentField } from "@/hooks/use-templates";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { type DocumentField, type PdfDocument } from "@shared/schema";
+
+/**
+ * Signs the owner's signature fields with the signature selected in the
+ * Signature Options panel, asking for its password first when it has one.
+ * Shared by the fields bar and the "Sign here" targets on the page.
+ */
+export function useFieldSigning(document: PdfDocument, selectedSignatureId: string | undefined, onSigned: () => void) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: signaturesData } = useDigitalSignatures(user?.id || "");
+  const fillField = useFillDocumentField();
+  const [pendingField, setPendingField] = useState<DocumentField | null>(null);
+
+  const signatures = (signaturesData as any)?.signatures || [];
+  const selectedSignature = signatures.find((s: any) => s.id === selectedSignatureId);
+
+  const sign = async (field: DocumentField, password?: string) => {
+    try {
+      await fillField.mutateAsync({
+        documentId: document.id,
+        field,
+        signatureId: selectedSignatureId!,
+        password,
+      });
+      toast({ title: "Field signed", description: `"${field.name}" was signed on page ${field.pageNumber}` });
+      onSigned();
+    } catch (error: any) {
+      toast({
+        title: "Could not sign field",
+        description: getApiErrorMessage(error, "Failed to sign field"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const requestSign = (field: DocumentField) => {
+    if (!selectedSignature) {
+      toast({
+        title: "No signature selected",
+        description: "Please select a signature from the Signature Options panel first.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (selectedSignature.hasPassword) {
+      setPendingField(field);
+      return;
+    }
+    sign(field);
+  };
+
+  return {
+    requestSign,
+    signingFieldId: fillField.isPending ? fillField.variables?.field.id : undefined,
+    passwordPending: !!pendingField,
+    signatureName: selectedSignature?.name || "",
+    cancelPassword: () => setPendingField(null),
+    confirmPassword: (password: string) => {
+      const field = pendingField;
+      setPendingField(null);
+      if (field) sign(field, password);
+    },
+  };
+}
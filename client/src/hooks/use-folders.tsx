@@ -0,0 +1,211 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { type DocumentScope } from "@/hooks/use-pdf";
+import { type CreateFolder, type Folder, type PublicJob, type Tag, type UpdateFolder } from "@shared/schema";
+
+export type TagWithDocuments = Tag & { documentIds: string[] };
+
+export function useFolders(enabled = true) {
+  return useQuery<{ success: boolean; folders: Folder[] }>({
+    queryKey: ["/api/folders"],
+    enabled,
+  });
+}
+
+export function useCreateFolder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (folder: CreateFolder) => {
+      const response = await apiRequest("POST", "/api/folders", folder);
+      return response.json() as Promise<{ success: boolean; folder: Folder }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    },
+  });
+}
+
+export function useUpdateFolder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ folderId, updates }: { folderId: string; updates: UpdateFolder }) => {
+      const response = await apiRequest("PATCH", `/api/folders/${folderId}`, updates);
+      return response.json() as Promise<{ success: boolean; folder: Folder }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    },
+  });
+}
+
+export function useDeleteFolder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (folderId: string) => {
+      const response = await apiRequest("DELETE", `/api/folders/${folderId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      // Its documents move up a level
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    },
+  });
+}
+
+export function useMoveDocuments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentIds, folderId }: { documentIds: string[]; folderId: string | null }) => {
+      const response = await apiRequest("POST", "/api/documents/move", { documentIds, folderId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    },
+  });
+}
+
+export function useTags(enabled = true) {
+  return useQuery<{ success: boolean; tags: TagWithDocuments[] }>({
+    queryKey: ["/api/tags"],
+    enabled,
+  });
+}
+
+export function useCreateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/tags", { name });
+      return response.json() as Promise<{ success: boolean; tag: Tag }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+  });
+}
+
+export function useRenameTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tagId, name }: { tagId: string; name: string }) => {
+      const response = await apiRequest("PATCH", `/api/tags/${tagId}`, { name });
+      return response.json() as Promise<{ success: boolean; tag: Tag }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+  });
+}
+
+export function useDeleteTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tagId: string) => {
+      const response = await apiRequest("DELETE", `/api/tags/${tagId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+  });
+}
+
+export function useUpdateDocumentTags() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (change: { documentIds: string[]; add?: string[]; remove?: string[] }) => {
+      const response = await apiRequest("POST", "/api/documents/tags", change);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+  });
+}
+
+// Everything in a folder and its subfolders, as one ZIP named after the folder
+export function useDownloadFolder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (folderId: string) => {
+      const response = await apiRequest("POST", "/api/documents/bulk-download", { folderId });
+      return response.json() as Promise<{ success: boolean; job: PublicJob }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+  });
+}
+
+export function useDeleteFolderDocuments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (folderId: string) => {
+      const response = await apiRequest("POST", "/api/documents/bulk-delete", { folderId });
+      return response.json() as Promise<{ success: boolean; deleted: string[]; failed: { documentId: string; error: string }[] }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+  });
+}
+
+/** The folder's id followed by those of every folder below it. */
+export function folderSubtreeIds(folders: Folder[], folderId: string): string[] {
+  const ids = [folderId];
+  for (let index = 0; index < ids.length; index++) {
+    for (const folder of folders) {
+      if (folder.parentId === ids[index]) {
+        ids.push(folder.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/** Folders in tree order, each with how deep it is (0 for matters). */
+export function flattenFolderTree(folders: Folder[]): { folder: Folder; depth: number }[] {
+  const result: { folder: Folder; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const folder of folders.filter((candidate) => candidate.parentId === parentId)) {
+      result.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+}
+
+/** The documents in the folder (with its subfolders) and with the tag the scope names. */
+export function filterDocumentsByScope<T extends { id: string; folderId: string | null }>(
+  documents: T[],
+  scope: DocumentScope,
+  folders: Folder[],
+  tags: TagWithDocuments[]
+): T[] {
+  let result = documents;
+  if (scope.folderId === "unfiled") {
+    result = result.filter((document) => !document.folderId);
+  } else if (scope.folderId) {
+    const folderIds = folderSubtreeIds(folders, scope.folderId);
+    result = result.filter((document) => !!document.folderId && folderIds.includes(document.folderId));
+  }
+  if (scope.tagId) {
+    const documentIds = tags.find((tag) => tag.id === scope.tagId)?.documentIds || [];
+    result = result.filter((document) => documentIds.includes(document.id));
+  }
+  return result;
+}
@@ -0,0 +1,171 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  type Organization,
+  type OrganizationAccess,
+  type OrganizationInvitationWithNames,
+  type OrganizationMemberWithUser,
+  type OrganizationRole,
+  type PdfDocument,
+  type Permission,
+  type PublicOrganizationInvitation,
+  type PublicSignature,
+} from "@shared/schema";
+
+export function useOrganization(enabled = true) {
+  return useQuery<
+    {
+      success: boolean;
+      members: OrganizationMemberWithUser[];
+      // Open invitations the organization sent, for those who manage it
+      pendingInvitations: PublicOrganizationInvitation[];
+    } & OrganizationAccess
+  >({
+    queryKey: ["/api/organization"],
+    enabled,
+  });
+}
+
+// Until the user's access is known every action is offered; the server has the final say
+export function usePermissions() {
+  const { data } = useOrganization();
+  return {
+    organization: data?.organization || null,
+    role: data?.role || null,
+    can: (permission: Permission) => !data || data.permissions.includes(permission),
+  };
+}
+
+// Membership changes what is shared with the user, so everything is refetched
+function useInvalidateAccess() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/signatures"] });
+  };
+}
+
+export function useCreateOrganization() {
+  const invalidateAccess = useInvalidateAccess();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/organization", { name });
+      return response.json() as Promise<{ success: boolean; organization: Organization }>;
+    },
+    onSuccess: invalidateAccess,
+  });
+}
+
+export function useLeaveOrganization() {
+  const invalidateAccess = useInvalidateAccess();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/organization/leave");
+      return response.json();
+    },
+    onSuccess: invalidateAccess,
+  });
+}
+
+export function useInviteOrganizationMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitation: { email: string; role: OrganizationRole }) => {
+      const response = await apiRequest("POST", "/api/organization/invitations", invitation);
+      return response.json() as Promise<{ success: boolean; invitation: PublicOrganizationInvitation }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    },
+  });
+}
+
+export function useCancelOrganizationInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      const response = await apiRequest("DELETE", `/api/organization/invitations/${invitationId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    },
+  });
+}
+
+// The invitation behind an emailed link, once its recipient has signed in
+export function useOrganizationInvitation(token: string, enabled = true) {
+  return useQuery<{ success: boolean; invitation: OrganizationInvitationWithNames }>({
+    queryKey: ["/api/organization/join", token],
+    enabled: enabled && !!token,
+  });
+}
+
+export function useRespondToInvitation() {
+  const invalidateAccess = useInvalidateAccess();
+
+  return useMutation({
+    mutationFn: async ({ token, accept }: { token: string; accept: boolean }) => {
+      const response = await apiRequest("POST", `/api/organization/join/${token}${accept ? "" : "/decline"}`);
+      return response.json();
+    },
+    onSuccess: invalidateAccess,
+  });
+}
+
+export function useUpdateOrganizationMember() {
+  const invalidateAccess = useInvalidateAccess();
+
+  return useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: OrganizationRole }) => {
+      const response = await apiRequest("PATCH", `/api/organization/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: invalidateAccess,
+  });
+}
+
+export function useRemoveOrganizationMember() {
+  const invalidateAccess = useInvalidateAccess();
+
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `/api/organization/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: invalidateAccess,
+  });
+}
+
+export function useShareDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, shared }: { documentId: string; shared: boolean }) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/share`, { shared });
+      return response.json() as Promise<{ success: boolean; document: PdfDocument }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    },
+  });
+}
+
+export function useShareSignature() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ signatureId, shared }: { signatureId: string; shared: boolean }) => {
+      const response = await apiRequest("POST", `/api/signatures/${signatureId}/share`, { shared });
+      return response.json() as Promise<{ success: boolean; signature: PublicSignature }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signatures"] });
+    },
+  });
+}
@@ -1,7 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { apiUrl } from "@/lib/api";
-import { type PdfDocument } from "@shared/schema";
+import { useStepUp } from "@/hooks/use-step-up";
+import {
+  type PdfDocument,
+  type AuditEvent,
+  type DocumentVersion,
+  type DocumentPage,
+  type DocumentSearchResult,
+  type VersionSnapshot,
+  type PublicJob,
+} from "@shared/schema";
 
 export function usePdfDocuments(userId: string) {
   return useQuery<{ success: boolean; documents: PdfDocument[] }>({
@@ -10,13 +19,17 @@ export function usePdfDocuments(userId: string) {
   });
 }
 
-export function useUploadPdfs(userId: string) {
+// Uploads into `folderId` when given, otherwise to the top level
+export function useUploadPdfs(userId: string, folderId?: string | null) {
   const queryClient = useQueryClient();
   
   return useMutation({
     mutationFn: async (files: FileList) => {
       const formData = new FormData();
       formData.append("userId", userId);
+      if (folderId) {
+        formData.append("folderId", folderId);
+      }
       
       for (let i = 0; i < files.length; i++) {
         formData.append("pdfs", files[i]);
@@ -25,6 +38,7 @@ export function useUploadPdfs(userId: string) {
       const response = await fetch(apiUrl("api/documents/upload"), {
         method: "POST",
         body: formData,
+        credentials: "include",
       });
 
       if (!response.ok) {
@@ -38,14 +52,150 @@ export function useUploadPdfs(userId: string) {
         throw new Error(errorText);
       }
 
-      return response.json();
+      return response.json() as Promise<{ success: boolean; documents: PdfDocument[]; jobs: PublicJob[] }>;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents", userId] });
+      // Each upload is processed by a background job
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
     },
   });
 }
 
+export function isActiveJob(job: PublicJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+// The user's unfinished and recently finished jobs, polled while any is running
+export function useJobs() {
+  return useQuery<{ success: boolean; jobs: PublicJob[] }>({
+    queryKey: ["/api/jobs"],
+    refetchInterval: (query) => (query.state.data?.jobs.some(isActiveJob) ? 1500 : false),
+  });
+}
+
+export function useJob(jobId: string | undefined) {
+  return useQuery<{ success: boolean; job: PublicJob }>({
+    queryKey: ["/api/jobs", jobId],
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const job = query.state.data?.job;
+      return !job || isActiveJob(job) ? 1000 : false;
+    },
+  });
+}
+
+// Queues a ZIP of several documents, or the signed PDF itself for just one
+export function useExportDocuments() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentIds, flattenForms }: { documentIds: string[]; flattenForms: boolean }) => {
+      const response =
+        documentIds.length === 1
+          ? await apiRequest("POST", `/api/documents/${documentIds[0]}/render`, { flattenForms })
+          : await apiRequest("POST", "/api/documents/bulk-download", { documentIds, flattenForms });
+      return response.json() as Promise<{ success: boolean; job: PublicJob }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+  });
+}
+
+/** Saves the file a completed render or export job produced. */
+export async function downloadJobOutput(job: PublicJob): Promise<void> {
+  const response = await fetch(apiUrl(`api/jobs/${job.id}/download`), { credentials: "include" });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || "Download failed");
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = job.result?.fileName || "download";
+  window.document.body.appendChild(link);
+  link.click();
+  window.document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export type DocumentPageInfo = Omit<DocumentPage, "thumbnailPath" | "previewPath">;
+
+// Server-rendered page images; polled while they are still being rendered
+export function useDocumentPages(documentId: string | undefined) {
+  return useQuery<{ success: boolean; renderedAt: string | null; pages: DocumentPageInfo[]; job: PublicJob | null }>({
+    queryKey: ["/api/documents", documentId, "pages"],
+    enabled: !!documentId,
+    refetchInterval: (query) => (query.state.data?.job ? 2000 : false),
+  });
+}
+
+/** URL of a page image; `renderedAt` makes re-rendered pages bypass the browser cache. */
+export function pageImageUrl(
+  documentId: string,
+  pageNumber: number,
+  size: "thumbnail" | "preview",
+  renderedAt: Date | string | null
+): string {
+  const version = renderedAt ? new Date(renderedAt).getTime() : 0;
+  return apiUrl(`api/documents/${documentId}/pages/${pageNumber}/${size}?v=${version}`);
+}
+
+export interface DocumentSearchFilters {
+  q: string;
+  status: "all" | "signed" | "unsigned";
+  uploadedFrom: string; // yyyy-mm-dd, as from a date input
+  uploadedTo: string;
+  signer: string;
+}
+
+export const emptySearchFilters: DocumentSearchFilters = {
+  q: "",
+  status: "all",
+  uploadedFrom: "",
+  uploadedTo: "",
+  signer: "",
+};
+
+// The folder ("unfiled" for documents in none) and tag the sidebar is showing
+export interface DocumentScope {
+  folderId: string;
+  tagId: string;
+}
+
+export const allDocumentsScope: DocumentScope = { folderId: "", tagId: "" };
+
+// Only what differs from emptySearchFilters is sent
+function searchParams(filters: DocumentSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim() && value !== emptySearchFilters[key as keyof DocumentSearchFilters]) {
+      params.set(key, value.trim());
+    }
+  }
+  return params;
+}
+
+export function hasSearchFilters(filters: DocumentSearchFilters): boolean {
+  return searchParams(filters).toString() !== "";
+}
+
+export function useDocumentSearch(filters: DocumentSearchFilters, scope: DocumentScope = allDocumentsScope) {
+  const params = searchParams(filters);
+  if (scope.folderId) params.set("folderId", scope.folderId);
+  if (scope.tagId) params.set("tagId", scope.tagId);
+
+  // Under /api/documents so anything that refreshes the documents refreshes results too
+  return useQuery<{ success: boolean; results: DocumentSearchResult[] }>({
+    queryKey: ["/api/documents", `search?${params.toString()}`],
+    enabled: hasSearchFilters(filters),
+    placeholderData: (previous) => previous,
+  });
+}
+
 export function useDeleteDocument(userId: string) {
   const queryClient = useQueryClient();
   
@@ -87,8 +237,53 @@ export function useDocumentSignatures(documentId: string) {
   });
 }
 
+export interface AuditChainVerification {
+  valid: boolean;
+  eventCount: number;
+  headHash: string | null;
+  brokenAt: number | null;
+  errors: string[];
+}
+
+export function useDocumentAuditTrail(documentId: string, enabled = true) {
+  return useQuery<{ success: boolean; events: AuditEvent[]; chain: AuditChainVerification }>({
+    queryKey: ["/api/documents", documentId, "audit"],
+    enabled: !!documentId && enabled,
+  });
+}
+
+// Versions as listed by the API, without where the file is kept
+export type DocumentVersionInfo = Omit<DocumentVersion, "filePath" | "snapshot">;
+
+type SnapshotSignature = VersionSnapshot["signatures"][number];
+
+export interface VersionDiff {
+  from: { versionNumber: number; action: string; sha256: string; authorEmail: string | null; createdAt: string };
+  to: { versionNumber: number; action: string; sha256: string; authorEmail: string | null; createdAt: string };
+  identical: boolean;
+  pageCount: { from: number; to: number };
+  pages: { pageNumber: number; change: "added" | "removed" | "changed" }[];
+  signatures: { added: SnapshotSignature[]; removed: SnapshotSignature[]; moved: SnapshotSignature[] };
+  fields: { fieldId: string; name: string; type: string; from: string | null; to: string | null }[];
+}
+
+export function useDocumentVersions(documentId: string, enabled = true) {
+  return useQuery<{ success: boolean; versions: DocumentVersionInfo[] }>({
+    queryKey: ["/api/documents", documentId, "versions"],
+    enabled: !!documentId && enabled,
+  });
+}
+
+export function useVersionDiff(documentId: string, from: number | undefined, to: number | undefined) {
+  return useQuery<{ success: boolean; diff: VersionDiff }>({
+    queryKey: ["/api/documents", documentId, "versions", `diff?from=${from}&to=${to}`],
+    enabled: !!documentId && !!from && !!to && from !== to,
+  });
+}
+
 export function useApplySignature() {
   const queryClient = useQueryClient();
+  const { withStepUp } = useStepUp();
   
   return useMutation({
     mutationFn: async ({
@@ -104,15 +299,23 @@ export function useApplySignature() {
       position: any;
       password?: string;
     }) => {
-      const response = await apiRequest("POST", `/api/documents/${documentId}/signatures`, {
-        signatureId,
-        pageNumbers,
-        position,
-        password,
-      });
+      const response = await withStepUp(() =>
+        apiRequest("POST", `/api/documents/${documentId}/signatures`, {
+          signatureId,
+          pageNumbers,
+          position,
+          password,
+        })
+      );
       return response.json();
     },
     onSuccess: (data, variables) => {
+      // A delegated use that needs approval places nothing yet
+      if (data.approvalRequest) {
+        queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
+        return;
+      }
+
       // Optimistic update: Add new signatures to cache immediately
       const queryKey = ["/api/documents", variables.documentId, "signatures"];
       const existingData = queryClient.getQueryData(queryKey) as any;
@@ -199,26 +402,23 @@ export function useUpdateSignaturePosition() {
   });
 }
 
-// export function useToggleDocumentReadOnly() {
-//   const queryClient = useQueryClient();
-//   
-//   return useMutation({
-//     mutationFn: async ({
-//       documentId,
-//       isReadOnly
-//     }: {
-//       documentId: string;
-//       isReadOnly: boolean;
-//     }) => {
-//       const response = await apiRequest("PUT", `/api/documents/${documentId}/readonly`, {
-//         isReadOnly,
-//       });
-//       return response.json();
-//     },
-//     onSuccess: (data, variables) => {
-//       queryClient.invalidateQueries({
-//         queryKey: ["/api/documents"]
-//       });
-//     },
-//   });
-// }
+// Seals the signed document and locks it against further changes
+export function useFinalizeDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId }: { documentId: string }) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/finalize`);
+      return response.json() as Promise<{
+        success: boolean;
+        document: PdfDocument;
+        version: { versionNumber: number; sha256: string };
+      }>;
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/documents"]
+      });
+    },
+  });
+}
@@ -1,24 +1,18 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { type DigitalSignature } from "@shared/schema";
+import { type DelegatedSignature, type PublicSignature, type RevocationReason } from "@shared/schema";
 
 export function useDigitalSignatures(userId: string) {
-  return useQuery<{ success: boolean; signatures: DigitalSignature[] }>({
+  // sharedSignatures: other members' signatures shared with the user's organization
+  // delegatedSignatures: signatures other users let this one apply on their behalf
+  return useQuery<{
+    success: boolean;
+    signatures: PublicSignature[];
+    sharedSignatures: PublicSignature[];
+    delegatedSignatures: DelegatedSignature[];
+  }>({
     queryKey: ["/api/signatures", userId],
     enabled: !!userId,
-    onSuccess: (data) => {
-      console.log("=== SIGNATURE RETRIEVAL DEBUG ===");
-      console.log("Retrieved signatures:", data.signatures);
-      data.signatures.forEach((sig, index) => {
-        console.log(`Signature ${index + 1}:`, {
-          id: sig.id,
-          name: sig.name,
-          hasPassword: !!sig.password,
-          passwordLength: sig.password?.length,
-          passwordPreview: sig.password ? `${sig.password.substring(0, 3)}***` : 'none'
-        });
-      });
-    },
   });
 }
 
@@ -67,6 +61,20 @@ export function useDeleteSignature(userId: string) {
   });
 }
 
+export function useRevokeSignature(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ signatureId, reason }: { signatureId: string; reason: RevocationReason }) => {
+      const response = await apiRequest("POST", `/api/signatures/${signatureId}/revoke`, { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signatures", userId] });
+    },
+  });
+}
+
 export function useSignatureCertificate(signatureId: string) {
   return useQuery<{ success: boolean; certificate: any }>({
     queryKey: ["/api/signatures", signatureId, "certificate"],
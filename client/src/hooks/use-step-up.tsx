@@ -0,0 +1,78 @@
+import { createContext, useCallback, useContext, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { getApiErrorBody, getApiErrorMessage } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { StepUpDialog } from "@/components/auth/step-up-dialog";
+import { type TwoFactorCode } from "@shared/schema";
+
+interface StepUpContextType {
+  // Runs a signing request; if the server asks for the signing challenge,
+  // prompts for a code and runs it once more
+  withStepUp: <T>(action: () => Promise<T>) => Promise<T>;
+}
+
+const StepUpContext = createContext<StepUpContextType | undefined>(undefined);
+
+export function StepUpProvider({ children }: { children: React.ReactNode }) {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const pending = useRef<{ resolve: () => void; reject: (error: Error) => void } | null>(null);
+
+  const withStepUp = useCallback(async <T,>(action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error: any) {
+      if (!error?.message?.startsWith("403:") || !getApiErrorBody(error)?.stepUpRequired) {
+        throw error;
+      }
+      await new Promise<void>((resolve, reject) => {
+        pending.current = { resolve, reject };
+        setOpen(true);
+      });
+      return action();
+    }
+  }, []);
+
+  const settle = (error?: Error) => {
+    setOpen(false);
+    if (error) {
+      pending.current?.reject(error);
+    } else {
+      pending.current?.resolve();
+    }
+    pending.current = null;
+  };
+
+  const verify = async (input: TwoFactorCode) => {
+    try {
+      await apiRequest("POST", "/api/auth/two-factor/step-up", input);
+    } catch (error: any) {
+      const message = getApiErrorMessage(error, "Could not verify the code");
+      toast({ title: "Verification failed", description: message, variant: "destructive" });
+      // Too many wrong codes end the session
+      if (getApiErrorBody(error)?.loggedOut) {
+        settle(new Error(message));
+        await logout();
+      }
+      throw error;
+    }
+    settle();
+  };
+
+  return (
+    <StepUpContext.Provider value={{ withStepUp }}>
+      {children}
+      <StepUpDialog open={open} onSubmit={verify} onCancel={() => settle(new Error("Signing was cancelled"))} />
+    </StepUpContext.Provider>
+  );
+}
+
+export function useStepUp() {
+  const context = useContext(StepUpContext);
+  if (context === undefined) {
+    throw new Error("useStepUp must be used within a StepUpProvider");
+  }
+  return context;
+}
@@ -0,0 +1,170 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useStepUp } from "@/hooks/use-step-up";
+import {
+  type CreateDocumentField,
+  type CreateFromTemplate,
+  type CreateTemplate,
+  type DocumentField,
+  type DocumentTemplate,
+  type EnvelopeWithRecipients,
+  type PdfDocument,
+  type UpdateTemplate,
+} from "@shared/schema";
+
+export function useTemplates(enabled = true) {
+  return useQuery<{ success: boolean; templates: DocumentTemplate[] }>({
+    queryKey: ["/api/templates"],
+    enabled,
+  });
+}
+
+export function useCreateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: CreateTemplate) => {
+      const response = await apiRequest("POST", "/api/templates", template);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+    },
+  });
+}
+
+export function useUpdateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ templateId, template }: { templateId: string; template: UpdateTemplate }) => {
+      const response = await apiRequest("PUT", `/api/templates/${templateId}`, template);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+    },
+  });
+}
+
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: string) => {
+      const response = await apiRequest("DELETE", `/api/templates/${templateId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+    },
+  });
+}
+
+export function useCreateFromTemplate(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      templateId,
+      request,
+    }: {
+      templateId: string;
+      request: CreateFromTemplate;
+    }): Promise<{
+      success: boolean;
+      document: PdfDocument;
+      fields: DocumentField[];
+      envelope: EnvelopeWithRecipients | null;
+    }> => {
+      const response = await apiRequest("POST", `/api/templates/${templateId}/documents`, request);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", userId] });
+    },
+  });
+}
+
+export function useDocumentFields(documentId: string) {
+  return useQuery<{ success: boolean; fields: DocumentField[] }>({
+    queryKey: ["/api/documents", documentId, "fields"],
+    enabled: !!documentId,
+  });
+}
+
+export function useFillDocumentField() {
+  const queryClient = useQueryClient();
+  const { withStepUp } = useStepUp();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      field,
+      signatureId,
+      password,
+    }: {
+      documentId: string;
+      field: DocumentField;
+      signatureId: string;
+      password?: string;
+    }) => {
+      const response = await withStepUp(() =>
+        apiRequest("POST", `/api/documents/${documentId}/signatures`, {
+          signatureId,
+          pageNumbers: [field.pageNumber],
+          position: field.position,
+          password,
+          fieldId: field.id,
+        })
+      );
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", variables.documentId, "fields"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", variables.documentId, "signatures"] });
+    },
+  });
+}
+
+export function useAddDocumentField() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, field }: { documentId: string; field: CreateDocumentField }) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/fields`, field);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", variables.documentId, "fields"] });
+    },
+  });
+}
+
+export function useSaveDocumentFieldValues() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, values }: { documentId: string; values: Record<string, string> }) => {
+      const response = await apiRequest("PUT", `/api/documents/${documentId}/fields/values`, { values });
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", variables.documentId, "fields"] });
+    },
+  });
+}
+
+export function useRemoveDocumentField() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, fieldId }: { documentId: string; fieldId: string }) => {
+      const response = await apiRequest("DELETE", `/api/documents/${documentId}/fields/${fieldId}`);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", variables.documentId, "fields"] });
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { type TwoFactorCode, type TwoFactorStatus } from "@shared/schema";
+
+export function useTwoFactorStatus(enabled = true) {
+  return useQuery<{ success: boolean; twoFactor: TwoFactorStatus }>({
+    queryKey: ["/api/auth/two-factor"],
+    enabled,
+  });
+}
+
+function useInvalidateTwoFactor() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+  };
+}
+
+// Returns the secret to add to an authenticator app; enabling confirms it
+export function useStartTwoFactorSetup() {
+  return useMutation({
+    mutationFn: async (password: string) => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/setup", { password });
+      return response.json() as Promise<{ success: boolean; secret: string; otpauthUrl: string }>;
+    },
+  });
+}
+
+export function useEnableTwoFactor() {
+  const invalidateTwoFactor = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/enable", { code });
+      return response.json() as Promise<{ success: boolean; recoveryCodes: string[] }>;
+    },
+    onSuccess: invalidateTwoFactor,
+  });
+}
+
+export function useDisableTwoFactor() {
+  const invalidateTwoFactor = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: async (input: TwoFactorCode) => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/disable", input);
+      return response.json();
+    },
+    onSuccess: invalidateTwoFactor,
+  });
+}
+
+export function useRegenerateRecoveryCodes() {
+  const invalidateTwoFactor = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: async (input: TwoFactorCode) => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/recovery-codes", input);
+      return response.json() as Promise<{ success: boolean; recoveryCodes: string[] }>;
+    },
+    onSuccess: invalidateTwoFactor,
+  });
+}
+
+export function useUpdateSigningChallenge() {
+  const invalidateTwoFactor = useInvalidateTwoFactor();
+
+  return useMutation({
+    mutationFn: async (update: { signingChallenge: boolean; code: string }) => {
+      const response = await apiRequest("PATCH", "/api/auth/two-factor", update);
+      return response.json() as Promise<{ success: boolean; twoFactor: TwoFactorStatus }>;
+    },
+    onSuccess: invalidateTwoFactor,
+  });
+}
@@ -30,3 +30,27 @@ export const apiRequest = async (
 
   return res;
 };
+
+// apiRequest errors read "<status>: <body>"; returns the server's error message
+export const getApiErrorMessage = (error: any, fallback: string): string => {
+  const match = /^\d+: ([\s\S]*)$/.exec(error?.message || "");
+  if (match) {
+    try {
+      return JSON.parse(match[1]).error || fallback;
+    } catch {
+      return match[1];
+    }
+  }
+  return error?.message || fallback;
+};
+
+// The JSON body of an apiRequest error, for fields beyond the message
+export const getApiErrorBody = (error: any): Record<string, any> | null => {
+  const match = /^\d+: ([\s\S]*)$/.exec(error?.message || "");
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,40 @@
+import { fieldDefaultSizes, type FieldType, type TemplateField } from "@shared/schema";
+
+export const fieldTypeLabels: Record<FieldType, string> = {
+  signature: "Signature",
+  initials: "Initials",
+  date: "Date signed",
+  text: "Text",
+  name: "Full name",
+  company: "Company",
+  checkbox: "Checkbox",
+  radio: "Radio button",
+  dropdown: "Dropdown",
+};
+
+// A field of the given type at one of the grid positions, sized for its type
+export function newTemplateField(
+  type: FieldType,
+  role: string,
+  pageNumber: number,
+  gridPosition: string,
+  name = ""
+): TemplateField {
+  return {
+    id: `field-${Date.now()}-${Math.round(Math.random() * 1e9)}`,
+    name,
+    type,
+    role,
+    pageNumber,
+    position: { gridPosition, ...fieldDefaultSizes[type] },
+    required: true,
+  };
+}
+
+// Dropdown choices typed as "Yes, No, Maybe"
+export function parseOptions(text: string): string[] {
+  return text
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean);
+}
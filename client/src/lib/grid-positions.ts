@@ -0,0 +1,12 @@
+// The nine preset stamp positions understood by the server (see PdfService)
+export const gridPositionOptions = [
+  { id: "top-left", name: "Top Left" },
+  { id: "top-center", name: "Top Center" },
+  { id: "top-right", name: "Top Right" },
+  { id: "middle-left", name: "Middle Left" },
+  { id: "middle-center", name: "Middle Center" },
+  { id: "middle-right", name: "Middle Right" },
+  { id: "bottom-left", name: "Bottom Left" },
+  { id: "bottom-center", name: "Bottom Center" },
+  { id: "bottom-right", name: "Bottom Right" },
+];
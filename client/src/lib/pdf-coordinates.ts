@@ -0,0 +1,53 @@
+import { type PdfDocument, type PdfPosition } from "@shared/schema";
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+// A box in CSS pixels from the top-left corner of the rendered page
+export interface ViewerBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// US Letter, as on the server, for documents whose page sizes were never recorded
+const DEFAULT_PAGE_SIZE: PageSize = { width: 612, height: 792 };
+
+export function getPageSize(document: PdfDocument, pageNumber: number): PageSize {
+  try {
+    const sizes: PageSize[] = JSON.parse(document.pageSizes || "[]");
+    return sizes[pageNumber - 1] || DEFAULT_PAGE_SIZE;
+  } catch {
+    return DEFAULT_PAGE_SIZE;
+  }
+}
+
+// react-pdf draws a page at `scale` CSS pixels per PDF point, and PDF points
+// count up from the bottom of the page, so only the y axis flips
+export function toViewerBox(position: PdfPosition, pageSize: PageSize, scale: number): ViewerBox {
+  return {
+    left: position.x * scale,
+    top: (pageSize.height - position.y - position.height) * scale,
+    width: position.width * scale,
+    height: position.height * scale,
+  };
+}
+
+export function toPdfPosition(box: ViewerBox, pageSize: PageSize, scale: number, rotation = 0): PdfPosition {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    gridPosition: "pdf",
+    x: round(box.left / scale),
+    y: round(pageSize.height - (box.top + box.height) / scale),
+    width: round(box.width / scale),
+    height: round(box.height / scale),
+    rotation,
+  };
+}
+
+export function isPdfPosition(position: unknown): position is PdfPosition {
+  return (position as PdfPosition | null)?.gridPosition === "pdf";
+}
@@ -0,0 +1,536 @@
+import { useState } from "react";
+import { Link, Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  useTwoFactorStatus,
+  useStartTwoFactorSetup,
+  useEnableTwoFactor,
+  useDisableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useUpdateSigningChallenge,
+} from "@/hooks/use-two-factor";
+import { useSecurityQuestions, useSaveSecurityQuestions, useRemoveSecurityQuestions } from "@/hooks/use-account-recovery";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { TwoFactorForm } from "@/components/auth/two-factor-form";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { securityQuestionOptions, type TwoFactorCode } from "@shared/schema";
+import {
+  ArrowLeft,
+  Copy,
+  Download,
+  KeyRound,
+  Loader2,
+  LifeBuoy,
+  ShieldCheck,
+  Smartphone,
+  UserCircle,
+} from "lucide-react";
+
+// Changes to two-factor settings that wait for a code
+type PendingAction = "signing-on" | "signing-off" | "regenerate" | "disable";
+
+const ACTION_LABELS: Record<PendingAction, string> = {
+  "signing-on": "Ask for a code when signing",
+  "signing-off": "Stop asking when signing",
+  regenerate: "Generate new recovery codes",
+  disable: "Turn off two-factor authentication",
+};
+
+function Detail({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 text-sm">
+      <span className="font-medium text-gray-500">{label}</span>
+      <span className="col-span-2 text-gray-900 break-all">{value}</span>
+    </div>
+  );
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`XSignature recovery codes\n\n${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "xsignature-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-amber-200 bg-amber-50 p-4" data-testid="recovery-codes">
+      <p className="text-sm text-amber-900">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your device, and they
+        will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="rounded bg-white px-2 py-1 text-center">
+            {code}
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={async () => {
+            await navigator.clipboard.writeText(text);
+            toast({ title: "Recovery codes copied" });
+          }}
+        >
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={download}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+        <Button size="sm" className="ml-auto" onClick={onDone} data-testid="button-recovery-codes-saved">
+          I saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type SecurityQuestion = (typeof securityQuestionOptions)[number];
+
+// Optional questions that let the user reset their password without email
+function SecurityQuestionsCard() {
+  const { toast } = useToast();
+  const { data, isLoading } = useSecurityQuestions();
+  const saveQuestions = useSaveSecurityQuestions();
+  const removeQuestions = useRemoveSecurityQuestions();
+
+  const [mode, setMode] = useState<"view" | "edit" | "remove">("view");
+  const [question1, setQuestion1] = useState<SecurityQuestion>(securityQuestionOptions[0]);
+  const [answer1, setAnswer1] = useState("");
+  const [question2, setQuestion2] = useState<SecurityQuestion>(securityQuestionOptions[1]);
+  const [answer2, setAnswer2] = useState("");
+  const [password, setPassword] = useState("");
+
+  const questions = data?.questions;
+
+  const close = () => {
+    setMode("view");
+    setAnswer1("");
+    setAnswer2("");
+    setPassword("");
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveQuestions.mutateAsync({ password, question1, answer1, question2, answer2 });
+      close();
+      toast({ title: "Security questions saved" });
+    } catch (error: any) {
+      toast({
+        title: "Could not save security questions",
+        description: getApiErrorMessage(error, "Could not save security questions"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeQuestions.mutateAsync(password);
+      close();
+      toast({ title: "Security questions removed" });
+    } catch (error: any) {
+      toast({
+        title: "Could not remove security questions",
+        description: getApiErrorMessage(error, "Could not remove security questions"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const questionSelect = (value: SecurityQuestion, onChange: (value: SecurityQuestion) => void, other: string) => (
+    <Select value={value} onValueChange={(next) => onChange(next as SecurityQuestion)}>
+      <SelectTrigger className="text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {securityQuestionOptions
+          .filter((option) => option !== other)
+          .map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card data-testid="security-questions-settings">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <LifeBuoy className="h-5 w-5 text-blue-600" />
+          Security questions
+          {questions && <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Set up</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Answer two questions to reset your password if you can't get to your email. Answers are not case-sensitive.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : mode === "edit" ? (
+          <div className="space-y-3 max-w-lg">
+            <div className="space-y-2">
+              {questionSelect(question1, setQuestion1, question2)}
+              <Input
+                value={answer1}
+                onChange={(event) => setAnswer1(event.target.value)}
+                placeholder="Answer"
+                data-testid="input-security-answer-1"
+              />
+            </div>
+            <div className="space-y-2">
+              {questionSelect(question2, setQuestion2, question1)}
+              <Input
+                value={answer2}
+                onChange={(event) => setAnswer2(event.target.value)}
+                placeholder="Answer"
+                data-testid="input-security-answer-2"
+              />
+            </div>
+            <Input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              placeholder="Current password"
+              data-testid="input-security-questions-password"
+            />
+            <div className="flex gap-2">
+              <Button
+                onClick={handleSave}
+                disabled={answer1.trim().length < 2 || answer2.trim().length < 2 || !password || saveQuestions.isPending}
+                data-testid="button-save-security-questions"
+              >
+                {saveQuestions.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+              <Button variant="ghost" onClick={close}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : mode === "remove" ? (
+          <div className="flex max-w-md gap-2">
+            <Input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              placeholder="Current password"
+              autoFocus
+            />
+            <Button
+              variant="outline"
+              className="text-red-600 border-red-200 hover:bg-red-50"
+              onClick={handleRemove}
+              disabled={!password || removeQuestions.isPending}
+              data-testid="button-confirm-remove-security-questions"
+            >
+              Remove
+            </Button>
+            <Button variant="ghost" onClick={close}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <>
+            {questions && (
+              <ul className="list-disc pl-5 text-sm text-gray-700">
+                <li>{questions[0]}</li>
+                <li>{questions[1]}</li>
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setMode("edit")} data-testid="button-edit-security-questions">
+                {questions ? "Change questions" : "Set up"}
+              </Button>
+              {questions && (
+                <Button
+                  variant="outline"
+                  className="text-red-600 border-red-200 hover:bg-red-50"
+                  onClick={() => setMode("remove")}
+                  data-testid="button-remove-security-questions"
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AccountPage() {
+  const { user, isLoading } = useAuth();
+  const { toast } = useToast();
+  const { data, isLoading: isStatusLoading } = useTwoFactorStatus(!!user);
+  const startSetup = useStartTwoFactorSetup();
+  const enableTwoFactor = useEnableTwoFactor();
+  const disableTwoFactor = useDisableTwoFactor();
+  const regenerateRecoveryCodes = useRegenerateRecoveryCodes();
+  const updateSigningChallenge = useUpdateSigningChallenge();
+
+  const [password, setPassword] = useState("");
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+  if (!user) {
+    return <Redirect to="/" />;
+  }
+
+  const twoFactor = data?.twoFactor;
+
+  const fail = (title: string, error: any) => {
+    toast({ title, description: getApiErrorMessage(error, title), variant: "destructive" });
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setSetup(await startSetup.mutateAsync(password));
+      setPassword("");
+    } catch (error: any) {
+      fail("Could not start setup", error);
+    }
+  };
+
+  const handleEnable = async ({ code }: TwoFactorCode) => {
+    try {
+      const result = await enableTwoFactor.mutateAsync(code!);
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      toast({ title: "Two-factor authentication is on" });
+    } catch (error: any) {
+      fail("Could not turn on two-factor authentication", error);
+      throw error;
+    }
+  };
+
+  const handlePendingAction = async (input: TwoFactorCode) => {
+    try {
+      switch (pendingAction) {
+        case "signing-on":
+        case "signing-off":
+          await updateSigningChallenge.mutateAsync({ signingChallenge: pendingAction === "signing-on", code: input.code! });
+          toast({ title: pendingAction === "signing-on" ? "Signing now asks for a code" : "Signing no longer asks for a code" });
+          break;
+        case "regenerate":
+          setRecoveryCodes((await regenerateRecoveryCodes.mutateAsync(input)).recoveryCodes);
+          break;
+        case "disable":
+          await disableTwoFactor.mutateAsync(input);
+          toast({ title: "Two-factor authentication is off" });
+          break;
+      }
+      setPendingAction(null);
+    } catch (error: any) {
+      fail("Could not save the change", error);
+      throw error;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="px-6 py-4 bg-gradient-to-r from-blue-600 to-indigo-700 text-white">
+        <div className="max-w-3xl mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <UserCircle className="w-6 h-6" />
+            <h1 className="text-xl font-bold" data-testid="account-title">Account Settings</h1>
+          </div>
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-white hover:!text-white hover:bg-white/20">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Detail label="Name" value={user.fullName} />
+            <Detail label="Email" value={user.email} />
+            {user.companyName && <Detail label="Company" value={user.companyName} />}
+          </CardContent>
+        </Card>
+
+        <Card data-testid="two-factor-settings">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-blue-600" />
+              Two-factor authentication
+              {twoFactor?.enabled && <Badge className="bg-green-100 text-green-800 hover:bg-green-100">On</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Sign in with a code from an authenticator app on your phone as well as your password.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            {recoveryCodes && <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />}
+
+            {isStatusLoading || !twoFactor ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+              </div>
+            ) : !twoFactor.enabled ? (
+              setup ? (
+                <div className="space-y-4" data-testid="two-factor-setup">
+                  <div className="space-y-2 text-sm text-gray-700">
+                    <p className="flex items-center gap-2 font-medium">
+                      <Smartphone className="h-4 w-4" />
+                      1. Add XSignature to your authenticator app
+                    </p>
+                    <p>
+                      On your phone,{" "}
+                      <a href={setup.otpauthUrl} className="text-blue-600 underline">
+                        open this link
+                      </a>{" "}
+                      or enter this key in the app:
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 rounded bg-gray-100 px-3 py-2 font-mono text-sm tracking-wider break-all" data-testid="two-factor-secret">
+                        {setup.secret.match(/.{1,4}/g)!.join(" ")}
+                      </code>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={async () => {
+                          await navigator.clipboard.writeText(setup.secret);
+                          toast({ title: "Key copied" });
+                        }}
+                        aria-label="Copy key"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700">2. Enter the code the app shows</p>
+                    <div className="max-w-xs">
+                      <TwoFactorForm onSubmit={handleEnable} submitLabel="Turn on" allowRecoveryCode={false} />
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setSetup(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-password" className="text-xs">
+                    Confirm your password to set up two-factor authentication
+                  </Label>
+                  <div className="flex max-w-md gap-2">
+                    <Input
+                      id="two-factor-password"
+                      type="password"
+                      value={password}
+                      onChange={(event) => setPassword(event.target.value)}
+                      placeholder="Password"
+                      data-testid="input-two-factor-password"
+                    />
+                    <Button
+                      onClick={handleStartSetup}
+                      disabled={!password || startSetup.isPending}
+                      data-testid="button-start-two-factor"
+                    >
+                      {startSetup.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Set up
+                    </Button>
+                  </div>
+                </div>
+              )
+            ) : (
+              <div className="space-y-5">
+                <div className="space-y-2">
+                  {twoFactor.enabledAt && (
+                    <Detail label="Turned on" value={new Date(twoFactor.enabledAt).toLocaleString()} />
+                  )}
+                  <Detail label="Recovery codes left" value={String(twoFactor.recoveryCodesRemaining)} />
+                </div>
+
+                <div className="flex items-start justify-between gap-4 rounded-md border p-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">Ask for a code when signing</p>
+                    <p className="text-xs text-gray-500">
+                      Signing a document needs a fresh code, so someone holding only your session cannot sign.
+                    </p>
+                  </div>
+                  <Switch
+                    checked={twoFactor.signingChallenge}
+                    onCheckedChange={(checked) => setPendingAction(checked ? "signing-on" : "signing-off")}
+                    disabled={!!pendingAction}
+                    data-testid="switch-signing-challenge"
+                  />
+                </div>
+
+                {pendingAction ? (
+                  <div className="max-w-xs space-y-3" data-testid="two-factor-confirm">
+                    <p className="text-sm font-medium text-gray-700">{ACTION_LABELS[pendingAction]}</p>
+                    <TwoFactorForm
+                      onSubmit={handlePendingAction}
+                      submitLabel="Confirm"
+                      allowRecoveryCode={pendingAction === "regenerate" || pendingAction === "disable"}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => setPendingAction(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={() => setPendingAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      New recovery codes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                      onClick={() => setPendingAction("disable")}
+                      data-testid="button-disable-two-factor"
+                    >
+                      Turn off
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <SecurityQuestionsCard />
+      </div>
+    </div>
+  );
+}
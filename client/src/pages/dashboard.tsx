@@ -51,9 +51,18 @@ export default function Dashboard() {
       setSelectedDocument(documents[0]);
     }
     // Clear selected document if it no longer exists in the list
-    if (selectedDocument && !documents.find(doc => doc.id === selectedDocument.id)) {
+    const current = selectedDocument && documents.find(doc => doc.id === selectedDocument.id);
+    if (selectedDocument && !current) {
       setSelectedDocument(null);
     }
+    // Pick up a document being finalized or finishing background processing
+    if (
+      selectedDocument &&
+      current &&
+      (current.isReadOnly !== selectedDocument.isReadOnly || current.status !== selectedDocument.status)
+    ) {
+      setSelectedDocument(current);
+    }
   }, [documents, selectedDocument]);
 
   // Listen for documents refresh events
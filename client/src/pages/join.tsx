@@ -0,0 +1,113 @@
+import { Link, useLocation, useParams } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useOrganizationInvitation, useRespondToInvitation } from "@/hooks/use-organization";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { LandingPage } from "@/components/auth/landing-page";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Building2, Loader2 } from "lucide-react";
+
+// Answers an organization invitation through the link emailed to the invited address
+export default function JoinPage() {
+  const { token = "" } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { user, isLoading } = useAuth();
+  const { toast } = useToast();
+  const { data, isLoading: isInvitationLoading, error } = useOrganizationInvitation(token, !!user);
+  const respond = useRespondToInvitation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+  // Signing in here keeps the link, so the invitation shows right after
+  if (!user) {
+    return <LandingPage onClose={() => {}} />;
+  }
+
+  const invitation = data?.invitation;
+
+  const handleRespond = async (accept: boolean) => {
+    try {
+      await respond.mutateAsync({ token, accept });
+      toast({
+        title: accept ? `You joined ${invitation!.organizationName}` : "Invitation declined",
+      });
+      setLocation("/");
+    } catch (respondError: any) {
+      const title = accept ? "Could not join organization" : "Could not decline invitation";
+      toast({ title, description: getApiErrorMessage(respondError, title), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="px-6 py-4 bg-gradient-to-r from-blue-600 to-indigo-700 text-white">
+        <div className="max-w-md mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Building2 className="w-6 h-6" />
+            <h1 className="text-xl font-bold" data-testid="join-title">Organization Invitation</h1>
+          </div>
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-white hover:!text-white hover:bg-white/20">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            {isInvitationLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+              </div>
+            ) : !invitation ? (
+              <p className="text-sm text-gray-600" data-testid="join-invalid">
+                {getApiErrorMessage(error, "Invitation not found or expired")}. Invitations only open for the account
+                with the invited email address ({user.email} is signed in), and a newer invitation replaces an older
+                one.
+              </p>
+            ) : (
+              <div className="space-y-4" data-testid="join-invitation">
+                <p className="text-sm text-gray-700">
+                  {invitation.invitedByName} invited you to join <strong>{invitation.organizationName}</strong> as{" "}
+                  {invitation.role}.
+                </p>
+                <p className="text-xs text-gray-500">
+                  Its admins will be able to change your role, and documents and signatures you share will be visible
+                  to its members.
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1"
+                    onClick={() => handleRespond(true)}
+                    disabled={respond.isPending}
+                    data-testid="button-accept-invitation"
+                  >
+                    {respond.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Join {invitation.organizationName}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleRespond(false)}
+                    disabled={respond.isPending}
+                    data-testid="button-decline-invitation"
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useCompletePasswordReset } from "@/hooks/use-account-recovery";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, KeyRound, Loader2 } from "lucide-react";
+
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(useSearch()).get("token") || "";
+  const [, setLocation] = useLocation();
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const completeReset = useCompletePasswordReset();
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const problem =
+    password.length > 0 && password.length < 8
+      ? "Password must be at least 8 characters"
+      : confirmPassword && password !== confirmPassword
+        ? "Passwords don't match"
+        : null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await completeReset.mutateAsync({ token, password });
+      // The reset signed out every session, this one included
+      if (user) await logout();
+      toast({ title: "Password changed", description: "Sign in with your new password." });
+      setLocation("/");
+    } catch (error: any) {
+      toast({
+        title: "Could not reset your password",
+        description: getApiErrorMessage(error, "Could not reset your password"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="px-6 py-4 bg-gradient-to-r from-blue-600 to-indigo-700 text-white">
+        <div className="max-w-md mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <KeyRound className="w-6 h-6" />
+            <h1 className="text-xl font-bold" data-testid="reset-password-title">Choose a New Password</h1>
+          </div>
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-white hover:!text-white hover:bg-white/20">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6">
+            {!token ? (
+              <p className="text-sm text-gray-600">
+                This reset link is incomplete. Open the link from the email again, or ask for a new one from the
+                sign-in window.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4" data-testid="form-reset-password">
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New Password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    value={password}
+                    onChange={(event) => setPassword(event.target.value)}
+                    autoComplete="new-password"
+                    autoFocus
+                    data-testid="input-new-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-new-password">Confirm New Password</Label>
+                  <Input
+                    id="confirm-new-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(event) => setConfirmPassword(event.target.value)}
+                    autoComplete="new-password"
+                    data-testid="input-confirm-new-password"
+                  />
+                </div>
+                {problem && <p className="text-sm text-red-600">{problem}</p>}
+                <p className="text-xs text-gray-500">Changing your password signs you out on every device.</p>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={!!problem || !password || password !== confirmPassword || completeReset.isPending}
+                  data-testid="button-reset-password"
+                >
+                  {completeReset.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Change Password
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
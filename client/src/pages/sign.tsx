@@ -0,0 +1,533 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { apiUrl } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { SignaturePad } from "@/components/signature/signature-pad";
+import { fieldTypeLabels } from "@/lib/field-types";
+import { inputFieldTypes, type FieldType, type PublicEnvelopeRecipient } from "@shared/schema";
+import {
+  CheckCircle2,
+  Download,
+  FileSignature,
+  Loader2,
+  PenLine,
+  XCircle,
+} from "lucide-react";
+
+interface SigningRequest {
+  envelope: {
+    id: string;
+    title: string;
+    message: string | null;
+    status: string;
+    signingOrder: string;
+  };
+  document: {
+    originalName: string;
+    pageCount: number;
+  };
+  sender: { fullName: string; companyName: string } | null;
+  recipient: PublicEnvelopeRecipient;
+  progress: { name: string; routingOrder: number; status: string; isYou: boolean }[];
+  fields: SigningField[];
+  canSign: boolean;
+}
+
+interface SigningField {
+  id: string;
+  name: string;
+  type: FieldType;
+  pageNumber: number;
+  required: boolean;
+  groupName: string | null;
+  maxLength: number | null;
+  options: string[] | null;
+  value: string | null;
+}
+
+async function postToSigningLink(token: string, path: string, body: unknown): Promise<any> {
+  const response = await fetch(apiUrl(`api/sign/${token}${path}`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    let errorText = "Request failed";
+    try {
+      const error = await response.json();
+      errorText = error.error || errorText;
+    } catch (e) {
+      errorText = response.statusText || errorText;
+    }
+    throw new Error(errorText);
+  }
+
+  return response.json();
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  sent: "bg-blue-100 text-blue-800",
+  viewed: "bg-indigo-100 text-indigo-800",
+  signed: "bg-green-100 text-green-800",
+  declined: "bg-red-100 text-red-800",
+};
+
+export default function SignPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+
+  const { data, isLoading, error, refetch } = useQuery<SigningRequest>({
+    queryKey: ["/api/sign", token],
+    queryFn: async () => {
+      const response = await fetch(apiUrl(`api/sign/${token}`), { credentials: "include" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || "This signing link is not valid");
+      }
+      return body;
+    },
+    enabled: !!token,
+  });
+
+  // Defaults to the name the sender used until the signer edits it
+  const [fullName, setFullName] = useState<string | null>(null);
+  const [companyName, setCompanyName] = useState("");
+  const [location, setLocation] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [consent, setConsent] = useState(false);
+  const [showSignaturePad, setShowSignaturePad] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [isDeclining, setIsDeclining] = useState(false);
+  const [showDecline, setShowDecline] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+
+  const recipient = data?.recipient;
+  const signerName = fullName ?? recipient?.name ?? "";
+
+  // Text, checkbox and radio fields are filled in here; the rest come from the signature
+  const inputFields = (data?.fields || []).filter((field) => inputFieldTypes.includes(field.type));
+  const signedFields = (data?.fields || []).filter((field) => !inputFieldTypes.includes(field.type));
+  const valueOf = (field: SigningField) => fieldValues[field.id] ?? field.value ?? "";
+
+  const radioGroups = new Map<string, SigningField[]>();
+  for (const field of inputFields.filter((candidate) => candidate.type === "radio")) {
+    radioGroups.set(field.groupName!, [...(radioGroups.get(field.groupName!) || []), field]);
+  }
+
+  const missingFields = [
+    ...inputFields
+      .filter((field) => field.type !== "radio" && field.required)
+      .filter((field) => (field.type === "checkbox" ? valueOf(field) !== "true" : !valueOf(field).trim()))
+      .map((field) => field.name),
+    ...Array.from(radioGroups)
+      .filter(([, options]) => options.some((option) => option.required))
+      .filter(([, options]) => !options.some((option) => valueOf(option) === "true"))
+      .map(([groupName]) => groupName),
+  ];
+
+  const handleSign = async () => {
+    setIsSigning(true);
+    try {
+      await postToSigningLink(token, "", {
+        fullName: signerName,
+        companyName,
+        location,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+        signatureImage,
+        fieldValues,
+        consent,
+      });
+      toast({ title: "Document signed", description: "Thank you. Your signature has been applied." });
+      await refetch();
+    } catch (signError: any) {
+      console.error("Signing error:", signError);
+      toast({
+        title: "Signing failed",
+        description: signError.message || "Could not sign this document",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    setIsDeclining(true);
+    try {
+      await postToSigningLink(token, "/decline", { reason: declineReason || undefined });
+      toast({ title: "Signing declined", description: "The sender has been notified." });
+      setShowDecline(false);
+      await refetch();
+    } catch (declineError: any) {
+      console.error("Decline error:", declineError);
+      toast({
+        title: "Could not decline",
+        description: declineError.message || "Failed to decline",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeclining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="px-6 py-4 bg-gradient-to-r from-blue-600 to-indigo-700 text-white">
+        <div className="max-w-5xl mx-auto flex items-center space-x-3">
+          <FileSignature className="w-6 h-6" />
+          <h1 className="text-xl font-bold" data-testid="sign-title">
+            {data?.envelope.title || "Signature Request"}
+          </h1>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20 text-gray-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading signing request...
+          </div>
+        ) : error || !data || !recipient ? (
+          <Card>
+            <CardContent className="pt-6 flex flex-col items-center text-center space-y-3">
+              <XCircle className="w-10 h-10 text-red-600" />
+              <p className="text-gray-700">{(error as Error)?.message || "This signing link is not valid"}</p>
+              <p className="text-sm text-gray-500">Ask the sender to send you a new link.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                <p className="text-sm text-gray-700">
+                  {data.sender
+                    ? `${data.sender.fullName}${data.sender.companyName ? ` (${data.sender.companyName})` : ""}`
+                    : "The sender"}{" "}
+                  has asked you, {recipient.name}, to sign <strong>{data.document.originalName}</strong>.
+                </p>
+                {data.envelope.message && (
+                  <blockquote className="border-l-4 border-blue-300 pl-3 text-sm text-gray-600 whitespace-pre-wrap">
+                    {data.envelope.message}
+                  </blockquote>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {data.progress.map((party, index) => (
+                    <Badge key={index} className={STATUS_STYLES[party.status]} data-testid={`sign-progress-${index}`}>
+                      {data.envelope.signingOrder === "sequential" && `${party.routingOrder}. `}
+                      {party.isYou ? "You" : party.name}: {party.status}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {data.envelope.status === "completed" && (
+              <Card data-testid="sign-completed">
+                <CardContent className="pt-6 flex flex-col items-center text-center space-y-3">
+                  <CheckCircle2 className="w-10 h-10 text-green-600" />
+                  <p className="text-gray-700">Everyone has signed this document.</p>
+                  <a href={apiUrl(`api/sign/${token}/download`)}>
+                    <Button>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download Signed PDF
+                    </Button>
+                  </a>
+                </CardContent>
+              </Card>
+            )}
+
+            {data.envelope.status !== "completed" && recipient.status === "signed" && (
+              <Card>
+                <CardContent className="pt-6 flex flex-col items-center text-center space-y-2">
+                  <CheckCircle2 className="w-10 h-10 text-green-600" />
+                  <p className="text-gray-700">You have signed. We will email you the final document once everyone has signed.</p>
+                </CardContent>
+              </Card>
+            )}
+
+            {(recipient.status === "declined" || data.envelope.status === "declined") && (
+              <Card>
+                <CardContent className="pt-6 flex flex-col items-center text-center space-y-2">
+                  <XCircle className="w-10 h-10 text-red-600" />
+                  <p className="text-gray-700">
+                    {recipient.status === "declined"
+                      ? "You declined to sign this document."
+                      : "Another recipient declined to sign this document."}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {!data.canSign && recipient.status === "pending" && data.envelope.status === "sent" && (
+              <Card>
+                <CardContent className="pt-6 text-center text-sm text-gray-600">
+                  It is not your turn to sign yet. We will email you when it is.
+                </CardContent>
+              </Card>
+            )}
+
+            {data.canSign && (
+              <>
+                <Card>
+                  <CardContent className="pt-6">
+                    <iframe
+                      src={apiUrl(`api/sign/${token}/document`)}
+                      title={data.document.originalName}
+                      className="w-full h-[700px] rounded-md border border-gray-200"
+                      data-testid="sign-document-preview"
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">
+                      {data.fields.length > 0
+                        ? "Adopt your signature"
+                        : `Adopt your signature (page ${recipient.pageNumber} of ${data.document.pageCount})`}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {inputFields.length > 0 && (
+                      <div className="space-y-3" data-testid="sign-input-fields">
+                        <p className="text-sm font-medium text-gray-900">Fill in</p>
+                        {inputFields
+                          .filter((field) => field.type !== "radio")
+                          .map((field) =>
+                            field.type === "checkbox" ? (
+                              <div key={field.id} className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`sign-field-${field.id}`}
+                                  checked={valueOf(field) === "true"}
+                                  onCheckedChange={(checked) =>
+                                    setFieldValues((current) => ({ ...current, [field.id]: checked === true ? "true" : "false" }))
+                                  }
+                                  data-testid={`checkbox-sign-field-${field.id}`}
+                                />
+                                <Label htmlFor={`sign-field-${field.id}`} className="text-sm font-normal">
+                                  {field.name}
+                                  {field.required && <span className="text-red-600">*</span>}
+                                  <span className="text-gray-500"> (page {field.pageNumber})</span>
+                                </Label>
+                              </div>
+                            ) : (
+                              <div key={field.id} className="space-y-1">
+                                <Label htmlFor={`sign-field-${field.id}`}>
+                                  {field.name}
+                                  {field.required && <span className="text-red-600">*</span>}
+                                  <span className="font-normal text-gray-500"> (page {field.pageNumber})</span>
+                                </Label>
+                                {field.type === "dropdown" ? (
+                                  <Select
+                                    value={valueOf(field)}
+                                    onValueChange={(value) => setFieldValues((current) => ({ ...current, [field.id]: value }))}
+                                  >
+                                    <SelectTrigger id={`sign-field-${field.id}`} data-testid={`select-sign-field-${field.id}`}>
+                                      <SelectValue placeholder="Choose..." />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {(field.options || []).map((option) => (
+                                        <SelectItem key={option} value={option}>
+                                          {option}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <Input
+                                    id={`sign-field-${field.id}`}
+                                    value={valueOf(field)}
+                                    maxLength={field.maxLength ?? undefined}
+                                    onChange={(e) => setFieldValues((current) => ({ ...current, [field.id]: e.target.value }))}
+                                    data-testid={`input-sign-field-${field.id}`}
+                                  />
+                                )}
+                              </div>
+                            )
+                          )}
+                        {Array.from(radioGroups).map(([groupName, options]) => (
+                          <div key={groupName} className="space-y-1">
+                            <Label>
+                              {groupName}
+                              {options.some((option) => option.required) && <span className="text-red-600">*</span>}
+                            </Label>
+                            <RadioGroup
+                              value={options.find((option) => valueOf(option) === "true")?.id || ""}
+                              onValueChange={(fieldId) =>
+                                setFieldValues((current) => ({
+                                  ...current,
+                                  ...Object.fromEntries(
+                                    options.map((option) => [option.id, option.id === fieldId ? "true" : "false"])
+                                  ),
+                                }))
+                              }
+                            >
+                              {options.map((option) => (
+                                <div key={option.id} className="flex items-center space-x-2">
+                                  <RadioGroupItem
+                                    id={`sign-field-${option.id}`}
+                                    value={option.id}
+                                    data-testid={`radio-sign-field-${option.id}`}
+                                  />
+                                  <Label htmlFor={`sign-field-${option.id}`} className="text-sm font-normal">
+                                    {option.name}
+                                  </Label>
+                                </div>
+                              ))}
+                            </RadioGroup>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {signedFields.length > 0 && (
+                      <div className="text-sm text-gray-600" data-testid="sign-fields">
+                        Signing fills in:
+                        <ul className="mt-1 list-disc pl-5">
+                          {signedFields.map((field) => (
+                            <li key={field.id}>
+                              {field.name} ({fieldTypeLabels[field.type].toLowerCase()}, page {field.pageNumber})
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="sign-full-name">Full name</Label>
+                        <Input
+                          id="sign-full-name"
+                          value={signerName}
+                          onChange={(e) => setFullName(e.target.value)}
+                          data-testid="input-sign-full-name"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="sign-company">Company (optional)</Label>
+                        <Input
+                          id="sign-company"
+                          value={companyName}
+                          onChange={(e) => setCompanyName(e.target.value)}
+                          data-testid="input-sign-company"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="sign-location">Location</Label>
+                        <Input
+                          id="sign-location"
+                          value={location}
+                          onChange={(e) => setLocation(e.target.value)}
+                          placeholder="City, Country"
+                          data-testid="input-sign-location"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-3">
+                      <Button variant="outline" onClick={() => setShowSignaturePad(true)}>
+                        <PenLine className="w-4 h-4 mr-2" />
+                        {signatureImage ? "Redraw Signature" : "Draw Signature (optional)"}
+                      </Button>
+                      {signatureImage && (
+                        <img src={signatureImage} alt="Your signature" className="h-12 border rounded bg-white" />
+                      )}
+                    </div>
+
+                    <div className="flex items-start space-x-2">
+                      <Checkbox
+                        id="sign-consent"
+                        checked={consent}
+                        onCheckedChange={(checked) => setConsent(checked === true)}
+                        data-testid="checkbox-sign-consent"
+                      />
+                      <Label htmlFor="sign-consent" className="text-sm font-normal leading-snug">
+                        I agree to sign this document electronically and that my electronic signature is the legal
+                        equivalent of my handwritten signature.
+                      </Label>
+                    </div>
+
+                    {showDecline && (
+                      <div className="space-y-1">
+                        <Label htmlFor="decline-reason">Reason for declining (optional)</Label>
+                        <Textarea
+                          id="decline-reason"
+                          value={declineReason}
+                          onChange={(e) => setDeclineReason(e.target.value)}
+                          rows={2}
+                          data-testid="input-decline-reason"
+                        />
+                      </div>
+                    )}
+
+                    {missingFields.length > 0 && (
+                      <p className="text-sm text-gray-600" data-testid="sign-missing-fields">
+                        Still to fill in: {missingFields.join(", ")}
+                      </p>
+                    )}
+
+                    <div className="flex justify-between">
+                      {showDecline ? (
+                        <div className="space-x-2">
+                          <Button variant="destructive" onClick={handleDecline} disabled={isDeclining}>
+                            {isDeclining && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Confirm Decline
+                          </Button>
+                          <Button variant="ghost" onClick={() => setShowDecline(false)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          onClick={() => setShowDecline(true)}
+                          className="text-red-600"
+                          data-testid="button-decline"
+                        >
+                          Decline to Sign
+                        </Button>
+                      )}
+                      <Button
+                        onClick={handleSign}
+                        disabled={
+                          isSigning || !consent || !signerName.trim() || !location.trim() || missingFields.length > 0
+                        }
+                        className="bg-gradient-to-r from-blue-600 to-indigo-700 text-white"
+                        data-testid="button-sign"
+                      >
+                        {isSigning ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <FileSignature className="w-4 h-4 mr-2" />
+                        )}
+                        Sign Document
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      <SignaturePad
+        open={showSignaturePad}
+        onOpenChange={setShowSignaturePad}
+        onSave={({ signature }) => setSignatureImage(signature)}
+      />
+    </div>
+  );
+}
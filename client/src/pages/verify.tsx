@@ -0,0 +1,376 @@
+import { useRef, useState } from "react";
+import { Link } from "wouter";
+import { apiUrl } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Download,
+  FileText,
+  Loader2,
+  ShieldCheck,
+  Upload,
+  XCircle,
+} from "lucide-react";
+
+interface SignatureCertificateReport {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: string | null;
+  validTo: string | null;
+  selfSigned: boolean;
+  trustedChain: boolean;
+  validNow: boolean;
+  validAtSigningTime: boolean | null;
+  validAtTimestamp: boolean | null;
+  revoked: boolean | null;
+  revokedAt: string | null;
+  revocationReason: string | null;
+}
+
+interface SignatureTimestampReport {
+  genTime: string | null;
+  authority: string | null;
+  serialNumber: string | null;
+  trustedChain: boolean;
+  valid: boolean;
+}
+
+interface SignatureReport {
+  fieldName: string;
+  signerName: string | null;
+  reason: string | null;
+  location: string | null;
+  subFilter: string | null;
+  signingTime: string | null;
+  revision: number;
+  digestAlgorithm: string | null;
+  digestMatches: boolean;
+  signatureValid: boolean;
+  coversWholeDocument: boolean;
+  modifiedAfterSigning: boolean;
+  laterChangesSigned: boolean;
+  certificate: SignatureCertificateReport | null;
+  timestamp: SignatureTimestampReport | null;
+  valid: boolean;
+  errors: string[];
+}
+
+interface VerificationReport {
+  fileName: string;
+  fileSize: number;
+  sha256: string;
+  pageCount: number | null;
+  revisionCount: number;
+  verifiedAt: string;
+  signatures: SignatureReport[];
+  summary: {
+    signatureCount: number;
+    validSignatures: number;
+    allValid: boolean;
+    modifiedAfterLastSignature: boolean;
+  };
+}
+
+async function postForVerification(file: File, format?: "pdf"): Promise<Response> {
+  const formData = new FormData();
+  formData.append("pdf", file);
+
+  const response = await fetch(apiUrl(`api/verify${format ? `?format=${format}` : ""}`), {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    let errorText = "Verification failed";
+    try {
+      const error = await response.json();
+      errorText = error.error || errorText;
+    } catch (e) {
+      errorText = response.statusText || errorText;
+    }
+    throw new Error(errorText);
+  }
+
+  return response;
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "Not available";
+}
+
+function Check({ ok, label }: { ok: boolean; label: string }) {
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      {ok ? (
+        <CheckCircle2 className="w-4 h-4 text-green-600" />
+      ) : (
+        <XCircle className="w-4 h-4 text-red-600" />
+      )}
+      <span className={ok ? "text-gray-700" : "text-red-700"}>{label}</span>
+    </div>
+  );
+}
+
+function Detail({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 text-sm">
+      <span className="font-medium text-gray-500">{label}</span>
+      <span className="col-span-2 text-gray-900 break-all">{value}</span>
+    </div>
+  );
+}
+
+export default function VerifyPage() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<VerificationReport | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+
+    setFile(selected);
+    setReport(null);
+    setIsVerifying(true);
+    try {
+      const response = await postForVerification(selected);
+      setReport(await response.json());
+    } catch (error: any) {
+      console.error("Verification error:", error);
+      toast({
+        title: "Verification failed",
+        description: error.message || "Could not verify this PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    if (!file) return;
+
+    setIsDownloading(true);
+    try {
+      const response = await postForVerification(file, "pdf");
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${file.name.replace(/\.pdf$/i, "")}-verification-report.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error("Report download error:", error);
+      toast({
+        title: "Download failed",
+        description: error.message || "Failed to download verification report",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <div className="px-6 py-4 bg-gradient-to-r from-blue-600 to-indigo-700 text-white">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <ShieldCheck className="w-6 h-6" />
+            <h1 className="text-xl font-bold" data-testid="verify-title">Verify a Signed PDF</h1>
+          </div>
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-white hover:!text-white hover:bg-white/20">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardContent className="pt-6 flex flex-col items-center text-center space-y-4">
+            <p className="text-sm text-gray-600">
+              Upload any PDF to check every embedded signature, whether the document changed after signing,
+              and whether each signer's certificate was valid when they signed.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf"
+              className="hidden"
+              onChange={handleFileChange}
+              data-testid="input-verify-file"
+            />
+            <div className="flex space-x-3">
+              <Button onClick={() => fileInputRef.current?.click()} disabled={isVerifying}>
+                {isVerifying ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                {isVerifying ? "Verifying..." : "Choose PDF"}
+              </Button>
+              {report && (
+                <Button variant="outline" onClick={handleDownloadReport} disabled={isDownloading}>
+                  {isDownloading ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  Download PDF Report
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <Card data-testid="verify-summary">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center space-x-2">
+                  <FileText className="w-5 h-5 text-blue-600" />
+                  <span className="break-all">{report.fileName}</span>
+                </span>
+                {report.summary.signatureCount === 0 ? (
+                  <Badge variant="secondary">No signatures</Badge>
+                ) : report.summary.allValid ? (
+                  <Badge className="bg-green-600">All signatures valid</Badge>
+                ) : (
+                  <Badge variant="destructive">
+                    {report.summary.validSignatures} of {report.summary.signatureCount} valid
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Detail label="SHA-256" value={report.sha256} />
+              <Detail label="Size" value={`${report.fileSize} bytes`} />
+              <Detail label="Pages" value={report.pageCount !== null ? String(report.pageCount) : "Unknown"} />
+              <Detail label="Revisions" value={String(report.revisionCount)} />
+            </CardContent>
+          </Card>
+        )}
+
+        {report?.signatures.map((signature, index) => (
+          <Card key={`${signature.fieldName}-${index}`} data-testid={`verify-signature-${index}`}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <span>
+                  {signature.fieldName} — {signature.signerName || "Unknown signer"}
+                </span>
+                <Badge variant={signature.valid ? "default" : "destructive"} className={signature.valid ? "bg-green-600" : ""}>
+                  {signature.valid ? "Valid" : "Invalid"}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <Check ok={signature.digestMatches} label="Signed byte ranges match the document digest" />
+                <Check ok={signature.signatureValid} label="Cryptographic signature is intact" />
+                <Check
+                  ok={!signature.modifiedAfterSigning || signature.laterChangesSigned}
+                  label={
+                    !signature.modifiedAfterSigning
+                      ? "Not modified after signing"
+                      : signature.laterChangesSigned
+                        ? "Later changes are covered by later signatures"
+                        : "Document was modified after signing"
+                  }
+                />
+                <Check
+                  ok={signature.certificate?.validAtSigningTime !== false && !!signature.certificate}
+                  label="Certificate valid at signing time"
+                />
+                {signature.timestamp && (
+                  <Check
+                    ok={signature.timestamp.valid}
+                    label={
+                      signature.timestamp.valid
+                        ? `Timestamped ${formatDate(signature.timestamp.genTime)} by ${signature.timestamp.authority || "unknown TSA"}`
+                        : "Signature timestamp is invalid"
+                    }
+                  />
+                )}
+                {signature.certificate?.revoked && (
+                  <Check
+                    ok={signature.certificate.revocationReason !== "keyCompromise" && signature.certificate.validAtSigningTime !== false}
+                    label={`Certificate revoked ${formatDate(signature.certificate.revokedAt)}`}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Detail label="Signing time" value={formatDate(signature.signingTime)} />
+                {signature.reason && <Detail label="Reason" value={signature.reason} />}
+                {signature.location && <Detail label="Location" value={signature.location} />}
+                <Detail label="Format" value={signature.subFilter || "Unknown"} />
+                <Detail label="Digest" value={signature.digestAlgorithm || "Unknown"} />
+                <Detail label="Revision" value={`${signature.revision} of ${report.revisionCount}`} />
+                <Detail
+                  label="Timestamp"
+                  value={
+                    signature.timestamp
+                      ? `${formatDate(signature.timestamp.genTime)} (${signature.timestamp.authority || "unknown TSA"}, ${
+                          signature.timestamp.trustedChain ? "firm TSA" : "external TSA"
+                        })`
+                      : "None — signing time is only claimed by the signer"
+                  }
+                />
+              </div>
+
+              {signature.certificate && (
+                <div className="space-y-2 border-t pt-4">
+                  <Detail label="Subject" value={signature.certificate.subject} />
+                  <Detail label="Issuer" value={signature.certificate.issuer} />
+                  <Detail label="Serial number" value={signature.certificate.serialNumber} />
+                  <Detail label="Valid from" value={formatDate(signature.certificate.validFrom)} />
+                  <Detail label="Valid to" value={formatDate(signature.certificate.validTo)} />
+                  <Detail label="Self-signed" value={signature.certificate.selfSigned ? "Yes" : "No"} />
+                  <Detail
+                    label="Trusted chain"
+                    value={signature.certificate.trustedChain ? "Chains to the firm root CA" : "Not issued by the firm CA"}
+                  />
+                  <Detail label="Valid now" value={signature.certificate.validNow ? "Yes" : "No"} />
+                  <Detail
+                    label="Revocation"
+                    value={
+                      signature.certificate.revoked === null
+                        ? "Unknown (not issued by the firm CA)"
+                        : signature.certificate.revoked
+                          ? `Revoked ${formatDate(signature.certificate.revokedAt)} (${signature.certificate.revocationReason || "unspecified"})`
+                          : "Not revoked"
+                    }
+                  />
+                </div>
+              )}
+
+              {signature.errors.length > 0 && (
+                <ul className="text-sm text-red-700 list-disc pl-5 space-y-1">
+                  {signature.errors.map((error, errorIndex) => (
+                    <li key={errorIndex}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+-- Migration: Add sessions table for server-side login sessions
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "sessions" (
+  "sid" varchar PRIMARY KEY NOT NULL,
+  "sess" json NOT NULL,
+  "expire" timestamp (6) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON "sessions" ("expire");
@@ -0,0 +1,5 @@
+-- Migration: Track CA-issued certificate serial numbers on digital signatures
+-- Created: 2026-10-19
+
+ALTER TABLE "digital_signatures" ADD COLUMN "serial_number" text;
+ALTER TABLE "digital_signatures" ADD CONSTRAINT "digital_signatures_serial_number_unique" UNIQUE("serial_number");
@@ -0,0 +1,5 @@
+-- Migration: Record certificate revocation on digital signatures
+-- Created: 2026-10-19
+
+ALTER TABLE "digital_signatures" ADD COLUMN "revoked_at" timestamp;
+ALTER TABLE "digital_signatures" ADD COLUMN "revocation_reason" text;
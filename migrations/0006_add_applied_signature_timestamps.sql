@@ -0,0 +1,6 @@
+-- Migration: Store RFC 3161 timestamp tokens with applied signatures
+-- Created: 2026-10-19
+
+ALTER TABLE "applied_signatures" ADD COLUMN "timestamp_token" text;
+ALTER TABLE "applied_signatures" ADD COLUMN "timestamped_at" timestamp;
+ALTER TABLE "applied_signatures" ADD COLUMN "timestamp_authority" text;
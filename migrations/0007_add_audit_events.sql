@@ -0,0 +1,33 @@
+-- Migration: Add hash-chained audit trail for documents and signatures
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "audit_events" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" varchar NOT NULL,
+  "sequence" integer NOT NULL,
+  "action" text NOT NULL,
+  "user_id" varchar,
+  "user_email" text,
+  "ip_address" text,
+  "user_agent" text,
+  "document_sha256" text,
+  "details" jsonb,
+  "created_at" timestamp NOT NULL,
+  "previous_hash" text NOT NULL,
+  "hash" text NOT NULL,
+  CONSTRAINT "audit_events_document_sequence" UNIQUE ("document_id", "sequence")
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_audit_events_document" ON "audit_events" ("document_id");
+
+-- The application only ever inserts; refuse edits at the database level too
+CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "audit_events_append_only" ON "audit_events";
+CREATE TRIGGER "audit_events_append_only"
+  BEFORE UPDATE OR DELETE ON "audit_events"
+  FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
@@ -0,0 +1,40 @@
+-- Migration: Add multi-party signing envelopes and external recipients
+-- Created: 2026-10-19
+
+-- Signatures adopted by external recipients belong to no account
+ALTER TABLE "digital_signatures" ALTER COLUMN "user_id" DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "envelopes" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" varchar NOT NULL REFERENCES "pdf_documents"("id"),
+  "owner_id" varchar NOT NULL REFERENCES "users"("id"),
+  "title" text NOT NULL,
+  "message" text,
+  "signing_order" varchar DEFAULT 'sequential' NOT NULL,
+  "status" varchar DEFAULT 'draft' NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "sent_at" timestamp,
+  "completed_at" timestamp
+);
+
+CREATE TABLE IF NOT EXISTS "envelope_recipients" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "envelope_id" varchar NOT NULL REFERENCES "envelopes"("id"),
+  "name" text NOT NULL,
+  "email" text NOT NULL,
+  "routing_order" integer DEFAULT 1 NOT NULL,
+  "page_number" integer NOT NULL,
+  "position" jsonb NOT NULL,
+  "status" varchar DEFAULT 'pending' NOT NULL,
+  "token_hash" text UNIQUE,
+  "token_expires_at" timestamp,
+  "sent_at" timestamp,
+  "viewed_at" timestamp,
+  "signed_at" timestamp,
+  "declined_at" timestamp,
+  "decline_reason" text,
+  "signature_id" varchar REFERENCES "digital_signatures"("id"),
+  "applied_signature_id" varchar
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_envelope_recipients_envelope" ON "envelope_recipients" ("envelope_id");
@@ -0,0 +1,35 @@
+-- Migration: Add document templates and pre-placed document fields
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "document_templates" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "name" text NOT NULL,
+  "description" text,
+  "original_name" text NOT NULL,
+  "file_path" text NOT NULL,
+  "file_size" integer NOT NULL,
+  "page_count" integer NOT NULL,
+  "page_sizes" text,
+  "roles" jsonb NOT NULL,
+  "fields" jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "document_fields" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" varchar NOT NULL REFERENCES "pdf_documents"("id"),
+  "name" text NOT NULL,
+  "type" varchar NOT NULL,
+  "role" text NOT NULL,
+  "recipient_id" varchar REFERENCES "envelope_recipients"("id"),
+  "page_number" integer NOT NULL,
+  "position" jsonb NOT NULL,
+  "value" text,
+  "applied_signature_id" varchar,
+  "filled_at" timestamp,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_document_fields_document" ON "document_fields" ("document_id");
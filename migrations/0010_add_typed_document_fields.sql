@@ -0,0 +1,7 @@
+-- Migration: Add text, checkbox and radio options to document fields
+-- Created: 2026-10-19
+
+ALTER TABLE "document_fields" ADD COLUMN "required" boolean DEFAULT true NOT NULL;
+ALTER TABLE "document_fields" ADD COLUMN "group_name" text;
+ALTER TABLE "document_fields" ADD COLUMN "font_size" integer;
+ALTER TABLE "document_fields" ADD COLUMN "max_length" integer;
@@ -0,0 +1,5 @@
+-- Migration: Map document fields to AcroForm fields found in uploaded PDFs
+-- Created: 2026-10-19
+
+ALTER TABLE "document_fields" ADD COLUMN "options" jsonb;
+ALTER TABLE "document_fields" ADD COLUMN "form_field_name" text;
@@ -0,0 +1,70 @@
+-- Migration: Store stamp and field positions as boxes in PDF points
+-- Created: 2026-10-19
+--
+-- Positions used to be grid presets ("bottom-left", ...) laid out when the
+-- PDF was rendered, or "custom" viewer pixels scaled by the viewer size the
+-- browser reported. Both become {"gridPosition": "pdf", x, y, width, height,
+-- rotation}, the rectangle the renderer drew them in: stamps were always
+-- 220x100, fields used their own size.
+
+CREATE FUNCTION pdf_points_position(pos jsonb, page_sizes text, page_number integer, box_width numeric, box_height numeric)
+RETURNS jsonb LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  page jsonb := COALESCE(NULLIF(page_sizes, '')::jsonb -> (page_number - 1), '{"width": 612, "height": 792}'::jsonb);
+  page_width numeric := (page ->> 'width')::numeric;
+  page_height numeric := (page ->> 'height')::numeric;
+  grid text := pos ->> 'gridPosition';
+  x numeric;
+  y numeric;
+BEGIN
+  IF grid = 'pdf' THEN
+    RETURN pos || jsonb_build_object('rotation', COALESCE((pos ->> 'rotation')::numeric, 0));
+  END IF;
+
+  IF grid = 'custom' AND pos ? 'x' AND pos ? 'y' THEN
+    x := (pos ->> 'x')::numeric / COALESCE(NULLIF((pos ->> 'viewerWidth')::numeric, 0), 800) * page_width;
+    y := page_height
+      - (pos ->> 'y')::numeric / COALESCE(NULLIF((pos ->> 'viewerHeight')::numeric, 0), 600) * page_height
+      - box_height;
+  ELSE
+    -- Unknown names were drawn in the middle of the page
+    x := CASE
+      WHEN grid LIKE '%-left' THEN 50
+      WHEN grid LIKE '%-right' THEN page_width - 50 - box_width
+      ELSE (page_width - box_width) / 2
+    END;
+    y := CASE
+      WHEN grid LIKE 'top-%' THEN page_height - 50 - box_height
+      WHEN grid LIKE 'bottom-%' THEN 50
+      ELSE (page_height - box_height) / 2
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'gridPosition', 'pdf', 'x', x, 'y', y, 'width', box_width, 'height', box_height, 'rotation', 0
+  );
+END;
+$$;
+
+UPDATE "applied_signatures" AS a
+SET "position" = pdf_points_position(a."position", d."page_sizes", a."page_number", 220, 100)
+FROM "pdf_documents" AS d
+WHERE d."id" = a."document_id";
+
+UPDATE "document_fields" AS f
+SET "position" = pdf_points_position(
+  f."position",
+  d."page_sizes",
+  f."page_number",
+  COALESCE(NULLIF(f."position" ->> 'width', '')::numeric, 220),
+  COALESCE(NULLIF(f."position" ->> 'height', '')::numeric, 100)
+)
+FROM "pdf_documents" AS d
+WHERE d."id" = f."document_id";
+
+UPDATE "envelope_recipients" AS r
+SET "position" = pdf_points_position(r."position", d."page_sizes", r."page_number", 220, 100)
+FROM "envelopes" AS e, "pdf_documents" AS d
+WHERE e."id" = r."envelope_id" AND d."id" = e."document_id";
+
+DROP FUNCTION pdf_points_position(jsonb, text, integer, numeric, numeric);
@@ -0,0 +1,32 @@
+-- Migration: Add document version history
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "document_versions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" varchar NOT NULL REFERENCES "pdf_documents"("id"),
+  "version_number" integer NOT NULL,
+  "action" text NOT NULL,
+  "audit_sequence" integer,
+  "file_path" text NOT NULL,
+  "file_size" integer NOT NULL,
+  "sha256" text NOT NULL,
+  "author_id" varchar,
+  "author_email" text,
+  "snapshot" jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "document_versions_document_number" UNIQUE ("document_id", "version_number")
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_document_versions_document" ON "document_versions" ("document_id");
+
+-- A stored version never changes; it only goes away with its document
+CREATE OR REPLACE FUNCTION document_versions_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'document_versions rows cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "document_versions_immutable" ON "document_versions";
+CREATE TRIGGER "document_versions_immutable"
+  BEFORE UPDATE ON "document_versions"
+  FOR EACH ROW EXECUTE FUNCTION document_versions_immutable();
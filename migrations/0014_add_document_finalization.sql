@@ -0,0 +1,5 @@
+-- Migration: Finalize (lock) signed documents
+-- Created: 2026-10-19
+
+ALTER TABLE "pdf_documents" ADD COLUMN IF NOT EXISTS "is_read_only" boolean DEFAULT false NOT NULL;
+ALTER TABLE "pdf_documents" ADD COLUMN IF NOT EXISTS "finalized_at" timestamp;
@@ -0,0 +1,13 @@
+-- Migration: Allow stored versions to move between file storage backends
+-- Created: 2026-10-19
+
+-- A version may be pointed at a new location (the migration tool copies the
+-- file and checks its hash first); everything else about it stays fixed
+CREATE OR REPLACE FUNCTION document_versions_immutable() RETURNS trigger AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'file_path') = (to_jsonb(OLD) - 'file_path') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'document_versions rows cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,26 @@
+-- Migration: Add background job queue
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "jobs" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "type" text NOT NULL,
+  "status" varchar DEFAULT 'queued' NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "document_id" varchar,
+  "payload" jsonb NOT NULL,
+  "result" jsonb,
+  "error" text,
+  "progress" integer DEFAULT 0 NOT NULL,
+  "progress_message" text,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "max_attempts" integer DEFAULT 3 NOT NULL,
+  "run_at" timestamp DEFAULT now() NOT NULL,
+  "locked_at" timestamp,
+  "locked_by" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "finished_at" timestamp
+);
+
+-- Workers look for the oldest due job with status 'queued'
+CREATE INDEX IF NOT EXISTS "IDX_jobs_queue" ON "jobs" ("status", "run_at");
+CREATE INDEX IF NOT EXISTS "IDX_jobs_user" ON "jobs" ("user_id");
@@ -0,0 +1,20 @@
+-- Migration: Add server-rendered page thumbnails and previews
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "document_pages" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" varchar NOT NULL REFERENCES "pdf_documents"("id"),
+  "page_number" integer NOT NULL,
+  "thumbnail_path" text NOT NULL,
+  "preview_path" text NOT NULL,
+  "width" integer NOT NULL,
+  "height" integer NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "document_pages_document_page" UNIQUE ("document_id", "page_number")
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_document_pages_document" ON "document_pages" ("document_id");
+
+-- Set when the document's page images were last rendered; lists use it to
+-- show a thumbnail and to bust cached images
+ALTER TABLE "pdf_documents" ADD COLUMN IF NOT EXISTS "pages_rendered_at" timestamp;
@@ -0,0 +1,17 @@
+-- Migration: Add full-text search of document text
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "document_page_texts" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" varchar NOT NULL REFERENCES "pdf_documents"("id"),
+  "page_number" integer NOT NULL,
+  "content" text NOT NULL,
+  CONSTRAINT "document_page_texts_document_page" UNIQUE ("document_id", "page_number")
+);
+
+-- Searches use the same expression, so they can use this index
+CREATE INDEX IF NOT EXISTS "IDX_document_page_texts_search"
+  ON "document_page_texts" USING gin (to_tsvector('english', "content"));
+
+-- Set when the document's text was last extracted; null means never
+ALTER TABLE "pdf_documents" ADD COLUMN IF NOT EXISTS "text_indexed_at" timestamp;
@@ -0,0 +1,36 @@
+-- Migration: Add folders (matters) and tags for organizing documents
+-- Created: 2026-10-19
+
+-- Top-level folders (no parent) are matters
+CREATE TABLE IF NOT EXISTS "folders" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "parent_id" varchar REFERENCES "folders"("id"),
+  "name" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_folders_user" ON "folders" ("user_id");
+CREATE INDEX IF NOT EXISTS "IDX_folders_parent" ON "folders" ("parent_id");
+
+-- Existing documents start out unfiled
+ALTER TABLE "pdf_documents" ADD COLUMN IF NOT EXISTS "folder_id" varchar REFERENCES "folders"("id");
+
+CREATE TABLE IF NOT EXISTS "tags" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "name" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "tags_user_name" UNIQUE ("user_id", "name")
+);
+
+CREATE TABLE IF NOT EXISTS "document_tags" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "document_id" varchar NOT NULL REFERENCES "pdf_documents"("id"),
+  "tag_id" varchar NOT NULL REFERENCES "tags"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "document_tags_document_tag" UNIQUE ("document_id", "tag_id")
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_document_tags_tag" ON "document_tags" ("tag_id");
@@ -0,0 +1,25 @@
+-- Migration: Add organizations with role-based members and sharing
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS "organizations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "created_by" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- role is one of admin, attorney, paralegal, viewer; a user is in at most one organization
+CREATE TABLE IF NOT EXISTS "organization_members" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "organization_id" varchar NOT NULL REFERENCES "organizations"("id"),
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "role" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "organization_members_user_id_unique" UNIQUE ("user_id")
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_organization_members_organization" ON "organization_members" ("organization_id");
+
+-- Set while the owner shares the document or signature with their organization
+ALTER TABLE "pdf_documents" ADD COLUMN IF NOT EXISTS "organization_id" varchar REFERENCES "organizations"("id");
+ALTER TABLE "digital_signatures" ADD COLUMN IF NOT EXISTS "organization_id" varchar REFERENCES "organizations"("id");
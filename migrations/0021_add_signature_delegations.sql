@@ -0,0 +1,38 @@
+-- Migration: Add delegated signing with scoped, expiring grants and per-use approval
+-- Created: 2026-10-19
+
+-- scope is one of all, documents (document_ids), matter (folder_id and its subfolders)
+CREATE TABLE IF NOT EXISTS "signature_delegations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "signature_id" varchar NOT NULL REFERENCES "digital_signatures"("id"),
+  "owner_id" varchar NOT NULL REFERENCES "users"("id"),
+  "delegate_id" varchar NOT NULL REFERENCES "users"("id"),
+  "scope" text NOT NULL,
+  "document_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "folder_id" varchar REFERENCES "folders"("id"),
+  "requires_approval" boolean DEFAULT false NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_signature_delegations_owner" ON "signature_delegations" ("owner_id");
+CREATE INDEX IF NOT EXISTS "IDX_signature_delegations_delegate" ON "signature_delegations" ("delegate_id");
+
+-- status is one of pending, approved, rejected
+CREATE TABLE IF NOT EXISTS "delegation_requests" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "delegation_id" varchar NOT NULL REFERENCES "signature_delegations"("id"),
+  "document_id" varchar NOT NULL REFERENCES "pdf_documents"("id"),
+  "placement" jsonb NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "decided_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_delegation_requests_delegation" ON "delegation_requests" ("delegation_id");
+
+-- Set on stamps a delegate placed on the signature owner's behalf
+ALTER TABLE "applied_signatures" ADD COLUMN IF NOT EXISTS "applied_by" varchar REFERENCES "users"("id");
+ALTER TABLE "applied_signatures" ADD COLUMN IF NOT EXISTS "applied_by_name" text;
+ALTER TABLE "applied_signatures" ADD COLUMN IF NOT EXISTS "delegation_id" varchar REFERENCES "signature_delegations"("id");
@@ -0,0 +1,9 @@
+-- Migration: Add TOTP two-factor authentication with recovery codes and a signing challenge
+-- Created: 2026-10-19
+
+-- two_factor_secret is sealed with SIGNING_KEYS; recovery codes are SHA-256 hashes
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_secret" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_enabled_at" timestamp;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_recovery_codes" jsonb DEFAULT '[]'::jsonb NOT NULL;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "two_factor_last_step" integer;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "signing_challenge" boolean DEFAULT false NOT NULL;
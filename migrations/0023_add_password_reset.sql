@@ -0,0 +1,37 @@
+-- Migration: Add password reset, security-question recovery and account audit events
+-- Created: 2026-10-19
+
+-- 0002 added these columns; repeated here for databases that skipped it.
+-- The answers now hold bcrypt hashes of the normalized answer.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "security_question_1" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "security_answer_1" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "security_question_2" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "security_answer_2" text;
+
+-- method is one of email, security_questions; only a hash of each token is kept
+CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "token_hash" text NOT NULL UNIQUE,
+  "method" text NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "used_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_password_reset_tokens_user" ON "password_reset_tokens" ("user_id");
+
+-- Also counted to rate-limit reset attempts by email and IP address
+CREATE TABLE IF NOT EXISTS "account_audit_events" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "action" text NOT NULL,
+  "user_id" varchar REFERENCES "users"("id"),
+  "email" text,
+  "ip_address" text,
+  "user_agent" text,
+  "details" jsonb,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_account_audit_events_email" ON "account_audit_events" ("email", "created_at");
+CREATE INDEX IF NOT EXISTS "IDX_account_audit_events_ip" ON "account_audit_events" ("ip_address", "created_at");
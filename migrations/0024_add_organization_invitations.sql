@@ -0,0 +1,16 @@
+-- Migration: Require invited users to accept before joining an organization
+-- Created: 2026-10-19
+
+-- email is lowercased; inviting the same address again replaces the invitation
+CREATE TABLE IF NOT EXISTS "organization_invitations" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "organization_id" varchar NOT NULL REFERENCES "organizations"("id"),
+  "email" text NOT NULL,
+  "role" text NOT NULL,
+  "invited_by" varchar NOT NULL REFERENCES "users"("id"),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  CONSTRAINT "organization_invitations_organization_email_unique" UNIQUE ("organization_id", "email")
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_organization_invitations_email" ON "organization_invitations" ("email");
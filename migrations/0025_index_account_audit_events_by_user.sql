@@ -0,0 +1,5 @@
+-- Migration: Index account audit events by user for two-factor lockouts
+-- Created: 2026-10-19
+
+-- Invalid two-factor codes are counted per account over the last 15 minutes
+CREATE INDEX IF NOT EXISTS "IDX_account_audit_events_user" ON "account_audit_events" ("user_id", "created_at");
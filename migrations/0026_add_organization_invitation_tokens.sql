@@ -0,0 +1,6 @@
+-- Migration: Answer organization invitations through an emailed link
+-- Created: 2026-10-19
+
+-- sha256 of the link's token. Invitations sent before this have none and
+-- cannot be accepted; invite those addresses again to send them a link.
+ALTER TABLE "organization_invitations" ADD COLUMN IF NOT EXISTS "token_hash" text UNIQUE;
@@ -0,0 +1,231 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { storage } from "./storage";
+import { authService } from "./services/auth";
+import { organizationService } from "./services/organizations";
+import { twoFactorService } from "./services/two-factor";
+import { type OrganizationAccess, type Permission, type PublicUser, type User } from "@shared/schema";
+
+export type SessionUser = PublicUser;
+
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+    interface Request {
+      // Set by requirePermission
+      access?: OrganizationAccess;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Password checked, waiting for the second factor (see /api/auth/login/two-factor)
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    // When the user last passed a signing challenge, and failures since
+    stepUpAt?: number;
+    stepUpFailures?: number;
+  }
+}
+
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const TWO_FACTOR_LOGIN_TTL = 5 * 60 * 1000;
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+const STEP_UP_TTL = 5 * 60 * 1000;
+
+export function toSessionUser(
+  user: SessionUser & Partial<Omit<User, keyof SessionUser>>
+): SessionUser {
+  const {
+    password: _password,
+    verificationToken: _verificationToken,
+    twoFactorSecret: _twoFactorSecret,
+    twoFactorRecoveryCodes: _twoFactorRecoveryCodes,
+    twoFactorLastStep: _twoFactorLastStep,
+    securityAnswer1: _securityAnswer1,
+    securityAnswer2: _securityAnswer2,
+    ...sessionUser
+  } = user;
+  return sessionUser;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET not set, using an insecure development secret");
+  return "xsignature-development-session-secret";
+}
+
+// The app's own origin plus CORS_ORIGINS, a comma-separated list of other
+// frontends (e.g. "https://app.example.com") allowed to call the API with cookies
+function getAllowedOrigins(): string[] {
+  return [process.env.APP_URL, ...(process.env.CORS_ORIGINS || "").split(",")]
+    .map((origin) => origin?.trim())
+    .filter((origin): origin is string => !!origin)
+    .map((origin) => {
+      try {
+        return new URL(origin).origin;
+      } catch {
+        console.warn(`Ignoring invalid allowed origin: ${origin}`);
+        return null;
+      }
+    })
+    .filter((origin): origin is string => !!origin);
+}
+
+export function isAllowedOrigin(origin: string): boolean {
+  return getAllowedOrigins().includes(origin);
+}
+
+function crossSiteCookies(): boolean {
+  return process.env.SESSION_COOKIE_SAMESITE === "none";
+}
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function requestOrigin(req: Request): string | null {
+  const source = req.get("origin") || req.get("referer");
+  if (!source || source === "null") return null;
+  try {
+    return new URL(source).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rejects state-changing requests sent from another site, so a form or
+ * script elsewhere cannot act with the user's session cookie. Requests from
+ * the app itself or an allowed origin pass. Requests without an Origin or
+ * Referer (API clients, old browsers) pass only while the cookie is
+ * SameSite=lax, which browsers already withhold from cross-site posts.
+ */
+export function requireTrustedOrigin(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.has(req.method)) {
+    return next();
+  }
+
+  const origin = requestOrigin(req);
+  if (!origin) {
+    if (!crossSiteCookies()) return next();
+  } else if (new URL(origin).host === req.get("host") || isAllowedOrigin(origin)) {
+    return next();
+  }
+
+  console.log(`Blocked ${req.method} ${req.path} from untrusted origin ${origin ?? "(none)"}`);
+  return res.status(403).json({ error: "Request origin not allowed" });
+}
+
+let authInitialized = false;
+
+export function setupAuth(app: Express) {
+  // registerRoutes can run more than once against the same app on serverless
+  if (authInitialized) return;
+  authInitialized = true;
+
+  const sessionSettings: session.SessionOptions = {
+    name: "xsignature.sid",
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      // "none" lets a frontend on another domain send the cookie (HTTPS only)
+      // requireTrustedOrigin then guards against cross-site requests
+      sameSite: crossSiteCookies() ? "none" : "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  };
+
+  // Vercel and most hosts terminate TLS in front of the app
+  app.set("trust proxy", 1);
+  app.use(requireTrustedOrigin);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await authService.login(email, password);
+        return done(null, toSessionUser(user));
+      } catch (error: any) {
+        return done(null, false, { message: error.message });
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account simply ends the session
+      done(null, user ? toSessionUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
+
+/**
+ * Rejects the request with 401 unless a user is logged in. Route handlers
+ * after this middleware can rely on `req.user`.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated || !req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Rejects the request with 403 unless the user's organization role grants
+ * `permission` (see rolePermissions). Use after requireAuth; handlers after
+ * it can rely on `req.access`.
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const access = await organizationService.getAccess(req.user!.id);
+      if (!organizationService.can(access, permission)) {
+        return res.status(403).json({
+          error: `Your role (${access.role}) does not allow this`,
+          permission,
+        });
+      }
+      req.access = access;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * For users who turned on the signing challenge, rejects the request with
+ * 403 and `stepUpRequired` unless they entered a two-factor code in the last
+ * few minutes (POST /api/auth/two-factor/step-up), so a stolen session alone
+ * cannot sign. Use after requireAuth.
+ */
+export function requireSigningStepUp(req: Request, res: Response, next: NextFunction) {
+  const user = req.user!;
+  if (!twoFactorService.isEnabled(user) || !user.signingChallenge) {
+    return next();
+  }
+  const stepUpAt = req.session.stepUpAt;
+  if (!stepUpAt || Date.now() - stepUpAt > STEP_UP_TTL) {
+    return res.status(403).json({
+      error: "Enter a code from your authenticator app to sign",
+      stepUpRequired: true,
+    });
+  }
+  next();
+}
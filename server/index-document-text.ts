@@ -0,0 +1,40 @@
+/**
+ * Extracts and indexes the text of processed documents that were uploaded
+ * before full-text search existed, so they show up in search results.
+ *
+ *   npm run search:index [-- --all]
+ *
+ * `--all` re-indexes every document instead of only those never indexed.
+ * Documents are handled one at a time and each is committed on its own, so
+ * the tool can be stopped and re-run at any point.
+ */
+import { storage } from "./storage";
+import { pool } from "./db";
+import { searchService } from "./services/search";
+
+async function main() {
+  const all = process.argv.slice(2).includes("--all");
+  const documents = await storage.getDocumentsToIndex(all);
+  console.log(`Indexing the text of ${documents.length} document(s)`);
+
+  let indexed = 0;
+  let failed = 0;
+  for (const document of documents) {
+    try {
+      await searchService.indexDocument(document);
+      indexed++;
+    } catch (error: any) {
+      console.error(`Failed to index ${document.id} (${document.originalName}):`, error.message);
+      failed++;
+    }
+  }
+
+  console.log(`Done: ${indexed} indexed, ${failed} failed`);
+  await pool.end();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("Indexing failed:", error.message);
+  process.exit(1);
+});
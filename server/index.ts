@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { signatureService } from "./services/signature";
+import { jobQueue } from "./services/jobs";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -51,6 +53,17 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Seal private keys and hash passwords left over from older versions
+  signatureService.upgradeLegacySecrets().catch((error) => {
+    console.error("Signature secret upgrade failed:", error);
+  });
+
+  // Uploads and exports are processed in the background; JOB_WORKER=false
+  // leaves that to separate `npm run worker` processes
+  if (process.env.JOB_WORKER !== "false") {
+    jobQueue.start();
+  }
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,103 @@
+/**
+ * Moves stored PDFs (uploads, versions and templates) from one file storage
+ * backend to another and points the database at the new copies.
+ *
+ *   npm run storage:migrate -- --to s3 [--from local] [--delete-source] [--dry-run]
+ *
+ * Each file is copied, read back and compared by SHA-256 before any row is
+ * changed, so the tool can be stopped and re-run at any point. Sources are
+ * only removed with --delete-source, after their rows have moved.
+ */
+import crypto from "crypto";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { fileStorage, type FileStoreName } from "./services/file-storage";
+
+interface Options {
+  to: FileStoreName;
+  from?: FileStoreName;
+  deleteSource: boolean;
+  dryRun: boolean;
+}
+
+function parseStoreName(value: string | undefined, flag: string): FileStoreName {
+  if (value !== "local" && value !== "s3") {
+    throw new Error(`${flag} must be "local" or "s3"`);
+  }
+  return value;
+}
+
+function parseArgs(args: string[]): Options {
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  return {
+    to: parseStoreName(valueOf("--to"), "--to"),
+    from: args.includes("--from") ? parseStoreName(valueOf("--from"), "--from") : undefined,
+    deleteSource: args.includes("--delete-source"),
+    dryRun: args.includes("--dry-run"),
+  };
+}
+
+function sha256(bytes: Uint8Array): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+async function migrateFileStorage(options: Options): Promise<{ moved: number; skipped: number; failed: number }> {
+  const target = fileStorage.store(options.to);
+  const result = { moved: 0, skipped: 0, failed: 0 };
+
+  for (const location of await storage.getStoredFileLocations()) {
+    const source = fileStorage.storeFor(location);
+    if (source.name === target.name || (options.from && source.name !== options.from)) {
+      result.skipped++;
+      continue;
+    }
+
+    const key = source.keyOf(location);
+    if (options.dryRun) {
+      console.log(`Would move ${location} to ${target.name} as ${key}`);
+      result.moved++;
+      continue;
+    }
+
+    try {
+      const bytes = await source.get(location);
+      const moved = await target.put(key, bytes, { contentType: "application/pdf" });
+      if (sha256(await target.get(moved)) !== sha256(bytes)) {
+        throw new Error(`copy at ${moved} does not match the original`);
+      }
+      await target.protect(moved);
+
+      const rows = await storage.relocateStoredFile(location, moved);
+      if (options.deleteSource) {
+        await source.delete(location);
+      }
+      console.log(`Moved ${location} -> ${moved} (${rows} row${rows === 1 ? "" : "s"})`);
+      result.moved++;
+    } catch (error: any) {
+      console.error(`Failed to move ${location}:`, error.message);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  console.log(
+    `Moving stored files ${options.from ? `from ${options.from} ` : ""}to ${options.to}` +
+      (options.dryRun ? " (dry run)" : "")
+  );
+  const { moved, skipped, failed } = await migrateFileStorage(options);
+  console.log(`Done: ${moved} moved, ${skipped} already in place or skipped, ${failed} failed`);
+  await pool.end();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("File storage migration failed:", error.message);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+/**
+ * Encrypts stored files (uploads, versions, templates and page images) that
+ * were stored before encryption at rest, and re-encrypts those whose data key
+ * is wrapped by a master key other than the first in DOCUMENT_KEYS.
+ *
+ *   npm run storage:reencrypt [-- --dry-run]
+ *
+ * Stored files are never rewritten: each one is encrypted into a new file on
+ * the same backend, read back and compared by SHA-256, and only then are the
+ * rows pointed at it and the old file deleted. The tool can be stopped and
+ * re-run at any point. Once it reports nothing left to do, master keys other
+ * than the first can be removed from DOCUMENT_KEYS.
+ */
+import crypto from "crypto";
+import path from "path";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { fileStorage } from "./services/file-storage";
+import { fileEncryption } from "./services/file-encryption";
+
+function sha256(bytes: Uint8Array): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+// `pdfs-1700000000000-123456789.pdf` is re-stored as a fresh `pdfs-...` key
+function freshKey(key: string): string {
+  const name = path.posix.basename(key);
+  const extension = path.posix.extname(name).slice(1) || "pdf";
+  const prefix = name.split("-")[0].replace(/\.[a-z0-9]+$/i, "");
+  return fileStorage.newKey(prefix || "pdfs", extension.toLowerCase());
+}
+
+async function reencryptFiles(dryRun: boolean): Promise<{ reencrypted: number; current: number; failed: number }> {
+  const result = { reencrypted: 0, current: 0, failed: 0 };
+
+  for (const location of await storage.getStoredFileLocations()) {
+    try {
+      const store = fileStorage.storeFor(location);
+      const stored = await store.get(location);
+      if (!fileEncryption.needsReencryption(stored)) {
+        result.current++;
+        continue;
+      }
+
+      const state = fileEncryption.isEncrypted(stored) ? "encrypted with an older key" : "not encrypted";
+      if (dryRun) {
+        console.log(`Would re-encrypt ${location} (${state})`);
+        result.reencrypted++;
+        continue;
+      }
+
+      const plaintext = fileEncryption.decrypt(stored);
+      const reencrypted = await store.put(freshKey(store.keyOf(location)), fileEncryption.encrypt(plaintext), {
+        contentType: "application/octet-stream",
+        immutable: true,
+      });
+      if (sha256(fileEncryption.decrypt(await store.get(reencrypted))) !== sha256(plaintext)) {
+        throw new Error(`copy at ${reencrypted} does not match the original`);
+      }
+
+      const rows = await storage.relocateStoredFile(location, reencrypted);
+      await store.delete(location);
+      console.log(`Re-encrypted ${location} (${state}) -> ${reencrypted} (${rows} row${rows === 1 ? "" : "s"})`);
+      result.reencrypted++;
+    } catch (error: any) {
+      console.error(`Failed to re-encrypt ${location}:`, error.message);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes("--dry-run");
+  console.log(`Re-encrypting stored files${dryRun ? " (dry run)" : ""}`);
+  const { reencrypted, current, failed } = await reencryptFiles(dryRun);
+  console.log(`Done: ${reencrypted} re-encrypted, ${current} already current, ${failed} failed`);
+  await pool.end();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("Re-encryption failed:", error.message);
+  process.exit(1);
+});
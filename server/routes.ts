@@ -1,39 +1,102 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, DOCUMENT_FINALIZED_ERROR } from "./storage";
+import passport from "passport";
+import {
+  setupAuth,
+  requireAuth,
+  requirePermission,
+  requireSigningStepUp,
+  toSessionUser,
+  TWO_FACTOR_LOGIN_TTL,
+  MAX_TWO_FACTOR_ATTEMPTS,
+} from "./auth";
 import { authService } from "./services/auth";
 import { signatureService } from "./services/signature";
 import { pdfService } from "./services/pdf";
 import { emailService } from "./services/email";
-import { insertUserSchema, insertSignatureSchema } from "@shared/schema";
+import { verificationService } from "./services/verification";
+import { CertificateService } from "./services/certificate";
+import { caService } from "./services/ca";
+import { timestampService } from "./services/timestamp";
+import { auditService, getAuditContext, type AuditContext } from "./services/audit";
+import { envelopeService, OPEN_RECIPIENT_STATUSES, toPublicRecipient } from "./services/envelope";
+import { templateService } from "./services/template";
+import { fieldService } from "./services/fields";
+import { versionService } from "./services/version";
+import { fileStorage } from "./services/file-storage";
+import { jobQueue } from "./services/jobs";
+import { registerDocumentJobs, queuePageImages } from "./services/document-jobs";
+import { pageImageService } from "./services/page-images";
+import { searchService } from "./services/search";
+import { folderService } from "./services/folders";
+import { tagService } from "./services/tags";
+import { organizationService, toPublicInvitation } from "./services/organizations";
+import { delegationService, type OnBehalfOf } from "./services/delegations";
+import { twoFactorService, TWO_FACTOR_LOCKED_ERROR } from "./services/two-factor";
+import {
+  insertUserSchema,
+  insertSignatureSchema,
+  revokeSignatureSchema,
+  createEnvelopeSchema,
+  recipientSignSchema,
+  declineEnvelopeSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+  createFromTemplateSchema,
+  createDocumentFieldSchema,
+  fillDocumentFieldsSchema,
+  documentSearchSchema,
+  createFolderSchema,
+  updateFolderSchema,
+  tagSchema,
+  moveDocumentsSchema,
+  updateDocumentTagsSchema,
+  documentSelectionSchema,
+  createOrganizationSchema,
+  inviteOrganizationMemberSchema,
+  updateOrganizationMemberSchema,
+  shareSchema,
+  createDelegationSchema,
+  twoFactorCodeSchema,
+  signingChallengeSchema,
+  passwordResetRequestSchema,
+  securityAnswersSchema,
+  completePasswordResetSchema,
+  securityQuestionsSchema,
+  fieldDefaultSizes,
+  positionSchema,
+  signerFieldTypes,
+  type AppliedSignature,
+  type DelegatedPlacement,
+  type DelegatedSignature,
+  type DigitalSignature,
+  type FieldType,
+  type JobResult,
+  type PdfDocument,
+  type Folder,
+  type SignatureDelegation,
+  type User,
+} from "@shared/schema";
 import multer from "multer";
 import path from "path";
-import { promises as fsPromises } from "fs";
-import fsSync from "fs";
 import { z } from "zod";
-import { db } from "./db";
-import { pdfDocuments } from "@shared/schema";
 import crypto from "crypto";
 
-// Utility function for safe file deletion
+// Utility function for safe file deletion from whichever backend holds it
 async function safeDeleteFile(
   filePath: string,
   context: string = "file"
 ): Promise<boolean> {
   try {
     // Check if file exists before trying to delete
-    try {
-      await fsPromises.access(filePath);
-    } catch (accessError: any) {
-      if (accessError.code === "ENOENT") {
-        console.log(`${context} already deleted or not found: ${filePath}`);
-        return true; // File doesn't exist, consider deletion successful
-      }
-      throw accessError; // Re-throw other access errors
+    if (!(await fileStorage.exists(filePath))) {
+      console.log(`${context} already deleted or not found: ${filePath}`);
+      return true; // File doesn't exist, consider deletion successful
     }
 
     // File exists, proceed with deletion
-    await fsPromises.unlink(filePath);
+    await fileStorage.delete(filePath);
     console.log(`Successfully deleted ${context}: ${filePath}`);
     return true;
   } catch (error: any) {
@@ -48,22 +111,36 @@ async function safeDeleteFile(
   }
 }
 
-// Determine upload directory based on environment
-// Vercel serverless only has /tmp as writable directory
-const UPLOAD_DIR = process.env.VERCEL ? "/tmp" : "uploads/";
+// The logged-in user's full record, for the account settings routes
+async function getAccountUser(req: Request): Promise<User> {
+  const user = await storage.getUser(req.user!.id);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  return user;
+}
 
-// Ensure upload directory exists
-try {
-  if (!fsSync.existsSync(UPLOAD_DIR)) {
-    fsSync.mkdirSync(UPLOAD_DIR, { recursive: true });
+// Resolves the recipient behind a signing link, answering 404/410 itself when
+// the link is unknown or expired
+async function resolveSigningLink(req: Request, res: Response) {
+  const access = await envelopeService.findByToken(req.params.token);
+  if (!access) {
+    res.status(404).json({ error: "This signing link is invalid or has been replaced by a newer one" });
+    return undefined;
+  }
+  if (access.recipient.tokenExpiresAt && access.recipient.tokenExpiresAt < new Date()) {
+    res.status(410).json({ error: "This signing link has expired. Ask the sender for a new one." });
+    return undefined;
   }
-} catch (e) {
-  console.log("Could not create upload directory:", e);
+  if (access.envelope.status === "voided") {
+    res.status(410).json({ error: "The sender has cancelled this signing request" });
+    return undefined;
+  }
+  return access;
 }
 
 // Configure multer for file uploads with optimized settings
 const upload = multer({
-  dest: UPLOAD_DIR,
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB limit for Vercel serverless
     fieldSize: 10 * 1024 * 1024, // 10MB for field data
@@ -76,20 +153,231 @@ const upload = multer({
       cb(new Error("Only PDF files are allowed"));
     }
   },
-  // Use disk storage
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      cb(null, UPLOAD_DIR);
-    },
-    filename: (req, file, cb) => {
-      // Generate unique filename to avoid conflicts
-      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-      cb(null, file.fieldname + "-" + uniqueSuffix + ".pdf");
-    },
-  }),
+  // Kept in memory: uploads are written to the configured file storage
+  // backend (see services/file-storage), which may not be the local disk
+  storage: multer.memoryStorage(),
 });
 
+// The documents of a bulk request: `documentIds`, all of which the user must be
+// able to access (their own or shared with them), or everything in the user's
+// folder `folderId` and its subfolders
+async function getSelectedDocuments(
+  userId: string,
+  body: unknown
+): Promise<{ documents: PdfDocument[]; folder?: Folder } | { status: number; error: string }> {
+  const parsed = documentSelectionSchema.safeParse(body);
+  if (!parsed.success) {
+    return { status: 400, error: "Document IDs array or folder ID is required" };
+  }
+
+  if ("folderId" in parsed.data) {
+    const folder = await storage.getUserFolder(parsed.data.folderId, userId);
+    if (!folder) {
+      return { status: 404, error: "Folder not found" };
+    }
+    const documents = await folderService.getDocuments(userId, folder);
+    if (documents.length === 0) {
+      return { status: 400, error: `"${folder.name}" has no documents` };
+    }
+    return { documents, folder };
+  }
+
+  const documents: PdfDocument[] = [];
+  for (const documentId of parsed.data.documentIds) {
+    const document = await storage.getAccessibleDocument(documentId, userId);
+    if (!document) {
+      return { status: 404, error: `Document ${documentId} not found` };
+    }
+    documents.push(document);
+  }
+  return { documents };
+}
+
+// On a shared document a stamp may only be removed or moved by the owner of
+// its signature, the delegate who placed it or the document's owner. Like
+// placing a stamp, removing or moving one needs documents.prepare.
+async function canChangeAppliedSignature(
+  applied: AppliedSignature,
+  document: PdfDocument,
+  userId: string
+): Promise<boolean> {
+  if (document.userId === userId || applied.appliedBy === userId) {
+    return true;
+  }
+  const signature = await storage.getSignature(applied.signatureId);
+  return signature?.userId === userId;
+}
+
+// Deletes a document with its stored files and everything recorded about it.
+// Resolves to whether the document's own file could be removed.
+async function deleteDocumentWithFiles(document: PdfDocument, context: AuditContext): Promise<boolean> {
+  const appliedSignatures = await storage.getDocumentSignatures(document.id);
+  const versions = await storage.getDocumentVersions(document.id);
+
+  // Recorded first, while the file can still be hashed
+  await auditService.record(context, "document.deleted", document, {
+    originalName: document.originalName,
+    appliedSignatures: appliedSignatures.length,
+  });
+
+  // Delete file from filesystem (this won't fail the operation)
+  const fileDeleted = await safeDeleteFile(document.filePath, "document file");
+  console.log(`API: File deletion result: ${fileDeleted}`);
+  for (const version of versions) {
+    if (version.filePath !== document.filePath) {
+      await safeDeleteFile(version.filePath, `version ${version.versionNumber}`);
+    }
+  }
+  await pageImageService.deleteFiles(await storage.getDocumentPages(document.id));
+
+  // Delete from database (this will also delete applied signatures)
+  await storage.deleteDocument(document.id);
+  return fileDeleted;
+}
+
+// Places a signature's stamps on a document, timestamps them and records the
+// audit event and a new version. With onBehalfOf the stamps were placed by a
+// delegate of the signature's owner. Throws with a message for the client.
+async function applySignatureToDocument(
+  context: AuditContext,
+  document: PdfDocument,
+  signature: DigitalSignature,
+  placement: DelegatedPlacement,
+  onBehalfOf?: OnBehalfOf & { approvedBy?: string }
+): Promise<AppliedSignature[]> {
+  const { pageNumbers, position, fieldId } = placement;
+  const { approvedBy, ...delegated } = onBehalfOf || {};
+  const delegationDetails = onBehalfOf
+    ? {
+        appliedBy: onBehalfOf.appliedBy,
+        appliedByName: onBehalfOf.appliedByName,
+        onBehalfOf: signature.userId,
+        delegationId: onBehalfOf.delegationId,
+        ...(approvedBy ? { approvedBy } : {}),
+      }
+    : {};
+
+  // Signing a placed field: the field decides where the stamp goes, and the
+  // owner's initials, name, company and date fields for the same role are
+  // filled too. Required text, checkbox and radio fields must be done first.
+  if (fieldId) {
+    const fields = (await storage.getDocumentFields(document.id)).filter((candidate) => !candidate.recipientId);
+    const field = fields.find((candidate) => candidate.id === fieldId);
+    if (!field || field.type !== "signature") {
+      throw new Error("Field not found");
+    }
+    if (field.filledAt) {
+      throw new Error("This field has already been signed");
+    }
+
+    const missing = fieldService.missingRequired(fields.filter((candidate) => candidate.role === field.role));
+    if (missing.length > 0) {
+      throw new Error(`Please fill in ${missing.join(", ")} before signing`);
+    }
+
+    const roleFields = fields.filter(
+      (candidate) =>
+        candidate.id === field.id ||
+        (signerFieldTypes.includes(candidate.type as FieldType) && candidate.role === field.role)
+    );
+    const appliedSignatures = await fieldService.fillWithSignature(
+      document,
+      roleFields,
+      signature,
+      onBehalfOf && (delegated as OnBehalfOf)
+    );
+
+    const signed = await auditService.record(context, "signature.applied", document, {
+      signatureId: signature.id,
+      certificateSerialNumber: signature.serialNumber,
+      appliedSignatureIds: appliedSignatures.map((applied) => applied.id),
+      pageNumbers: [field.pageNumber],
+      fieldIds: roleFields.map((filled) => filled.id),
+      ...delegationDetails,
+    });
+    await versionService.recordVersion(document, signed);
+    return appliedSignatures;
+  }
+
+  // Validate page numbers are within document bounds
+  const invalidPages = pageNumbers.filter((page) => page < 1 || page > document.pageCount);
+  if (invalidPages.length > 0) {
+    console.error("Invalid page numbers:", invalidPages, "Document has", document.pageCount, "pages");
+    throw new Error(`Invalid page numbers: ${invalidPages.join(", ")}. Document has ${document.pageCount} pages.`);
+  }
+
+  console.log("Applying signature with data:", {
+    documentId: document.id,
+    signatureId: signature.id,
+    pageNumbers,
+    position,
+    hasPassword: !!signature.password,
+    appliedBy: onBehalfOf?.appliedBy,
+  });
+
+  // Stored in PDF points; a grid preset lands differently on pages of different sizes
+  const pagePositions = new Map(
+    pageNumbers.map((pageNumber) => [
+      pageNumber,
+      pdfService.resolvePosition(document.pageSizes, pageNumber, position),
+    ])
+  );
+
+  const appliedSignatures: AppliedSignature[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    console.log(`Applying signature to page ${pageNumber}`);
+    try {
+      const appliedSignature = await storage.applySignature(
+        {
+          documentId: document.id,
+          signatureId: signature.id,
+          pageNumber,
+          position: pagePositions.get(pageNumber)!,
+          ...delegated,
+        },
+        pageNumbers.length > 1
+      ); // Pass true if this is an "All pages" operation
+      appliedSignatures.push(appliedSignature);
+      console.log(`Successfully applied signature to page ${pageNumber}:`, appliedSignature.id);
+    } catch (dbError: any) {
+      console.error(`Failed to apply signature to page ${pageNumber}:`, dbError);
+      throw new Error(`Database error applying signature to page ${pageNumber}: ${dbError.message}`);
+    }
+  }
+
+  console.log("Successfully applied signatures to all pages:", appliedSignatures.length);
+
+  // Timestamp each new placement. A TSA outage must not block signing, so
+  // failures are logged and the placement stays untimestamped.
+  for (let i = 0; i < appliedSignatures.length; i++) {
+    if (appliedSignatures[i].timestampToken) {
+      continue;
+    }
+    try {
+      appliedSignatures[i] = await signatureService.timestampAppliedSignature(appliedSignatures[i], document, signature);
+    } catch (timestampError: any) {
+      console.error(`Failed to timestamp applied signature ${appliedSignatures[i].id}:`, timestampError.message);
+    }
+  }
+
+  const signed = await auditService.record(context, "signature.applied", document, {
+    signatureId: signature.id,
+    certificateSerialNumber: signature.serialNumber,
+    appliedSignatureIds: appliedSignatures.map((applied) => applied.id),
+    pageNumbers,
+    gridPosition: (position as { gridPosition?: string }).gridPosition,
+    ...delegationDetails,
+  });
+  await versionService.recordVersion(document, signed);
+  return appliedSignatures;
+}
+
 export async function registerRoutes(app: Express, createHttpServer: boolean = true): Promise<Server | null> {
+  // Sessions must be in place before any route that reads req.user
+  setupAuth(app);
+  registerDocumentJobs();
+
   
   // ADD THIS TEST ENDPOINT
   app.get("/api/vercel-test", (req, res) => {
@@ -104,6 +392,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
 
   // Test PDF processing endpoint
   app.post("/api/test/pdf", upload.single("pdf"), async (req, res) => {
+    let testFilePath: string | undefined;
     try {
       console.log("=== PDF TEST ENDPOINT ===");
 
@@ -113,19 +402,18 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
 
       const file = req.file;
       console.log("Test file:", {
-        filename: file.filename,
         originalname: file.originalname,
         size: file.size,
-        path: file.path,
         mimetype: file.mimetype,
       });
 
-      // Test PDF processing
-      const pageCount = await pdfService.getPageCount(file.path);
-      const pageSizes = await pdfService.getPageSizes(file.path);
+      // Test PDF processing through the configured storage backend
+      testFilePath = await fileStorage.put(fileStorage.newKey("test"), file.buffer);
+      const pageCount = await pdfService.getPageCount(testFilePath);
+      const pageSizes = await pdfService.getPageSizes(testFilePath);
 
       // Clean up test file
-      await safeDeleteFile(file.path, "test file");
+      await safeDeleteFile(testFilePath, "test file");
 
       res.json({
         success: true,
@@ -133,7 +421,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         pageCount,
         pageSizes,
         fileInfo: {
-          filename: file.filename,
+          filename: path.basename(testFilePath),
           size: file.size,
           mimetype: file.mimetype,
         },
@@ -142,8 +430,8 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
       console.error("PDF test error:", error);
 
       // Try to clean up test file
-      if (req.file) {
-        await safeDeleteFile(req.file.path, "test file");
+      if (testFilePath) {
+        await safeDeleteFile(testFilePath, "test file");
       }
 
       res.status(400).json({ error: error.message });
@@ -151,13 +439,13 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
   });
 
   // Users endpoint to get real user data for testing
-  app.get("/api/users", async (req, res) => {
+  app.get("/api/users", requireAuth, async (req, res) => {
     try {
-      // Get the first user from the database for testing purposes
-      const users = await storage.getAllUsers();
+      // Only the logged-in user is visible; other accounts are never listed
+      const users = [req.user!];
 
       // Only return minimal user information for security
-      const safeUsers = users.slice(0, 5).map((user) => ({
+      const safeUsers = users.map((user) => ({
         id: user.id,
         email: user.email,
         fullName: user.fullName,
@@ -171,25 +459,236 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
+  // Organization routes. Anyone may create an organization, answer an
+  // invitation through its emailed link or leave; managing members needs
+  // organization.manage.
+  app.get("/api/organization", requireAuth, async (req, res) => {
+    try {
+      const access = await organizationService.getAccess(req.user!.id);
+      const members = access.organization ? await storage.getOrganizationMembers(access.organization.id) : [];
+      const pendingInvitations =
+        access.organization && organizationService.can(access, "organization.manage")
+          ? (await storage.getOrganizationInvitations(access.organization.id)).map(toPublicInvitation)
+          : [];
+      res.json({ success: true, ...access, members, pendingInvitations });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/organization", requireAuth, async (req, res) => {
+    try {
+      const { name } = createOrganizationSchema.parse(req.body);
+      const organization = await organizationService.createOrganization(req.user!.id, name);
+      res.json({ success: true, organization });
+    } catch (error: any) {
+      const message = error instanceof z.ZodError ? error.errors[0].message : error.message;
+      res.status(400).json({ error: message });
+    }
+  });
+
+  app.post("/api/organization/leave", requireAuth, async (req, res) => {
+    try {
+      const membership = await storage.getMembership(req.user!.id);
+      if (!membership) {
+        return res.status(404).json({ error: "You are not a member of an organization" });
+      }
+      await organizationService.removeMember(membership.organizationId, req.user!.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/organization/invitations", requireAuth, requirePermission("organization.manage"), async (req, res) => {
+    try {
+      const { email, role } = inviteOrganizationMemberSchema.parse(req.body);
+      const invitation = await organizationService.inviteMember(req.access!.organization!, req.user!, email, role);
+      res.json({ success: true, invitation });
+    } catch (error: any) {
+      const message = error instanceof z.ZodError ? error.errors[0].message : error.message;
+      res.status(400).json({ error: message });
+    }
+  });
+
+  app.delete(
+    "/api/organization/invitations/:invitationId",
+    requireAuth,
+    requirePermission("organization.manage"),
+    async (req, res) => {
+      try {
+        await organizationService.cancelInvitation(req.access!.organization!.id, req.params.invitationId);
+        res.json({ success: true });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  app.get("/api/organization/join/:token", requireAuth, async (req, res) => {
+    try {
+      const invitation = await organizationService.getInvitation(req.user!, req.params.token);
+      res.json({ success: true, invitation });
+    } catch (error: any) {
+      res.status(404).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/organization/join/:token", requireAuth, async (req, res) => {
+    try {
+      const member = await organizationService.acceptInvitation(req.user!, req.params.token);
+      res.json({ success: true, member });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/organization/join/:token/decline", requireAuth, async (req, res) => {
+    try {
+      await organizationService.declineInvitation(req.user!, req.params.token);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch(
+    "/api/organization/members/:userId",
+    requireAuth,
+    requirePermission("organization.manage"),
+    async (req, res) => {
+      try {
+        const { role } = updateOrganizationMemberSchema.parse(req.body);
+        const member = await organizationService.updateMemberRole(req.access!.organization!.id, req.params.userId, role);
+        res.json({ success: true, member });
+      } catch (error: any) {
+        const message = error instanceof z.ZodError ? error.errors[0].message : error.message;
+        res.status(400).json({ error: message });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/organization/members/:userId",
+    requireAuth,
+    requirePermission("organization.manage"),
+    async (req, res) => {
+      try {
+        await organizationService.removeMember(req.access!.organization!.id, req.params.userId);
+        res.json({ success: true });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
   // Auth routes
   app.post("/api/auth/register", async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
       const user = await authService.register(userData);
-      res.json({ success: true, user });
+
+      // Accounts are verified on creation, so start a session right away
+      req.login(toSessionUser(user), (loginError) => {
+        if (loginError) {
+          return res.status(500).json({ error: loginError.message });
+        }
+        res.json({ success: true, user: req.user });
+      });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate(
+      "local",
+      (error: any, user: Express.User | false, info?: { message?: string }) => {
+        if (error) {
+          return res.status(500).json({ error: error.message });
+        }
+        if (!user) {
+          return res
+            .status(401)
+            .json({ error: info?.message || "Invalid credentials" });
+        }
+
+        // The password alone is not enough; the session only remembers who
+        // is signing in until /api/auth/login/two-factor gets their code
+        if (twoFactorService.isEnabled(user)) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL,
+            attempts: 0,
+          };
+          return res.json({ success: true, twoFactorRequired: true });
+        }
+
+        // req.login issues a fresh session id, preventing session fixation
+        req.login(user, (loginError) => {
+          if (loginError) {
+            return res.status(500).json({ error: loginError.message });
+          }
+          res.json({ success: true, user: req.user });
+        });
+      }
+    )(req, res, next);
+  });
+
+  app.post("/api/auth/login/two-factor", async (req, res) => {
     try {
-      const { email, password } = req.body;
-      const user = await authService.login(email, password);
-      res.json({ success: true, user });
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Your sign-in expired, please enter your password again" });
+      }
+
+      const input = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      // Counted per account, so entering the password again does not reset it
+      if (user && (await twoFactorService.isLockedOut(user.id))) {
+        delete req.session.pendingTwoFactor;
+        return res.status(429).json({ error: TWO_FACTOR_LOCKED_ERROR });
+      }
+      if (!user || !(await twoFactorService.verify(user, input, getAuditContext(req)))) {
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ error: "Too many invalid codes, please sign in again" });
+        }
+        return res.status(401).json({ error: "Invalid code" });
+      }
+
+      req.login(toSessionUser(user), (loginError) => {
+        if (loginError) {
+          return res.status(500).json({ error: loginError.message });
+        }
+        // The code just entered also answers the signing challenge
+        req.session.stepUpAt = Date.now();
+        res.json({ success: true, user: req.user });
+      });
     } catch (error: any) {
-      res.status(401).json({ error: error.message });
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.logout((logoutError) => {
+      if (logoutError) {
+        return res.status(500).json({ error: logoutError.message });
+      }
+      req.session.destroy(() => {
+        res.clearCookie("xsignature.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Not logged in" });
     }
+    res.json({ success: true, user: req.user });
   });
 
   app.post("/api/auth/verify-email", async (req, res) => {
@@ -238,89 +737,299 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
-  // Debug endpoint for signature creation
-  app.post("/api/debug/signatures", (req, res) => {
-    console.log("=== DEBUG SIGNATURE ENDPOINT ===");
-    console.log("Request method:", req.method);
-    console.log("Request URL:", req.url);
-    console.log("Request headers:", req.headers);
-    console.log("Request body:", req.body);
-    console.log("Request body type:", typeof req.body);
-    console.log("Request body keys:", Object.keys(req.body || {}));
-    res.json({
-      message: "Debug endpoint hit",
-      body: req.body,
-      bodyKeys: Object.keys(req.body || {}),
-      timestamp: new Date().toISOString(),
-    });
+  // Answers the same whether or not the address has an account
+  app.post("/api/auth/password-reset/request", async (req, res) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      const context = getAuditContext(req);
+      if (await authService.isResetRateLimited("request", { email, ipAddress: context.ipAddress })) {
+        return res.status(429).json({ error: "Too many reset requests, please try again later" });
+      }
+
+      await authService.requestPasswordReset(email, context);
+      res.json({ success: true, message: "If an account uses this address, a reset link is on its way" });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+      console.error("Password reset request error:", error);
+      res.status(500).json({ error: "Failed to send the reset email" });
+    }
   });
 
-  app.post("/api/signatures", async (req, res) => {
+  // Like /request, answers the same for every address (see getSecurityQuestions)
+  app.post("/api/auth/password-reset/questions", async (req, res) => {
     try {
-      console.log("=== SIGNATURE CREATION REQUEST ===");
-      console.log("Raw request body:", req.body);
-      console.log("Request body type:", typeof req.body);
-      console.log("Request body keys:", Object.keys(req.body));
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      const context = getAuditContext(req);
+      if (
+        (await authService.isResetRateLimited("questions", { email, ipAddress: context.ipAddress })) ||
+        (await authService.isResetRateLimited("answers", { email, ipAddress: context.ipAddress }))
+      ) {
+        return res.status(429).json({ error: "Too many attempts, please try again later" });
+      }
 
-      const { userId, email, signatureImage, ...signatureData } = req.body;
+      const questions = await authService.getSecurityQuestions(email, context);
+      res.json({ success: true, questions });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-      console.log("Extracted data:");
-      console.log("- userId:", userId, "type:", typeof userId);
-      console.log("- email:", email, "type:", typeof email);
-      console.log(
-        "- signatureImage:",
-        signatureImage,
-        "type:",
-        typeof signatureImage
-      );
-      console.log("- signatureData:", signatureData);
-      console.log("- signatureData keys:", Object.keys(signatureData));
+  // Correct answers are exchanged for a short-lived reset token
+  app.post("/api/auth/password-reset/answers", async (req, res) => {
+    try {
+      const answers = securityAnswersSchema.parse(req.body);
+      const context = getAuditContext(req);
+      if (await authService.isResetRateLimited("answers", { email: answers.email, ipAddress: context.ipAddress })) {
+        return res.status(429).json({ error: "Too many wrong answers, please try again later" });
+      }
 
-      // Validate that userId is provided
-      if (!userId) {
-        console.error("Missing userId in signature creation");
-        return res.status(400).json({ error: "userId is required" });
+      const token = await authService.verifySecurityAnswers(answers, context);
+      if (!token) {
+        return res.status(401).json({ error: "Those answers don't match our records" });
       }
+      res.json({ success: true, token });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-      // Validate that email is provided
-      if (!email) {
-        console.error("Missing email in signature creation");
-        return res.status(400).json({ error: "email is required" });
+  app.post("/api/auth/password-reset/complete", async (req, res) => {
+    try {
+      const { token, password } = completePasswordResetSchema.parse(req.body);
+      const context = getAuditContext(req);
+      if (await authService.isResetRateLimited("token", { ipAddress: context.ipAddress })) {
+        return res.status(429).json({ error: "Too many attempts, please try again later" });
       }
 
-      // Create the complete signature data including userId
-      const completeSignatureData = {
-        userId,
-        ...signatureData,
-        signatureImage: signatureImage || null,
-      };
+      await authService.resetPassword(token, password, context);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-      console.log("Complete signature data:", completeSignatureData);
-      console.log("Complete data keys:", Object.keys(completeSignatureData));
+  app.get("/api/auth/security-questions", requireAuth, async (req, res) => {
+    try {
+      const user = await getAccountUser(req);
+      const questions =
+        user.securityQuestion1 && user.securityQuestion2 ? [user.securityQuestion1, user.securityQuestion2] : null;
+      res.json({ success: true, questions });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Create a request schema that matches what we're receiving
-      const requestSchema = z.object({
-        userId: z.string(),
-        name: z.string(),
-        fullName: z.string(),
-        companyName: z.string(),
-        location: z.string(),
-        timeZone: z.string(),
-        signatureImage: z.string().nullable().optional(),
-        password: z.string().optional(), // Add password field
-      });
+  app.put("/api/auth/security-questions", requireAuth, async (req, res) => {
+    try {
+      const data = securityQuestionsSchema.parse(req.body);
+      const user = await getAccountUser(req);
+      await authService.setSecurityQuestions(user, data, getAuditContext(req));
+      res.json({ success: true, questions: [data.question1, data.question2] });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-      console.log("Validating against request schema...");
-      // Validate the request data
-      const validatedRequestData = requestSchema.parse(completeSignatureData);
-      console.log("Request schema validation passed:", validatedRequestData);
+  app.delete("/api/auth/security-questions", requireAuth, async (req, res) => {
+    try {
+      const { password } = z.object({ password: z.string().min(1, "Enter your current password") }).parse(req.body);
+      const user = await getAccountUser(req);
+      await authService.removeSecurityQuestions(user, password, getAuditContext(req));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-      // Transform the data for the service layer (remove userId since it's passed separately)
-      const { userId: _, ...serviceData } = validatedRequestData;
-      console.log("Service data (without userId):", serviceData);
-      console.log("Service data keys:", Object.keys(serviceData));
+  app.get("/api/auth/two-factor", requireAuth, async (req, res) => {
+    try {
+      const user = await getAccountUser(req);
+      res.json({ success: true, twoFactor: twoFactorService.getStatus(user) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Create a service schema that matches what the service layer expects (without userId)
+  // Someone holding only a session must not be able to tie the account to
+  // their own authenticator, so setup asks for the password again
+  app.post("/api/auth/two-factor/setup", requireAuth, async (req, res) => {
+    try {
+      const { password } = z.object({ password: z.string().min(1, "Enter your password") }).parse(req.body);
+      const user = await getAccountUser(req);
+      if (!(await authService.comparePasswords(password, user.password))) {
+        return res.status(401).json({ error: "Incorrect password" });
+      }
+
+      const enrollment = await twoFactorService.beginEnrollment(user);
+      res.json({ success: true, ...enrollment });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.post("/api/auth/two-factor/enable", requireAuth, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (!code) {
+        return res.status(400).json({ error: "Enter the 6-digit code from your authenticator app" });
+      }
+
+      const user = await getAccountUser(req);
+      const recoveryCodes = await twoFactorService.enable(user, code);
+      req.session.stepUpAt = Date.now();
+      res.json({ success: true, recoveryCodes });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.post("/api/auth/two-factor/disable", requireAuth, async (req, res) => {
+    try {
+      const input = twoFactorCodeSchema.parse(req.body);
+      const user = await getAccountUser(req);
+      await twoFactorService.disable(user, input, getAuditContext(req));
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.post("/api/auth/two-factor/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const input = twoFactorCodeSchema.parse(req.body);
+      const user = await getAccountUser(req);
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user, input, getAuditContext(req));
+      res.json({ success: true, recoveryCodes });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.patch("/api/auth/two-factor", requireAuth, async (req, res) => {
+    try {
+      const { signingChallenge, code } = signingChallengeSchema.parse(req.body);
+      const user = await getAccountUser(req);
+      await twoFactorService.setSigningChallenge(user, signingChallenge, code, getAuditContext(req));
+      req.session.stepUpAt = Date.now();
+      res.json({ success: true, twoFactor: twoFactorService.getStatus({ ...user, signingChallenge }) });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Answers the signing challenge (see requireSigningStepUp). Repeated wrong
+  // codes end the session, so a stolen one cannot be used to guess codes.
+  app.post("/api/auth/two-factor/step-up", requireAuth, async (req, res) => {
+    try {
+      const input = twoFactorCodeSchema.parse(req.body);
+      const user = await getAccountUser(req);
+      if (await twoFactorService.isLockedOut(user.id)) {
+        return res.status(429).json({ error: TWO_FACTOR_LOCKED_ERROR });
+      }
+      if (!(await twoFactorService.verify(user, input, getAuditContext(req)))) {
+        req.session.stepUpFailures = (req.session.stepUpFailures || 0) + 1;
+        if (req.session.stepUpFailures < MAX_TWO_FACTOR_ATTEMPTS) {
+          return res.status(401).json({ error: "Invalid code" });
+        }
+
+        console.log(`User ${user.id} signed out after ${MAX_TWO_FACTOR_ATTEMPTS} invalid signing codes`);
+        return req.logout((logoutError) => {
+          if (logoutError) {
+            return res.status(500).json({ error: logoutError.message });
+          }
+          req.session.destroy(() => {
+            res.clearCookie("xsignature.sid");
+            res.status(401).json({ error: "Too many invalid codes, please sign in again", loggedOut: true });
+          });
+        });
+      }
+
+      req.session.stepUpAt = Date.now();
+      req.session.stepUpFailures = 0;
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Debug endpoint for signature creation
+  app.post("/api/debug/signatures", (req, res) => {
+    console.log("=== DEBUG SIGNATURE ENDPOINT ===");
+    console.log("Request method:", req.method);
+    console.log("Request URL:", req.url);
+    console.log("Request headers:", req.headers);
+    console.log("Request body:", req.body);
+    console.log("Request body type:", typeof req.body);
+    console.log("Request body keys:", Object.keys(req.body || {}));
+    res.json({
+      message: "Debug endpoint hit",
+      body: req.body,
+      bodyKeys: Object.keys(req.body || {}),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  app.post("/api/signatures", requireAuth, requirePermission("signatures.manage"), async (req, res) => {
+    try {
+      // Never log the body itself: it carries the signature's password
+      console.log("=== SIGNATURE CREATION REQUEST ===");
+      console.log("Request body type:", typeof req.body);
+      console.log("Request body keys:", Object.keys(req.body));
+
+      // The owner always comes from the session, never from the request body
+      const {
+        userId: _bodyUserId,
+        email: _bodyEmail,
+        signatureImage,
+        ...signatureData
+      } = req.body;
+      const userId = req.user!.id;
+      const email = req.user!.email;
+
+      console.log("Extracted data:");
+      console.log("- userId:", userId, "type:", typeof userId);
+      console.log("- email:", email, "type:", typeof email);
+      console.log(
+        "- signatureImage:",
+        signatureImage,
+        "type:",
+        typeof signatureImage
+      );
+      console.log("- signatureData keys:", Object.keys(signatureData));
+
+      // Create the complete signature data including userId
+      const completeSignatureData = {
+        userId,
+        ...signatureData,
+        signatureImage: signatureImage || null,
+      };
+
+      console.log("Complete data keys:", Object.keys(completeSignatureData));
+
+      // Create a request schema that matches what we're receiving
+      const requestSchema = z.object({
+        userId: z.string(),
+        name: z.string(),
+        fullName: z.string(),
+        companyName: z.string(),
+        location: z.string(),
+        timeZone: z.string(),
+        signatureImage: z.string().nullable().optional(),
+        password: z.string().optional(), // Add password field
+      });
+
+      console.log("Validating against request schema...");
+      // Validate the request data
+      const validatedRequestData = requestSchema.parse(completeSignatureData);
+      console.log("Request schema validation passed");
+
+      // Transform the data for the service layer (remove userId since it's passed separately)
+      const { userId: _, ...serviceData } = validatedRequestData;
+      console.log("Service data keys:", Object.keys(serviceData));
+
+      // Create a service schema that matches what the service layer expects (without userId)
       const serviceSchema = z.object({
         name: z.string(),
         fullName: z.string(),
@@ -334,7 +1043,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
       // Validate that serviceData matches service schema (without userId)
       console.log("Validating against service schema...");
       const validatedServiceData = serviceSchema.parse(serviceData);
-      console.log("Service schema validation passed:", validatedServiceData);
+      console.log("Service schema validation passed");
 
       // Cast the validated data to InsertSignature type for the service layer
       const serviceSignatureData = validatedServiceData as any;
@@ -346,37 +1055,223 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
       );
 
       console.log("Signature created successfully:", signature.id);
-      res.json({ success: true, signature });
+      res.json({ success: true, signature: signatureService.toPublicSignature(signature) });
     } catch (error: any) {
       console.error("Error creating signature:", error);
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.get("/api/signatures/:userId", async (req, res) => {
+  app.get("/api/signatures/:userId", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
       const { userId } = req.params;
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
       const signatures = await signatureService.getUserSignatures(userId);
-      res.json({ success: true, signatures });
+      // Other members' shared signatures can be looked at but only their owner applies them
+      const organization = req.access!.organization;
+      const sharedSignatures = organization ? await storage.getSharedSignatures(organization.id, userId) : [];
+      // Signatures other users delegated to this one, each listed once
+      const delegatedSignatures = new Map<string, DelegatedSignature>();
+      for (const delegation of await storage.getReceivedDelegations(userId)) {
+        if (!delegationService.isActive(delegation) || delegatedSignatures.has(delegation.signatureId)) continue;
+        const signature = await storage.getSignature(delegation.signatureId);
+        if (signature && !signature.revokedAt) {
+          delegatedSignatures.set(signature.id, {
+            ...signatureService.toPublicSignature(signature),
+            ownerName: delegation.ownerName,
+          });
+        }
+      }
+      res.json({
+        success: true,
+        signatures: signatures.map((signature) => signatureService.toPublicSignature(signature)),
+        sharedSignatures: sharedSignatures.map((signature) => signatureService.toPublicSignature(signature)),
+        delegatedSignatures: Array.from(delegatedSignatures.values()),
+      });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
-  app.delete("/api/signatures/:signatureId", async (req, res) => {
+  app.delete("/api/signatures/:signatureId", requireAuth, requirePermission("signatures.manage"), async (req, res) => {
     try {
       const { signatureId } = req.params;
-      const { userId } = req.body;
-      await signatureService.deleteSignature(signatureId, userId);
+      await signatureService.deleteSignature(signatureId, req.user!.id);
       res.json({ success: true });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
+  // Revocation keeps the signature and every document it was applied to intact
+  app.post("/api/signatures/:signatureId/revoke", requireAuth, requirePermission("signatures.manage"), async (req, res) => {
+    try {
+      const { signatureId } = req.params;
+      const { reason } = revokeSignatureSchema.parse(req.body);
+
+      const signature = await storage.getUserSignature(signatureId, req.user!.id);
+      if (!signature) {
+        return res.status(404).json({ error: "Signature not found" });
+      }
+      if (signature.revokedAt) {
+        return res.status(409).json({ error: "Signature is already revoked" });
+      }
+
+      const revoked = await storage.revokeSignature(signatureId, reason);
+      console.log(`Signature ${signatureId} revoked by user ${req.user!.id} (${reason})`);
+      res.json({ success: true, signature: signatureService.toPublicSignature(revoked!) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Sharing a signature lets other members see it; it still only signs for its owner
+  app.post("/api/signatures/:signatureId/share", requireAuth, requirePermission("documents.share"), async (req, res) => {
+    try {
+      const { shared } = shareSchema.parse(req.body);
+      const organization = req.access!.organization;
+      if (!organization) {
+        return res.status(400).json({ error: "You are not a member of an organization" });
+      }
+
+      const signature = await storage.getUserSignature(req.params.signatureId, req.user!.id);
+      if (!signature) {
+        return res.status(404).json({ error: "Signature not found" });
+      }
+
+      const updated = await storage.setSignatureOrganization(signature.id, shared ? organization.id : null);
+      res.json({ success: true, signature: signatureService.toPublicSignature(updated!) });
+    } catch (error: any) {
+      const message = error instanceof z.ZodError ? error.errors[0].message : error.message;
+      res.status(400).json({ error: message });
+    }
+  });
+
+  // Delegated signing. Owners grant and revoke delegations of their
+  // signatures and decide on uses that need their approval.
+  app.get("/api/delegations", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      res.json({
+        success: true,
+        granted: await storage.getOwnedDelegations(userId),
+        received: await storage.getReceivedDelegations(userId),
+        requests: await storage.getPendingDelegationRequests(userId),
+      });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/delegations", requireAuth, requirePermission("signatures.manage"), async (req, res) => {
+    try {
+      const data = createDelegationSchema.parse(req.body);
+      const delegation = await delegationService.grant(req.user!.id, data);
+      res.json({ success: true, delegation });
+    } catch (error: any) {
+      const message = error instanceof z.ZodError ? error.errors[0].message : error.message;
+      res.status(400).json({ error: message });
+    }
+  });
+
+  app.post(
+    "/api/delegations/:delegationId/revoke",
+    requireAuth,
+    requirePermission("signatures.manage"),
+    async (req, res) => {
+      try {
+        const delegation = await delegationService.revoke(req.user!.id, req.params.delegationId);
+        res.json({ success: true, delegation });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Approving places the stamps the delegate asked for; they are recorded as placed by the delegate
+  app.post(
+    "/api/delegations/requests/:requestId/approve",
+    requireAuth,
+    requirePermission("documents.sign"),
+    requireSigningStepUp,
+    async (req, res) => {
+      try {
+        const { request, delegation } = await delegationService.getRequestForOwner(req.user!.id, req.params.requestId);
+        if (!delegationService.isActive(delegation)) {
+          return res.status(400).json({ error: "This delegation has expired or was revoked" });
+        }
+
+        const signature = await storage.getUserSignature(delegation.signatureId, req.user!.id);
+        if (!signature) {
+          return res.status(404).json({ error: "Signature not found" });
+        }
+        if (signature.revokedAt) {
+          return res.status(400).json({ error: "This signature's certificate has been revoked and can no longer be applied" });
+        }
+
+        const document = await storage.getAccessibleDocument(request.documentId, delegation.delegateId);
+        if (!document || !(await delegationService.covers(delegation, document))) {
+          return res.status(400).json({ error: "The delegate can no longer sign this document" });
+        }
+
+        // Claimed first so a second approval cannot apply the stamps again
+        if (!(await storage.decideDelegationRequest(request.id, "approved"))) {
+          return res.status(409).json({ error: "This request was already decided" });
+        }
+        let appliedSignatures: AppliedSignature[];
+        try {
+          appliedSignatures = await applySignatureToDocument(getAuditContext(req), document, signature, request.placement, {
+            ...(await delegationService.onBehalfOf(delegation)),
+            approvedBy: req.user!.id,
+          });
+        } catch (applyError) {
+          await storage.decideDelegationRequest(request.id, "pending", "approved");
+          throw applyError;
+        }
+
+        console.log(`Delegation request ${request.id} approved by user ${req.user!.id}`);
+        res.json({ success: true, appliedSignatures });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  app.post(
+    "/api/delegations/requests/:requestId/reject",
+    requireAuth,
+    requirePermission("documents.sign"),
+    async (req, res) => {
+      try {
+        const { request, delegation } = await delegationService.getRequestForOwner(req.user!.id, req.params.requestId);
+        const rejected = await storage.decideDelegationRequest(request.id, "rejected");
+        if (!rejected) {
+          return res.status(409).json({ error: "This request was already decided" });
+        }
+
+        const document = await storage.getDocument(request.documentId);
+        if (document) {
+          await auditService.record(getAuditContext(req), "delegation.rejected", document, {
+            requestId: request.id,
+            delegationId: delegation.id,
+            signatureId: delegation.signatureId,
+            appliedBy: delegation.delegateId,
+          });
+        }
+        res.json({ success: true, request: rejected });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
   // PDF document routes
   app.post(
     "/api/documents/upload",
+    requireAuth,
+    requirePermission("documents.prepare"),
     upload.array("pdfs", 10),
     async (req, res) => {
       const startTime = Date.now();
@@ -385,7 +1280,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         console.log("Request body:", req.body);
         console.log("Files:", req.files);
 
-        const { userId } = req.body;
+        const userId = req.user!.id;
         const files = req.files as Express.Multer.File[];
 
         console.log("Extracted userId:", userId);
@@ -404,115 +1299,68 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
           });
         }
 
-        if (!userId) {
-          console.error("Missing userId in PDF upload");
-          return res.status(400).json({ error: "userId is required" });
-        }
-
         if (!files || files.length === 0) {
           console.error("No files uploaded");
           return res.status(400).json({ error: "No files uploaded" });
         }
 
-        console.log(`Processing ${files.length} PDF file(s)...`);
+        // Uploaded straight into the folder open in the sidebar, if any
+        const folderId = typeof req.body.folderId === "string" && req.body.folderId ? req.body.folderId : null;
+        if (folderId && !(await storage.getUserFolder(folderId, userId))) {
+          return res.status(404).json({ error: "Folder not found" });
+        }
+
+        console.log(`Storing ${files.length} PDF file(s)...`);
         const documents = [];
+        const jobs = [];
 
         for (let i = 0; i < files.length; i++) {
           const file = files[i];
-          console.log(`Processing file ${i + 1}/${files.length}:`, {
+          // Unique name to avoid conflicts, e.g. pdfs-1700000000000-123456789.pdf
+          file.filename = fileStorage.newKey(file.fieldname);
+          console.log(`Storing file ${i + 1}/${files.length}:`, {
             filename: file.filename,
             originalname: file.originalname,
             size: file.size,
-            path: file.path,
             mimetype: file.mimetype,
           });
 
+          let filePath: string | undefined;
           try {
-            // Check if file exists and is readable
-            await fsPromises.access(file.path);
-            console.log(`File ${file.filename} is accessible`);
+            filePath = await fileStorage.put(file.filename, file.buffer);
+            console.log(`File ${file.filename} stored at ${filePath}`);
 
-            // Create document in database with initial status
-            console.log(`Creating document record for ${file.filename}...`);
+            // Pages and form fields are read by a background job
             const document = await storage.createDocument({
               userId,
               fileName: file.filename,
               originalName: file.originalname,
               fileSize: file.size,
-              filePath: file.path,
-              pageCount: 0, // Will be updated after processing
-              pageSizes: "[]", // Will be updated after processing
-              status: "pending", // Explicitly set initial status
+              filePath,
+              pageCount: 0, // Set once the job has processed the file
+              pageSizes: "[]",
+              status: "pending",
+              folderId,
             });
+            const job = await jobQueue.enqueue("document.process", {
+              userId,
+              documentId: document.id,
+              payload: { context: getAuditContext(req) },
+            });
+            console.log(`Document ${document.id} created, processing in job ${job.id}`);
 
-            console.log(`Document created successfully:`, document.id);
-
-            try {
-              // Process the PDF document
-              console.log(`Processing PDF document ${file.filename}...`);
-              const { pageCount, pageSizes } = await pdfService.processDocument(
-                file.path
-              );
-
-              // Update document with processed information
-              console.log(
-                `Updating document status to processed for ID: ${document.id}`
-              );
-              await storage.updateDocumentStatus(
-                document.id,
-                "processed",
-                pageCount,
-                JSON.stringify(pageSizes)
-              );
-              console.log(
-                `Document status updated to processed: ${document.id}`
-              );
-
-              // Update page count and sizes (you might need to add these fields to your update method)
-              // For now, we'll just update the status
-
-              documents.push(document);
-            } catch (processingError: any) {
-              console.error(
-                `Error processing PDF ${file.filename}:`,
-                processingError
-              );
-
-              // Update status to error
-              console.log(
-                `Updating document status to error for ID: ${document.id}`
-              );
-              await storage.updateDocumentStatus(document.id, "error");
-              console.log(`Document status updated to error: ${document.id}`);
-
-              // Remove the document from the array since it failed
-              // documents.pop(); // Remove the last added document
-
-              throw processingError;
-            }
+            documents.push(document);
+            jobs.push(jobQueue.toPublicJob(job));
           } catch (fileError: any) {
-            console.error(`Error processing file ${file.filename}:`, fileError);
-            console.error(`File error stack:`, fileError.stack);
+            console.error(`Error storing file ${file.filename}:`, fileError);
 
             // Try to clean up the uploaded file
-            await safeDeleteFile(file.path, `uploaded file ${file.filename}`);
-
-            // If we created a document record, update its status to error
-            if (documents.length > 0) {
-              const lastDocument = documents[documents.length - 1];
-              try {
-                await storage.updateDocumentStatus(lastDocument.id, "error");
-                console.log(
-                  `Updated document status to error:`,
-                  lastDocument.id
-                );
-              } catch (statusError) {
-                console.error(`Failed to update document status:`, statusError);
-              }
+            if (filePath) {
+              await safeDeleteFile(filePath, `uploaded file ${file.filename}`);
             }
 
             throw new Error(
-              `Failed to process PDF file ${file.originalname}: ${fileError.message}`
+              `Failed to upload PDF file ${file.originalname}: ${fileError.message}`
             );
           }
         }
@@ -520,11 +1368,11 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         const endTime = Date.now();
         const totalTime = (endTime - startTime) / 1000;
         console.log(
-          `Successfully processed ${
+          `Successfully stored ${
             documents.length
           } PDF file(s) in ${totalTime.toFixed(2)} seconds`
         );
-        res.json({ success: true, documents });
+        res.status(202).json({ success: true, documents, jobs });
       } catch (error: any) {
         const endTime = Date.now();
         const totalTime = (endTime - startTime) / 1000;
@@ -539,12 +1387,12 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
   );
 
   // Manual update endpoint to fix existing documents
-  app.post("/api/documents/fix-status", async (req, res) => {
+  app.post("/api/documents/fix-status", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
     try {
       console.log("=== FIXING DOCUMENT STATUS ===");
 
-      // Get all documents
-      const allDocuments = await db.select().from(pdfDocuments);
+      // Get the current user's documents
+      const allDocuments = await storage.getUserDocuments(req.user!.id);
       console.log(
         "All documents:",
         allDocuments.map((d) => ({
@@ -573,12 +1421,12 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
   });
 
   // Cleanup endpoint to remove invalid documents
-  app.post("/api/documents/cleanup", async (req, res) => {
+  app.post("/api/documents/cleanup", requireAuth, requirePermission("documents.delete"), async (req, res) => {
     try {
       console.log("=== CLEANING UP INVALID DOCUMENTS ===");
 
-      // Get all documents
-      const allDocuments = await db.select().from(pdfDocuments);
+      // Get the current user's documents
+      const allDocuments = await storage.getUserDocuments(req.user!.id);
       console.log(`Found ${allDocuments.length} total documents`);
 
       let cleanedUpCount = 0;
@@ -588,7 +1436,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
       for (const doc of allDocuments) {
         try {
           // Check if file exists
-          await fsPromises.access(doc.filePath);
+          await fileStorage.access(doc.filePath);
           validCount++;
         } catch (accessError: any) {
           if (accessError.code === "ENOENT") {
@@ -604,7 +1452,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
               );
               for (const sig of appliedSignatures) {
                 try {
-                  await storage.removeSignature(sig.id);
+                  await storage.removeSignature(doc.id, sig.id);
                   console.log(`Deleted applied signature: ${sig.id}`);
                 } catch (sigError) {
                   console.error(
@@ -655,87 +1503,208 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
-  // Get user documents
-  app.get("/api/documents/:userId", async (req, res) => {
+  // Matters and folders
+  app.get("/api/folders", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
-      const { userId } = req.params;
-      const documents = await storage.getUserDocuments(userId);
-
-      // Clean up invalid documents and update status for valid ones
-      const validDocuments = [];
-      let cleanedUpCount = 0;
+      const folders = await storage.getUserFolders(req.user!.id);
+      res.json({ success: true, folders });
+    } catch (error: any) {
+      console.error("Error loading folders:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      for (const doc of documents) {
-        try {
-          // Check if file exists
-          await fsPromises.access(doc.filePath);
+  app.post("/api/folders", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const data = createFolderSchema.parse(req.body);
+      const folder = await folderService.createFolder(req.user!.id, data);
+      res.json({ success: true, folder });
+    } catch (error: any) {
+      console.error("Error creating folder:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-          // File exists, update status if needed
-          if (!doc.status) {
-            console.log(
-              `Updating document ${doc.id} with missing status field`
-            );
-            await storage.updateDocumentStatus(doc.id, "processed");
-            doc.status = "processed";
-          }
+  // Renames a folder or moves it under another one (parentId null: top level)
+  app.patch("/api/folders/:folderId", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const folder = await storage.getUserFolder(req.params.folderId, req.user!.id);
+      if (!folder) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      const data = updateFolderSchema.parse(req.body);
+      const updated = await folderService.updateFolder(req.user!.id, folder, data);
+      res.json({ success: true, folder: updated });
+    } catch (error: any) {
+      console.error("Error updating folder:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-          validDocuments.push(doc);
-        } catch (accessError: any) {
-          if (accessError.code === "ENOENT") {
-            // File doesn't exist, clean up the database record
-            console.log(
-              `Cleaning up invalid document: ${doc.id} (file missing: ${doc.filePath})`
-            );
+  // Deletes the folder only; what was in it moves up a level
+  app.delete("/api/folders/:folderId", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const folder = await storage.getUserFolder(req.params.folderId, req.user!.id);
+      if (!folder) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      await folderService.deleteFolder(folder);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting folder:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-            try {
-              // Delete any applied signatures first
-              const appliedSignatures = await storage.getDocumentSignatures(
-                doc.id
-              );
-              for (const sig of appliedSignatures) {
-                try {
-                  await storage.removeSignature(sig.id);
-                  console.log(`Deleted applied signature: ${sig.id}`);
-                } catch (sigError) {
-                  console.error(
-                    `Failed to delete applied signature ${sig.id}:`,
-                    sigError
-                  );
-                }
-              }
+  // Files documents into a folder, or takes them out of any (folderId null)
+  app.post("/api/documents/move", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const { documentIds, folderId } = moveDocumentsSchema.parse(req.body);
+      const userId = req.user!.id;
+      if (folderId && !(await storage.getUserFolder(folderId, userId))) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      for (const documentId of documentIds) {
+        if (!(await storage.getUserDocument(documentId, userId))) {
+          return res.status(404).json({ error: `Document ${documentId} not found` });
+        }
+      }
 
-              // Delete the document record
-              await storage.deleteDocument(doc.id);
-              cleanedUpCount++;
-              console.log(
-                `Successfully cleaned up invalid document: ${doc.id}`
-              );
-            } catch (cleanupError) {
-              console.error(
-                `Failed to cleanup invalid document ${doc.id}:`,
-                cleanupError
-              );
-              // If cleanup fails, don't include it in valid documents
-            }
+      const documents = await storage.moveDocuments(documentIds, folderId);
+      res.json({ success: true, documents });
+    } catch (error: any) {
+      console.error("Error moving documents:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Tags, each with the ids of the documents it is on
+  app.get("/api/tags", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const tags = await tagService.getTags(req.user!.id);
+      res.json({ success: true, tags });
+    } catch (error: any) {
+      console.error("Error loading tags:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/tags", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const { name } = tagSchema.parse(req.body);
+      const tag = await tagService.createTag(req.user!.id, name);
+      res.json({ success: true, tag });
+    } catch (error: any) {
+      console.error("Error creating tag:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.patch("/api/tags/:tagId", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const tag = await storage.getUserTag(req.params.tagId, req.user!.id);
+      if (!tag) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      const { name } = tagSchema.parse(req.body);
+      const renamed = await tagService.renameTag(req.user!.id, tag, name);
+      res.json({ success: true, tag: renamed });
+    } catch (error: any) {
+      console.error("Error renaming tag:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.delete("/api/tags/:tagId", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const tag = await storage.getUserTag(req.params.tagId, req.user!.id);
+      if (!tag) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      await storage.deleteTag(tag.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting tag:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Adds and removes tags on one or more documents
+  app.post("/api/documents/tags", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const { documentIds, add, remove } = updateDocumentTagsSchema.parse(req.body);
+      const userId = req.user!.id;
+      for (const documentId of documentIds) {
+        if (!(await storage.getAccessibleDocument(documentId, userId))) {
+          return res.status(404).json({ error: `Document ${documentId} not found` });
+        }
+      }
+
+      await tagService.updateDocumentTags(userId, documentIds, add, remove);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error tagging documents:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Full-text search of the user's documents; registered before /api/documents/:userId
+  app.get("/api/documents/search", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const search = documentSearchSchema.parse(req.query);
+      const results = await searchService.search(req.user!.id, search);
+      res.json({ success: true, results });
+    } catch (error: any) {
+      console.error("Error searching documents:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Get user documents
+  app.get("/api/documents/:userId", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const { userId } = req.params;
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      const documents = await storage.getAccessibleDocuments(userId);
+
+      // Documents whose file is gone are listed as missing rather than deleted
+      // here: shared documents belong to someone else, and owners remove them
+      // with POST /api/documents/cleanup
+      let missingCount = 0;
+      for (const doc of documents) {
+        try {
+          // Check if file exists
+          await fileStorage.access(doc.filePath);
+
+          // File exists, update status if needed
+          if (!doc.status) {
+            console.log(
+              `Updating document ${doc.id} with missing status field`
+            );
+            await storage.updateDocumentStatus(doc.id, "processed");
+            doc.status = "processed";
+          }
+        } catch (accessError: any) {
+          if (accessError.code === "ENOENT") {
+            console.log(`Document ${doc.id} is missing its file: ${doc.filePath}`);
+            doc.status = "missing";
+            missingCount++;
           } else {
             // Other access error, log but keep the document
             console.error(
               `File access error for document ${doc.id}:`,
               accessError
             );
-            validDocuments.push(doc);
           }
         }
       }
 
-      console.log(
-        `Cleaned up ${cleanedUpCount} invalid documents, returning ${validDocuments.length} valid documents`
-      );
-
       res.json({
         success: true,
-        documents: validDocuments,
-        cleanedUpCount,
+        documents,
+        missingCount,
         totalProcessed: documents.length,
       });
     } catch (error: any) {
@@ -744,17 +1713,21 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
-  app.delete("/api/documents/:documentId", async (req, res) => {
+  app.delete("/api/documents/:documentId", requireAuth, requirePermission("documents.delete"), async (req, res) => {
     try {
       const { documentId } = req.params;
       console.log(`API: Attempting to delete document ${documentId}`);
 
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
 
       if (!document) {
         console.log(`API: Document ${documentId} not found`);
         return res.status(404).json({ error: "Document not found" });
       }
+      // Sharing lets colleagues work on a document, not delete it
+      if (document.userId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the document's owner can delete it" });
+      }
 
       console.log(
         `API: Found document ${documentId}, checking for applied signatures`
@@ -766,15 +1739,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         `API: Document ${documentId} has ${appliedSignatures.length} applied signatures`
       );
 
-      // Delete file from filesystem (this won't fail the operation)
-      const fileDeleted = await safeDeleteFile(
-        document.filePath,
-        "document file"
-      );
-      console.log(`API: File deletion result: ${fileDeleted}`);
-
-      // Delete from database (this will also delete applied signatures)
-      await storage.deleteDocument(documentId);
+      const fileDeleted = await deleteDocumentWithFiles(document, getAuditContext(req));
 
       console.log(
         `API: Successfully deleted document ${documentId} and ${appliedSignatures.length} signatures`
@@ -795,12 +1760,40 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
+  // Only the owner decides whether their document is shared with the organization
+  app.post("/api/documents/:documentId/share", requireAuth, requirePermission("documents.share"), async (req, res) => {
+    try {
+      const { shared } = shareSchema.parse(req.body);
+      const organization = req.access!.organization;
+      if (!organization) {
+        return res.status(400).json({ error: "You are not a member of an organization" });
+      }
+
+      const document = await storage.getUserDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (!!document.organizationId === shared) {
+        return res.json({ success: true, document });
+      }
+
+      const updated = await storage.setDocumentOrganization(document.id, shared ? organization.id : null);
+      await auditService.record(getAuditContext(req), shared ? "document.shared" : "document.unshared", updated!, {
+        organization: organization.name,
+      });
+      res.json({ success: true, document: updated });
+    } catch (error: any) {
+      const message = error instanceof z.ZodError ? error.errors[0].message : error.message;
+      res.status(400).json({ error: message });
+    }
+  });
+
   // Debug endpoint for troubleshooting
-  app.get("/api/debug/signatures/:documentId", async (req, res) => {
+  app.get("/api/debug/signatures/:documentId", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
       const { documentId } = req.params;
 
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
@@ -830,11 +1823,13 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
-  // Applied signature routes
-  app.post("/api/documents/:documentId/signatures", async (req, res) => {
+  // Applied signature routes. Signing with one's own signature needs
+  // documents.sign; a delegate (e.g. a paralegal) only needs documents.prepare
+  // and an active delegation covering the document.
+  app.post("/api/documents/:documentId/signatures", requireAuth, requirePermission("documents.prepare"), requireSigningStepUp, async (req, res) => {
     try {
       const { documentId } = req.params;
-      const { signatureId, pageNumbers, position, password } = req.body;
+      const { signatureId, pageNumbers, position, password, fieldId } = req.body;
 
       console.log("Applying signature:", {
         documentId,
@@ -927,8 +1922,14 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         });
       }
 
-      // Check if document exists
-      const document = await storage.getDocument(documentId);
+      // The checks above word the common mistakes; the schema covers the rest
+      const requestedPosition = positionSchema.safeParse(position);
+      if (!requestedPosition.success) {
+        return res.status(400).json({ error: `position is invalid: ${requestedPosition.error.errors[0].message}` });
+      }
+
+      // Check if document exists and belongs to the current user
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
       if (!document) {
         console.error("Document not found:", documentId);
         return res.status(404).json({
@@ -938,11 +1939,64 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         });
       }
 
-      // Check if signature exists
-      const signature = await storage.getSignature(signatureId);
+      // The signature must be the user's own or delegated to them for this document
+      const placement: DelegatedPlacement = {
+        pageNumbers,
+        position: requestedPosition.data,
+        ...(fieldId ? { fieldId } : {}),
+      };
+      let signature = await storage.getUserSignature(signatureId, req.user!.id);
+      let delegation: SignatureDelegation | undefined;
       if (!signature) {
-        console.error("Signature not found:", signatureId);
-        return res.status(404).json({ error: "Signature not found" });
+        signature = await storage.getSignature(signatureId);
+        delegation = signature && (await delegationService.findDelegation(signature, req.user!.id, document));
+        if (!signature || !delegation) {
+          console.error("Signature not found:", signatureId);
+          return res.status(404).json({ error: "Signature not found" });
+        }
+      }
+
+      if (!delegation && !organizationService.can(req.access!, "documents.sign")) {
+        return res.status(403).json({
+          error: `Your role (${req.access!.role}) does not allow this`,
+          permission: "documents.sign",
+        });
+      }
+
+      if (signature.revokedAt) {
+        return res.status(400).json({ error: "This signature's certificate has been revoked and can no longer be applied" });
+      }
+
+      // A delegate acts on the owner's grant, not their password. Uses that
+      // need approval wait for the owner (see /api/delegations/requests).
+      if (delegation) {
+        if (document.isReadOnly) {
+          return res.status(400).json({ error: DOCUMENT_FINALIZED_ERROR });
+        }
+        if (delegation.requiresApproval) {
+          if (!fieldId && pageNumbers.some((page: number) => page < 1 || page > document.pageCount)) {
+            return res.status(400).json({ error: `Invalid page numbers. Document has ${document.pageCount} pages.` });
+          }
+          const request = await delegationService.requestApproval(delegation, document, placement);
+          await auditService.record(getAuditContext(req), "delegation.requested", document, {
+            requestId: request.id,
+            delegationId: delegation.id,
+            signatureId: signature.id,
+            onBehalfOf: signature.userId,
+            pageNumbers,
+            ...(fieldId ? { fieldId } : {}),
+          });
+          return res.status(202).json({ success: true, approvalRequest: request });
+        }
+
+        const appliedSignatures = await applySignatureToDocument(
+          getAuditContext(req),
+          document,
+          signature,
+          placement,
+          await delegationService.onBehalfOf(delegation)
+        );
+        return res.json({ success: true, appliedSignatures });
       }
 
       // Check password if signature is password protected
@@ -956,7 +2010,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
           });
         }
 
-        if (password !== signature.password) {
+        if (!(await signatureService.verifyPassword(signature, password))) {
           console.error("Invalid password for signature:", signatureId);
           return res.status(401).json({
             error: "Invalid password",
@@ -965,70 +2019,8 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         }
       }
 
-      // Validate page numbers are within document bounds
-      const invalidPages = pageNumbers.filter(
-        (page) => page < 1 || page > document.pageCount
-      );
-      if (invalidPages.length > 0) {
-        console.error(
-          "Invalid page numbers:",
-          invalidPages,
-          "Document has",
-          document.pageCount,
-          "pages"
-        );
-        return res.status(400).json({
-          error: `Invalid page numbers: ${invalidPages.join(
-            ", "
-          )}. Document has ${document.pageCount} pages.`,
-        });
-      }
+      const appliedSignatures = await applySignatureToDocument(getAuditContext(req), document, signature, placement);
 
-      console.log("Applying signature with data:", {
-        documentId,
-        signatureId,
-        pageNumbers,
-        position,
-        hasPassword: !!signature.password,
-      });
-
-      const appliedSignatures = [];
-
-      for (const pageNumber of pageNumbers) {
-        console.log(`Applying signature to page ${pageNumber}`);
-        try {
-          const appliedSignature = await storage.applySignature(
-            {
-              documentId,
-              signatureId,
-              pageNumber,
-              position,
-            },
-            pageNumbers.length > 1
-          ); // Pass true if this is an "All pages" operation
-          appliedSignatures.push(appliedSignature);
-          console.log(
-            `Successfully applied signature to page ${pageNumber}:`,
-            appliedSignature.id
-          );
-        } catch (dbError: any) {
-          console.error(
-            `Failed to apply signature to page ${pageNumber}:`,
-            dbError
-          );
-          throw new Error(
-            `Database error applying signature to page ${pageNumber}: ${dbError.message}`
-          );
-        }
-      }
-
-      console.log(
-        "Successfully applied signatures to all pages:",
-        appliedSignatures.length
-      );
-
-      // Note: Document read-only status is not automatically set
-      // Users can continue to edit documents even after applying signatures
       console.log("Signatures applied successfully to document:", documentId);
 
       res.json({ success: true, appliedSignatures });
@@ -1038,9 +2030,13 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
-  app.get("/api/documents/:documentId/signatures", async (req, res) => {
+  app.get("/api/documents/:documentId/signatures", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
       const { documentId } = req.params;
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
       const signatures = await storage.getDocumentSignatures(documentId);
       res.json({ success: true, signatures });
     } catch (error: any) {
@@ -1048,12 +2044,212 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
+  app.get("/api/documents/:documentId/fields", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      const fields = await storage.getDocumentFields(document.id);
+      res.json({ success: true, fields });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Places a field for the owner to fill on their own document
+  app.post("/api/documents/:documentId/fields", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (document.isReadOnly) {
+        return res.status(409).json({ error: DOCUMENT_FINALIZED_ERROR });
+      }
+
+      const data = createDocumentFieldSchema.parse(req.body);
+      if (data.pageNumber > document.pageCount) {
+        return res.status(400).json({ error: `Page ${data.pageNumber} is outside the document's ${document.pageCount} pages` });
+      }
+
+      const [field] = await storage.createDocumentFields([
+        {
+          documentId: document.id,
+          name: data.name,
+          type: data.type,
+          role: data.role,
+          recipientId: null,
+          pageNumber: data.pageNumber,
+          position: pdfService.resolvePosition(
+            document.pageSizes,
+            data.pageNumber,
+            data.position,
+            fieldDefaultSizes[data.type]
+          ),
+          required: data.required,
+          groupName: data.groupName || null,
+          fontSize: data.fontSize ?? null,
+          maxLength: data.maxLength ?? null,
+        },
+      ]);
+
+      await auditService.record(getAuditContext(req), "field.added", document, {
+        fieldId: field.id,
+        name: field.name,
+        type: field.type,
+        pageNumber: field.pageNumber,
+      });
+
+      res.json({ success: true, field });
+    } catch (error: any) {
+      console.error("Error adding document field:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Saves what the owner typed or ticked in their text, checkbox and radio fields
+  app.put("/api/documents/:documentId/fields/values", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (document.isReadOnly) {
+        return res.status(409).json({ error: DOCUMENT_FINALIZED_ERROR });
+      }
+
+      const { values } = fillDocumentFieldsSchema.parse(req.body);
+      const ownerFields = (await storage.getDocumentFields(document.id)).filter((field) => !field.recipientId);
+      const updates = fieldService.prepareValues(ownerFields, values);
+      const fields = await fieldService.storeValues(updates);
+
+      await auditService.record(getAuditContext(req), "field.filled", document, {
+        fieldIds: fields.map((field) => field.id),
+      });
+
+      res.json({ success: true, fields });
+    } catch (error: any) {
+      console.error("Error filling document fields:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.delete("/api/documents/:documentId/fields/:fieldId", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (document.isReadOnly) {
+        return res.status(409).json({ error: DOCUMENT_FINALIZED_ERROR });
+      }
+
+      const field = (await storage.getDocumentFields(document.id)).find(
+        (candidate) => candidate.id === req.params.fieldId && !candidate.recipientId
+      );
+      if (!field) {
+        return res.status(404).json({ error: "Field not found" });
+      }
+      if (field.appliedSignatureId) {
+        return res.status(400).json({ error: "Remove the signature in this field before removing the field" });
+      }
+
+      await storage.deleteDocumentField(field.id);
+      await auditService.record(getAuditContext(req), "field.removed", document, {
+        fieldId: field.id,
+        name: field.name,
+        type: field.type,
+        pageNumber: field.pageNumber,
+      });
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error removing document field:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // RFC 3161 evidence for one placement: the record the token covers, the
+  // verification result and, with ?format=tsr, a TimeStampResp for openssl ts
+  app.get(
+    "/api/documents/:documentId/signatures/:appliedSignatureId/timestamp",
+    requireAuth,
+    requirePermission("documents.view"),
+    async (req, res) => {
+      try {
+        const { documentId, appliedSignatureId } = req.params;
+        const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+        if (!document) {
+          return res.status(404).json({ error: "Document not found" });
+        }
+
+        const appliedSignature = await storage.getAppliedSignature(documentId, appliedSignatureId);
+        if (!appliedSignature) {
+          return res.status(404).json({ error: "Applied signature not found" });
+        }
+        if (!appliedSignature.timestampToken) {
+          return res.status(404).json({ error: "This signature has not been timestamped" });
+        }
+
+        if (req.query.format === "tsr") {
+          res.setHeader("Content-Type", "application/timestamp-reply");
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${appliedSignatureId}.tsr"`
+          );
+          return res.send(
+            timestampService.toTimestampResponse(Buffer.from(appliedSignature.timestampToken, "base64"))
+          );
+        }
+
+        const signature = await storage.getSignature(appliedSignature.signatureId);
+        if (!signature) {
+          return res.status(404).json({ error: "Signature not found" });
+        }
+
+        const { record, verification } = await signatureService.verifyAppliedSignatureTimestamp(
+          appliedSignature,
+          document,
+          signature
+        );
+        res.json({
+          success: true,
+          record,
+          token: appliedSignature.timestampToken,
+          timestampedAt: appliedSignature.timestampedAt,
+          authority: appliedSignature.timestampAuthority,
+          verification,
+        });
+      } catch (error: any) {
+        console.error("Error reading signature timestamp:", error);
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
   app.delete(
     "/api/documents/:documentId/signatures/:signatureId",
+    requireAuth,
+    requirePermission("documents.prepare"),
     async (req, res) => {
       try {
-        const { signatureId } = req.params;
-        await storage.removeSignature(signatureId);
+        const { documentId, signatureId } = req.params;
+        const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+        if (!document) {
+          return res.status(404).json({ error: "Document not found" });
+        }
+        const appliedSignature = await storage.getAppliedSignature(documentId, signatureId);
+        if (!appliedSignature) {
+          return res.status(404).json({ error: "Signature not found" });
+        }
+        if (!(await canChangeAppliedSignature(appliedSignature, document, req.user!.id))) {
+          return res.status(403).json({ error: "Only whoever placed this signature can remove it" });
+        }
+        await storage.removeSignature(documentId, signatureId);
+        await auditService.record(getAuditContext(req), "signature.removed", document, {
+          appliedSignatureId: signatureId,
+        });
         res.json({ success: true });
       } catch (error: any) {
         res.status(400).json({ error: error.message });
@@ -1063,13 +2259,32 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
 
   app.delete(
     "/api/documents/:documentId/signatures/page/:pageNumber",
+    requireAuth,
+    requirePermission("documents.prepare"),
     async (req, res) => {
       try {
         const { documentId, pageNumber } = req.params;
+        const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+        if (!document) {
+          return res.status(404).json({ error: "Document not found" });
+        }
+        const onPage = (await storage.getDocumentSignatures(documentId)).filter(
+          (applied) => applied.pageNumber === parseInt(pageNumber)
+        );
+        for (const applied of onPage) {
+          if (!(await canChangeAppliedSignature(applied, document, req.user!.id))) {
+            return res
+              .status(403)
+              .json({ error: "This page has signatures placed by colleagues, which only they can remove" });
+          }
+        }
         await storage.removeSignaturesFromPage(
           documentId,
           parseInt(pageNumber)
         );
+        await auditService.record(getAuditContext(req), "signature.removed", document, {
+          pageNumber: parseInt(pageNumber),
+        });
         res.json({ success: true });
       } catch (error: any) {
         res.status(400).json({ error: error.message });
@@ -1079,72 +2294,119 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
 
   app.put(
     "/api/documents/:documentId/signatures/:signatureId/position",
+    requireAuth,
+    requirePermission("documents.prepare"),
     async (req, res) => {
       try {
-        const { signatureId } = req.params;
-        const { position } = req.body;
+        const { documentId, signatureId } = req.params;
+
+        const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+        if (!document) {
+          return res.status(404).json({ error: "Document not found" });
+        }
+
+        const appliedSignature = (await storage.getDocumentSignatures(documentId)).find(
+          (applied) => applied.id === signatureId
+        );
+        if (!appliedSignature) {
+          return res.status(404).json({ error: "Signature not found" });
+        }
+        if (!(await canChangeAppliedSignature(appliedSignature, document, req.user!.id))) {
+          return res.status(403).json({ error: "Only whoever placed this signature can move it" });
+        }
+
+        const position = pdfService.resolvePosition(
+          document.pageSizes,
+          appliedSignature.pageNumber,
+          positionSchema.parse(req.body.position)
+        );
 
         // Optimized: Direct update without additional logging
-        await storage.updateSignaturePosition(signatureId, position);
-        res.json({ success: true });
+        await storage.updateSignaturePosition(documentId, signatureId, position);
+        await auditService.record(getAuditContext(req), "signature.moved", document, {
+          appliedSignatureId: signatureId,
+          position,
+        });
+        res.json({ success: true, position });
       } catch (error: any) {
-        res.status(400).json({ error: error.message });
+        res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
       }
     }
   );
 
-  // Toggle document read-only status - temporarily removed for database compatibility
-  // app.put("/api/documents/:documentId/readonly", async (req, res) => {
-  //   try {
-  //     const { documentId } = req.params;
-  //     const { isReadOnly } = req.body;
-  //
-  //     if (typeof isReadOnly !== 'boolean') {
-  //       return res.status(400).json({ error: "isReadOnly must be a boolean value" });
-  //     }
-  //
-  //     await storage.updateDocumentReadOnlyStatus(documentId, isReadOnly);
-  //     res.json({ success: true, isReadOnly });
-  //   } catch (error: any) {
-  //     res.status(400).json({ error: error.message });
-  //   }
-  // });
+  // Locks a signed document: its sealed copy is stored as the final version,
+  // and from then on signatures and fields can no longer be changed
+  app.post("/api/documents/:documentId/finalize", requireAuth, requirePermission("documents.sign"), async (req, res) => {
+    try {
+      const { documentId } = req.params;
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (document.isReadOnly) {
+        return res.status(409).json({ error: "This document is already finalized" });
+      }
+
+      const appliedSignatures = await storage.getDocumentSignatures(documentId);
+      if (appliedSignatures.length === 0) {
+        return res.status(400).json({ error: "Sign the document before finalizing it" });
+      }
+      // Colleagues may have sent the shared document for signing too
+      const envelopes = await storage.getDocumentEnvelopes(documentId);
+      if (envelopes.some((envelope) => envelope.status === "sent")) {
+        return res
+          .status(409)
+          .json({ error: "Wait for every recipient to sign, or void the envelope, before finalizing" });
+      }
+
+      // Lock first so nothing can change between rendering and storing the copy
+      const finalized = await storage.updateDocumentReadOnlyStatus(documentId, true);
+      if (!finalized) {
+        return res.status(409).json({ error: "This document is already finalized" });
+      }
+
+      let version;
+      try {
+        const event = await auditService.record(getAuditContext(req), "document.finalized", finalized, {
+          appliedSignatureIds: appliedSignatures.map((applied) => applied.id),
+        });
+        version = await versionService.recordFinalVersion(finalized, event);
+      } catch (finalizeError) {
+        await storage.updateDocumentReadOnlyStatus(documentId, false);
+        throw finalizeError;
+      }
+
+      console.log(`Document ${documentId} finalized as version ${version.versionNumber}`);
+      res.json({
+        success: true,
+        document: finalized,
+        version: { versionNumber: version.versionNumber, sha256: version.sha256 },
+      });
+    } catch (error: any) {
+      console.error("Error finalizing document:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
 
   // PDF download with signatures
-  app.get("/api/documents/:documentId/download", async (req, res) => {
+  app.get("/api/documents/:documentId/download", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
       const { documentId } = req.params;
-      const document = await storage.getDocument(documentId);
-      const appliedSignatures = await storage.getDocumentSignatures(documentId);
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
 
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
 
-      // Get signature data for each applied signature
-      const signaturesToApply = [];
-      for (const appliedSig of appliedSignatures) {
-        const signature = await storage.getSignature(appliedSig.signatureId);
-        if (signature) {
-          signaturesToApply.push({
-            pageNumber: appliedSig.pageNumber,
-            position: appliedSig.position as any,
-            signatureData: {
-              fullName: signature.fullName,
-              companyName: signature.companyName,
-              location: signature.location,
-              timestamp: appliedSig.appliedAt || new Date(),
-              timeZone: signature.timeZone,
-              signatureImage: signature.signatureImage || undefined,
-            },
-          });
-        }
-      }
-
-      const signedPdfBytes = await pdfService.applySignatureToPdf(
-        document.filePath,
-        signaturesToApply
-      );
+      // Visible stamps plus one PAdES signature revision per signer;
+      // ?flatten=true bakes the PDF's own form fields into the page.
+      // A finalized document always downloads as its sealed copy.
+      const flattenForm = req.query.flatten === "true" && !document.isReadOnly;
+      const signedPdfBytes = await versionService.getSignedDocument(document, { flattenForm });
+      await auditService.record(getAuditContext(req), "document.downloaded", document, {
+        outputSha256: crypto.createHash("sha256").update(signedPdfBytes).digest("hex"),
+        flattened: flattenForm,
+      });
 
       res.setHeader("Content-Type", "application/pdf");
       res.setHeader(
@@ -1157,201 +2419,310 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
-  // Bulk download multiple PDFs as zip
-  app.post("/api/documents/bulk-download", async (req, res) => {
+  // Audit trail for one document, with the result of re-verifying its hash chain
+  app.get("/api/documents/:documentId/audit", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
-      const { documentIds, userId } = req.body;
+      const { documentId } = req.params;
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
 
-      if (
-        !documentIds ||
-        !Array.isArray(documentIds) ||
-        documentIds.length === 0
-      ) {
-        return res
-          .status(400)
-          .json({ error: "Document IDs array is required" });
+      const { events, chain } = await auditService.getTrail(documentId);
+      if (!chain.valid) {
+        console.error(`Audit chain for document ${documentId} is broken:`, chain.errors);
       }
+      res.json({ success: true, events, chain });
+    } catch (error: any) {
+      console.error("Error loading audit trail:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      if (!userId) {
-        return res.status(400).json({ error: "User ID is required" });
+  // Sealed certificate of completion (the same pages are appended to downloads)
+  app.get("/api/documents/:documentId/audit/certificate", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const { documentId } = req.params;
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
       }
 
-      console.log("Bulk download request:", { documentIds, userId });
+      const certificatePdf = await auditService.exportCompletionCertificate(document);
+      const baseName = document.originalName.replace(/\.pdf$/i, "");
 
-      // Get all documents and verify they belong to the user
-      const documents = [];
-      for (const documentId of documentIds) {
-        const document = await storage.getDocument(documentId);
-        if (!document) {
-          return res
-            .status(404)
-            .json({ error: `Document ${documentId} not found` });
-        }
-        if (document.userId !== userId) {
-          return res
-            .status(403)
-            .json({ error: `Access denied for document ${documentId}` });
-        }
-        documents.push(document);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${baseName}-certificate-of-completion.pdf"`
+      );
+      res.send(certificatePdf);
+    } catch (error: any) {
+      console.error("Error generating certificate of completion:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Every stored version of a document, oldest (the original upload) first
+  app.get("/api/documents/:documentId/versions", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
       }
 
-      console.log("Documents to zip:", documents.length);
+      const versions = await versionService.getVersions(document);
+      res.json({
+        success: true,
+        versions: versions.map(({ filePath: _, snapshot: __, ...version }) => version),
+      });
+    } catch (error: any) {
+      console.error("Error loading document versions:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      if (documents.length === 0) {
-        return res
-          .status(400)
-          .json({ error: "No documents could be processed" });
+  // What changed between two versions: pages, stamps and field values
+  app.get("/api/documents/:documentId/versions/diff", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
       }
 
-      // Import archiver dynamically
-      const archiver = require("archiver");
+      const { from, to } = z
+        .object({ from: z.coerce.number().int().min(1), to: z.coerce.number().int().min(1) })
+        .parse(req.query);
+      const diff = await versionService.diff(document, from, to);
+      res.json({ success: true, diff });
+    } catch (error: any) {
+      console.error("Error comparing document versions:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
 
-      // Create zip archive with low compression (PDFs are already compressed)
-      const archive = archiver("zip", {
-        zlib: { level: 0 },
-      });
+  // The stored bytes of one version, refused if they no longer match its hash
+  app.get("/api/documents/:documentId/versions/:versionNumber/download", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
 
-      // Handle archive errors
-      archive.on("error", (err: any) => {
-        console.error("Archive error:", err);
-        if (!res.headersSent) {
-          res.status(500).json({ error: "Archive creation failed" });
-        }
+      const versionNumber = Number(req.params.versionNumber);
+      const read = Number.isInteger(versionNumber) ? await versionService.readVersion(document, versionNumber) : undefined;
+      if (!read) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      if (!read.intact) {
+        console.error(`Version ${versionNumber} of document ${document.id} does not match its stored hash`);
+        return res.status(409).json({ error: `Version ${versionNumber} has been altered since it was stored` });
+      }
+
+      await auditService.record(getAuditContext(req), "document.downloaded", document, {
+        versionNumber,
+        outputSha256: read.version.sha256,
       });
 
-      archive.on("warning", (err: any) => {
-        console.warn("Archive warning:", err);
+      const baseName = document.originalName.replace(/\.pdf$/i, "");
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${baseName}-v${versionNumber}.pdf"`);
+      res.send(read.bytes);
+    } catch (error: any) {
+      console.error("Error downloading document version:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Rendered page images of the uploaded PDF; queues them for documents that have none yet
+  app.get("/api/documents/:documentId/pages", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const pages = await storage.getDocumentPages(document.id);
+      let job = null;
+      if (pages.length === 0 && document.status === "processed") {
+        job = jobQueue.toPublicJob(await queuePageImages(document.id, req.user!.id));
+      }
+      res.json({
+        success: true,
+        renderedAt: document.pagesRenderedAt,
+        pages: pages.map(({ thumbnailPath: _, previewPath: __, ...page }) => page),
+        job,
       });
+    } catch (error: any) {
+      console.error("Error loading document pages:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Handle archive finish
-      archive.on("end", () => {
-        console.log("Archive finalized, bytes:", archive.pointer());
+  // One page as a JPEG: `thumbnail` (200px wide) or `preview` (up to 1000px wide)
+  app.get("/api/documents/:documentId/pages/:pageNumber/:size", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const { pageNumber, size } = z
+        .object({
+          pageNumber: z.coerce.number().int().min(1),
+          size: z.enum(["thumbnail", "preview"]),
+        })
+        .parse(req.params);
+      const page = await storage.getDocumentPage(document.id, pageNumber);
+      if (!page) {
+        return res.status(404).json({ error: "Page image not found" });
+      }
+
+      const image = await pageImageService.getImage(page, size);
+      res.setHeader("Content-Type", "image/jpeg");
+      // Re-rendered images get new rows; clients add ?v=<renderedAt> to refetch
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(image);
+    } catch (error: any) {
+      console.error("Error loading page image:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Renders one signed document in the background; fetch it from /api/jobs/:jobId/download
+  app.post("/api/documents/:documentId/render", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const document = await storage.getAccessibleDocument(req.params.documentId, req.user!.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const job = await jobQueue.enqueue("document.render", {
+        userId: req.user!.id,
+        documentId: document.id,
+        payload: { context: getAuditContext(req), flattenForm: req.body.flattenForms === true },
+        maxAttempts: 1,
       });
+      res.status(202).json({ success: true, job: jobQueue.toPublicJob(job) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Set response headers
-      res.setHeader("Content-Type", "application/zip");
-      res.setHeader(
-        "Content-Disposition",
-        'attachment; filename="XSignature.zip"'
-      );
+  // Bulk download multiple PDFs as zip
+  // Builds XSignature.zip in the background; fetch it from /api/jobs/:jobId/download
+  app.post("/api/documents/bulk-download", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const flattenForms = req.body.flattenForms === true;
+      const userId = req.user!.id;
 
-      // Pipe archive to response so download starts immediately
-      archive.pipe(res);
+      const selection = await getSelectedDocuments(userId, req.body);
+      if ("error" in selection) {
+        return res.status(selection.status).json({ error: selection.error });
+      }
+      const documentIds = selection.documents.map((document) => document.id);
+      console.log("Bulk download request:", { documentIds, userId });
 
-      // Track used filenames to handle duplicates
-      const usedFilenames = new Map<string, number>();
-
-      const getUniqueFilename = (originalName: string) => {
-        let finalFilename = originalName;
-        if (usedFilenames.has(originalName)) {
-          const count = usedFilenames.get(originalName)! + 1;
-          usedFilenames.set(originalName, count);
-          const lastDotIndex = originalName.lastIndexOf(".");
-          if (lastDotIndex > 0) {
-            const nameWithoutExt = originalName.substring(0, lastDotIndex);
-            const extension = originalName.substring(lastDotIndex);
-            finalFilename = `${nameWithoutExt} (${count})${extension}`;
-          } else {
-            finalFilename = `${originalName} (${count})`;
-          }
-        } else {
-          usedFilenames.set(originalName, 1);
-        }
-        return finalFilename;
-      };
+      const job = await jobQueue.enqueue("documents.export", {
+        userId,
+        payload: {
+          context: getAuditContext(req),
+          documentIds,
+          flattenForms,
+          fileName: selection.folder ? `${selection.folder.name}.zip` : undefined,
+        },
+        maxAttempts: 1,
+      });
+      res.status(202).json({ success: true, job: jobQueue.toPublicJob(job) });
+    } catch (error: any) {
+      console.error("Bulk download error:", error);
+      res.status(400).json({ error: error.message || "Failed to queue the download" });
+    }
+  });
 
-      // Concurrency-limited processor
-      const maxConcurrency = Math.min(3, documents.length);
-      let currentIndex = 0;
-      let active = 0;
-      let completed = 0;
-
-      const runNext = async (): Promise<void> => {
-        if (currentIndex >= documents.length) return;
-        const myIndex = currentIndex++;
-        const document = documents[myIndex];
-        active++;
-        console.log(
-          `Processing document ${myIndex + 1}/${documents.length}: ${
-            document.originalName
-          }`
-        );
+  // Deletes several documents, or everything in a folder and its subfolders
+  app.post("/api/documents/bulk-delete", requireAuth, requirePermission("documents.delete"), async (req, res) => {
+    try {
+      const selection = await getSelectedDocuments(req.user!.id, req.body);
+      if ("error" in selection) {
+        return res.status(selection.status).json({ error: selection.error });
+      }
+      const shared = selection.documents.find((document) => document.userId !== req.user!.id);
+      if (shared) {
+        return res
+          .status(403)
+          .json({ error: `Only the document's owner can delete "${shared.originalName}"` });
+      }
 
+      const context = getAuditContext(req);
+      const deleted: string[] = [];
+      const failed: { documentId: string; error: string }[] = [];
+      for (const document of selection.documents) {
         try {
-          const appliedSignatures = await storage.getDocumentSignatures(
-            document.id
-          );
-          const signaturesToApply = [] as any[];
-          for (const appliedSig of appliedSignatures) {
-            const signature = await storage.getSignature(
-              appliedSig.signatureId
-            );
-            if (signature) {
-              signaturesToApply.push({
-                pageNumber: appliedSig.pageNumber,
-                position: appliedSig.position as any,
-                signatureData: {
-                  fullName: signature.fullName,
-                  companyName: signature.companyName,
-                  location: signature.location,
-                  timestamp: appliedSig.appliedAt || new Date(),
-                  timeZone: signature.timeZone,
-                  signatureImage: signature.signatureImage || undefined,
-                },
-              });
-            }
-          }
+          await deleteDocumentWithFiles(document, context);
+          deleted.push(document.id);
+        } catch (error: any) {
+          console.error(`Bulk delete: failed to delete document ${document.id}:`, error);
+          failed.push({ documentId: document.id, error: error.message });
+        }
+      }
 
-          const signedPdfBytes = await pdfService.applySignatureToPdf(
-            document.filePath,
-            signaturesToApply
-          );
+      console.log(`API: Bulk deleted ${deleted.length} document(s), ${failed.length} failed`);
+      res.json({ success: failed.length === 0, deleted, failed });
+    } catch (error: any) {
+      console.error("Bulk delete error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/jobs", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      await jobQueue.runInline();
+      // Finished jobs stay listed for a few minutes so their outcome can be shown
+      const jobs = await storage.getRecentUserJobs(req.user!.id, new Date(Date.now() - 10 * 60 * 1000));
+      res.json({ success: true, jobs: jobs.map((job) => jobQueue.toPublicJob(job)) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-          if (signedPdfBytes && signedPdfBytes.length > 0) {
-            const pdfBuffer = Buffer.isBuffer(signedPdfBytes)
-              ? (signedPdfBytes as Buffer)
-              : Buffer.from(signedPdfBytes);
-            const finalFilename = getUniqueFilename(document.originalName);
-            console.log(
-              `Appending to zip: ${finalFilename} (${pdfBuffer.length} bytes)`
-            );
-            // Store without compression for speed
-            archive.append(pdfBuffer, {
-              name: finalFilename,
-              date: new Date(),
-              store: true,
-            });
-          } else {
-            console.error(`Empty PDF for ${document.originalName}, skipping.`);
-          }
-        } catch (err) {
-          console.error(`Error processing ${document.originalName}:`, err);
-        } finally {
-          active--;
-          completed++;
-          if (completed === documents.length) {
-            console.log("Finalizing archive...");
-            archive.finalize();
-          } else {
-            // Kick off next task if any remain
-            if (currentIndex < documents.length) {
-              runNext();
-            }
-          }
-        }
-      };
+  app.get("/api/jobs/:jobId", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      await jobQueue.runInline();
+      const job = await storage.getUserJob(req.params.jobId, req.user!.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json({ success: true, job: jobQueue.toPublicJob(job) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Start initial workers
-      for (let i = 0; i < maxConcurrency; i++) {
-        runNext();
+  app.get("/api/jobs/:jobId/download", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const job = await storage.getUserJob(req.params.jobId, req.user!.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      const result = job.result as JobResult | null;
+      if (job.status !== "completed" || !result?.filePath) {
+        return res.status(409).json({ error: "This job has no file to download" });
       }
+
+      const bytes = await fileStorage.get(result.filePath);
+      res.setHeader("Content-Type", result.contentType || "application/octet-stream");
+      res.setHeader("Content-Length", bytes.length.toString());
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${(result.fileName || "download").replace(/[^\w\s.()-]/g, "_")}"`
+      );
+      res.send(bytes);
     } catch (error: any) {
-      console.error("Bulk download error:", error);
-      if (!res.headersSent) {
-        res
-          .status(500)
-          .json({ error: error.message || "Failed to create zip file" });
+      if (error.code === "ENOENT") {
+        return res.status(410).json({ error: "The file of this job has expired" });
       }
+      res.status(400).json({ error: error.message });
     }
   });
 
@@ -1406,27 +2777,22 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
   });
 
   // Simple test endpoint that returns a single PDF without zip
-  app.post("/api/test-single-pdf", async (req, res) => {
+  app.post("/api/test-single-pdf", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
-      const { documentId, userId } = req.body;
+      const { documentId } = req.body;
+      const userId = req.user!.id;
 
-      if (!documentId || !userId) {
-        return res
-          .status(400)
-          .json({ error: "Document ID and User ID are required" });
+      if (!documentId) {
+        return res.status(400).json({ error: "Document ID is required" });
       }
 
       console.log("=== TEST SINGLE PDF ENDPOINT ===");
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getAccessibleDocument(documentId, userId);
 
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
 
-      if (document.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-
       console.log(`Processing document: ${document.originalName}`);
 
       const appliedSignatures = await storage.getDocumentSignatures(
@@ -1441,7 +2807,7 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         if (signature) {
           signaturesToApply.push({
             pageNumber: appliedSig.pageNumber,
-            position: appliedSig.position as any,
+            position: appliedSig.position,
             signatureData: {
               fullName: signature.fullName,
               companyName: signature.companyName,
@@ -1476,13 +2842,13 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
   });
 
   // Generate Adobe-style signature certificate
-  app.get("/api/signatures/:signatureId/certificate", async (req, res) => {
+  app.get("/api/signatures/:signatureId/certificate", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
       console.log("=== CERTIFICATE REQUEST ===");
       const { signatureId } = req.params;
       console.log("Signature ID:", signatureId);
 
-      const signature = await storage.getSignature(signatureId);
+      const signature = await storage.getAccessibleSignature(signatureId, req.user!.id);
       console.log("Signature found:", !!signature);
 
       if (!signature) {
@@ -1531,15 +2897,453 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
     }
   });
 
+  // Document templates
+  app.get("/api/templates", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const templates = await storage.getUserTemplates(req.user!.id);
+      res.json({ success: true, templates });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/templates", requireAuth, requirePermission("templates.manage"), async (req, res) => {
+    try {
+      const data = createTemplateSchema.parse(req.body);
+      const template = await templateService.createTemplate(req.user!, data);
+      res.json({ success: true, template });
+    } catch (error: any) {
+      console.error("Error creating template:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.get("/api/templates/:templateId", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const template = await storage.getUserTemplate(req.params.templateId, req.user!.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json({ success: true, template });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/templates/:templateId", requireAuth, requirePermission("templates.manage"), async (req, res) => {
+    try {
+      const template = await storage.getUserTemplate(req.params.templateId, req.user!.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const data = updateTemplateSchema.parse(req.body);
+      const updated = await templateService.updateTemplate(template, data);
+      res.json({ success: true, template: updated });
+    } catch (error: any) {
+      console.error("Error updating template:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.delete("/api/templates/:templateId", requireAuth, requirePermission("templates.manage"), async (req, res) => {
+    try {
+      const template = await storage.getUserTemplate(req.params.templateId, req.user!.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      await templateService.deleteTemplate(template);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // New document from a template, with its fields placed and assigned
+  app.post("/api/templates/:templateId/documents", requireAuth, requirePermission("documents.prepare"), async (req, res) => {
+    try {
+      const template = await storage.getUserTemplate(req.params.templateId, req.user!.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const data = createFromTemplateSchema.parse(req.body);
+      const result = await templateService.createDocument(req.user!, template, data, getAuditContext(req));
+      await queuePageImages(result.document.id, req.user!.id);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Error creating document from template:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Signing envelopes: the owner's side
+  app.post("/api/envelopes", requireAuth, requirePermission("envelopes.send"), async (req, res) => {
+    try {
+      const data = createEnvelopeSchema.parse(req.body);
+      const envelope = await envelopeService.createEnvelope(req.user!, data, getAuditContext(req));
+      res.json({ success: true, envelope });
+    } catch (error: any) {
+      console.error("Error creating envelope:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/envelopes", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const documentId = typeof req.query.documentId === "string" ? req.query.documentId : undefined;
+      let envelopes;
+      if (documentId) {
+        // A shared document lists the envelopes every member sent for it
+        const document = await storage.getAccessibleDocument(documentId, req.user!.id);
+        if (!document) {
+          return res.status(404).json({ error: "Document not found" });
+        }
+        envelopes = await storage.getDocumentEnvelopes(documentId);
+      } else {
+        envelopes = await storage.getUserEnvelopes(req.user!.id);
+      }
+      res.json({
+        success: true,
+        envelopes: await Promise.all(envelopes.map((envelope) => envelopeService.withRecipients(envelope))),
+      });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/envelopes/:envelopeId", requireAuth, requirePermission("documents.view"), async (req, res) => {
+    try {
+      const envelope = await storage.getUserEnvelope(req.params.envelopeId, req.user!.id);
+      if (!envelope) {
+        return res.status(404).json({ error: "Envelope not found" });
+      }
+      res.json({ success: true, envelope: await envelopeService.withRecipients(envelope) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/envelopes/:envelopeId/send", requireAuth, requirePermission("envelopes.send"), async (req, res) => {
+    try {
+      const envelope = await storage.getUserEnvelope(req.params.envelopeId, req.user!.id);
+      if (!envelope) {
+        return res.status(404).json({ error: "Envelope not found" });
+      }
+      const sent = await envelopeService.sendEnvelope(envelope, req.user!, getAuditContext(req));
+      res.json({ success: true, envelope: sent });
+    } catch (error: any) {
+      console.error("Error sending envelope:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/envelopes/:envelopeId/void", requireAuth, requirePermission("envelopes.send"), async (req, res) => {
+    try {
+      const envelope = await storage.getUserEnvelope(req.params.envelopeId, req.user!.id);
+      if (!envelope) {
+        return res.status(404).json({ error: "Envelope not found" });
+      }
+      const voided = await envelopeService.voidEnvelope(envelope, req.user!, getAuditContext(req));
+      res.json({ success: true, envelope: voided });
+    } catch (error: any) {
+      console.error("Error voiding envelope:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post(
+    "/api/envelopes/:envelopeId/recipients/:recipientId/resend",
+    requireAuth,
+    requirePermission("envelopes.send"),
+    async (req, res) => {
+      try {
+        const envelope = await storage.getUserEnvelope(req.params.envelopeId, req.user!.id);
+        if (!envelope) {
+          return res.status(404).json({ error: "Envelope not found" });
+        }
+        const recipient = await envelopeService.resendInvitation(envelope, req.params.recipientId, req.user!);
+        res.json({ success: true, recipient });
+      } catch (error: any) {
+        console.error("Error resending invitation:", error);
+        res.status(400).json({ error: error.message });
+      }
+    }
+  );
+
+  // Signing envelopes: the recipient's side, authorized by the link token alone
+  app.get("/api/sign/:token", async (req, res) => {
+    try {
+      const access = await resolveSigningLink(req, res);
+      if (!access) return;
+      const { recipient, envelope, document } = access;
+
+      const owner = await storage.getUser(envelope.ownerId);
+      const recipients = await storage.getEnvelopeRecipients(envelope.id);
+
+      res.setHeader("Cache-Control", "no-store");
+      res.json({
+        success: true,
+        envelope: {
+          id: envelope.id,
+          title: envelope.title,
+          message: envelope.message,
+          status: envelope.status,
+          signingOrder: envelope.signingOrder,
+        },
+        document: {
+          originalName: document.originalName,
+          pageCount: document.pageCount,
+        },
+        sender: owner ? { fullName: owner.fullName, companyName: owner.companyName } : null,
+        recipient: toPublicRecipient(recipient),
+        // Other recipients' progress, without their contact details
+        progress: recipients.map((other) => ({
+          name: other.name,
+          routingOrder: other.routingOrder,
+          status: other.status,
+          isYou: other.id === recipient.id,
+        })),
+        // The recipient's fields: where their signature goes and what they fill in
+        fields: (await storage.getDocumentFields(document.id))
+          .filter((field) => field.recipientId === recipient.id)
+          .map((field) => ({
+            id: field.id,
+            name: field.name,
+            type: field.type,
+            pageNumber: field.pageNumber,
+            required: field.required,
+            groupName: field.groupName,
+            maxLength: field.maxLength,
+            options: field.options,
+            value: field.value,
+          })),
+        canSign: envelope.status === "sent" && OPEN_RECIPIENT_STATUSES.includes(recipient.status),
+      });
+    } catch (error: any) {
+      console.error("Error loading signing link:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/sign/:token/document", async (req, res) => {
+    try {
+      const access = await resolveSigningLink(req, res);
+      if (!access) return;
+      const { recipient, envelope, document } = access;
+
+      await envelopeService.recordView(
+        recipient,
+        envelope,
+        document,
+        getAuditContext(req, { email: recipient.email })
+      );
+
+      const pdfBytes = await signatureService.renderPreview(document);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Cache-Control", "no-store");
+      res.send(Buffer.from(pdfBytes));
+    } catch (error: any) {
+      console.error("Error rendering document for recipient:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/sign/:token", async (req, res) => {
+    try {
+      const access = await resolveSigningLink(req, res);
+      if (!access) return;
+      const { recipient, envelope, document } = access;
+
+      const adopted = recipientSignSchema.parse(req.body);
+      const signed = await envelopeService.sign(
+        recipient,
+        envelope,
+        document,
+        adopted,
+        getAuditContext(req, { email: recipient.email })
+      );
+      res.json({ success: true, recipient: toPublicRecipient(signed) });
+    } catch (error: any) {
+      console.error("Error signing envelope:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  app.post("/api/sign/:token/decline", async (req, res) => {
+    try {
+      const access = await resolveSigningLink(req, res);
+      if (!access) return;
+      const { recipient, envelope, document } = access;
+
+      const { reason } = declineEnvelopeSchema.parse(req.body);
+      const declined = await envelopeService.decline(
+        recipient,
+        envelope,
+        document,
+        reason,
+        getAuditContext(req, { email: recipient.email })
+      );
+      res.json({ success: true, recipient: toPublicRecipient(declined) });
+    } catch (error: any) {
+      console.error("Error declining envelope:", error);
+      res.status(400).json({ error: error instanceof z.ZodError ? error.errors[0].message : error.message });
+    }
+  });
+
+  // Final signed document for recipients once everyone has signed
+  app.get("/api/sign/:token/download", async (req, res) => {
+    try {
+      const access = await resolveSigningLink(req, res);
+      if (!access) return;
+      const { recipient, envelope, document } = access;
+
+      if (envelope.status !== "completed") {
+        return res.status(409).json({ error: "The document can be downloaded once every recipient has signed" });
+      }
+
+      const signedPdfBytes = await versionService.getSignedDocument(document);
+      await auditService.record(getAuditContext(req, { email: recipient.email }), "document.downloaded", document, {
+        envelopeId: envelope.id,
+        recipientId: recipient.id,
+        outputSha256: crypto.createHash("sha256").update(signedPdfBytes).digest("hex"),
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${document.originalName}"`
+      );
+      res.send(Buffer.from(signedPdfBytes));
+    } catch (error: any) {
+      console.error("Error downloading completed envelope:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Verify the signatures in any uploaded PDF; ?format=pdf returns a printable report
+  app.post("/api/verify", upload.single("pdf"), async (req, res) => {
+    try {
+      console.log("=== SIGNATURE VERIFICATION REQUEST ===");
+
+      if (!req.file) {
+        return res.status(400).json({ error: "No PDF file uploaded" });
+      }
+
+      const file = req.file;
+      const pdfBytes = file.buffer;
+
+      const report = await verificationService.verifyPdf(pdfBytes, file.originalname);
+      console.log(
+        `Verified ${file.originalname}: ${report.summary.validSignatures}/${report.summary.signatureCount} signatures valid`
+      );
+
+      if (req.query.format === "pdf") {
+        const certificateService = new CertificateService();
+        const reportBytes = await certificateService.generateVerificationReport(report);
+        const baseName = path.basename(file.originalname, path.extname(file.originalname));
+
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${encodeURIComponent(baseName)}-verification-report.pdf"`
+        );
+        return res.send(Buffer.from(reportBytes));
+      }
+
+      res.json(report);
+    } catch (error: any) {
+      console.error("Signature verification error:", error);
+      res.status(400).json({ error: error.message || "Failed to verify PDF" });
+    }
+  });
+
+  // Firm CA certificates, for installing as a trusted root in PDF readers
+  app.get("/api/ca/chain", async (req, res) => {
+    try {
+      const bundle = caService.getChainPems().join("");
+      res.setHeader("Content-Type", "application/x-pem-file");
+      res.setHeader(
+        "Content-Disposition",
+        'attachment; filename="xsignature-ca-chain.pem"'
+      );
+      res.send(bundle);
+    } catch (error: any) {
+      console.error("CA chain error:", error);
+      res.status(500).json({ error: error.message || "Failed to load CA chain" });
+    }
+  });
+
+  app.get("/api/ca/root.crt", async (req, res) => {
+    try {
+      // DER is what Windows, macOS and Acrobat import by double-click
+      res.setHeader("Content-Type", "application/pkix-cert");
+      res.setHeader(
+        "Content-Disposition",
+        'attachment; filename="xsignature-root-ca.crt"'
+      );
+      res.send(caService.getRootCertificateDer());
+    } catch (error: any) {
+      console.error("CA root certificate error:", error);
+      res.status(500).json({ error: error.message || "Failed to load root certificate" });
+    }
+  });
+
+  // Certificate revocation list for the signing CA, regenerated on each request
+  app.get("/api/ca/crl", async (req, res) => {
+    try {
+      const revoked = await storage.getRevokedSignatures();
+      const crl = caService.generateCrl(
+        revoked.map((signature) => ({
+          serialNumber: signature.serialNumber!,
+          revokedAt: signature.revokedAt!,
+          reason: signature.revocationReason,
+        }))
+      );
+      res.setHeader("Content-Type", "application/pkix-crl");
+      res.setHeader("Content-Disposition", 'attachment; filename="xsignature-signing-ca.crl"');
+      res.setHeader("Cache-Control", "public, max-age=300");
+      res.send(crl);
+    } catch (error: any) {
+      console.error("CRL generation error:", error);
+      res.status(500).json({ error: error.message || "Failed to generate CRL" });
+    }
+  });
+
+  // OCSP-style status lookup: good, revoked or unknown for a certificate serial number
+  app.get("/api/ca/status/:serialNumber", async (req, res) => {
+    try {
+      const serialNumber = req.params.serialNumber.replace(/:/g, "").toLowerCase();
+      if (!/^[0-9a-f]{1,64}$/.test(serialNumber)) {
+        return res.status(400).json({ error: "Serial number must be hexadecimal" });
+      }
+
+      const signature = await storage.getSignatureBySerialNumber(serialNumber);
+      res.setHeader("Cache-Control", "no-store");
+      if (!signature) {
+        return res.json({ serialNumber, status: "unknown" });
+      }
+
+      res.json({
+        serialNumber,
+        status: signature.revokedAt ? "revoked" : "good",
+        revokedAt: signature.revokedAt,
+        revocationReason: signature.revocationReason,
+        checkedAt: new Date(),
+      });
+    } catch (error: any) {
+      console.error("Certificate status error:", error);
+      res.status(500).json({ error: error.message || "Failed to look up certificate status" });
+    }
+  });
+
   // Serve PDF files for viewing with performance optimizations
-  app.get("/api/documents/:documentId/view", async (req, res) => {
+  app.get("/api/documents/:documentId/view", requireAuth, requirePermission("documents.view"), async (req, res) => {
     try {
       console.log("=== PDF VIEW REQUEST ===");
       const { documentId } = req.params;
       const { t } = req.query; // Cache busting parameter
       console.log("Document ID:", documentId, "Timestamp:", t);
 
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getAccessibleDocument(documentId, req.user!.id);
       console.log("Document found:", document ? "Yes" : "No");
 
       if (!document) {
@@ -1561,105 +3365,37 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
 
       // Check if file exists with optimized error handling
       try {
-        await fsPromises.access(document.filePath);
+        await fileStorage.access(document.filePath);
         console.log("File exists and is accessible");
       } catch (accessError: any) {
         console.error("File access error:", accessError);
         if (accessError.code === "ENOENT") {
           console.error(`PDF file not found on disk: ${document.filePath}`);
 
-          // Clean up invalid database record since file is missing
-          try {
-            console.log(`Cleaning up invalid document record: ${document.id}`);
-
-            // Delete any applied signatures first
-            const appliedSignatures = await storage.getDocumentSignatures(
-              document.id
-            );
-            for (const sig of appliedSignatures) {
-              try {
-                await storage.removeSignature(sig.id);
-                console.log(`Deleted applied signature: ${sig.id}`);
-              } catch (sigError) {
-                console.error(
-                  `Failed to delete applied signature ${sig.id}:`,
-                  sigError
-                );
-              }
-            }
-
-            // Delete the document record
-            await storage.deleteDocument(document.id);
-            console.log(
-              `Successfully cleaned up invalid document: ${document.id}`
-            );
-
-            return res.status(404).json({
-              error: "Document cleaned up",
-              documentId: document.id,
-              message:
-                "The document has been automatically cleaned up due to missing file. Please re-upload if needed.",
-            });
-          } catch (cleanupError) {
-            console.error(
-              `Failed to cleanup invalid document ${document.id}:`,
-              cleanupError
-            );
-            return res.status(500).json({
-              error: "Failed to cleanup invalid document",
-              message: "Please contact support to resolve this issue.",
-            });
-          }
+          // Owners remove documents whose file is gone with POST /api/documents/cleanup
+          return res.status(404).json({
+            error: "Document file missing",
+            documentId: document.id,
+            message: "The file of this document could not be found. Please re-upload it if needed.",
+          });
         }
         return res.status(500).json({ error: "File access error" });
       }
 
-      // Check if document has applied signatures with caching
+      await auditService.record(getAuditContext(req), "document.viewed", document);
+
+      // Check if document has applied signatures or filled-in fields
       const appliedSignatures = await storage.getDocumentSignatures(documentId);
+      const filledFields = (await storage.getDocumentFields(documentId)).filter((field) => field.value);
 
-      if (appliedSignatures.length > 0) {
-        // Apply signatures for preview with performance optimizations
+      if (appliedSignatures.length > 0 || filledFields.length > 0) {
+        // Draw the stamps and serve the signed PDF
         console.log("Applying signatures for preview...");
-        const signaturesToApply = [];
-
-        // Batch signature lookups for better performance
-        const signatureIds = Array.from(
-          new Set(appliedSignatures.map((sig) => sig.signatureId))
-        );
-        const signatures = await Promise.all(
-          signatureIds.map((id) => storage.getSignature(id))
-        );
-        const signatureMap = new Map(
-          signatures.filter(Boolean).map((sig) => [sig!.id, sig!])
-        );
-
-        for (const appliedSig of appliedSignatures) {
-          const signature = signatureMap.get(appliedSig.signatureId);
-          if (signature) {
-            signaturesToApply.push({
-              pageNumber: appliedSig.pageNumber,
-              position: appliedSig.position as any,
-              signatureData: {
-                fullName: signature.fullName,
-                companyName: signature.companyName,
-                location: signature.location,
-                timestamp: appliedSig.appliedAt || new Date(),
-                timeZone: signature.timeZone,
-                signatureImage: signature.signatureImage || undefined,
-              },
-            });
-          }
-        }
-
-        // Apply signatures and serve the signed PDF
-        const signedPdfBytes = await pdfService.applySignatureToPdf(
-          document.filePath,
-          signaturesToApply
-        );
+        const signedPdfBytes = await signatureService.renderPreview(document);
 
         res.setHeader("Content-Type", "application/pdf");
         res.setHeader("Content-Length", signedPdfBytes.length.toString());
-        res.setHeader("Cache-Control", "public, max-age=300"); // Cache for 5 minutes
+        res.setHeader("Cache-Control", "private, max-age=300"); // Cache for 5 minutes (per user)
         res.setHeader("ETag", `"${documentId}-${t || Date.now()}"`);
         res.send(Buffer.from(signedPdfBytes));
         console.log("Signed PDF sent successfully for preview");
@@ -1668,22 +3404,21 @@ export async function registerRoutes(app: Express, createHttpServer: boolean = t
         console.log("Reading PDF file...");
 
         // Use streaming for better performance on large files
-        const stat = await fsPromises.stat(document.filePath);
-        const fileSize = stat.size;
+        const { size: fileSize, stream: fileStream } = await fileStorage.open(document.filePath);
 
         res.setHeader("Content-Type", "application/pdf");
         res.setHeader("Content-Length", fileSize.toString());
-        res.setHeader("Cache-Control", "public, max-age=300"); // Cache for 5 minutes
+        res.setHeader("Cache-Control", "private, max-age=300"); // Cache for 5 minutes (per user)
         res.setHeader("ETag", `"${documentId}-${t || Date.now()}"`);
 
         // Check if client has cached version
         const ifNoneMatch = req.headers["if-none-match"];
         if (ifNoneMatch === `"${documentId}-${t || Date.now()}"`) {
+          fileStream.destroy();
           return res.status(304).end(); // Not Modified
         }
 
         // Stream the file for better performance
-        const fileStream = fsSync.createReadStream(document.filePath);
         fileStream.pipe(res);
         console.log("Original PDF streamed successfully");
       }
@@ -0,0 +1,311 @@
+import type { Request } from "express";
+import crypto from "crypto";
+import { fileStorage } from "./file-storage";
+import { storage } from "../storage";
+import { CertificateService } from "./certificate";
+import { padesService } from "./pades";
+import { caService } from "./ca";
+import {
+  type AccountAuditAction,
+  type AccountAuditEvent,
+  type AuditAction,
+  type AuditEvent,
+  type PdfDocument,
+} from "@shared/schema";
+
+// previousHash of the first event in every document's chain
+const GENESIS_HASH = "0".repeat(64);
+
+export interface AuditContext {
+  userId: string | null;
+  userEmail: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  eventCount: number;
+  headHash: string | null;
+  // Sequence number of the first event that fails verification
+  brokenAt: number | null;
+  errors: string[];
+}
+
+export interface CompletionCertificate {
+  documentId: string;
+  documentName: string;
+  pageCount: number;
+  originalSha256: string | null;
+  currentSha256: string | null;
+  signers: {
+    name: string;
+    companyName: string;
+    serialNumber: string | null;
+    pages: number[];
+    firstAppliedAt: Date | null;
+    timestampedAt: Date | null;
+    timestampAuthority: string | null;
+    // Delegates who placed some of the signer's stamps on their behalf
+    appliedBy: string[];
+  }[];
+  events: AuditEvent[];
+  chain: AuditChainVerification;
+  generatedAt: Date;
+}
+
+/**
+ * JSON with object keys sorted at every level. jsonb does not preserve key
+ * order, so hashing must not depend on it.
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+// `actor` identifies people acting without a session, such as envelope recipients
+export function getAuditContext(req: Request, actor?: { email: string }): AuditContext {
+  return {
+    userId: actor ? null : req.user?.id || null,
+    userEmail: actor ? actor.email : req.user?.email || null,
+    ipAddress: req.ip || req.socket.remoteAddress || null,
+    userAgent: req.get("user-agent") || null,
+  };
+}
+
+/**
+ * Tamper-evident audit trail. Each document has its own chain: every event
+ * stores the hash of its predecessor and a hash over its own fields, so
+ * editing, deleting or reordering any row breaks every hash after it.
+ */
+export class AuditService {
+  private certificateService = new CertificateService();
+
+  async record(
+    context: AuditContext,
+    action: AuditAction,
+    document: PdfDocument,
+    details: Record<string, unknown> = {}
+  ): Promise<AuditEvent> {
+    const documentSha256 = await this.hashFile(document.filePath);
+
+    const event = await storage.appendAuditEvent(document.id, (previous) => {
+      const fields = {
+        documentId: document.id,
+        sequence: (previous?.sequence || 0) + 1,
+        action,
+        userId: context.userId,
+        userEmail: context.userEmail,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        documentSha256,
+        details,
+        createdAt: new Date(),
+        previousHash: previous?.hash || GENESIS_HASH,
+      };
+      return { ...fields, hash: this.hashEvent(fields) };
+    });
+
+    console.log(`Audit: ${action} on document ${document.id} (#${event.sequence})`);
+    return event;
+  }
+
+  /**
+   * Records an account security event, such as a password reset, for the
+   * email address entered; userId is null when no account matched.
+   */
+  async recordAccountEvent(
+    context: AuditContext,
+    action: AccountAuditAction,
+    subject: { userId: string | null; email: string | null },
+    details: Record<string, unknown> = {}
+  ): Promise<AccountAuditEvent> {
+    const event = await storage.createAccountAuditEvent({
+      action,
+      userId: subject.userId,
+      email: subject.email,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      details,
+    });
+    console.log(`Audit: ${action} for ${subject.userId ? `user ${subject.userId}` : "an unknown account"}`);
+    return event;
+  }
+
+  hashEvent(event: Omit<AuditEvent, "id" | "hash">): string {
+    const canonical = canonicalJson({
+      documentId: event.documentId,
+      sequence: event.sequence,
+      action: event.action,
+      userId: event.userId,
+      userEmail: event.userEmail,
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      documentSha256: event.documentSha256,
+      details: event.details,
+      createdAt: new Date(event.createdAt).toISOString(),
+      previousHash: event.previousHash,
+    });
+    return crypto.createHash("sha256").update(canonical, "utf8").digest("hex");
+  }
+
+  /** Recomputes every hash and link; `events` must be one document's chain in order. */
+  verifyChain(events: AuditEvent[]): AuditChainVerification {
+    const errors: string[] = [];
+    let brokenAt: number | null = null;
+    let previousHash = GENESIS_HASH;
+
+    for (let i = 0; i < events.length; i++) {
+      const event = events[i];
+      const problems: string[] = [];
+
+      if (event.sequence !== i + 1) {
+        problems.push(`expected sequence ${i + 1}, found ${event.sequence}`);
+      }
+      if (event.previousHash !== previousHash) {
+        problems.push("does not link to the previous event");
+      }
+      if (this.hashEvent(event) !== event.hash) {
+        problems.push("contents do not match the recorded hash");
+      }
+
+      if (problems.length > 0) {
+        brokenAt = brokenAt ?? event.sequence;
+        errors.push(`Event #${event.sequence}: ${problems.join("; ")}`);
+      }
+      previousHash = event.hash;
+    }
+
+    return {
+      valid: errors.length === 0,
+      eventCount: events.length,
+      headHash: events.length > 0 ? events[events.length - 1].hash : null,
+      brokenAt,
+      errors,
+    };
+  }
+
+  async getTrail(documentId: string): Promise<{ events: AuditEvent[]; chain: AuditChainVerification }> {
+    const events = await storage.getDocumentAuditEvents(documentId);
+    return { events, chain: this.verifyChain(events) };
+  }
+
+  /** Certificate-of-completion pages, unsigned, for appending to the final document. */
+  async generateCompletionCertificate(document: PdfDocument): Promise<Uint8Array> {
+    return this.certificateService.generateCompletionCertificate(await this.buildCompletionCertificate(document));
+  }
+
+  /**
+   * Standalone certificate of completion, sealed with the platform's document
+   * seal so it can be checked on its own.
+   */
+  async exportCompletionCertificate(document: PdfDocument): Promise<Buffer> {
+    return this.sealCompletionCertificate(await this.generateCompletionCertificate(document), document, 1);
+  }
+
+  /**
+   * Invisible signature with the platform seal over everything in `pdfBytes`;
+   * `pageNumber` is the first page of the certificate of completion. With
+   * `lock` the seal also forbids any later change to the document.
+   */
+  async sealCompletionCertificate(
+    pdfBytes: Uint8Array,
+    document: PdfDocument,
+    pageNumber: number,
+    options: { lock?: boolean } = {}
+  ): Promise<Buffer> {
+    return padesService.signPdf(
+      pdfBytes,
+      {
+        ...caService.getSealSigner(),
+        name: "Certificate of Completion",
+        reason: options.lock
+          ? `Finalized: ${document.originalName}`
+          : `Audit trail for ${document.originalName}`,
+        signingTime: new Date(),
+        timestamp: true,
+      },
+      {
+        pageNumber,
+        rect: { x: 0, y: 0, width: 0, height: 0 },
+        fieldName: "CompletionSeal",
+        lock: options.lock,
+      }
+    );
+  }
+
+  private async buildCompletionCertificate(document: PdfDocument): Promise<CompletionCertificate> {
+    const { events, chain } = await this.getTrail(document.id);
+    const appliedSignatures = await storage.getDocumentSignatures(document.id);
+
+    const signers = new Map<string, CompletionCertificate["signers"][number]>();
+    for (const applied of appliedSignatures) {
+      let signer = signers.get(applied.signatureId);
+      if (!signer) {
+        const signature = await storage.getSignature(applied.signatureId);
+        if (!signature) continue;
+        signer = {
+          name: signature.fullName,
+          companyName: signature.companyName,
+          serialNumber: signature.serialNumber,
+          pages: [],
+          firstAppliedAt: null,
+          timestampedAt: null,
+          timestampAuthority: null,
+          appliedBy: [],
+        };
+        signers.set(applied.signatureId, signer);
+      }
+
+      if (applied.appliedByName && !signer.appliedBy.includes(applied.appliedByName)) {
+        signer.appliedBy.push(applied.appliedByName);
+      }
+      if (!signer.pages.includes(applied.pageNumber)) signer.pages.push(applied.pageNumber);
+      if (applied.appliedAt && (!signer.firstAppliedAt || applied.appliedAt < signer.firstAppliedAt)) {
+        signer.firstAppliedAt = applied.appliedAt;
+      }
+      if (applied.timestampedAt && (!signer.timestampedAt || applied.timestampedAt < signer.timestampedAt)) {
+        signer.timestampedAt = applied.timestampedAt;
+        signer.timestampAuthority = applied.timestampAuthority;
+      }
+    }
+
+    const upload = events.find((event) => event.action === "document.uploaded");
+
+    return {
+      documentId: document.id,
+      documentName: document.originalName,
+      pageCount: document.pageCount,
+      originalSha256: upload?.documentSha256 || null,
+      currentSha256: await this.hashFile(document.filePath),
+      signers: Array.from(signers.values()).map((signer) => ({
+        ...signer,
+        pages: signer.pages.sort((a, b) => a - b),
+      })),
+      events,
+      chain,
+      generatedAt: new Date(),
+    };
+  }
+
+  private async hashFile(filePath: string): Promise<string | null> {
+    try {
+      const bytes = await fileStorage.get(filePath);
+      return crypto.createHash("sha256").update(bytes).digest("hex");
+    } catch (error: any) {
+      console.error(`Audit: Could not hash ${filePath}:`, error.message);
+      return null;
+    }
+  }
+}
+
+export const auditService = new AuditService();
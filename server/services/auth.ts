@@ -1,6 +1,68 @@
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
 import { storage } from "../storage";
-import { type InsertUser } from "@shared/schema";
+import { auditService, type AuditContext } from "./audit";
+import { emailService } from "./email";
+import { keyService } from "./keys";
+import {
+  securityQuestionOptions,
+  type AccountAuditAction,
+  type InsertUser,
+  type PasswordResetMethod,
+  type SecurityQuestions,
+  type User,
+} from "@shared/schema";
+
+const RESET_LINK_TTL = 60 * 60 * 1000; // emailed links
+const ANSWERED_RESET_TTL = 15 * 60 * 1000; // issued right after correct answers
+const RESET_RATE_WINDOW = 60 * 60 * 1000;
+
+// Attempts allowed per email address and per IP address within RESET_RATE_WINDOW
+const RESET_RATE_LIMITS: Record<
+  "request" | "questions" | "answers" | "token",
+  { actions: AccountAuditAction[]; perEmail?: number; perIp: number }
+> = {
+  request: { actions: ["password_reset.requested"], perEmail: 3, perIp: 10 },
+  questions: { actions: ["password_reset.questions_requested"], perEmail: 5, perIp: 20 },
+  answers: { actions: ["password_reset.answers_failed"], perEmail: 5, perIp: 20 },
+  token: { actions: ["password_reset.invalid_token"], perIp: 10 },
+};
+
+export type PasswordResetStep = keyof typeof RESET_RATE_LIMITS;
+
+// Audit and rate limits key on the address however it was typed
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function normalizeAnswer(answer: string): string {
+  return answer.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Addresses without an account or without questions get two questions that
+// stay the same for the address, so the lookup does not reveal which is which
+function decoyQuestions(email: string): [string, string] {
+  const digest = keyService.digest(normalizeEmail(email), "security-question-decoy");
+  const count = securityQuestionOptions.length;
+  const first = digest[0] % count;
+  const second = (first + 1 + (digest[1] % (count - 1))) % count;
+  return [securityQuestionOptions[first], securityQuestionOptions[second]];
+}
+
+// Compared against when there is nothing to compare, so a decoy takes as long
+let decoyAnswerHash: Promise<string> | null = null;
+function getDecoyAnswerHash(): Promise<string> {
+  decoyAnswerHash ??= bcrypt.hash(crypto.randomBytes(16).toString("hex"), 12);
+  return decoyAnswerHash;
+}
+
+function hasSecurityQuestions(user: User): boolean {
+  return !!(user.securityQuestion1 && user.securityAnswer1 && user.securityQuestion2 && user.securityAnswer2);
+}
 
 export class AuthService {
   async register(userData: InsertUser & { password: string }) {
@@ -67,6 +129,163 @@ export class AuthService {
     }
   }
 
+  /**
+   * True once the email address or IP address used up its attempts at a
+   * reset step; the audit log of account events doubles as the counter.
+   */
+  async isResetRateLimited(
+    step: PasswordResetStep,
+    attempt: { email?: string; ipAddress: string | null }
+  ): Promise<boolean> {
+    const { actions, perEmail, perIp } = RESET_RATE_LIMITS[step];
+    const since = new Date(Date.now() - RESET_RATE_WINDOW);
+    if (perEmail && attempt.email) {
+      const count = await storage.countAccountAuditEvents({ actions, email: normalizeEmail(attempt.email), since });
+      if (count >= perEmail) return true;
+    }
+    if (attempt.ipAddress) {
+      const count = await storage.countAccountAuditEvents({ actions, ipAddress: attempt.ipAddress, since });
+      if (count >= perIp) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Emails a reset link if an account uses the address. Callers answer the
+   * same either way, so the response does not reveal who has an account.
+   */
+  async requestPasswordReset(email: string, context: AuditContext): Promise<void> {
+    const user = await storage.getUserByEmail(email);
+    await auditService.recordAccountEvent(context, "password_reset.requested", {
+      userId: user?.id || null,
+      email: normalizeEmail(email),
+    });
+    if (!user) return;
+
+    const { token, expiresAt } = await this.issueResetToken(user, "email", RESET_LINK_TTL);
+    await emailService.sendPasswordReset({ to: user.email, name: user.fullName, token, expiresAt });
+  }
+
+  /**
+   * The account's two questions, or decoys if it has none (or there is no
+   * account), so every address gets the same kind of answer.
+   */
+  async getSecurityQuestions(email: string, context: AuditContext): Promise<[string, string]> {
+    const user = await storage.getUserByEmail(email);
+    await auditService.recordAccountEvent(context, "password_reset.questions_requested", {
+      userId: user?.id || null,
+      email: normalizeEmail(email),
+    });
+    if (!user || !hasSecurityQuestions(user)) {
+      return decoyQuestions(email);
+    }
+    return [user.securityQuestion1!, user.securityQuestion2!];
+  }
+
+  /** Returns a short-lived reset token if both answers match, null otherwise. */
+  async verifySecurityAnswers(
+    answers: { email: string; answer1: string; answer2: string },
+    context: AuditContext
+  ): Promise<string | null> {
+    const user = await storage.getUserByEmail(answers.email);
+    const subject = { userId: user?.id || null, email: normalizeEmail(answers.email) };
+    if (!user || !hasSecurityQuestions(user)) {
+      // Two compares, as for a real account
+      const decoy = await getDecoyAnswerHash();
+      await Promise.all([
+        bcrypt.compare(normalizeAnswer(answers.answer1), decoy),
+        bcrypt.compare(normalizeAnswer(answers.answer2), decoy),
+      ]);
+      await auditService.recordAccountEvent(context, "password_reset.answers_failed", subject);
+      return null;
+    }
+
+    // Both are always compared so the time taken does not reveal which was wrong
+    const [first, second] = await Promise.all([
+      bcrypt.compare(normalizeAnswer(answers.answer1), user.securityAnswer1!),
+      bcrypt.compare(normalizeAnswer(answers.answer2), user.securityAnswer2!),
+    ]);
+    if (!first || !second) {
+      await auditService.recordAccountEvent(context, "password_reset.answers_failed", subject);
+      return null;
+    }
+
+    await auditService.recordAccountEvent(context, "password_reset.answers_verified", subject);
+    const { token } = await this.issueResetToken(user, "security_questions", ANSWERED_RESET_TTL);
+    return token;
+  }
+
+  /**
+   * Sets a new password with a reset token. The token works once, and the
+   * reset ends every session the account had.
+   */
+  async resetPassword(token: string, password: string, context: AuditContext): Promise<void> {
+    const resetToken = await storage.consumePasswordResetToken(hashResetToken(token));
+    const user = resetToken && (await storage.getUser(resetToken.userId));
+    if (!resetToken || !user) {
+      await auditService.recordAccountEvent(context, "password_reset.invalid_token", { userId: null, email: null });
+      throw new Error("This reset link is invalid or has expired");
+    }
+
+    await storage.resetPassword(user.id, await this.hashPassword(password));
+    await auditService.recordAccountEvent(
+      context,
+      "password_reset.completed",
+      { userId: user.id, email: normalizeEmail(user.email) },
+      { method: resetToken.method }
+    );
+    await emailService.sendPasswordChanged({
+      to: user.email,
+      name: user.fullName,
+      method: resetToken.method as PasswordResetMethod,
+    });
+  }
+
+  async setSecurityQuestions(user: User, data: SecurityQuestions, context: AuditContext): Promise<void> {
+    if (!(await this.comparePasswords(data.password, user.password))) {
+      throw new Error("Incorrect password");
+    }
+
+    await storage.updateUser(user.id, {
+      securityQuestion1: data.question1,
+      securityAnswer1: await bcrypt.hash(normalizeAnswer(data.answer1), 12),
+      securityQuestion2: data.question2,
+      securityAnswer2: await bcrypt.hash(normalizeAnswer(data.answer2), 12),
+    });
+    await auditService.recordAccountEvent(context, "security_questions.updated", {
+      userId: user.id,
+      email: normalizeEmail(user.email),
+    });
+  }
+
+  async removeSecurityQuestions(user: User, password: string, context: AuditContext): Promise<void> {
+    if (!(await this.comparePasswords(password, user.password))) {
+      throw new Error("Incorrect password");
+    }
+
+    await storage.updateUser(user.id, {
+      securityQuestion1: null,
+      securityAnswer1: null,
+      securityQuestion2: null,
+      securityAnswer2: null,
+    });
+    await auditService.recordAccountEvent(context, "security_questions.removed", {
+      userId: user.id,
+      email: normalizeEmail(user.email),
+    });
+  }
+
+  private async issueResetToken(
+    user: User,
+    method: PasswordResetMethod,
+    ttl: number
+  ): Promise<{ token: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + ttl);
+    await storage.createPasswordResetToken({ userId: user.id, tokenHash: hashResetToken(token), method, expiresAt });
+    return { token, expiresAt };
+  }
+
   async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, 12);
   }
@@ -0,0 +1,521 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import forge from "node-forge";
+import { revocationReasons, type RevocationReason } from "@shared/schema";
+import type { CmsSigner } from "./cms";
+
+export interface SignerSubject {
+  fullName: string;
+  companyName: string;
+  location: string;
+  email: string;
+}
+
+export interface IssuedCertificate {
+  certificate: string; // PEM
+  privateKey: string; // PEM, unencrypted; callers must protect it
+  serialNumber: string; // lower-case hex
+}
+
+export interface CrlEntry {
+  serialNumber: string; // hex
+  revokedAt: Date;
+  reason: string | null;
+}
+
+interface CaKeyPair {
+  certificate: forge.pki.Certificate;
+  certificatePem: string;
+  privateKey: forge.pki.rsa.PrivateKey;
+}
+
+type CaLevel = "root" | "intermediate" | "tsa" | "seal";
+
+const ENV_PREFIXES: Record<CaLevel, string> = {
+  root: "CA_ROOT",
+  intermediate: "CA_INTERMEDIATE",
+  tsa: "CA_TSA",
+  seal: "CA_SEAL",
+};
+
+const CA_ORGANIZATION = process.env.CA_ORGANIZATION || "XSignature";
+
+// Adobe and most PDF validators accept either of these for document signing
+const EKU_DOCUMENT_SIGNING = "1.3.6.1.5.5.7.3.36";
+const EKU_ADOBE_AUTHENTIC_DOCUMENTS = "1.2.840.113583.1.1.5";
+
+const OID_SHA256_WITH_RSA = "1.2.840.113549.1.1.11";
+const OID_CRL_NUMBER = "2.5.29.20";
+const OID_CRL_REASON = "2.5.29.21";
+const OID_AUTHORITY_KEY_IDENTIFIER = "2.5.29.35";
+
+// Relying parties refetch the CRL at least this often
+const CRL_VALIDITY_DAYS = 7;
+
+function getCaDirectory(): string {
+  // Vercel serverless only has /tmp as writable directory
+  return process.env.CA_DIR || (process.env.VERCEL ? "/tmp/xsignature-ca" : ".ca");
+}
+
+function readEnvPem(name: string): string | undefined {
+  // Allow PEMs pasted into single-line env vars with literal "\n"
+  return process.env[name]?.replace(/\\n/g, "\n");
+}
+
+function getCrlUrl(): string | null {
+  // Only advertise a CRL location when the public URL is actually known
+  return process.env.APP_URL ? `${process.env.APP_URL.replace(/\/+$/, "")}/api/ca/crl` : null;
+}
+
+const { asn1 } = forge;
+
+function derTime(date: Date): forge.asn1.Asn1 {
+  // RFC 5280: UTCTime through 2049, GeneralizedTime afterwards
+  return date.getUTCFullYear() < 2050
+    ? asn1.create(asn1.Class.UNIVERSAL, asn1.Type.UTCTIME, false, asn1.dateToUtcTime(date))
+    : asn1.create(asn1.Class.UNIVERSAL, asn1.Type.GENERALIZEDTIME, false, asn1.dateToGeneralizedTime(date));
+}
+
+function derInteger(hex: string): forge.asn1.Asn1 {
+  let bytes = forge.util.hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+  // Keep the value positive
+  if (bytes.charCodeAt(0) & 0x80) bytes = `\x00${bytes}`;
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, bytes);
+}
+
+function derExtension(oid: string, value: forge.asn1.Asn1): forge.asn1.Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(oid).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, asn1.toDer(value).getBytes()),
+  ]);
+}
+
+function sha256WithRsaIdentifier(): forge.asn1.Asn1 {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(OID_SHA256_WITH_RSA).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ""),
+  ]);
+}
+
+function generateRsaKeyPair(modulusLength: number) {
+  // Node's native generator is far faster than forge's pure-JS one
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+    modulusLength,
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  });
+  return {
+    privateKey: forge.pki.privateKeyFromPem(privateKey) as forge.pki.rsa.PrivateKey,
+    publicKey: forge.pki.publicKeyFromPem(publicKey) as forge.pki.rsa.PublicKey,
+  };
+}
+
+export class CertificateAuthorityService {
+  private root: CaKeyPair | null = null;
+  private intermediate: CaKeyPair | null = null;
+  private timestampAuthority: CaKeyPair | null = null;
+  private seal: CaKeyPair | null = null;
+
+  /**
+   * Unique, positive 128-bit serial number as lower-case hex. The high bit is
+   * cleared so DER never needs a leading zero byte, and the next bit is set so
+   * the length is always 16 bytes.
+   */
+  generateSerialNumber(): string {
+    const bytes = crypto.randomBytes(16);
+    bytes[0] = (bytes[0] & 0x7f) | 0x40;
+    return bytes.toString("hex");
+  }
+
+  issueSignerCertificate(subject: SignerSubject): IssuedCertificate {
+    const issuer = this.getIntermediate();
+    const keyPair = generateRsaKeyPair(2048);
+
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keyPair.publicKey;
+    cert.serialNumber = this.generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date();
+    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 1);
+
+    cert.setSubject([
+      { name: "commonName", value: subject.fullName },
+      { name: "organizationName", value: subject.companyName },
+      { name: "localityName", value: subject.location },
+      { name: "emailAddress", value: subject.email },
+    ]);
+    cert.setIssuer(issuer.certificate.subject.attributes);
+
+    const crlUrl = getCrlUrl();
+    cert.setExtensions([
+      { name: "basicConstraints", cA: false, critical: true },
+      { name: "keyUsage", digitalSignature: true, nonRepudiation: true, critical: true },
+      {
+        name: "extKeyUsage",
+        emailProtection: true,
+        [EKU_DOCUMENT_SIGNING]: true,
+        [EKU_ADOBE_AUTHENTIC_DOCUMENTS]: true,
+      },
+      { name: "subjectAltName", altNames: [{ type: 1, value: subject.email }] },
+      { name: "subjectKeyIdentifier" },
+      {
+        name: "authorityKeyIdentifier",
+        keyIdentifier: issuer.certificate.generateSubjectKeyIdentifier().getBytes(),
+      },
+      ...(crlUrl ? [{ name: "cRLDistributionPoints", altNames: [{ type: 6, value: crlUrl }] }] : []),
+    ]);
+
+    cert.sign(issuer.privateKey, forge.md.sha256.create());
+
+    return {
+      certificate: forge.pki.certificateToPem(cert),
+      privateKey: forge.pki.privateKeyToPem(keyPair.privateKey),
+      serialNumber: cert.serialNumber,
+    };
+  }
+
+  /**
+   * DER-encoded X.509 v2 CRL listing the given revoked certificates, signed by
+   * the intermediate CA that issues signer certificates. node-forge has no CRL
+   * support, so the structure is assembled by hand (RFC 5280 section 5).
+   */
+  generateCrl(entries: CrlEntry[], thisUpdate: Date = new Date()): Buffer {
+    const issuer = this.getIntermediate();
+    const nextUpdate = new Date(thisUpdate.getTime() + CRL_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+    const revoked = entries.map((entry) => {
+      const fields = [derInteger(entry.serialNumber), derTime(entry.revokedAt)];
+      const code = revocationReasons[entry.reason as RevocationReason];
+      // "unspecified" should be expressed by omitting the reasonCode extension
+      if (code) {
+        const reasonCode = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.ENUMERATED, false, String.fromCharCode(code));
+        fields.push(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [derExtension(OID_CRL_REASON, reasonCode)]));
+      }
+      return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, fields);
+    });
+
+    // Seconds since the epoch: monotonically increasing without keeping state
+    const crlNumber = derInteger(Math.floor(thisUpdate.getTime() / 1000).toString(16));
+    const authorityKeyIdentifier = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, false, issuer.certificate.generateSubjectKeyIdentifier().getBytes()),
+    ]);
+
+    const tbsCertList = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, String.fromCharCode(1)), // v2
+      sha256WithRsaIdentifier(),
+      forge.pki.distinguishedNameToAsn1(issuer.certificate.subject),
+      derTime(thisUpdate),
+      derTime(nextUpdate),
+      // An empty revokedCertificates list must be left out entirely
+      ...(revoked.length > 0 ? [asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, revoked)] : []),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+          derExtension(OID_AUTHORITY_KEY_IDENTIFIER, authorityKeyIdentifier),
+          derExtension(OID_CRL_NUMBER, crlNumber),
+        ]),
+      ]),
+    ]);
+
+    const md = forge.md.sha256.create();
+    md.update(asn1.toDer(tbsCertList).getBytes());
+    const signature = issuer.privateKey.sign(md);
+
+    const certificateList = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      tbsCertList,
+      sha256WithRsaIdentifier(),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BITSTRING, false, `\x00${signature}`),
+    ]);
+    return Buffer.from(asn1.toDer(certificateList).getBytes(), "binary");
+  }
+
+  /**
+   * True when the certificate was issued by this CA's intermediate, i.e. when
+   * its revocation status is authoritative in this database.
+   */
+  isIssuedByUs(certificate: crypto.X509Certificate): boolean {
+    try {
+      const intermediate = new crypto.X509Certificate(this.getIntermediate().certificatePem);
+      return certificate.checkIssued(intermediate) && certificate.verify(intermediate.publicKey);
+    } catch (error) {
+      console.error("CA: Could not check certificate issuer:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Signing material for the built-in RFC 3161 timestamp authority: an
+   * end-entity certificate under the intermediate whose only extended key
+   * usage is timeStamping.
+   */
+  getTimestampSigner(): CmsSigner {
+    if (!this.timestampAuthority) {
+      const intermediate = this.getIntermediate();
+      this.timestampAuthority = this.loadOrCreate("tsa", () => this.createTimestampAuthority(intermediate));
+    }
+    return {
+      certificatePem: this.timestampAuthority.certificatePem,
+      privateKeyPem: forge.pki.privateKeyToPem(this.timestampAuthority.privateKey),
+      chainPems: this.getChainPems(),
+    };
+  }
+
+  /**
+   * Signing material for documents the platform itself issues (certificates
+   * of completion): a document-signing certificate in the firm's own name.
+   */
+  getSealSigner(): CmsSigner {
+    if (!this.seal) {
+      const intermediate = this.getIntermediate();
+      this.seal = this.loadOrCreate("seal", () => this.createSeal(intermediate));
+    }
+    return {
+      certificatePem: this.seal.certificatePem,
+      privateKeyPem: forge.pki.privateKeyToPem(this.seal.privateKey),
+      chainPems: this.getChainPems(),
+    };
+  }
+
+  getRootCertificatePem(): string {
+    return this.getRoot().certificatePem;
+  }
+
+  getRootCertificateDer(): Buffer {
+    const der = forge.asn1.toDer(forge.pki.certificateToAsn1(this.getRoot().certificate));
+    return Buffer.from(der.getBytes(), "binary");
+  }
+
+  /**
+   * Intermediate first, root last: the order validators expect after the
+   * end-entity certificate.
+   */
+  getChainPems(): string[] {
+    return [this.getIntermediate().certificatePem, this.getRoot().certificatePem];
+  }
+
+  /**
+   * The CA certificates to embed next to a signer certificate, or none when
+   * the certificate was not issued by this CA (e.g. legacy self-signed ones).
+   */
+  getChainFor(certificatePem: string): string[] {
+    try {
+      const cert = new crypto.X509Certificate(certificatePem);
+      const intermediate = new crypto.X509Certificate(this.getIntermediate().certificatePem);
+      return cert.checkIssued(intermediate) ? this.getChainPems() : [];
+    } catch (error) {
+      console.error("CA: Could not resolve certificate chain:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Walks issuer links from the leaf through the candidate certificates until
+   * it reaches this CA's root.
+   */
+  chainsToRoot(leaf: crypto.X509Certificate, candidates: crypto.X509Certificate[]): boolean {
+    const root = new crypto.X509Certificate(this.getRoot().certificatePem);
+    const intermediates = [
+      ...candidates.filter((cert) => cert.ca),
+      new crypto.X509Certificate(this.getIntermediate().certificatePem),
+    ];
+
+    let current = leaf;
+    for (let depth = 0; depth < 5; depth++) {
+      if (current.checkIssued(root) && current.verify(root.publicKey)) {
+        return true;
+      }
+      const issuer = intermediates.find(
+        (cert) => cert.fingerprint256 !== current.fingerprint256 && current.checkIssued(cert) && current.verify(cert.publicKey)
+      );
+      if (!issuer) return false;
+      current = issuer;
+    }
+    return false;
+  }
+
+  private getRoot(): CaKeyPair {
+    if (!this.root) {
+      this.root = this.loadOrCreate("root", () => this.createRoot());
+    }
+    return this.root;
+  }
+
+  private getIntermediate(): CaKeyPair {
+    if (!this.intermediate) {
+      const root = this.getRoot();
+      this.intermediate = this.loadOrCreate("intermediate", () => this.createIntermediate(root));
+    }
+    return this.intermediate;
+  }
+
+  private loadOrCreate(level: CaLevel, create: () => CaKeyPair): CaKeyPair {
+    const envPrefix = ENV_PREFIXES[level];
+    const envCert = readEnvPem(`${envPrefix}_CERT`);
+    const envKey = readEnvPem(`${envPrefix}_KEY`);
+    if (envCert && envKey) {
+      return this.parseKeyPair(envCert, envKey);
+    }
+
+    const directory = getCaDirectory();
+    const certPath = path.join(directory, `${level}.crt`);
+    const keyPath = path.join(directory, `${level}.key`);
+    if (fs.existsSync(certPath) && fs.existsSync(keyPath)) {
+      return this.parseKeyPair(fs.readFileSync(certPath, "utf8"), fs.readFileSync(keyPath, "utf8"));
+    }
+
+    // A CA generated per instance (or per cold start) would issue
+    // certificates that chain to different roots and break earlier ones
+    if (process.env.NODE_ENV === "production" && (level === "root" || level === "intermediate")) {
+      throw new Error(`${envPrefix}_CERT and ${envPrefix}_KEY must be set in production`);
+    }
+    console.log(`CA: Generating ${level} CA in ${directory}`);
+
+    const created = create();
+    fs.mkdirSync(directory, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(certPath, created.certificatePem);
+    fs.writeFileSync(keyPath, this.serializePrivateKey(created.privateKey), { mode: 0o600 });
+    return created;
+  }
+
+  private parseKeyPair(certificatePem: string, keyPem: string): CaKeyPair {
+    const passphrase = process.env.CA_KEY_PASSPHRASE;
+    const privateKey = keyPem.includes("ENCRYPTED")
+      ? forge.pki.decryptRsaPrivateKey(keyPem, passphrase || "")
+      : forge.pki.privateKeyFromPem(keyPem);
+    if (!privateKey) {
+      throw new Error("CA private key could not be decrypted; check CA_KEY_PASSPHRASE");
+    }
+
+    return {
+      certificate: forge.pki.certificateFromPem(certificatePem),
+      certificatePem,
+      privateKey: privateKey as forge.pki.rsa.PrivateKey,
+    };
+  }
+
+  private serializePrivateKey(privateKey: forge.pki.rsa.PrivateKey): string {
+    const passphrase = process.env.CA_KEY_PASSPHRASE;
+    return passphrase
+      ? forge.pki.encryptRsaPrivateKey(privateKey, passphrase, { algorithm: "aes256" })
+      : forge.pki.privateKeyToPem(privateKey);
+  }
+
+  private createRoot(): CaKeyPair {
+    const keyPair = generateRsaKeyPair(4096);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keyPair.publicKey;
+    cert.serialNumber = this.generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date();
+    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 20);
+
+    const attrs = [
+      { name: "commonName", value: `${CA_ORGANIZATION} Root CA` },
+      { name: "organizationName", value: CA_ORGANIZATION },
+    ];
+    cert.setSubject(attrs);
+    cert.setIssuer(attrs);
+    cert.setExtensions([
+      { name: "basicConstraints", cA: true, critical: true },
+      { name: "keyUsage", keyCertSign: true, cRLSign: true, critical: true },
+      { name: "subjectKeyIdentifier" },
+    ]);
+    cert.sign(keyPair.privateKey, forge.md.sha256.create());
+
+    return { certificate: cert, certificatePem: forge.pki.certificateToPem(cert), privateKey: keyPair.privateKey };
+  }
+
+  private createIntermediate(root: CaKeyPair): CaKeyPair {
+    const keyPair = generateRsaKeyPair(3072);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keyPair.publicKey;
+    cert.serialNumber = this.generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date();
+    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 10);
+
+    cert.setSubject([
+      { name: "commonName", value: `${CA_ORGANIZATION} Signing CA` },
+      { name: "organizationName", value: CA_ORGANIZATION },
+    ]);
+    cert.setIssuer(root.certificate.subject.attributes);
+    cert.setExtensions([
+      // pathLenConstraint 0: this CA may only issue end-entity certificates
+      { name: "basicConstraints", cA: true, pathLenConstraint: 0, critical: true },
+      { name: "keyUsage", keyCertSign: true, cRLSign: true, critical: true },
+      { name: "subjectKeyIdentifier" },
+      {
+        name: "authorityKeyIdentifier",
+        keyIdentifier: root.certificate.generateSubjectKeyIdentifier().getBytes(),
+      },
+    ]);
+    cert.sign(root.privateKey, forge.md.sha256.create());
+
+    return { certificate: cert, certificatePem: forge.pki.certificateToPem(cert), privateKey: keyPair.privateKey };
+  }
+
+  private createTimestampAuthority(intermediate: CaKeyPair): CaKeyPair {
+    const keyPair = generateRsaKeyPair(3072);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keyPair.publicKey;
+    cert.serialNumber = this.generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date();
+    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 5);
+
+    cert.setSubject([
+      { name: "commonName", value: `${CA_ORGANIZATION} Timestamp Authority` },
+      { name: "organizationName", value: CA_ORGANIZATION },
+    ]);
+    cert.setIssuer(intermediate.certificate.subject.attributes);
+    cert.setExtensions([
+      { name: "basicConstraints", cA: false, critical: true },
+      { name: "keyUsage", digitalSignature: true, nonRepudiation: true, critical: true },
+      // RFC 3161 section 2.3: timeStamping must be the only, critical, extended key usage
+      { name: "extKeyUsage", timeStamping: true, critical: true },
+      { name: "subjectKeyIdentifier" },
+      {
+        name: "authorityKeyIdentifier",
+        keyIdentifier: intermediate.certificate.generateSubjectKeyIdentifier().getBytes(),
+      },
+    ]);
+    cert.sign(intermediate.privateKey, forge.md.sha256.create());
+
+    return { certificate: cert, certificatePem: forge.pki.certificateToPem(cert), privateKey: keyPair.privateKey };
+  }
+
+  private createSeal(intermediate: CaKeyPair): CaKeyPair {
+    const keyPair = generateRsaKeyPair(3072);
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = keyPair.publicKey;
+    cert.serialNumber = this.generateSerialNumber();
+    cert.validity.notBefore = new Date();
+    cert.validity.notAfter = new Date();
+    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 5);
+
+    cert.setSubject([
+      { name: "commonName", value: `${CA_ORGANIZATION} Document Seal` },
+      { name: "organizationName", value: CA_ORGANIZATION },
+    ]);
+    cert.setIssuer(intermediate.certificate.subject.attributes);
+    cert.setExtensions([
+      { name: "basicConstraints", cA: false, critical: true },
+      { name: "keyUsage", digitalSignature: true, nonRepudiation: true, critical: true },
+      {
+        name: "extKeyUsage",
+        [EKU_DOCUMENT_SIGNING]: true,
+        [EKU_ADOBE_AUTHENTIC_DOCUMENTS]: true,
+      },
+      { name: "subjectKeyIdentifier" },
+      {
+        name: "authorityKeyIdentifier",
+        keyIdentifier: intermediate.certificate.generateSubjectKeyIdentifier().getBytes(),
+      },
+    ]);
+    cert.sign(intermediate.privateKey, forge.md.sha256.create());
+
+    return { certificate: cert, certificatePem: forge.pki.certificateToPem(cert), privateKey: keyPair.privateKey };
+  }
+}
+
+export const caService = new CertificateAuthorityService();
@@ -1,6 +1,9 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { PDFDocument, PDFPage, rgb, StandardFonts } from 'pdf-lib';
 import crypto from 'crypto';
 import forge from 'node-forge';
+import type { VerificationReport } from './verification';
+import type { CompletionCertificate } from './audit';
+import { caService, type SignerSubject, type IssuedCertificate } from './ca';
 
 export interface CertificateData {
   signatureName: string;
@@ -13,6 +16,32 @@ export interface CertificateData {
   signatureImage?: string;
 }
 
+// Revocation columns of a digitalSignatures row
+export interface RevocationStatus {
+  revokedAt: Date | null;
+  revocationReason: string | null;
+}
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'document.uploaded': 'Document uploaded',
+  'document.viewed': 'Document viewed',
+  'document.downloaded': 'Document downloaded',
+  'document.deleted': 'Document deleted',
+  'signature.applied': 'Signature applied',
+  'signature.moved': 'Signature moved',
+  'signature.removed': 'Signature removed',
+  'signature.declined': 'Signing declined',
+  'document.finalized': 'Document finalized',
+  'envelope.sent': 'Sent for signing',
+  'envelope.completed': 'All parties signed',
+  'envelope.voided': 'Signing cancelled',
+  'field.added': 'Field added',
+  'field.filled': 'Field filled in',
+  'field.removed': 'Field removed',
+  'delegation.requested': 'Delegated signing requested',
+  'delegation.rejected': 'Delegated signing rejected',
+};
+
 export class CertificateService {
   async generateAdobeStyleCertificate(certificateData: CertificateData): Promise<Uint8Array> {
     // Create a new PDF document
@@ -35,22 +64,7 @@ export class CertificateService {
     
     // Header background with gradient effect (simulated with multiple rectangles)
     // Create gradient effect by drawing multiple rectangles with different colors
-    const gradientSteps = 20;
-    const stepHeight = 140 / gradientSteps;
-    for (let i = 0; i < gradientSteps; i++) {
-      const ratio = i / (gradientSteps - 1);
-      const r = 0.23 + (0.39 - 0.23) * ratio;
-      const g = 0.51 + (0.40 - 0.51) * ratio;
-      const b = 0.96 + (0.95 - 0.96) * ratio;
-      
-      page.drawRectangle({
-        x: 0,
-        y: height - 140 + (i * stepHeight),
-        width: width,
-        height: stepHeight,
-        color: rgb(r, g, b),
-      });
-    }
+    this.drawGradient(page, height - 140, 140, 20);
     
     // Main title (centered without logo)
     page.drawText('DIGITAL SIGNATURE CERTIFICATE', {
@@ -251,22 +265,7 @@ export class CertificateService {
     const footerY = 50;
     
     // Footer gradient background
-    const footerGradientSteps = 10;
-    const footerStepHeight = 50 / footerGradientSteps;
-    for (let i = 0; i < footerGradientSteps; i++) {
-      const ratio = i / (footerGradientSteps - 1);
-      const r = 0.23 + (0.39 - 0.23) * ratio;
-      const g = 0.51 + (0.40 - 0.51) * ratio;
-      const b = 0.96 + (0.95 - 0.96) * ratio;
-      
-      page.drawRectangle({
-        x: 0,
-        y: i * footerStepHeight,
-        width: width,
-        height: footerStepHeight,
-        color: rgb(r, g, b),
-      });
-    }
+    this.drawGradient(page, 0, 50, 10);
     
     page.drawText('XSignature Digital Signature Platform', {
       x: 50,
@@ -296,90 +295,485 @@ export class CertificateService {
     return pdfDoc.save();
   }
   
+  async generateVerificationReport(report: VerificationReport): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+    const primaryColor = rgb(0.23, 0.51, 0.96); // #3b82f6
+    const secondaryColor = rgb(0.39, 0.40, 0.95); // #6366f1
+    const accentColor = rgb(0.9, 0.95, 0.98);
+    const whiteColor = rgb(1, 1, 1);
+    const validColor = rgb(0.09, 0.55, 0.25);
+    const invalidColor = rgb(0.8, 0.2, 0.2);
+
+    const pageSize: [number, number] = [612, 792];
+    const [width, height] = pageSize;
+    const contentWidth = width - 100;
+    const bottomMargin = 80;
+
+    let page = pdfDoc.addPage(pageSize);
+    let currentY = 0;
+
+    const drawFooter = (target: PDFPage) => {
+      this.drawGradient(target, 0, 50, 10);
+      target.drawText('XSignature Digital Signature Platform', {
+        x: 50,
+        y: 30,
+        size: 10,
+        font: helveticaBold,
+        color: whiteColor,
+      });
+      target.drawText('This report was generated on ' + report.verifiedAt.toLocaleString(), {
+        x: 50,
+        y: 15,
+        size: 8,
+        font: helvetica,
+        color: rgb(0.9, 0.9, 0.9),
+      });
+    };
+
+    const startPage = (title: string) => {
+      this.drawGradient(page, height - 100, 100, 20);
+      page.drawText(title, {
+        x: 50,
+        y: height - 45,
+        size: 20,
+        font: helveticaBold,
+        color: whiteColor,
+      });
+      page.drawText(this.toWinAnsi(report.fileName, 80), {
+        x: 50,
+        y: height - 70,
+        size: 11,
+        font: helvetica,
+        color: rgb(0.95, 0.95, 0.95),
+      });
+      drawFooter(page);
+      currentY = height - 140;
+    };
+
+    const ensureSpace = (needed: number) => {
+      if (currentY - needed < bottomMargin) {
+        page = pdfDoc.addPage(pageSize);
+        startPage('SIGNATURE VALIDATION REPORT (CONT.)');
+      }
+    };
+
+    const drawSection = (title: string) => {
+      ensureSpace(60);
+      page.drawRectangle({
+        x: 40,
+        y: currentY - 10,
+        width: contentWidth + 20,
+        height: 30,
+        color: accentColor,
+      });
+      page.drawText(title, {
+        x: 50,
+        y: currentY,
+        size: 16,
+        font: helveticaBold,
+        color: primaryColor,
+      });
+      currentY -= 35;
+    };
+
+    const drawRows = (rows: { label: string; value: string; ok?: boolean }[]) => {
+      rows.forEach((row, index) => {
+        ensureSpace(25);
+        if (index % 2 === 0) {
+          page.drawRectangle({
+            x: 50,
+            y: currentY - 5,
+            width: contentWidth,
+            height: 20,
+            color: accentColor,
+          });
+        }
+        page.drawText(row.label, {
+          x: 60,
+          y: currentY,
+          size: 10,
+          font: helveticaBold,
+          color: secondaryColor,
+        });
+        page.drawText(this.toWinAnsi(row.value, 70), {
+          x: 210,
+          y: currentY,
+          size: row.value.length > 60 ? 8 : 10,
+          font: row.ok === undefined ? helvetica : helveticaBold,
+          color: row.ok === undefined ? secondaryColor : row.ok ? validColor : invalidColor,
+        });
+        currentY -= 22;
+      });
+    };
+
+    const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+    const formatDate = (value: Date | null) => (value ? new Date(value).toLocaleString() : 'Not available');
+
+    startPage('SIGNATURE VALIDATION REPORT');
+
+    drawSection('DOCUMENT');
+    drawRows([
+      { label: 'File Name:', value: report.fileName },
+      { label: 'File Size:', value: `${report.fileSize} bytes` },
+      { label: 'SHA-256:', value: report.sha256 },
+      { label: 'Pages:', value: report.pageCount !== null ? String(report.pageCount) : 'Unknown' },
+      { label: 'Revisions:', value: String(report.revisionCount) },
+      { label: 'Signatures Found:', value: String(report.summary.signatureCount) },
+      {
+        label: 'Overall Result:',
+        value:
+          report.summary.signatureCount === 0
+            ? 'No signatures found'
+            : report.summary.allValid
+              ? 'All signatures valid'
+              : `${report.summary.validSignatures} of ${report.summary.signatureCount} signatures valid`,
+        ok: report.summary.allValid,
+      },
+    ]);
+
+    report.signatures.forEach((signature, index) => {
+      currentY -= 15;
+      drawSection(`SIGNATURE ${index + 1}: ${this.toWinAnsi(signature.fieldName, 40).toUpperCase()}`);
+      drawRows([
+        { label: 'Status:', value: signature.valid ? 'Valid' : 'Invalid', ok: signature.valid },
+        { label: 'Signer:', value: signature.signerName || 'Unknown' },
+        { label: 'Signing Time:', value: formatDate(signature.signingTime) },
+        ...(signature.reason ? [{ label: 'Reason:', value: signature.reason }] : []),
+        ...(signature.location ? [{ label: 'Location:', value: signature.location }] : []),
+        { label: 'Format:', value: signature.subFilter || 'Unknown' },
+        { label: 'Digest Algorithm:', value: signature.digestAlgorithm || 'Unknown' },
+        { label: 'Digest Matches:', value: yesNo(signature.digestMatches), ok: signature.digestMatches },
+        { label: 'Signature Intact:', value: yesNo(signature.signatureValid), ok: signature.signatureValid },
+        { label: 'Revision:', value: `${signature.revision} of ${report.revisionCount}` },
+        {
+          label: 'Modified After:',
+          value: !signature.modifiedAfterSigning
+            ? 'No'
+            : signature.laterChangesSigned
+              ? 'Yes, by later signatures'
+              : 'Yes',
+          ok: !signature.modifiedAfterSigning || signature.laterChangesSigned,
+        },
+        signature.timestamp
+          ? {
+              label: 'Timestamp:',
+              value: `${formatDate(signature.timestamp.genTime)} by ${signature.timestamp.authority || 'unknown TSA'}` +
+                (signature.timestamp.valid ? '' : ' (invalid)'),
+              ok: signature.timestamp.valid,
+            }
+          : { label: 'Timestamp:', value: 'None' },
+      ]);
+
+      if (signature.certificate) {
+        const certificate = signature.certificate;
+        drawRows([
+          { label: 'Certificate Subject:', value: certificate.subject },
+          { label: 'Certificate Issuer:', value: certificate.issuer },
+          { label: 'Serial Number:', value: certificate.serialNumber },
+          { label: 'Valid From:', value: formatDate(certificate.validFrom) },
+          { label: 'Valid To:', value: formatDate(certificate.validTo) },
+          { label: 'Self-Signed:', value: yesNo(certificate.selfSigned) },
+          { label: 'Trusted Chain:', value: yesNo(certificate.trustedChain), ok: certificate.trustedChain },
+          {
+            label: 'Valid When Signed:',
+            value: certificate.validAtSigningTime === null ? 'Unknown' : yesNo(certificate.validAtSigningTime),
+            ok: certificate.validAtSigningTime !== false,
+          },
+          ...(certificate.validAtTimestamp !== null
+            ? [{ label: 'Valid When Stamped:', value: yesNo(certificate.validAtTimestamp), ok: certificate.validAtTimestamp }]
+            : []),
+          { label: 'Valid Now:', value: yesNo(certificate.validNow), ok: certificate.validNow },
+          {
+            label: 'Revoked:',
+            value: certificate.revoked === null
+              ? 'Unknown (not issued by this CA)'
+              : certificate.revoked
+                ? `Yes, ${formatDate(certificate.revokedAt)} (${certificate.revocationReason || 'unspecified'})`
+                : 'No',
+            ok: certificate.revoked !== true,
+          },
+        ]);
+      }
+
+      signature.errors.forEach((error) => {
+        ensureSpace(20);
+        page.drawText('• ' + this.toWinAnsi(error, 90), {
+          x: 60,
+          y: currentY,
+          size: 9,
+          font: helvetica,
+          color: invalidColor,
+        });
+        currentY -= 16;
+      });
+    });
+
+    return pdfDoc.save();
+  }
+
+  async generateCompletionCertificate(certificate: CompletionCertificate): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const courier = await pdfDoc.embedFont(StandardFonts.Courier);
+
+    const primaryColor = rgb(0.23, 0.51, 0.96); // #3b82f6
+    const secondaryColor = rgb(0.39, 0.40, 0.95); // #6366f1
+    const accentColor = rgb(0.9, 0.95, 0.98);
+    const whiteColor = rgb(1, 1, 1);
+    const validColor = rgb(0.09, 0.55, 0.25);
+    const invalidColor = rgb(0.8, 0.2, 0.2);
+
+    const pageSize: [number, number] = [612, 792];
+    const [width, height] = pageSize;
+    const contentWidth = width - 100;
+    const bottomMargin = 80;
+
+    let page = pdfDoc.addPage(pageSize);
+    let currentY = 0;
+
+    const startPage = (title: string) => {
+      this.drawGradient(page, height - 100, 100, 20);
+      page.drawText(title, {
+        x: 50,
+        y: height - 45,
+        size: 20,
+        font: helveticaBold,
+        color: whiteColor,
+      });
+      page.drawText(this.toWinAnsi(certificate.documentName, 80), {
+        x: 50,
+        y: height - 70,
+        size: 11,
+        font: helvetica,
+        color: rgb(0.95, 0.95, 0.95),
+      });
+
+      this.drawGradient(page, 0, 50, 10);
+      page.drawText('XSignature Digital Signature Platform', {
+        x: 50,
+        y: 30,
+        size: 10,
+        font: helveticaBold,
+        color: whiteColor,
+      });
+      page.drawText('Certificate generated on ' + certificate.generatedAt.toLocaleString(), {
+        x: 50,
+        y: 15,
+        size: 8,
+        font: helvetica,
+        color: rgb(0.9, 0.9, 0.9),
+      });
+      currentY = height - 140;
+    };
+
+    const ensureSpace = (needed: number) => {
+      if (currentY - needed < bottomMargin) {
+        page = pdfDoc.addPage(pageSize);
+        startPage('CERTIFICATE OF COMPLETION (CONT.)');
+      }
+    };
+
+    const drawSection = (title: string) => {
+      ensureSpace(60);
+      page.drawRectangle({
+        x: 40,
+        y: currentY - 10,
+        width: contentWidth + 20,
+        height: 30,
+        color: accentColor,
+      });
+      page.drawText(title, {
+        x: 50,
+        y: currentY,
+        size: 16,
+        font: helveticaBold,
+        color: primaryColor,
+      });
+      currentY -= 35;
+    };
+
+    const drawRows = (rows: { label: string; value: string; ok?: boolean }[]) => {
+      rows.forEach((row, index) => {
+        ensureSpace(25);
+        if (index % 2 === 0) {
+          page.drawRectangle({
+            x: 50,
+            y: currentY - 5,
+            width: contentWidth,
+            height: 20,
+            color: accentColor,
+          });
+        }
+        page.drawText(row.label, {
+          x: 60,
+          y: currentY,
+          size: 10,
+          font: helveticaBold,
+          color: secondaryColor,
+        });
+        page.drawText(this.toWinAnsi(row.value, 70), {
+          x: 210,
+          y: currentY,
+          size: row.value.length > 60 ? 8 : 10,
+          font: row.ok === undefined ? helvetica : helveticaBold,
+          color: row.ok === undefined ? secondaryColor : row.ok ? validColor : invalidColor,
+        });
+        currentY -= 22;
+      });
+    };
+
+    const formatDate = (value: Date | null) => (value ? new Date(value).toLocaleString() : 'Not available');
+
+    startPage('CERTIFICATE OF COMPLETION');
+
+    drawSection('DOCUMENT');
+    drawRows([
+      { label: 'File Name:', value: certificate.documentName },
+      { label: 'Document ID:', value: certificate.documentId },
+      { label: 'Pages:', value: String(certificate.pageCount) },
+      { label: 'SHA-256 at Upload:', value: certificate.originalSha256 || 'Not recorded' },
+      {
+        label: 'SHA-256 Now:',
+        value: certificate.currentSha256 || 'File unavailable',
+        ok: !!certificate.currentSha256 && certificate.currentSha256 === certificate.originalSha256,
+      },
+    ]);
+
+    currentY -= 15;
+    drawSection('SIGNERS');
+    if (certificate.signers.length === 0) {
+      drawRows([{ label: 'Signers:', value: 'None' }]);
+    }
+    certificate.signers.forEach((signer) => {
+      drawRows([
+        { label: 'Signer:', value: `${signer.name} (${signer.companyName})` },
+        { label: 'Certificate Serial:', value: signer.serialNumber || 'Self-signed (legacy)' },
+        { label: 'Pages:', value: signer.pages.join(', ') },
+        { label: 'Applied:', value: formatDate(signer.firstAppliedAt) },
+        ...(signer.appliedBy.length > 0
+          ? [{ label: 'Applied By:', value: `${signer.appliedBy.join(', ')} on behalf of ${signer.name}` }]
+          : []),
+        {
+          label: 'Timestamp:',
+          value: signer.timestampedAt
+            ? `${formatDate(signer.timestampedAt)} by ${signer.timestampAuthority || 'unknown TSA'}`
+            : 'None',
+        },
+      ]);
+      currentY -= 8;
+    });
+
+    currentY -= 15;
+    drawSection('AUDIT TRAIL');
+    drawRows([
+      {
+        label: 'Hash Chain:',
+        value: certificate.chain.valid
+          ? `Intact (${certificate.chain.eventCount} events)`
+          : `Broken at event #${certificate.chain.brokenAt}`,
+        ok: certificate.chain.valid,
+      },
+      { label: 'Chain Head:', value: certificate.chain.headHash || 'No events' },
+    ]);
+    currentY -= 10;
+
+    certificate.events.forEach((event) => {
+      ensureSpace(40);
+      const actor = [event.userEmail || event.userId || 'system', event.ipAddress].filter(Boolean).join(' from ');
+      page.drawText(`#${event.sequence}`, {
+        x: 50,
+        y: currentY,
+        size: 9,
+        font: helveticaBold,
+        color: primaryColor,
+      });
+      page.drawText(new Date(event.createdAt).toLocaleString(), {
+        x: 85,
+        y: currentY,
+        size: 9,
+        font: helvetica,
+        color: secondaryColor,
+      });
+      page.drawText(AUDIT_ACTION_LABELS[event.action] || event.action, {
+        x: 230,
+        y: currentY,
+        size: 9,
+        font: helveticaBold,
+        color: secondaryColor,
+      });
+      page.drawText(this.toWinAnsi(actor, 50), {
+        x: 350,
+        y: currentY,
+        size: 8,
+        font: helvetica,
+        color: secondaryColor,
+      });
+      page.drawText(`hash ${event.hash}`, {
+        x: 85,
+        y: currentY - 12,
+        size: 6.5,
+        font: courier,
+        color: rgb(0.45, 0.45, 0.5),
+      });
+      currentY -= 28;
+    });
+
+    certificate.chain.errors.forEach((error) => {
+      ensureSpace(20);
+      page.drawText('• ' + this.toWinAnsi(error, 90), {
+        x: 60,
+        y: currentY,
+        size: 9,
+        font: helvetica,
+        color: invalidColor,
+      });
+      currentY -= 16;
+    });
+
+    return pdfDoc.save({ useObjectStreams: false });
+  }
+
+  private drawGradient(page: PDFPage, y: number, bandHeight: number, steps: number) {
+    // Website gradient: linear-gradient(135deg, #3b82f6, #6366f1), simulated with stacked rectangles
+    const stepHeight = bandHeight / steps;
+    for (let i = 0; i < steps; i++) {
+      const ratio = i / (steps - 1);
+      const r = 0.23 + (0.39 - 0.23) * ratio;
+      const g = 0.51 + (0.40 - 0.51) * ratio;
+      const b = 0.96 + (0.95 - 0.96) * ratio;
+
+      page.drawRectangle({
+        x: 0,
+        y: y + (i * stepHeight),
+        width: page.getWidth(),
+        height: stepHeight,
+        color: rgb(r, g, b),
+      });
+    }
+  }
+
+  private toWinAnsi(value: string, maxLength: number): string {
+    // Standard fonts only cover WinAnsi; keep untrusted text drawable
+    const safe = value.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+    return safe.length > maxLength ? safe.slice(0, maxLength - 3) + '...' : safe;
+  }
+
   generateCertificateId(): string {
     const timestamp = Date.now().toString(36);
     const random = Math.random().toString(36).substring(2, 8);
     return `XS-${timestamp}-${random}`.toUpperCase();
   }
 
-  generateKeyPairAndCertificate(data: {
-    fullName: string;
-    companyName: string;
-    location: string;
-    email: string;
-  }): { certificate: string; privateKey: string } {
-    // Generate RSA key pair
-    const keyPair = forge.pki.rsa.generateKeyPair(2048);
-    
-    // Create certificate
-    const cert = forge.pki.createCertificate();
-    cert.publicKey = keyPair.publicKey;
-    cert.serialNumber = '01';
-    cert.validity.notBefore = new Date();
-    cert.validity.notAfter = new Date();
-    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 1);
-    
-    // Set subject and issuer
-    const attrs = [{
-      name: 'commonName',
-      value: data.fullName
-    }, {
-      name: 'organizationName',
-      value: data.companyName
-    }, {
-      name: 'localityName',
-      value: data.location
-    }, {
-      name: 'emailAddress',
-      value: data.email
-    }];
-    
-    cert.setSubject(attrs);
-    cert.setIssuer(attrs);
-    
-    // Set extensions
-    cert.setExtensions([{
-        name: 'basicConstraints',
-      cA: true
-    }, {
-        name: 'keyUsage',
-      keyCertSign: true,
-        digitalSignature: true,
-        nonRepudiation: true,
-      keyEncipherment: true,
-      dataEncipherment: true
-    }, {
-        name: 'extKeyUsage',
-      serverAuth: true,
-      clientAuth: true,
-      codeSigning: true,
-        emailProtection: true,
-        timeStamping: true
-    }, {
-      name: 'nsCertType',
-      client: true,
-      server: true,
-      email: true,
-      objsign: true,
-      sslCA: true,
-      emailCA: true,
-      objCA: true
-    }, {
-        name: 'subjectAltName',
-        altNames: [{
-        type: 6, // URI
-        value: `mailto:${data.email}`
-        }]
-    }]);
-    
-    // Sign certificate
-    cert.sign(keyPair.privateKey);
-    
-    // Convert to PEM format
-    const certificate = forge.pki.certificateToPem(cert);
-    const privateKey = forge.pki.privateKeyToPem(keyPair.privateKey);
-    
-    return { certificate, privateKey };
+  /**
+   * Issues a signer certificate from the firm CA (see CertificateAuthorityService)
+   * instead of a self-signed one, so signatures chain to a trusted root.
+   */
+  generateKeyPairAndCertificate(data: SignerSubject): IssuedCertificate {
+    return caService.issueSignerCertificate(data);
   }
 
   encryptPrivateKey(privateKey: string, password: string): string {
@@ -404,25 +798,46 @@ export class CertificateService {
     });
   }
 
-  validateCertificate(certificatePem: string): boolean {
+  decryptPrivateKey(encryptedPrivateKey: string, password: string): string {
+    const payload = JSON.parse(encryptedPrivateKey);
+    const key = crypto.pbkdf2Sync(
+      password,
+      Buffer.from(payload.salt, 'hex'),
+      payload.iterations,
+      payload.keyLength,
+      'sha256'
+    );
+
+    const decipher = crypto.createDecipheriv(payload.algorithm, key, Buffer.from(payload.iv, 'hex'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(payload.encrypted, 'hex')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  validateCertificate(certificatePem: string, at: Date = new Date(), revocation?: RevocationStatus | null): boolean {
     try {
       const cert = forge.pki.certificateFromPem(certificatePem);
-      const now = new Date();
       
-      // Check if certificate is valid
-      if (now < cert.validity.notBefore || now > cert.validity.notAfter) {
+      // Check if certificate is valid at the given moment (now by default)
+      if (at < cert.validity.notBefore || at > cert.validity.notAfter) {
+        return false;
+      }
+
+      // A revoked certificate stays valid for moments before its revocation
+      if (revocation?.revokedAt && new Date(revocation.revokedAt) <= at) {
         return false;
       }
       
       // Basic validation - certificate exists and is properly formatted
-      return cert.serialNumber && cert.publicKey;
+      return !!(cert.serialNumber && cert.publicKey);
     } catch (error) {
       console.error('Certificate validation error:', error);
       return false;
     }
   }
 
-  getCertificateInfo(certificatePem: string): any {
+  getCertificateInfo(certificatePem: string, at: Date = new Date(), revocation?: RevocationStatus | null): any {
     try {
       const cert = forge.pki.certificateFromPem(certificatePem);
 
@@ -432,7 +847,10 @@ export class CertificateService {
         serialNumber: cert.serialNumber,
         validFrom: cert.validity.notBefore,
         validTo: cert.validity.notAfter,
-        isValid: this.validateCertificate(certificatePem)
+        isValid: this.validateCertificate(certificatePem, at, revocation),
+        revoked: !!revocation?.revokedAt,
+        revokedAt: revocation?.revokedAt || null,
+        revocationReason: revocation?.revocationReason || null
       };
     } catch (error) {
       console.error('Certificate info extraction error:', error);
@@ -442,7 +860,10 @@ export class CertificateService {
         serialNumber: 'Unknown',
         validFrom: null,
         validTo: null,
-        isValid: false
+        isValid: false,
+        revoked: false,
+        revokedAt: null,
+        revocationReason: null
       };
     }
   }
@@ -0,0 +1,395 @@
+import forge from "node-forge";
+import crypto from "crypto";
+
+const asn1 = forge.asn1;
+
+// OIDs that node-forge does not ship in forge.pki.oids
+export const CMS_OIDS = {
+  data: "1.2.840.113549.1.7.1",
+  signedData: "1.2.840.113549.1.7.2",
+  contentType: "1.2.840.113549.1.9.3",
+  messageDigest: "1.2.840.113549.1.9.4",
+  signingTime: "1.2.840.113549.1.9.5",
+  signingCertificateV2: "1.2.840.113549.1.9.16.2.47",
+  sha1: "1.3.14.3.2.26",
+  sha256: "2.16.840.1.101.3.4.2.1",
+  sha384: "2.16.840.1.101.3.4.2.2",
+  sha512: "2.16.840.1.101.3.4.2.3",
+  rsaEncryption: "1.2.840.113549.1.1.1",
+  sha256WithRSAEncryption: "1.2.840.113549.1.1.11",
+};
+
+export interface CmsSigner {
+  certificatePem: string;
+  privateKeyPem: string;
+  chainPems?: string[];
+}
+
+export interface CmsAttribute {
+  type: string;
+  values: forge.asn1.Asn1[];
+}
+
+export interface ParsedSignerInfo {
+  serialNumber: string;
+  digestAlgorithm: string;
+  signatureAlgorithm: string;
+  signature: Buffer;
+  // Signed attributes re-encoded as a SET OF, i.e. the bytes that were signed
+  signedAttributesDer: Buffer | null;
+  contentType: string | null;
+  messageDigest: Buffer | null;
+  signingTime: Date | null;
+  unsignedAttributes: CmsAttribute[];
+}
+
+export interface ParsedSignedData {
+  contentType: string;
+  content: Buffer | null;
+  certificates: Buffer[];
+  signerInfos: ParsedSignerInfo[];
+}
+
+export interface SignerVerification {
+  signerCertificate: crypto.X509Certificate | null;
+  digestMatches: boolean;
+  signatureValid: boolean;
+  errors: string[];
+}
+
+const DIGEST_NAMES: Record<string, string> = {
+  [CMS_OIDS.sha1]: "sha1",
+  [CMS_OIDS.sha256]: "sha256",
+  [CMS_OIDS.sha384]: "sha384",
+  [CMS_OIDS.sha512]: "sha512",
+};
+
+export function digestAlgorithmName(algorithmOid: string): string {
+  return DIGEST_NAMES[algorithmOid] || algorithmOid;
+}
+
+export interface CreateSignedDataOptions {
+  content: Buffer;
+  contentType?: string;
+  detached?: boolean;
+  signingTime?: Date;
+  extraSignedAttributes?: CmsAttribute[];
+  unsignedAttributes?: CmsAttribute[];
+}
+
+function oid(value: string) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes());
+}
+
+function algorithmIdentifier(value: string) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    oid(value),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ""),
+  ]);
+}
+
+function octetString(bytes: string) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes);
+}
+
+function attribute(attr: CmsAttribute) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    oid(attr.type),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, attr.values),
+  ]);
+}
+
+function toBinary(buffer: Buffer): string {
+  return buffer.toString("binary");
+}
+
+export function sha256(data: Buffer | string): Buffer {
+  return crypto.createHash("sha256").update(data).digest();
+}
+
+function children(node: forge.asn1.Asn1): forge.asn1.Asn1[] {
+  return Array.isArray(node.value) ? node.value : [];
+}
+
+function bytesOf(node: forge.asn1.Asn1): Buffer {
+  return Buffer.from(typeof node.value === "string" ? node.value : "", "binary");
+}
+
+function normalizeSerial(hex: string): string {
+  return hex.toLowerCase().replace(/^0+(?=.)/, "");
+}
+
+/**
+ * Trims trailing padding from a DER blob, e.g. the zero-filled remainder of a
+ * PDF /Contents placeholder.
+ */
+export function trimDer(buffer: Buffer): Buffer {
+  if (buffer.length < 2) return buffer;
+  const first = buffer[1];
+  if (first < 0x80) return buffer.subarray(0, 2 + first);
+  const lengthBytes = first & 0x7f;
+  const length = buffer.readUIntBE(2, lengthBytes);
+  return buffer.subarray(0, 2 + lengthBytes + length);
+}
+
+/**
+ * Minimal CMS (RFC 5652) SignedData builder. node-forge's pkcs7 helper only
+ * understands three signed attributes and cannot add unsigned ones, which
+ * PAdES and RFC 3161 both need, so the structure is assembled here directly.
+ */
+export class CmsService {
+  createSignedData(signer: CmsSigner, options: CreateSignedDataOptions): Buffer {
+    const certificate = forge.pki.certificateFromPem(signer.certificatePem);
+    const privateKey = forge.pki.privateKeyFromPem(signer.privateKeyPem) as forge.pki.rsa.PrivateKey;
+    const chain = (signer.chainPems || []).map((pem) => forge.pki.certificateFromPem(pem));
+    const contentType = options.contentType || CMS_OIDS.data;
+
+    const certificateDer = asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+
+    // ESS signing-certificate-v2 binds the signer certificate to the signature (required by PAdES)
+    const essCertIdV2 = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+          octetString(toBinary(sha256(Buffer.from(certificateDer, "binary")))),
+        ]),
+      ]),
+    ]);
+
+    const signedAttributes: CmsAttribute[] = [
+      { type: CMS_OIDS.contentType, values: [oid(contentType)] },
+      { type: CMS_OIDS.messageDigest, values: [octetString(toBinary(sha256(options.content)))] },
+      { type: CMS_OIDS.signingCertificateV2, values: [essCertIdV2] },
+    ];
+
+    if (options.signingTime) {
+      signedAttributes.push({
+        type: CMS_OIDS.signingTime,
+        values: [asn1.create(asn1.Class.UNIVERSAL, asn1.Type.UTCTIME, false, asn1.dateToUtcTime(options.signingTime))],
+      });
+    }
+    signedAttributes.push(...(options.extraSignedAttributes || []));
+
+    // Signed attributes are digested as a SET OF, then embedded as [0] IMPLICIT
+    const signedAttributesSet = asn1.create(
+      asn1.Class.UNIVERSAL,
+      asn1.Type.SET,
+      true,
+      signedAttributes.map(attribute)
+    );
+    const md = forge.md.sha256.create();
+    md.update(asn1.toDer(signedAttributesSet).getBytes());
+    const signature = privateKey.sign(md);
+
+    const signerInfoValues = [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        forge.pki.distinguishedNameToAsn1(certificate.issuer),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, forge.util.hexToBytes(certificate.serialNumber)),
+      ]),
+      algorithmIdentifier(CMS_OIDS.sha256),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, signedAttributes.map(attribute)),
+      algorithmIdentifier(CMS_OIDS.rsaEncryption),
+      octetString(signature),
+    ];
+
+    if (options.unsignedAttributes && options.unsignedAttributes.length > 0) {
+      signerInfoValues.push(
+        asn1.create(asn1.Class.CONTEXT_SPECIFIC, 1, true, options.unsignedAttributes.map(attribute))
+      );
+    }
+    const signerInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, signerInfoValues);
+
+    const encapContentInfoValues = [oid(contentType)];
+    if (!options.detached) {
+      encapContentInfoValues.push(
+        asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [octetString(toBinary(options.content))])
+      );
+    }
+    const encapContentInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, encapContentInfoValues);
+
+    const signedData = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(
+        asn1.Class.UNIVERSAL,
+        asn1.Type.INTEGER,
+        false,
+        asn1.integerToDer(contentType === CMS_OIDS.data ? 1 : 3).getBytes()
+      ),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [algorithmIdentifier(CMS_OIDS.sha256)]),
+      encapContentInfo,
+      asn1.create(
+        asn1.Class.CONTEXT_SPECIFIC,
+        0,
+        true,
+        [certificate, ...chain].map((cert) => forge.pki.certificateToAsn1(cert))
+      ),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [signerInfo]),
+    ]);
+
+    const contentInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      oid(CMS_OIDS.signedData),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+    ]);
+
+    return Buffer.from(asn1.toDer(contentInfo).getBytes(), "binary");
+  }
+
+  createDetachedSignature(signer: CmsSigner, content: Buffer, signingTime?: Date): Buffer {
+    return this.createSignedData(signer, { content, detached: true, signingTime });
+  }
+
+  /**
+   * Appends an unsigned attribute (e.g. a signature timestamp) to the first
+   * signer. Unsigned attributes are outside the signature, so the existing
+   * signature value stays valid.
+   */
+  addUnsignedAttribute(der: Buffer, attr: CmsAttribute): Buffer {
+    const contentInfo = asn1.fromDer(trimDer(der).toString("binary"));
+    const signedData = children(children(contentInfo)[1])[0];
+    // Skip version and digestAlgorithms (also a SET) to reach signerInfos
+    const signerInfos = children(signedData).slice(3).find(
+      (part) => part.tagClass === asn1.Class.UNIVERSAL && part.type === asn1.Type.SET
+    );
+    const signerInfo = signerInfos && children(signerInfos)[0];
+    if (!signerInfo) {
+      throw new Error("CMS structure contains no signer");
+    }
+
+    const parts = children(signerInfo);
+    const last = parts[parts.length - 1];
+    if (last.tagClass === asn1.Class.CONTEXT_SPECIFIC && last.type === 1) {
+      children(last).push(attribute(attr));
+    } else {
+      parts.push(asn1.create(asn1.Class.CONTEXT_SPECIFIC, 1, true, [attribute(attr)]));
+    }
+
+    return Buffer.from(asn1.toDer(contentInfo).getBytes(), "binary");
+  }
+
+  parseSignedData(der: Buffer): ParsedSignedData {
+    const contentInfo = asn1.fromDer(trimDer(der).toString("binary"));
+    const [contentInfoType, wrapped] = children(contentInfo);
+    if (!contentInfoType || asn1.derToOid(contentInfoType.value as string) !== CMS_OIDS.signedData) {
+      throw new Error("Not a CMS SignedData structure");
+    }
+
+    const signedData = children(wrapped)[0];
+    const parts = children(signedData);
+    const encapContentInfo = parts[2];
+    const [eContentType, eContent] = children(encapContentInfo);
+
+    let certificates: Buffer[] = [];
+    let signerInfosNode: forge.asn1.Asn1 | undefined;
+    for (const part of parts.slice(3)) {
+      if (part.tagClass === asn1.Class.CONTEXT_SPECIFIC && part.type === 0) {
+        certificates = children(part).map((cert) => Buffer.from(asn1.toDer(cert).getBytes(), "binary"));
+      } else if (part.tagClass === asn1.Class.UNIVERSAL && part.type === asn1.Type.SET) {
+        signerInfosNode = part;
+      }
+    }
+
+    return {
+      contentType: asn1.derToOid(eContentType.value as string),
+      content: eContent ? bytesOf(children(eContent)[0]) : null,
+      certificates,
+      signerInfos: signerInfosNode ? children(signerInfosNode).map((node) => this.parseSignerInfo(node)) : [],
+    };
+  }
+
+  private parseSignerInfo(node: forge.asn1.Asn1): ParsedSignerInfo {
+    const parts = children(node);
+    const sid = parts[1];
+    const serialNode = children(sid)[1];
+
+    let index = 3;
+    let signedAttributes: forge.asn1.Asn1 | null = null;
+    if (parts[index].tagClass === asn1.Class.CONTEXT_SPECIFIC && parts[index].type === 0) {
+      signedAttributes = parts[index++];
+    }
+    const signatureAlgorithm = asn1.derToOid(children(parts[index++])[0].value as string);
+    const signature = bytesOf(parts[index++]);
+    const unsignedNode = parts[index];
+
+    const info: ParsedSignerInfo = {
+      serialNumber: serialNode ? normalizeSerial(forge.util.bytesToHex(serialNode.value as string)) : "",
+      digestAlgorithm: asn1.derToOid(children(parts[2])[0].value as string),
+      signatureAlgorithm,
+      signature,
+      signedAttributesDer: null,
+      contentType: null,
+      messageDigest: null,
+      signingTime: null,
+      unsignedAttributes: unsignedNode ? children(unsignedNode).map((attr) => this.parseAttribute(attr)) : [],
+    };
+
+    if (signedAttributes) {
+      const set = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, children(signedAttributes));
+      info.signedAttributesDer = Buffer.from(asn1.toDer(set).getBytes(), "binary");
+
+      for (const attr of children(signedAttributes).map((a) => this.parseAttribute(a))) {
+        const value = attr.values[0];
+        if (!value) continue;
+        if (attr.type === CMS_OIDS.contentType) {
+          info.contentType = asn1.derToOid(value.value as string);
+        } else if (attr.type === CMS_OIDS.messageDigest) {
+          info.messageDigest = bytesOf(value);
+        } else if (attr.type === CMS_OIDS.signingTime) {
+          info.signingTime =
+            value.type === asn1.Type.UTCTIME
+              ? asn1.utcTimeToDate(value.value as string)
+              : asn1.generalizedTimeToDate(value.value as string);
+        }
+      }
+    }
+
+    return info;
+  }
+
+  private parseAttribute(node: forge.asn1.Asn1): CmsAttribute {
+    const [type, values] = children(node);
+    return { type: asn1.derToOid(type.value as string), values: values ? children(values) : [] };
+  }
+
+  /**
+   * Checks a signer against detached (or encapsulated) content: the
+   * message-digest attribute and the signature over the signed attributes.
+   */
+  verifySigner(parsed: ParsedSignedData, signerInfo: ParsedSignerInfo, content: Buffer): SignerVerification {
+    const errors: string[] = [];
+    const digestName = DIGEST_NAMES[signerInfo.digestAlgorithm];
+
+    const signerCertificate =
+      parsed.certificates
+        .map((der) => new crypto.X509Certificate(der))
+        .find((cert) => normalizeSerial(cert.serialNumber) === signerInfo.serialNumber) || null;
+
+    if (!signerCertificate) errors.push("Signer certificate is not embedded in the signature");
+    if (!digestName) errors.push(`Unsupported digest algorithm ${signerInfo.digestAlgorithm}`);
+    if (!signerCertificate || !digestName) {
+      return { signerCertificate, digestMatches: false, signatureValid: false, errors };
+    }
+
+    const contentDigest = crypto.createHash(digestName).update(content).digest();
+    let digestMatches: boolean;
+    let signedBytes: Buffer;
+    if (signerInfo.signedAttributesDer) {
+      digestMatches = !!signerInfo.messageDigest && signerInfo.messageDigest.equals(contentDigest);
+      signedBytes = signerInfo.signedAttributesDer;
+    } else {
+      digestMatches = true;
+      signedBytes = content;
+    }
+    if (!digestMatches) errors.push("Document digest does not match the signed message digest");
+
+    let signatureValid = false;
+    try {
+      signatureValid = crypto.verify(digestName, signedBytes, signerCertificate.publicKey, signerInfo.signature);
+    } catch (error: any) {
+      errors.push(`Signature check failed: ${error.message}`);
+    }
+    if (!signatureValid && errors.length === 0) errors.push("Signature value does not verify");
+
+    return { signerCertificate, digestMatches, signatureValid, errors };
+  }
+}
+
+export const cmsService = new CmsService();
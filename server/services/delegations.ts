@@ -0,0 +1,171 @@
+import { storage } from "../storage";
+import { folderService } from "./folders";
+import {
+  type CreateDelegation,
+  type DelegatedPlacement,
+  type DelegationRequest,
+  type DigitalSignature,
+  type InsertAppliedSignature,
+  type PdfDocument,
+  type SignatureDelegation,
+} from "@shared/schema";
+
+// Recorded on every stamp a delegate places
+export type OnBehalfOf = Required<Pick<InsertAppliedSignature, "appliedBy" | "appliedByName" | "delegationId">>;
+
+/**
+ * Delegated signing: a signature's owner lets another user apply it on their
+ * behalf, on every document, on listed documents or on a matter's documents,
+ * until a set date. A delegation can require the owner to approve each use;
+ * the delegate's placement then waits as a request. Stamps placed through a
+ * delegation record who placed them.
+ */
+export class DelegationService {
+  async grant(ownerId: string, data: CreateDelegation): Promise<SignatureDelegation> {
+    const signature = await storage.getUserSignature(data.signatureId, ownerId);
+    if (!signature) {
+      throw new Error("Signature not found");
+    }
+    if (signature.revokedAt) {
+      throw new Error("A revoked signature cannot be delegated");
+    }
+    if (data.expiresAt <= new Date()) {
+      throw new Error("The expiry must be in the future");
+    }
+
+    const delegate = await storage.getUserByEmail(data.delegateEmail);
+    if (!delegate) {
+      throw new Error(`No account is registered for ${data.delegateEmail}`);
+    }
+    if (delegate.id === ownerId) {
+      throw new Error("You cannot delegate a signature to yourself");
+    }
+
+    let documentIds: string[] = [];
+    let folderId: string | null = null;
+    if (data.scope === "documents") {
+      documentIds = Array.from(new Set(data.documentIds));
+      for (const documentId of documentIds) {
+        if (!(await storage.getAccessibleDocument(documentId, ownerId))) {
+          throw new Error("Document not found");
+        }
+      }
+    } else if (data.scope === "matter") {
+      if (!(await storage.getUserFolder(data.folderId!, ownerId))) {
+        throw new Error("Folder not found");
+      }
+      folderId = data.folderId;
+    }
+
+    const delegation = await storage.createDelegation({
+      signatureId: signature.id,
+      ownerId,
+      delegateId: delegate.id,
+      scope: data.scope,
+      documentIds,
+      folderId,
+      requiresApproval: data.requiresApproval,
+      expiresAt: data.expiresAt,
+    });
+    console.log(`Delegation ${delegation.id}: user ${delegate.id} may apply signature ${signature.id} (${data.scope})`);
+    return delegation;
+  }
+
+  async revoke(ownerId: string, delegationId: string): Promise<SignatureDelegation> {
+    const delegation = await storage.getDelegation(delegationId);
+    if (!delegation || delegation.ownerId !== ownerId) {
+      throw new Error("Delegation not found");
+    }
+    if (delegation.revokedAt) {
+      throw new Error("This delegation is already revoked");
+    }
+
+    const revoked = await storage.revokeDelegation(delegation.id);
+    console.log(`Delegation ${delegation.id} revoked by its owner`);
+    return revoked || delegation;
+  }
+
+  /**
+   * The delegation that lets the delegate apply the signature to the
+   * document, preferring one that needs no approval; undefined if none does.
+   */
+  async findDelegation(
+    signature: DigitalSignature,
+    delegateId: string,
+    document: PdfDocument
+  ): Promise<SignatureDelegation | undefined> {
+    const delegations = await storage.getActiveDelegations(signature.id, delegateId);
+    const covering = [];
+    for (const delegation of delegations) {
+      if (await this.covers(delegation, document)) {
+        covering.push(delegation);
+      }
+    }
+    return covering.find((delegation) => !delegation.requiresApproval) || covering[0];
+  }
+
+  isActive(delegation: SignatureDelegation): boolean {
+    return !delegation.revokedAt && delegation.expiresAt > new Date();
+  }
+
+  async covers(delegation: SignatureDelegation, document: PdfDocument): Promise<boolean> {
+    // Never further than the owner could sign themselves, so a delegate cannot
+    // put the owner's signature on documents of their own
+    if (!(await storage.getAccessibleDocument(document.id, delegation.ownerId))) {
+      return false;
+    }
+    switch (delegation.scope) {
+      case "all":
+        return true;
+      case "documents":
+        return delegation.documentIds.includes(document.id);
+      case "matter": {
+        if (!delegation.folderId || !document.folderId || document.userId !== delegation.ownerId) {
+          return false;
+        }
+        const ownerFolders = await storage.getUserFolders(delegation.ownerId);
+        return folderService.getSubtreeIds(ownerFolders, delegation.folderId).includes(document.folderId);
+      }
+      default:
+        return false;
+    }
+  }
+
+  async requestApproval(
+    delegation: SignatureDelegation,
+    document: PdfDocument,
+    placement: DelegatedPlacement
+  ): Promise<DelegationRequest> {
+    const request = await storage.createDelegationRequest(delegation.id, document.id, placement);
+    console.log(`Delegation ${delegation.id}: use on document ${document.id} awaits approval (request ${request.id})`);
+    return request;
+  }
+
+  /**
+   * Everything needed to carry out a pending request for its owner. Fails
+   * if the delegation ended or no longer covers the document since.
+   */
+  async getRequestForOwner(ownerId: string, requestId: string) {
+    const request = await storage.getDelegationRequest(requestId);
+    const delegation = request && (await storage.getDelegation(request.delegationId));
+    if (!request || !delegation || delegation.ownerId !== ownerId) {
+      throw new Error("Request not found");
+    }
+    if (request.status !== "pending") {
+      throw new Error(`This request was already ${request.status}`);
+    }
+    return { request, delegation };
+  }
+
+  /** What every stamp placed through the delegation records. */
+  async onBehalfOf(delegation: SignatureDelegation): Promise<OnBehalfOf> {
+    const delegate = await storage.getUser(delegation.delegateId);
+    return {
+      appliedBy: delegation.delegateId,
+      appliedByName: delegate?.fullName || "Unknown user",
+      delegationId: delegation.id,
+    };
+  }
+}
+
+export const delegationService = new DelegationService();
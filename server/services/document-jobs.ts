@@ -0,0 +1,276 @@
+import crypto from "crypto";
+import archiver from "archiver";
+import { storage } from "../storage";
+import { pdfService } from "./pdf";
+import { auditService, type AuditContext } from "./audit";
+import { versionService } from "./version";
+import { fileStorage } from "./file-storage";
+import { pageImageService } from "./page-images";
+import { searchService } from "./search";
+import { jobQueue, type JobContext } from "./jobs";
+import { type Job, type JobResult, type PdfDocument } from "@shared/schema";
+
+interface ProcessPayload {
+  context: AuditContext;
+}
+
+interface RenderPayload {
+  context: AuditContext;
+  flattenForm: boolean;
+}
+
+interface ExportPayload {
+  context: AuditContext;
+  documentIds: string[];
+  flattenForms: boolean;
+  fileName?: string; // The folder's name when a whole folder is exported
+}
+
+// "a.pdf", "a.pdf" -> "a.pdf", "a (2).pdf"
+function uniqueNamer(): (name: string) => string {
+  const used = new Map<string, number>();
+  return (name) => {
+    const count = (used.get(name) || 0) + 1;
+    used.set(name, count);
+    if (count === 1) return name;
+    const dot = name.lastIndexOf(".");
+    return dot > 0 ? `${name.slice(0, dot)} (${count})${name.slice(dot)}` : `${name} (${count})`;
+  };
+}
+
+/**
+ * A ZIP archive written to file storage while entries are added. Each entry
+ * is handed to the archive and waited for before the next one is made, so a
+ * large export never sits in memory whole.
+ */
+function storeZip(key: string) {
+  // PDFs are already compressed
+  const archive = archiver("zip", { zlib: { level: 0 } });
+  archive.on("warning", (warning) => console.warn("Archive warning:", warning));
+  const stored = fileStorage.putStream(key, archive);
+  // Awaited in finish; keeps a failure before then from going unhandled
+  stored.catch(() => {});
+
+  return {
+    async add(name: string, bytes: Uint8Array) {
+      await new Promise<void>((resolve, reject) => {
+        const written = () => {
+          archive.off("error", reject);
+          resolve();
+        };
+        archive.once("entry", written);
+        archive.once("error", reject);
+        archive.append(Buffer.from(bytes), { name, date: new Date(), store: true });
+      });
+    },
+
+    async finish(): Promise<{ filePath: string; size: number }> {
+      await archive.finalize();
+      return { filePath: await stored, size: archive.pointer() };
+    },
+
+    /** Stops writing; the partly stored archive is discarded. */
+    async abort(reason: Error) {
+      archive.destroy(reason);
+      await stored.catch(() => {});
+    },
+  };
+}
+
+/**
+ * Page count, page sizes, form fields and searchable text of a freshly
+ * uploaded document, followed by its upload audit event and version 1. Safe
+ * to retry: fields, the audit event and the version are only created once.
+ */
+async function processUploadedDocument(job: Job, { progress }: JobContext): Promise<JobResult | void> {
+  const document = await storage.getDocument(job.documentId!);
+  if (!document) {
+    console.log(`Document ${job.documentId} was deleted before it was processed`);
+    return;
+  }
+  const { context } = job.payload as ProcessPayload;
+
+  await storage.updateDocumentStatus(document.id, "processing");
+  await progress(10, "Reading pages");
+  const { pageCount, pageSizes, formFields } = await pdfService.processDocument(document.filePath);
+
+  await progress(60, "Saving page layout");
+  await storage.updateDocumentStatus(document.id, "processed", pageCount, JSON.stringify(pageSizes));
+
+  // Fields of the PDF's own form become the owner's fields
+  if (formFields.length > 0 && (await storage.getDocumentFields(document.id)).length === 0) {
+    await storage.createDocumentFields(
+      formFields.map((formField) => ({
+        documentId: document.id,
+        name: formField.name,
+        type: formField.type,
+        role: "Owner",
+        recipientId: null,
+        pageNumber: formField.pageNumber,
+        position: { gridPosition: "pdf", ...formField.rect },
+        required: formField.required,
+        groupName: formField.groupName,
+        maxLength: formField.maxLength,
+        options: formField.options,
+        formFieldName: formField.formFieldName,
+        value: formField.value,
+        filledAt: formField.value !== null ? new Date() : null,
+      }))
+    );
+    console.log(`Stored ${formFields.length} form field(s) of document ${document.id}`);
+  }
+
+  await progress(70, "Indexing text");
+  await indexText(document);
+
+  await progress(80, "Recording the upload");
+  const events = await storage.getDocumentAuditEvents(document.id);
+  const uploaded =
+    events.find((event) => event.action === "document.uploaded") ||
+    (await auditService.record(context, "document.uploaded", document, {
+      originalName: document.originalName,
+      fileSize: document.fileSize,
+      pageCount,
+      formFields: formFields.length,
+    }));
+  await versionService.recordOriginal(document, uploaded);
+
+  // Page images take a while and are not needed to open the document
+  await queuePageImages(document.id, job.userId);
+  return { documentIds: [document.id] };
+}
+
+// A PDF whose text cannot be read is still a usable document
+async function indexText(document: PdfDocument) {
+  try {
+    await searchService.indexDocument(document);
+  } catch (error: any) {
+    console.error(`Could not index the text of document ${document.id}:`, error.message);
+  }
+}
+
+/** Queues rendering of the document's page images unless it is already queued. */
+export async function queuePageImages(documentId: string, userId: string): Promise<Job> {
+  return (
+    (await storage.getActiveDocumentJob(documentId, "document.thumbnails")) ||
+    (await jobQueue.enqueue("document.thumbnails", { userId, documentId }))
+  );
+}
+
+async function renderPageImages(job: Job, { progress }: JobContext): Promise<JobResult | void> {
+  const document = await storage.getDocument(job.documentId!);
+  if (!document) {
+    console.log(`Document ${job.documentId} was deleted before its pages were rendered`);
+    return;
+  }
+
+  await progress(5, "Rendering pages");
+  await pageImageService.renderDocument(document, (rendered, total) =>
+    progress(5 + (rendered / total) * 90, `Rendered page ${rendered} of ${total}`)
+  );
+
+  // Documents created from templates or uploaded before search existed
+  if (!document.textIndexedAt) {
+    await progress(95, "Indexing text");
+    await indexText(document);
+  }
+  return { documentIds: [document.id] };
+}
+
+async function renderForDownload(document: PdfDocument, context: AuditContext, flatten: boolean, details: object) {
+  // Finalized documents go out as their sealed copy, unflattened
+  const flattenForm = flatten && !document.isReadOnly;
+  const bytes = Buffer.from(await versionService.getSignedDocument(document, { flattenForm }));
+  await auditService.record(context, "document.downloaded", document, {
+    outputSha256: crypto.createHash("sha256").update(bytes).digest("hex"),
+    flattened: flattenForm,
+    ...details,
+  });
+  return bytes;
+}
+
+async function renderSignedDocument(job: Job, { progress }: JobContext): Promise<JobResult> {
+  const document = await storage.getAccessibleDocument(job.documentId!, job.userId);
+  if (!document) {
+    throw new Error("Document not found");
+  }
+  const { context, flattenForm } = job.payload as RenderPayload;
+
+  await progress(20, "Rendering signed PDF");
+  const bytes = await renderForDownload(document, context, flattenForm, { jobId: job.id });
+
+  await progress(90, "Saving");
+  const filePath = await fileStorage.put(fileStorage.newKey("render"), bytes);
+  return {
+    filePath,
+    fileName: document.originalName,
+    contentType: "application/pdf",
+    fileSize: bytes.length,
+    documentIds: [document.id],
+  };
+}
+
+async function exportDocuments(job: Job, { progress }: JobContext): Promise<JobResult> {
+  const { context, documentIds, flattenForms, fileName } = job.payload as ExportPayload;
+  const uniqueName = uniqueNamer();
+  const exported: string[] = [];
+  const skipped: string[] = [];
+  // Started with the first rendered document, so a failed export stores nothing
+  let zip: ReturnType<typeof storeZip> | undefined;
+
+  try {
+    for (let index = 0; index < documentIds.length; index++) {
+      const documentId = documentIds[index];
+      await progress((index / documentIds.length) * 90, `Rendering ${index + 1} of ${documentIds.length}`);
+      const document = await storage.getAccessibleDocument(documentId, job.userId);
+      if (!document) {
+        skipped.push(documentId);
+        continue;
+      }
+
+      let bytes: Uint8Array;
+      try {
+        bytes = await renderForDownload(document, context, flattenForms, { bulk: true, jobId: job.id });
+      } catch (error: any) {
+        console.error(`Error rendering ${document.originalName} for export:`, error.message);
+        skipped.push(documentId);
+        continue;
+      }
+      zip ??= storeZip(fileStorage.newKey("export", "zip"));
+      await zip.add(uniqueName(document.originalName), bytes);
+      exported.push(document.id);
+    }
+
+    if (!zip) {
+      throw new Error("No documents could be processed");
+    }
+
+    await progress(95, "Saving ZIP");
+    const { filePath, size } = await zip.finish();
+    return {
+      filePath,
+      fileName: fileName || "XSignature.zip",
+      contentType: "application/zip",
+      fileSize: size,
+      documentIds: exported,
+      skipped,
+    };
+  } catch (error: any) {
+    await zip?.abort(error);
+    throw error;
+  }
+}
+
+/** Registers the handlers of every document job with the queue. */
+export function registerDocumentJobs() {
+  jobQueue.register("document.process", processUploadedDocument, {
+    onFailure: async (job) => {
+      if (job.documentId) {
+        await storage.updateDocumentStatus(job.documentId, "error");
+      }
+    },
+  });
+  jobQueue.register("document.thumbnails", renderPageImages);
+  jobQueue.register("document.render", renderSignedDocument);
+  jobQueue.register("documents.export", exportDocuments);
+}
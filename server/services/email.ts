@@ -1,11 +1,70 @@
 import nodemailer from "nodemailer";
+import fs from "fs";
+import path from "path";
+import { type PasswordResetMethod } from "@shared/schema";
 
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+function getAppUrl(): string {
+  return process.env.APP_URL || "http://localhost:5000";
+}
+
+function getOutboxDirectory(): string {
+  // Vercel serverless only has /tmp as writable directory
+  return process.env.EMAIL_OUTBOX_DIR || (process.env.VERCEL ? "/tmp/xsignature-outbox" : ".outbox");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function layout(body: string): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      ${body}
+      <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+      <p style="color: #888; font-size: 12px;">Sent by XSignature on behalf of the document owner.</p>
+    </div>
+  `;
+}
+
+function button(url: string, label: string): string {
+  return `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${url}" style="background-color: #1976D2; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+        ${label}
+      </a>
+    </div>
+    <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
+    <p style="word-break: break-all; color: #666;">${url}</p>
+  `;
+}
+
+/**
+ * Outgoing mail. With EMAIL_USER/EMAIL_PASS set, messages go out over SMTP;
+ * otherwise (or with EMAIL_TRANSPORT=local) they are written as JSON files to
+ * a local outbox directory so links can be followed during development and
+ * tests without a mail server.
+ */
 export class EmailService {
-  private transporter: nodemailer.Transporter | null = null;
+  private transporter: nodemailer.Transporter;
+  private isLocal: boolean;
 
   constructor() {
-    // Only create transporter if email credentials are provided
-    if (process.env.EMAIL_USER && process.env.EMAIL_PASS) {
+    this.isLocal = process.env.EMAIL_TRANSPORT === "local" || !(process.env.EMAIL_USER && process.env.EMAIL_PASS);
+
+    if (this.isLocal) {
+      this.transporter = nodemailer.createTransport({ jsonTransport: true });
+    } else {
       this.transporter = nodemailer.createTransport({
         host: process.env.EMAIL_HOST || "smtp.gmail.com",
         port: parseInt(process.env.EMAIL_PORT || "587"),
@@ -19,18 +78,15 @@ export class EmailService {
   }
 
   async sendVerificationEmail(email: string, fullName: string, token: string) {
-    const verificationUrl = `${process.env.APP_URL || 'http://localhost:5000'}/verify-email?token=${token}`;
-    
-    if (this.transporter) {
-      // Production: Send actual email
-      const mailOptions = {
-        from: process.env.EMAIL_USER || "noreply@digisign.com",
-        to: email,
-        subject: "Verify Your XSignature Account",
-        html: `
+    const verificationUrl = `${getAppUrl()}/verify-email?token=${token}`;
+
+    await this.send({
+      to: email,
+      subject: "Verify Your XSignature Account",
+      html: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
             <h1 style="color: #1976D2;">Welcome to XSignature</h1>
-            <p>Hello ${fullName},</p>
+            <p>Hello ${escapeHtml(fullName)},</p>
             <p>Thank you for registering with XSignature. Please click the button below to verify your email address:</p>
             <div style="text-align: center; margin: 30px 0;">
               <a href="${verificationUrl}" style="background-color: #1976D2; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
@@ -46,10 +102,9 @@ export class EmailService {
             </p>
           </div>
         `,
-      };
+    });
 
-      await this.transporter.sendMail(mailOptions);
-    } else {
+    if (this.isLocal) {
       // Development: Log verification link to console
       console.log('\n📧 EMAIL VERIFICATION LINK (Development Mode)');
       console.log('==============================================');
@@ -59,6 +114,161 @@ export class EmailService {
       console.log('==============================================\n');
     }
   }
+
+  async sendPasswordReset(notice: { to: string; name: string; token: string; expiresAt: Date }) {
+    const resetUrl = `${getAppUrl()}/reset-password?token=${notice.token}`;
+
+    await this.send({
+      to: notice.to,
+      subject: "Reset Your XSignature Password",
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #1976D2;">Reset Your Password</h1>
+            <p>Hello ${escapeHtml(notice.name)},</p>
+            <p>Someone asked to reset the password of your XSignature account. Click the button below to choose a new one:</p>
+            ${button(resetUrl, "Choose a New Password")}
+            <p>This link works once and expires on ${notice.expiresAt.toUTCString()}.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+            <p style="color: #888; font-size: 12px;">
+              If you didn't ask for this, ignore this email; your password stays the same.
+            </p>
+          </div>
+        `,
+    });
+
+    if (this.isLocal) {
+      console.log(`📧 Password reset link for ${notice.to}: ${resetUrl}`);
+    }
+  }
+
+  async sendPasswordChanged(notice: { to: string; name: string; method: PasswordResetMethod }) {
+    const how = notice.method === "email" ? "a reset link sent to this address" : "your security questions";
+
+    await this.send({
+      to: notice.to,
+      subject: "Your XSignature Password Was Changed",
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #1976D2;">Password Changed</h1>
+            <p>Hello ${escapeHtml(notice.name)},</p>
+            <p>The password of your XSignature account was just reset using ${how}, and every session was signed out.</p>
+            <p>If this wasn't you, reset your password again right away and check your security questions in your account settings.</p>
+          </div>
+        `,
+    });
+  }
+
+  async sendOrganizationInvitation(invitation: {
+    to: string;
+    organizationName: string;
+    inviterName: string;
+    role: string;
+    token: string;
+    expiresAt: Date;
+  }) {
+    const joinUrl = `${getAppUrl()}/join/${invitation.token}`;
+
+    await this.send({
+      to: invitation.to,
+      subject: `${invitation.inviterName} invited you to join ${invitation.organizationName} on XSignature`,
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #1976D2;">Join ${escapeHtml(invitation.organizationName)}</h1>
+            <p>${escapeHtml(invitation.inviterName)} invited you to join <strong>${escapeHtml(invitation.organizationName)}</strong> on XSignature as ${escapeHtml(invitation.role)}.</p>
+            <p>Open the link below, sign in (or create an account with this email address) and accept or decline. Until you accept, nothing about your account changes.</p>
+            ${button(joinUrl, "View Invitation")}
+            <p>This link works once and expires on ${invitation.expiresAt.toUTCString()}.</p>
+          </div>
+        `,
+    });
+
+    if (this.isLocal) {
+      console.log(`📧 Organization invitation link for ${invitation.to}: ${joinUrl}`);
+    }
+  }
+
+  async sendSigningInvitation(invitation: {
+    to: string;
+    recipientName: string;
+    senderName: string;
+    title: string;
+    message?: string | null;
+    token: string;
+    expiresAt: Date;
+  }) {
+    const signingUrl = `${getAppUrl()}/sign/${invitation.token}`;
+
+    await this.send({
+      to: invitation.to,
+      subject: `${invitation.senderName} requests your signature: ${invitation.title}`,
+      html: layout(`
+        <h1 style="color: #1976D2;">Signature Requested</h1>
+        <p>Hello ${escapeHtml(invitation.recipientName)},</p>
+        <p>${escapeHtml(invitation.senderName)} has asked you to sign <strong>${escapeHtml(invitation.title)}</strong>.</p>
+        ${invitation.message ? `<blockquote style="border-left: 3px solid #1976D2; margin: 20px 0; padding-left: 12px; color: #444;">${escapeHtml(invitation.message)}</blockquote>` : ""}
+        ${button(signingUrl, "Review and Sign")}
+        <p>This link is personal to you; do not forward it. It expires on ${invitation.expiresAt.toUTCString()}.</p>
+      `),
+    });
+
+    if (this.isLocal) {
+      console.log(`📧 Signing link for ${invitation.to}: ${signingUrl}`);
+    }
+  }
+
+  async sendEnvelopeCompleted(notice: { to: string; name: string; title: string; downloadUrl: string }) {
+    await this.send({
+      to: notice.to,
+      subject: `Completed: ${notice.title}`,
+      html: layout(`
+        <h1 style="color: #1976D2;">All Parties Have Signed</h1>
+        <p>Hello ${escapeHtml(notice.name)},</p>
+        <p>Everyone has signed <strong>${escapeHtml(notice.title)}</strong>. The signed document, including its certificate of completion, is available below.</p>
+        ${button(notice.downloadUrl, "Download Signed Document")}
+      `),
+    });
+  }
+
+  async sendEnvelopeDeclined(notice: { to: string; ownerName: string; title: string; recipientName: string; reason?: string | null }) {
+    await this.send({
+      to: notice.to,
+      subject: `Declined: ${notice.title}`,
+      html: layout(`
+        <h1 style="color: #D32F2F;">Signature Declined</h1>
+        <p>Hello ${escapeHtml(notice.ownerName)},</p>
+        <p>${escapeHtml(notice.recipientName)} declined to sign <strong>${escapeHtml(notice.title)}</strong>.</p>
+        ${notice.reason ? `<p>Reason given: ${escapeHtml(notice.reason)}</p>` : ""}
+        <p>The remaining recipients will not be asked to sign.</p>
+      `),
+    });
+  }
+
+  async sendEnvelopeVoided(notice: { to: string; name: string; title: string; senderName: string }) {
+    await this.send({
+      to: notice.to,
+      subject: `Cancelled: ${notice.title}`,
+      html: layout(`
+        <h1 style="color: #1976D2;">Signing Request Cancelled</h1>
+        <p>Hello ${escapeHtml(notice.name)},</p>
+        <p>${escapeHtml(notice.senderName)} has cancelled the request to sign <strong>${escapeHtml(notice.title)}</strong>. Earlier signing links no longer work.</p>
+      `),
+    });
+  }
+
+  private async send(email: OutgoingEmail): Promise<void> {
+    const info = await this.transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER || "noreply@digisign.com",
+      ...email,
+    });
+
+    if (this.isLocal) {
+      const directory = getOutboxDirectory();
+      const fileName = `${Date.now()}-${email.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(path.join(directory, fileName), info.message.toString());
+      console.log(`📧 Email "${email.subject}" to ${email.to} saved to ${path.join(directory, fileName)}`);
+    }
+  }
 }
 
 export const emailService = new EmailService();
@@ -0,0 +1,487 @@
+import crypto from "crypto";
+import { storage, DOCUMENT_FINALIZED_ERROR } from "../storage";
+import { signatureService } from "./signature";
+import { fieldService } from "./fields";
+import { emailService } from "./email";
+import { pdfService } from "./pdf";
+import { auditService, type AuditContext } from "./audit";
+import { versionService } from "./version";
+import {
+  type CreateEnvelope,
+  type DigitalSignature,
+  type DocumentField,
+  type Envelope,
+  type EnvelopeRecipient,
+  type EnvelopeWithRecipients,
+  type PdfDocument,
+  type PublicEnvelopeRecipient,
+  type User,
+} from "@shared/schema";
+
+const SIGNING_LINK_TTL_DAYS = 30;
+
+// Recipient states in which the signing link can still be used
+export const OPEN_RECIPIENT_STATUSES = ["sent", "viewed"];
+
+type EnvelopeOwner = Pick<User, "id" | "fullName" | "email">;
+
+export function hashSigningToken(token: string): string {
+  return crypto.createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+export function toPublicRecipient(recipient: EnvelopeRecipient): PublicEnvelopeRecipient {
+  const { tokenHash: _, ...publicRecipient } = recipient;
+  return publicRecipient;
+}
+
+/**
+ * Multi-party signing. An envelope asks one or more recipients, who need no
+ * account, to sign the owner's document. Recipients are grouped by routing
+ * order: every recipient in the lowest unsigned group gets a personal link,
+ * and the next group is invited once the whole group has signed. A single
+ * decline stops the envelope.
+ */
+export class EnvelopeService {
+  async createEnvelope(owner: EnvelopeOwner, data: CreateEnvelope, context: AuditContext): Promise<EnvelopeWithRecipients> {
+    const document = await storage.getAccessibleDocument(data.documentId, owner.id);
+    if (!document) {
+      throw new Error("Document not found");
+    }
+    if (document.isReadOnly) {
+      throw new Error(DOCUMENT_FINALIZED_ERROR);
+    }
+
+    const invalidPages = data.recipients
+      .map((recipient) => recipient.pageNumber)
+      .filter((page) => page > document.pageCount);
+    if (invalidPages.length > 0) {
+      throw new Error(`Invalid page numbers: ${invalidPages.join(", ")}. Document has ${document.pageCount} pages.`);
+    }
+
+    const emails = data.recipients.map((recipient) => recipient.email);
+    if (new Set(emails).size !== emails.length) {
+      throw new Error("Each recipient can only be added once");
+    }
+
+    const envelope = await storage.createEnvelope(
+      {
+        documentId: document.id,
+        ownerId: owner.id,
+        title: data.title,
+        message: data.message || null,
+        signingOrder: data.signingOrder,
+      },
+      data.recipients.map((recipient, index) => ({
+        name: recipient.name,
+        email: recipient.email,
+        // Parallel envelopes put everyone in one group
+        routingOrder: data.signingOrder === "parallel" ? 1 : recipient.routingOrder ?? index + 1,
+        pageNumber: recipient.pageNumber,
+        position: pdfService.resolvePosition(document.pageSizes, recipient.pageNumber, recipient.position),
+      }))
+    );
+    console.log(`Envelope ${envelope.id} created for document ${document.id} with ${data.recipients.length} recipient(s)`);
+
+    if (data.send) {
+      return this.sendEnvelope(envelope, owner, context);
+    }
+    return this.withRecipients(envelope);
+  }
+
+  async sendEnvelope(envelope: Envelope, owner: EnvelopeOwner, context: AuditContext): Promise<EnvelopeWithRecipients> {
+    if ((await this.getDocument(envelope)).isReadOnly) {
+      throw new Error(DOCUMENT_FINALIZED_ERROR);
+    }
+
+    const sent = await storage.updateEnvelope(envelope.id, { status: "sent", sentAt: new Date() }, ["draft"]);
+    if (!sent) {
+      throw new Error("Only draft envelopes can be sent");
+    }
+
+    const document = await this.getDocument(sent);
+    await auditService.record(context, "envelope.sent", document, {
+      envelopeId: sent.id,
+      signingOrder: sent.signingOrder,
+    });
+
+    await this.inviteNextRecipients(sent, owner);
+    return this.withRecipients((await storage.getEnvelope(sent.id)) || sent);
+  }
+
+  async voidEnvelope(envelope: Envelope, owner: EnvelopeOwner, context: AuditContext): Promise<EnvelopeWithRecipients> {
+    const voided = await storage.updateEnvelope(envelope.id, { status: "voided" }, ["draft", "sent"]);
+    if (!voided) {
+      throw new Error(`A ${envelope.status} envelope can no longer be voided`);
+    }
+
+    const document = await this.getDocument(voided);
+    await auditService.record(context, "envelope.voided", document, { envelopeId: voided.id });
+
+    const recipients = await storage.getEnvelopeRecipients(voided.id);
+    for (const recipient of recipients.filter((r) => OPEN_RECIPIENT_STATUSES.includes(r.status))) {
+      await storage.updateRecipient(recipient.id, { tokenHash: null, tokenExpiresAt: null });
+      await this.notify(() =>
+        emailService.sendEnvelopeVoided({
+          to: recipient.email,
+          name: recipient.name,
+          title: voided.title,
+          senderName: owner.fullName,
+        })
+      );
+    }
+
+    return this.withRecipients(voided);
+  }
+
+  /** Issues a fresh link (the old one stops working) and emails it again. */
+  async resendInvitation(envelope: Envelope, recipientId: string, owner: EnvelopeOwner): Promise<PublicEnvelopeRecipient> {
+    if (envelope.status !== "sent") {
+      throw new Error("Invitations can only be resent for envelopes that are out for signature");
+    }
+
+    const recipient = (await storage.getEnvelopeRecipients(envelope.id)).find((r) => r.id === recipientId);
+    if (!recipient) {
+      throw new Error("Recipient not found");
+    }
+
+    const invited = await this.inviteRecipient(recipient, envelope, owner, OPEN_RECIPIENT_STATUSES);
+    if (!invited) {
+      throw new Error(`Cannot resend to a recipient who has ${recipient.status === "pending" ? "not been invited yet" : recipient.status}`);
+    }
+    return toPublicRecipient(invited);
+  }
+
+  /** Looks up the recipient behind a signing link, whatever its state. */
+  async findByToken(
+    token: string
+  ): Promise<{ recipient: EnvelopeRecipient; envelope: Envelope; document: PdfDocument } | undefined> {
+    const recipient = await storage.getRecipientByTokenHash(hashSigningToken(token));
+    if (!recipient) return undefined;
+
+    const envelope = await storage.getEnvelope(recipient.envelopeId);
+    if (!envelope) return undefined;
+
+    const document = await storage.getDocument(envelope.documentId);
+    if (!document) return undefined;
+
+    return { recipient, envelope, document };
+  }
+
+  async recordView(
+    recipient: EnvelopeRecipient,
+    envelope: Envelope,
+    document: PdfDocument,
+    context: AuditContext
+  ): Promise<EnvelopeRecipient> {
+    await auditService.record(context, "document.viewed", document, {
+      envelopeId: envelope.id,
+      recipientId: recipient.id,
+    });
+
+    const viewed = await storage.updateRecipient(recipient.id, { status: "viewed", viewedAt: new Date() }, ["sent"]);
+    return viewed || recipient;
+  }
+
+  async sign(
+    recipient: EnvelopeRecipient,
+    envelope: Envelope,
+    document: PdfDocument,
+    adopted: {
+      fullName: string;
+      companyName: string;
+      location: string;
+      timeZone: string;
+      signatureImage?: string | null;
+      fieldValues?: Record<string, string>;
+    },
+    context: AuditContext
+  ): Promise<EnvelopeRecipient> {
+    if (envelope.status !== "sent") {
+      throw new Error(`This envelope is ${envelope.status} and can no longer be signed`);
+    }
+
+    // Documents created from a template carry the recipient's fields;
+    // otherwise the recipient signs once where the owner asked
+    const fields = (await storage.getDocumentFields(document.id)).filter(
+      (field) => field.recipientId === recipient.id
+    );
+    const values = fieldService.prepareValues(fields, adopted.fieldValues || {});
+    const missing = fieldService.missingRequired(fields, values);
+    if (missing.length > 0) {
+      throw new Error(`Please fill in ${missing.join(", ")} before signing`);
+    }
+
+    // Claim the signing step first so a double submit cannot sign twice
+    const claimed = await storage.updateRecipient(recipient.id, { status: "signed", signedAt: new Date() }, OPEN_RECIPIENT_STATUSES);
+    if (!claimed) {
+      throw new Error(`You cannot sign this document (status: ${recipient.status})`);
+    }
+
+    let signed: EnvelopeRecipient;
+    let signature: DigitalSignature | undefined;
+    try {
+      signature = await signatureService.createDigitalSignature(
+        null,
+        {
+          name: `${envelope.title} - ${adopted.fullName}`,
+          fullName: adopted.fullName,
+          companyName: adopted.companyName,
+          location: adopted.location,
+          timeZone: adopted.timeZone,
+          signatureImage: adopted.signatureImage || null,
+        },
+        recipient.email
+      );
+
+      let appliedSignatures;
+      if (fields.length > 0) {
+        await fieldService.storeValues(values);
+        appliedSignatures = await fieldService.fillWithSignature(document, fields, signature);
+      } else {
+        let appliedSignature = await storage.applySignature({
+          documentId: document.id,
+          signatureId: signature.id,
+          pageNumber: recipient.pageNumber,
+          position: recipient.position as any,
+        });
+
+        try {
+          appliedSignature = await signatureService.timestampAppliedSignature(appliedSignature, document, signature);
+        } catch (timestampError: any) {
+          console.error(`Failed to timestamp applied signature ${appliedSignature.id}:`, timestampError.message);
+        }
+        appliedSignatures = [appliedSignature];
+      }
+
+      signed = (await storage.updateRecipient(recipient.id, {
+        signatureId: signature.id,
+        appliedSignatureId: appliedSignatures[0]?.id || null,
+      }))!;
+
+      const signedEvent = await auditService.record(context, "signature.applied", document, {
+        envelopeId: envelope.id,
+        recipientId: recipient.id,
+        signatureId: signature.id,
+        certificateSerialNumber: signature.serialNumber,
+        appliedSignatureIds: appliedSignatures.map((applied) => applied.id),
+        pageNumbers: Array.from(new Set(appliedSignatures.map((applied) => applied.pageNumber))),
+        fieldIds: fields.map((field) => field.id),
+      });
+      await versionService.recordVersion(document, signedEvent);
+    } catch (error) {
+      try {
+        await this.undoSigning(recipient, fields, signature);
+      } catch (undoError: any) {
+        console.error(`Failed to undo signing by recipient ${recipient.id}:`, undoError.message);
+      }
+      throw error;
+    }
+
+    console.log(`Recipient ${recipient.id} signed envelope ${envelope.id}`);
+
+    const owner = await storage.getUser(envelope.ownerId);
+    if (owner) {
+      await this.inviteNextRecipients(envelope, owner);
+    }
+    return signed;
+  }
+
+  // Removes what a failed sign() created so the recipient can retry cleanly
+  private async undoSigning(
+    recipient: EnvelopeRecipient,
+    fields: DocumentField[],
+    signature: DigitalSignature | undefined
+  ): Promise<void> {
+    await storage.updateRecipient(recipient.id, {
+      status: recipient.status,
+      signedAt: null,
+      signatureId: recipient.signatureId,
+      appliedSignatureId: recipient.appliedSignatureId,
+    });
+    for (const field of fields) {
+      await storage.updateDocumentField(field.id, {
+        value: field.value,
+        filledAt: field.filledAt,
+        appliedSignatureId: field.appliedSignatureId,
+      });
+    }
+    if (signature) {
+      // Also deletes the stamps placed with it
+      await storage.deleteSignature(signature.id);
+    }
+  }
+
+  async decline(
+    recipient: EnvelopeRecipient,
+    envelope: Envelope,
+    document: PdfDocument,
+    reason: string | undefined,
+    context: AuditContext
+  ): Promise<EnvelopeRecipient> {
+    const declined = await storage.updateRecipient(
+      recipient.id,
+      { status: "declined", declinedAt: new Date(), declineReason: reason || null },
+      OPEN_RECIPIENT_STATUSES
+    );
+    if (!declined) {
+      throw new Error(`You cannot decline this document (status: ${recipient.status})`);
+    }
+
+    await storage.updateEnvelope(envelope.id, { status: "declined" }, ["sent"]);
+    await auditService.record(context, "signature.declined", document, {
+      envelopeId: envelope.id,
+      recipientId: recipient.id,
+      reason: reason || null,
+    });
+
+    const owner = await storage.getUser(envelope.ownerId);
+    if (owner) {
+      await this.notify(() =>
+        emailService.sendEnvelopeDeclined({
+          to: owner.email,
+          ownerName: owner.fullName,
+          title: envelope.title,
+          recipientName: recipient.name,
+          reason,
+        })
+      );
+    }
+    return declined;
+  }
+
+  async withRecipients(envelope: Envelope): Promise<EnvelopeWithRecipients> {
+    const recipients = await storage.getEnvelopeRecipients(envelope.id);
+    return { ...envelope, recipients: recipients.map(toPublicRecipient) };
+  }
+
+  /**
+   * Invites every not-yet-invited recipient in the lowest routing order that
+   * still has unsigned recipients, or completes the envelope when none remain.
+   */
+  private async inviteNextRecipients(envelope: Envelope, owner: EnvelopeOwner): Promise<void> {
+    // The envelope may have been voided or declined since it was loaded
+    const current = await storage.getEnvelope(envelope.id);
+    if (current?.status !== "sent") {
+      return;
+    }
+
+    const recipients = await storage.getEnvelopeRecipients(envelope.id);
+    if (recipients.some((recipient) => recipient.status === "declined")) {
+      return;
+    }
+
+    const unsigned = recipients.filter((recipient) => recipient.status !== "signed");
+    if (unsigned.length === 0) {
+      await this.complete(envelope, owner, recipients);
+      return;
+    }
+
+    const currentOrder = Math.min(...unsigned.map((recipient) => recipient.routingOrder));
+    for (const recipient of unsigned) {
+      if (recipient.routingOrder === currentOrder && recipient.status === "pending") {
+        await this.inviteRecipient(recipient, envelope, owner, ["pending"]);
+      }
+    }
+  }
+
+  private async inviteRecipient(
+    recipient: EnvelopeRecipient,
+    envelope: Envelope,
+    owner: EnvelopeOwner,
+    expectedStatuses: string[]
+  ): Promise<EnvelopeRecipient | undefined> {
+    const token = crypto.randomBytes(32).toString("base64url");
+    const expiresAt = new Date(Date.now() + SIGNING_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const invited = await storage.updateRecipient(
+      recipient.id,
+      {
+        // A re-sent link keeps a "viewed" recipient viewed
+        status: recipient.status === "pending" ? "sent" : recipient.status,
+        tokenHash: hashSigningToken(token),
+        tokenExpiresAt: expiresAt,
+        sentAt: new Date(),
+      },
+      expectedStatuses
+    );
+    if (!invited) {
+      // Another request invited this recipient first
+      return undefined;
+    }
+
+    await this.notify(() =>
+      emailService.sendSigningInvitation({
+        to: recipient.email,
+        recipientName: recipient.name,
+        senderName: owner.fullName,
+        title: envelope.title,
+        message: envelope.message,
+        token,
+        expiresAt,
+      })
+    );
+    return invited;
+  }
+
+  private async complete(envelope: Envelope, owner: EnvelopeOwner, recipients: EnvelopeRecipient[]): Promise<void> {
+    const completed = await storage.updateEnvelope(envelope.id, { status: "completed", completedAt: new Date() }, ["sent"]);
+    if (!completed) {
+      return;
+    }
+
+    const document = await this.getDocument(completed);
+    await auditService.record(
+      { userId: null, userEmail: null, ipAddress: null, userAgent: null },
+      "envelope.completed",
+      document,
+      { envelopeId: completed.id, recipients: recipients.length }
+    );
+    console.log(`Envelope ${completed.id} completed`);
+
+    const appUrl = process.env.APP_URL || "http://localhost:5000";
+    await this.notify(() =>
+      emailService.sendEnvelopeCompleted({
+        to: owner.email,
+        name: owner.fullName,
+        title: completed.title,
+        downloadUrl: appUrl,
+      })
+    );
+
+    // Recipients get a fresh link to the completed document
+    for (const recipient of recipients) {
+      const token = crypto.randomBytes(32).toString("base64url");
+      await storage.updateRecipient(recipient.id, {
+        tokenHash: hashSigningToken(token),
+        tokenExpiresAt: new Date(Date.now() + SIGNING_LINK_TTL_DAYS * 24 * 60 * 60 * 1000),
+      });
+      await this.notify(() =>
+        emailService.sendEnvelopeCompleted({
+          to: recipient.email,
+          name: recipient.name,
+          title: completed.title,
+          downloadUrl: `${appUrl}/sign/${token}`,
+        })
+      );
+    }
+  }
+
+  private async getDocument(envelope: Envelope): Promise<PdfDocument> {
+    const document = await storage.getDocument(envelope.documentId);
+    if (!document) {
+      throw new Error("Envelope document no longer exists");
+    }
+    return document;
+  }
+
+  // Mail problems are logged rather than failing the signing step that triggered them
+  private async notify(send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+    } catch (error: any) {
+      console.error("Envelope: Failed to send email:", error.message);
+    }
+  }
+}
+
+export const envelopeService = new EnvelopeService();
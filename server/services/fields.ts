@@ -0,0 +1,203 @@
+import { storage, DOCUMENT_FINALIZED_ERROR } from "../storage";
+import { signatureService } from "./signature";
+import { type OnBehalfOf } from "./delegations";
+import {
+  inputFieldTypes,
+  type AppliedSignature,
+  type DigitalSignature,
+  type DocumentField,
+  type FieldType,
+  type PdfDocument,
+} from "@shared/schema";
+
+function formatDateSigned(date: Date, timeZone: string): string {
+  const options: Intl.DateTimeFormatOptions = { year: "numeric", month: "long", day: "numeric" };
+  try {
+    return date.toLocaleDateString("en-US", { ...options, timeZone });
+  } catch {
+    // Unknown time zone names throw a RangeError
+    return date.toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+  }
+}
+
+function initialsOf(fullName: string): string {
+  return fullName
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+function isInputField(field: DocumentField): boolean {
+  return inputFieldTypes.includes(field.type as FieldType);
+}
+
+/**
+ * Fills the fields placed on a document (see documentFields). Signature
+ * fields get a stamp of the signer's signature; initials, name, company and
+ * date fields are filled from that signature. Text, dropdown, checkbox and
+ * radio fields hold whatever the signer entered before signing.
+ */
+export class FieldService {
+  /**
+   * Returns the applied signatures created for the signature fields. A
+   * delegate signing for the owner passes `onBehalfOf`.
+   */
+  async fillWithSignature(
+    document: PdfDocument,
+    fields: DocumentField[],
+    signature: DigitalSignature,
+    onBehalfOf?: OnBehalfOf
+  ): Promise<AppliedSignature[]> {
+    if (document.isReadOnly) {
+      throw new Error(DOCUMENT_FINALIZED_ERROR);
+    }
+
+    const signedAt = new Date();
+    const appliedSignatures: AppliedSignature[] = [];
+
+    for (const field of fields) {
+      if (field.filledAt || isInputField(field)) continue;
+
+      if (field.type !== "signature") {
+        const values: Record<string, string> = {
+          date: formatDateSigned(signedAt, signature.timeZone),
+          initials: initialsOf(signature.fullName),
+          name: signature.fullName,
+          company: signature.companyName,
+        };
+        await storage.updateDocumentField(field.id, { value: values[field.type] ?? "", filledAt: signedAt });
+        continue;
+      }
+
+      // Several fields may share a page, so never merge with an existing stamp
+      let appliedSignature = await storage.applySignature(
+        {
+          documentId: document.id,
+          signatureId: signature.id,
+          pageNumber: field.pageNumber,
+          position: field.position as any,
+          ...onBehalfOf,
+        },
+        true
+      );
+
+      try {
+        appliedSignature = await signatureService.timestampAppliedSignature(appliedSignature, document, signature);
+      } catch (timestampError: any) {
+        console.error(`Failed to timestamp applied signature ${appliedSignature.id}:`, timestampError.message);
+      }
+
+      await storage.updateDocumentField(field.id, { appliedSignatureId: appliedSignature.id, filledAt: signedAt });
+      appliedSignatures.push(appliedSignature);
+    }
+
+    console.log(`Fields: Filled ${fields.length} field(s) on document ${document.id} for signature ${signature.id}`);
+    return appliedSignatures;
+  }
+
+  /**
+   * Checks values entered for text, dropdown, checkbox and radio fields and
+   * returns what to store per field id. Picking a radio button clears the
+   * others in its group.
+   */
+  prepareValues(fields: DocumentField[], values: Record<string, string>): Map<string, string> {
+    const updates = new Map<string, string>();
+    const chosenGroups = new Set<string>();
+
+    for (const [fieldId, value] of Object.entries(values)) {
+      const field = fields.find((candidate) => candidate.id === fieldId);
+      if (!field || !isInputField(field)) {
+        throw new Error("Field not found");
+      }
+
+      if (field.type === "text") {
+        const text = value.trim();
+        if (field.maxLength && text.length > field.maxLength) {
+          throw new Error(`"${field.name}" can be at most ${field.maxLength} characters`);
+        }
+        updates.set(field.id, text);
+        continue;
+      }
+
+      if (field.type === "dropdown") {
+        const options = (field.options as string[] | null) || [];
+        if (value !== "" && !options.includes(value)) {
+          throw new Error(`"${value}" is not one of the choices for "${field.name}"`);
+        }
+        updates.set(field.id, value);
+        continue;
+      }
+
+      if (value !== "true" && value !== "false") {
+        throw new Error(`"${field.name}" must be checked or unchecked`);
+      }
+      if (field.type === "checkbox") {
+        updates.set(field.id, value);
+        continue;
+      }
+
+      // Radio buttons: only a selection changes the group
+      if (value === "false") {
+        if (!updates.has(field.id)) updates.set(field.id, "false");
+        continue;
+      }
+      if (chosenGroups.has(field.groupName!)) {
+        throw new Error(`Choose only one option for "${field.groupName}"`);
+      }
+      chosenGroups.add(field.groupName!);
+      for (const option of this.radioGroup(fields, field)) {
+        updates.set(option.id, option.id === field.id ? "true" : "false");
+      }
+    }
+
+    return updates;
+  }
+
+  /** Names of required input fields (or radio groups) that would be left empty. */
+  missingRequired(fields: DocumentField[], updates: Map<string, string> = new Map()): string[] {
+    const valueOf = (field: DocumentField) => (updates.has(field.id) ? updates.get(field.id)! : field.value);
+    const missing: string[] = [];
+    const checkedGroups = new Set<string>();
+
+    for (const field of fields) {
+      if ((field.type === "text" || field.type === "dropdown") && field.required && !valueOf(field)) {
+        missing.push(field.name);
+      } else if (field.type === "checkbox" && field.required && valueOf(field) !== "true") {
+        missing.push(field.name);
+      } else if (field.type === "radio" && !checkedGroups.has(field.groupName!)) {
+        checkedGroups.add(field.groupName!);
+        const group = this.radioGroup(fields, field);
+        if (group.some((option) => option.required) && !group.some((option) => valueOf(option) === "true")) {
+          missing.push(field.groupName!);
+        }
+      }
+    }
+
+    return missing;
+  }
+
+  async storeValues(updates: Map<string, string>): Promise<DocumentField[]> {
+    const filledAt = new Date();
+    const stored: DocumentField[] = [];
+    for (const [fieldId, value] of Array.from(updates)) {
+      // An emptied text field is unfilled again
+      const field = await storage.updateDocumentField(
+        fieldId,
+        value === "" ? { value: null, filledAt: null } : { value, filledAt }
+      );
+      if (field) stored.push(field);
+    }
+    return stored;
+  }
+
+  // Radio buttons are grouped per signer, so two signers can share a group name
+  private radioGroup(fields: DocumentField[], field: DocumentField): DocumentField[] {
+    return fields.filter(
+      (option) =>
+        option.type === "radio" && option.groupName === field.groupName && option.recipientId === field.recipientId
+    );
+  }
+}
+
+export const fieldService = new FieldService();
@@ -0,0 +1,496 @@
+import crypto from "crypto";
+import fsSync, { promises as fs } from "fs";
+import path from "path";
+import { Readable, pipeline } from "stream";
+import { pipeline as pipelineAsync } from "stream/promises";
+import { fileEncryption } from "./file-encryption";
+
+/**
+ * Where uploaded PDFs, versions and templates live. `filePath` columns hold a
+ * location rather than a bare path: a local file path (as stored before
+ * backends existed) or `s3://<bucket>/<key>`. Reads go to whichever backend
+ * owns the location, so documents keep working while files are migrated;
+ * new files are written to the backend chosen by FILE_STORAGE.
+ *
+ * Backends hold bytes as given. FileStorageService encrypts on the way in and
+ * decrypts on the way out (see file-encryption.ts), so callers only ever see
+ * plain PDFs.
+ */
+export interface FileStore {
+  readonly name: FileStoreName;
+  owns(location: string): boolean;
+  /** Stores `bytes` under `key` and returns the location to keep. */
+  put(key: string, bytes: Uint8Array, options?: PutOptions): Promise<string>;
+  /** Like put, reading the bytes from `stream`; nothing is kept when the stream fails. */
+  putStream(key: string, stream: Readable, options?: PutOptions): Promise<string>;
+  get(location: string): Promise<Buffer>;
+  open(location: string): Promise<{ size: number; stream: Readable }>;
+  exists(location: string): Promise<boolean>;
+  /** Deleting a missing file is not an error. */
+  delete(location: string): Promise<void>;
+  /** Keeps a file stored before `immutable` existed from being changed. */
+  protect(location: string): Promise<void>;
+  /** The key a location was stored under, for copying it to another backend. */
+  keyOf(location: string): string;
+}
+
+export type FileStoreName = "local" | "s3";
+
+export interface PutOptions {
+  contentType?: string;
+  // Fail rather than overwrite, and keep the file from being changed later
+  immutable?: boolean;
+}
+
+// S3 parts other than the last must be at least 5 MiB
+const S3_PART_SIZE = 8 * 1024 * 1024;
+
+// Missing files look the same from every backend
+function notFound(location: string): Error {
+  return Object.assign(new Error(`File not found: ${location}`), { code: "ENOENT" });
+}
+
+function sha256Hex(data: Uint8Array | string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as SigV4 expects; slashes separate key segments
+function encodeKey(key: string): string {
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, (c) => "%" + c.charCodeAt(0).toString(16).toUpperCase())
+    )
+    .join("/");
+}
+
+export class LocalFileStore implements FileStore {
+  readonly name = "local";
+
+  constructor(private readonly root: string) {}
+
+  owns(location: string): boolean {
+    return !location.startsWith("s3://");
+  }
+
+  async put(key: string, bytes: Uint8Array, options: PutOptions = {}): Promise<string> {
+    const location = path.join(this.root, key);
+    await fs.mkdir(path.dirname(location), { recursive: true });
+    await fs.writeFile(location, bytes, options.immutable ? { mode: 0o444, flag: "wx" } : undefined);
+    return location;
+  }
+
+  async putStream(key: string, stream: Readable, options: PutOptions = {}): Promise<string> {
+    const location = path.join(this.root, key);
+    await fs.mkdir(path.dirname(location), { recursive: true });
+    try {
+      await pipelineAsync(
+        stream,
+        fsSync.createWriteStream(location, options.immutable ? { mode: 0o444, flags: "wx" } : undefined)
+      );
+    } catch (error: any) {
+      // An existing immutable file is not ours to remove
+      if (error.code !== "EEXIST") await this.delete(location);
+      throw error;
+    }
+    return location;
+  }
+
+  async get(location: string): Promise<Buffer> {
+    return fs.readFile(location);
+  }
+
+  async open(location: string): Promise<{ size: number; stream: Readable }> {
+    const stat = await fs.stat(location);
+    return { size: stat.size, stream: fsSync.createReadStream(location) };
+  }
+
+  async exists(location: string): Promise<boolean> {
+    try {
+      await fs.access(location);
+      return true;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  async delete(location: string): Promise<void> {
+    try {
+      await fs.unlink(location);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  async protect(location: string): Promise<void> {
+    await fs.chmod(location, 0o444);
+  }
+
+  keyOf(location: string): string {
+    const relative = path.relative(this.root, location);
+    // Files outside the upload directory keep just their name
+    return relative.startsWith("..") || path.isAbsolute(relative) ? path.basename(location) : relative;
+  }
+}
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  // For S3-compatible services such as MinIO; path-style addressing is used with it
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  prefix?: string;
+}
+
+/**
+ * S3 and S3-compatible object storage over plain HTTPS, signed with AWS
+ * Signature Version 4.
+ */
+export class S3FileStore implements FileStore {
+  readonly name = "s3";
+
+  constructor(private readonly config: S3Config) {}
+
+  owns(location: string): boolean {
+    return location.startsWith(`s3://${this.config.bucket}/`);
+  }
+
+  async put(key: string, bytes: Uint8Array, options: PutOptions = {}): Promise<string> {
+    const objectKey = this.objectKey(key);
+    const headers: Record<string, string> = {
+      "content-type": options.contentType || "application/octet-stream",
+    };
+    if (options.immutable) {
+      // Conditional write: refuses to replace an existing object
+      headers["if-none-match"] = "*";
+    }
+
+    const response = await this.request("PUT", objectKey, headers, bytes);
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${objectKey} failed: ${response.status} ${await response.text()}`);
+    }
+    return `s3://${this.config.bucket}/${objectKey}`;
+  }
+
+  /** A multipart upload, so only one part is held in memory at a time. */
+  async putStream(key: string, stream: Readable, options: PutOptions = {}): Promise<string> {
+    const objectKey = this.objectKey(key);
+    const created = await this.request(
+      "POST",
+      objectKey,
+      { "content-type": options.contentType || "application/octet-stream" },
+      undefined,
+      { uploads: "" }
+    );
+    if (!created.ok) {
+      throw new Error(`S3 upload of ${objectKey} failed: ${created.status} ${await created.text()}`);
+    }
+    const uploadId = /<UploadId>([^<]+)<\/UploadId>/.exec(await created.text())?.[1];
+    if (!uploadId) {
+      throw new Error(`S3 upload of ${objectKey} failed: no upload id`);
+    }
+
+    try {
+      const etags: string[] = [];
+      const uploadPart = async (part: Buffer) => {
+        const partNumber = String(etags.length + 1);
+        const response = await this.request("PUT", objectKey, {}, part, { partNumber, uploadId });
+        if (!response.ok) {
+          throw new Error(`S3 upload of ${objectKey} failed: ${response.status} ${await response.text()}`);
+        }
+        etags.push(response.headers.get("etag") || "");
+      };
+
+      let pending: Buffer[] = [];
+      let pendingSize = 0;
+      for await (const chunk of stream) {
+        pending.push(chunk);
+        pendingSize += chunk.length;
+        if (pendingSize >= S3_PART_SIZE) {
+          await uploadPart(Buffer.concat(pending));
+          pending = [];
+          pendingSize = 0;
+        }
+      }
+      if (pendingSize > 0 || etags.length === 0) {
+        await uploadPart(Buffer.concat(pending));
+      }
+
+      const parts = etags
+        .map((etag, index) => `<Part><PartNumber>${index + 1}</PartNumber><ETag>${etag}</ETag></Part>`)
+        .join("");
+      const completed = await this.request(
+        "POST",
+        objectKey,
+        // Conditional write: refuses to replace an existing object
+        options.immutable ? { "if-none-match": "*" } : {},
+        Buffer.from(`<CompleteMultipartUpload>${parts}</CompleteMultipartUpload>`, "utf8"),
+        { uploadId }
+      );
+      // A completion can fail after S3 has already answered 200
+      const body = await completed.text();
+      if (!completed.ok || body.includes("<Error>")) {
+        throw new Error(`S3 upload of ${objectKey} failed: ${completed.status} ${body}`);
+      }
+    } catch (error) {
+      // Parts of an abandoned upload are billed until it is aborted
+      await this.request("DELETE", objectKey, {}, undefined, { uploadId }).catch((abortError) =>
+        console.error(`Could not abort the S3 upload of ${objectKey}:`, abortError.message)
+      );
+      throw error;
+    }
+    return `s3://${this.config.bucket}/${objectKey}`;
+  }
+
+  async get(location: string): Promise<Buffer> {
+    const response = await this.request("GET", this.keyOf(location));
+    if (response.status === 404) throw notFound(location);
+    if (!response.ok) {
+      throw new Error(`S3 download of ${location} failed: ${response.status} ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async open(location: string): Promise<{ size: number; stream: Readable }> {
+    const response = await this.request("GET", this.keyOf(location));
+    if (response.status === 404) throw notFound(location);
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download of ${location} failed: ${response.status}`);
+    }
+    return {
+      size: Number(response.headers.get("content-length") || 0),
+      stream: Readable.fromWeb(response.body as any),
+    };
+  }
+
+  async exists(location: string): Promise<boolean> {
+    const response = await this.request("HEAD", this.keyOf(location));
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new Error(`S3 lookup of ${location} failed: ${response.status}`);
+    }
+    return true;
+  }
+
+  async delete(location: string): Promise<void> {
+    const response = await this.request("DELETE", this.keyOf(location));
+    // S3 answers 204 whether or not the object existed
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete of ${location} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async protect(location: string): Promise<void> {
+    // Objects are never modified in place; overwrites are refused when written
+  }
+
+  keyOf(location: string): string {
+    if (!this.owns(location)) {
+      throw new Error(`${location} is not in bucket ${this.config.bucket}`);
+    }
+    return location.slice(`s3://${this.config.bucket}/`.length);
+  }
+
+  private objectKey(key: string): string {
+    return this.config.prefix ? `${this.config.prefix.replace(/\/$/, "")}/${key}` : key;
+  }
+
+  private objectUrl(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.config;
+    if (endpoint) {
+      const base = endpoint.replace(/\/$/, "");
+      return forcePathStyle === false
+        ? new URL(`${base.replace("://", `://${bucket}.`)}/${encodeKey(key)}`)
+        : new URL(`${base}/${bucket}/${encodeKey(key)}`);
+    }
+    return new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodeKey(key)}`);
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    headers: Record<string, string> = {},
+    body?: Uint8Array,
+    query: Record<string, string> = {}
+  ): Promise<globalThis.Response> {
+    const url = this.objectUrl(key);
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    const signed = signS3Request(this.config, method, url, headers, body ? sha256Hex(body) : sha256Hex(""), new Date());
+    return fetch(url, { method, headers: signed, body });
+  }
+}
+
+/**
+ * Adds the SigV4 `authorization`, `x-amz-date` and `x-amz-content-sha256`
+ * headers for a request to `url`. Every header passed in is signed.
+ */
+export function signS3Request(
+  credentials: Pick<S3Config, "region" | "accessKeyId" | "secretAccessKey" | "sessionToken">,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  now: Date
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const date = amzDate.slice(0, 8);
+  const all: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    all["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const names = Object.keys(all).sort();
+  const signedHeaders = names.join(";");
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .sort()
+    .join("&");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    names.map((name) => `${name}:${all[name]}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), "s3"),
+    "aws4_request"
+  );
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  const { host: _, ...sent } = all;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/** The backend configured by environment variables (see DEPLOYMENT.md). */
+export function createFileStore(name: FileStoreName): FileStore {
+  if (name === "local") {
+    // Vercel serverless only has /tmp as writable directory
+    return new LocalFileStore(process.env.UPLOAD_DIR || (process.env.VERCEL ? "/tmp" : "uploads/"));
+  }
+
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("S3 file storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  return new S3FileStore({
+    bucket,
+    region: process.env.S3_REGION || process.env.AWS_REGION || "us-east-1",
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: process.env.S3_SESSION_TOKEN || process.env.AWS_SESSION_TOKEN,
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+    prefix: process.env.S3_PREFIX,
+  });
+}
+
+export class FileStorageService {
+  private readonly stores = new Map<FileStoreName, FileStore>();
+
+  /** Backend new files are written to. */
+  get primary(): FileStore {
+    const name = process.env.FILE_STORAGE || "local";
+    if (name !== "local" && name !== "s3") {
+      throw new Error(`FILE_STORAGE must be "local" or "s3", not "${name}"`);
+    }
+    return this.store(name);
+  }
+
+  store(name: FileStoreName): FileStore {
+    let store = this.stores.get(name);
+    if (!store) {
+      store = createFileStore(name);
+      this.stores.set(name, store);
+    }
+    return store;
+  }
+
+  /** Backend holding an existing location. */
+  storeFor(location: string): FileStore {
+    return this.store(location.startsWith("s3://") ? "s3" : "local");
+  }
+
+  /** A fresh, collision-free key such as `pdfs-1700000000000-123456789.pdf`. */
+  newKey(prefix: string, extension = "pdf"): string {
+    return `${prefix}-${Date.now()}-${crypto.randomInt(1e9)}.${extension}`;
+  }
+
+  /** Encrypts `bytes` and stores them on the primary backend. */
+  async put(key: string, bytes: Uint8Array, options: PutOptions = {}): Promise<string> {
+    return this.primary.put(key, fileEncryption.encrypt(bytes), {
+      contentType: "application/octet-stream",
+      ...options,
+    });
+  }
+
+  /** Like put, for contents that are produced bit by bit, such as a ZIP of many documents. */
+  async putStream(key: string, stream: Readable, options: PutOptions = {}): Promise<string> {
+    // A failure of `stream` reaches the backend through the encrypted stream
+    const encrypted = pipeline(stream, fileEncryption.encryptStream(), () => {});
+    return this.primary.putStream(key, encrypted, {
+      contentType: "application/octet-stream",
+      ...options,
+    });
+  }
+
+  async get(location: string): Promise<Buffer> {
+    return fileEncryption.decrypt(await this.storeFor(location).get(location));
+  }
+
+  async open(location: string): Promise<{ size: number; stream: Readable }> {
+    // The whole file has to be authenticated before any of it can be trusted
+    const bytes = await this.get(location);
+    return { size: bytes.length, stream: Readable.from([bytes]) };
+  }
+
+  async exists(location: string): Promise<boolean> {
+    return this.storeFor(location).exists(location);
+  }
+
+  /** Like fs.access: rejects with code ENOENT when the file is missing. */
+  async access(location: string): Promise<void> {
+    if (!(await this.exists(location))) {
+      throw notFound(location);
+    }
+  }
+
+  async delete(location: string): Promise<void> {
+    return this.storeFor(location).delete(location);
+  }
+
+  async protect(location: string): Promise<void> {
+    return this.storeFor(location).protect(location);
+  }
+
+  /** Copies a stored file to a new key on the primary backend. */
+  async copy(location: string, key: string, options: PutOptions = {}): Promise<string> {
+    return this.put(key, await this.get(location), options);
+  }
+}
+
+export const fileStorage = new FileStorageService();
@@ -0,0 +1,113 @@
+import { storage } from "../storage";
+import {
+  MAX_FOLDER_DEPTH,
+  type CreateFolder,
+  type Folder,
+  type PdfDocument,
+  type UpdateFolder,
+} from "@shared/schema";
+
+/**
+ * Matters and the folders inside them. Folders form a tree per user; a
+ * document is in at most one folder, and working on a folder (listing,
+ * downloading, deleting) takes in its subfolders too.
+ */
+export class FolderService {
+  async createFolder(userId: string, data: CreateFolder): Promise<Folder> {
+    const userFolders = await storage.getUserFolders(userId);
+    if (data.parentId) {
+      this.checkParent(userFolders, data.parentId, 1);
+    }
+    this.checkUniqueName(userFolders, data.parentId, data.name);
+
+    const folder = await storage.createFolder({ userId, name: data.name, parentId: data.parentId });
+    console.log(`Folder ${folder.id} created for user ${userId}`);
+    return folder;
+  }
+
+  /** Renames and/or moves a folder, with everything in it. */
+  async updateFolder(userId: string, folder: Folder, data: UpdateFolder): Promise<Folder> {
+    const userFolders = await storage.getUserFolders(userId);
+    const parentId = data.parentId !== undefined ? data.parentId : folder.parentId;
+    const name = data.name ?? folder.name;
+
+    if (parentId !== folder.parentId && parentId) {
+      if (this.getSubtreeIds(userFolders, folder.id).includes(parentId)) {
+        throw new Error("A folder cannot be moved into itself or one of its subfolders");
+      }
+      this.checkParent(userFolders, parentId, this.getSubtreeHeight(userFolders, folder.id));
+    }
+    this.checkUniqueName(
+      userFolders.filter((other) => other.id !== folder.id),
+      parentId,
+      name
+    );
+
+    const updated = await storage.updateFolder(folder.id, { name, parentId });
+    if (!updated) {
+      throw new Error("Folder not found");
+    }
+    return updated;
+  }
+
+  /** Deletes the folder; its documents and subfolders move up to its parent. */
+  async deleteFolder(folder: Folder): Promise<void> {
+    await storage.deleteFolder(folder.id, folder.parentId);
+    console.log(`Folder ${folder.id} deleted, contents moved to ${folder.parentId || "top level"}`);
+  }
+
+  /** Documents in the folder and all its subfolders. */
+  async getDocuments(userId: string, folder: Folder): Promise<PdfDocument[]> {
+    return storage.getFolderDocuments(userId, this.getSubtreeIds(await storage.getUserFolders(userId), folder.id));
+  }
+
+  /** The folder's id followed by those of every folder below it. */
+  getSubtreeIds(userFolders: Folder[], folderId: string): string[] {
+    const ids = [folderId];
+    for (let index = 0; index < ids.length; index++) {
+      for (const folder of userFolders) {
+        if (folder.parentId === ids[index]) {
+          ids.push(folder.id);
+        }
+      }
+    }
+    return ids;
+  }
+
+  private getDepth(userFolders: Folder[], folderId: string): number {
+    let depth = 0;
+    let current = userFolders.find((folder) => folder.id === folderId);
+    while (current) {
+      depth++;
+      current = current.parentId ? userFolders.find((folder) => folder.id === current!.parentId) : undefined;
+    }
+    return depth;
+  }
+
+  // 1 for a folder without subfolders
+  private getSubtreeHeight(userFolders: Folder[], folderId: string): number {
+    const children = userFolders.filter((folder) => folder.parentId === folderId);
+    return 1 + Math.max(0, ...children.map((child) => this.getSubtreeHeight(userFolders, child.id)));
+  }
+
+  // `height` levels of folders are about to go below the parent
+  private checkParent(userFolders: Folder[], parentId: string, height: number) {
+    if (!userFolders.some((folder) => folder.id === parentId)) {
+      throw new Error("Parent folder not found");
+    }
+    if (this.getDepth(userFolders, parentId) + height > MAX_FOLDER_DEPTH) {
+      throw new Error(`Folders can only be nested ${MAX_FOLDER_DEPTH} levels deep`);
+    }
+  }
+
+  private checkUniqueName(userFolders: Folder[], parentId: string | null, name: string) {
+    const taken = userFolders.some(
+      (folder) => folder.parentId === parentId && folder.name.toLowerCase() === name.toLowerCase()
+    );
+    if (taken) {
+      throw new Error(`A folder named "${name}" already exists here`);
+    }
+  }
+}
+
+export const folderService = new FolderService();
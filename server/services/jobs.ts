@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import os from "os";
+import { storage } from "../storage";
+import { fileStorage } from "./file-storage";
+import { type Job, type JobResult, type JobType, type PublicJob } from "@shared/schema";
+
+export interface JobContext {
+  /** Records how far along the job is, for the status endpoints. */
+  progress(percent: number, message?: string): Promise<void>;
+}
+
+export type JobHandler = (job: Job, context: JobContext) => Promise<JobResult | void>;
+
+interface RegisteredHandler {
+  run: JobHandler;
+  // Called once a job has failed for the last time
+  onFailure?: (job: Job, error: Error) => Promise<void>;
+}
+
+const POLL_INTERVAL_MS = 1000;
+// A running job not finished in this time is assumed to have lost its worker
+const STALE_AFTER_MS = 15 * 60 * 1000;
+// Finished jobs and their output files are kept this long for downloading
+const KEEP_FINISHED_MS = 24 * 60 * 60 * 1000;
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Postgres-backed job queue. Jobs are rows in `jobs`; a worker claims the
+ * oldest due one (FOR UPDATE SKIP LOCKED, see storage.claimNextJob), runs its
+ * handler and records the result, so the web server and any number of
+ * separate workers can share the queue without another service.
+ *
+ * Failed jobs are retried with exponential backoff until maxAttempts. Jobs
+ * belong to the user who queued them; output files (exports, rendered PDFs)
+ * are kept in file storage and removed with the job a day after it finishes.
+ */
+export class JobQueueService {
+  private handlers = new Map<JobType, RegisteredHandler>();
+  private readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
+  private timer: NodeJS.Timeout | null = null;
+  private busy = false;
+  private lastMaintenance = 0;
+
+  register(type: JobType, run: JobHandler, options: { onFailure?: RegisteredHandler["onFailure"] } = {}) {
+    this.handlers.set(type, { run, ...options });
+  }
+
+  async enqueue(
+    type: JobType,
+    job: { userId: string; documentId?: string; payload?: Record<string, unknown>; maxAttempts?: number }
+  ): Promise<Job> {
+    const created = await storage.createJob({
+      type,
+      userId: job.userId,
+      documentId: job.documentId || null,
+      payload: job.payload || {},
+      maxAttempts: job.maxAttempts ?? 3,
+    });
+    console.log(`Queued job ${created.id} (${type})`);
+    this.schedule(0);
+    return created;
+  }
+
+  /** Whether this process polls the queue on its own. */
+  get isWorking(): boolean {
+    return this.timer !== null || this.busy;
+  }
+
+  start() {
+    if (this.timer) return;
+    console.log(`Job worker ${this.workerId} started`);
+    this.timer = setTimeout(() => this.tick(), 0);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Without a worker (serverless deployments) the requests polling for job
+   * status take turns running queued jobs.
+   */
+  async runInline(): Promise<void> {
+    if (!this.isWorking) {
+      await this.runNext();
+    }
+  }
+
+  /** Claims and runs one due job. Resolves to false when none was waiting. */
+  async runNext(): Promise<boolean> {
+    await this.maintain();
+
+    const job = await storage.claimNextJob(this.workerId);
+    if (!job) return false;
+
+    const handler = this.handlers.get(job.type as JobType);
+    if (!handler) {
+      await this.finish(job, { status: "failed", error: `No handler for job type ${job.type}` });
+      return true;
+    }
+
+    console.log(`Running job ${job.id} (${job.type}), attempt ${job.attempts}/${job.maxAttempts}`);
+    const context: JobContext = {
+      progress: async (percent, message) => {
+        await storage.updateClaimedJob(job.id, this.workerId, {
+          progress: Math.max(0, Math.min(100, Math.round(percent))),
+          progressMessage: message ?? null,
+        });
+      },
+    };
+
+    try {
+      if (job.attempts > job.maxAttempts) {
+        throw new Error("Job was abandoned by its worker too many times");
+      }
+      const result = await handler.run(job, context);
+      await this.finish(job, { status: "completed", progress: 100, progressMessage: null, result: result || null });
+      console.log(`Job ${job.id} (${job.type}) completed`);
+    } catch (error: any) {
+      console.error(`Job ${job.id} (${job.type}) failed:`, error.message);
+      if (job.attempts < job.maxAttempts) {
+        const delay = 5000 * 2 ** (job.attempts - 1);
+        await storage.updateClaimedJob(job.id, this.workerId, {
+          status: "queued",
+          error: error.message,
+          runAt: new Date(Date.now() + delay),
+          lockedAt: null,
+          lockedBy: null,
+        });
+      } else {
+        await this.finish(job, { status: "failed", error: error.message });
+        await handler.onFailure?.(job, error).catch((failureError: any) => {
+          console.error(`Failure handling of job ${job.id} failed:`, failureError.message);
+        });
+      }
+    }
+    return true;
+  }
+
+  /** The job without where its output is stored. */
+  toPublicJob(job: Job): PublicJob {
+    const { lockedBy: _, result, ...rest } = job;
+    if (!result) {
+      return { ...rest, result: null };
+    }
+    const { filePath: __, ...publicResult } = result as JobResult;
+    return { ...rest, result: publicResult };
+  }
+
+  private async finish(job: Job, updates: Partial<Job>) {
+    await storage.updateClaimedJob(job.id, this.workerId, { ...updates, finishedAt: new Date(), lockedAt: null });
+  }
+
+  private schedule(delay: number) {
+    // Only a started worker polls; enqueue merely hurries it along
+    if (!this.timer || this.busy) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick() {
+    this.busy = true;
+    let ran = false;
+    try {
+      ran = await this.runNext();
+    } catch (error: any) {
+      console.error("Job worker error:", error.message);
+    } finally {
+      this.busy = false;
+    }
+    if (this.timer) {
+      this.timer = setTimeout(() => this.tick(), ran ? 0 : POLL_INTERVAL_MS);
+    }
+  }
+
+  private async maintain() {
+    if (Date.now() - this.lastMaintenance < MAINTENANCE_INTERVAL_MS) return;
+    this.lastMaintenance = Date.now();
+
+    const requeued = await storage.requeueStaleJobs(new Date(Date.now() - STALE_AFTER_MS));
+    if (requeued > 0) {
+      console.warn(`Requeued ${requeued} job(s) abandoned by their worker`);
+    }
+
+    for (const job of await storage.deleteFinishedJobs(new Date(Date.now() - KEEP_FINISHED_MS))) {
+      const filePath = (job.result as JobResult | null)?.filePath;
+      if (filePath) {
+        await fileStorage.delete(filePath).catch((error: any) => {
+          console.error(`Could not delete output ${filePath} of job ${job.id}:`, error.message);
+        });
+      }
+    }
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,150 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+const SEALED_PREFIX = "sealed:v1:";
+const KEY_LENGTH = 32; // AES-256
+
+function getKeyDirectory(): string {
+  // Vercel serverless only has /tmp as writable directory
+  return process.env.SIGNING_KEY_DIR || (process.env.VERCEL ? "/tmp/xsignature-keys" : ".keys");
+}
+
+function parseKeyList(value: string, variable: string): MasterKey[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator === -1) {
+        throw new Error(`${variable} must list keys as <key id>:<base64 key>`);
+      }
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (!/^[A-Za-z0-9_-]+$/.test(id) || key.length !== KEY_LENGTH) {
+        throw new Error(`${variable} key "${id}" must have an alphanumeric id and a 32-byte base64 value`);
+      }
+      return { id, key };
+    });
+}
+
+/**
+ * Envelope encryption for secrets stored in the database (signer private
+ * keys). Master keys live outside the database, in SIGNING_KEYS or, during
+ * development, a local key file, so a database dump alone is useless.
+ *
+ * Every sealed value records the id of the key that sealed it: the first key
+ * in SIGNING_KEYS seals new values and the others stay available for opening
+ * older ones while keys are rotated.
+ *
+ * The same scheme wraps the data keys of stored PDFs under DOCUMENT_KEYS, so
+ * the two sets of master keys can be held and rotated separately.
+ */
+export class KeyService {
+  private keys: MasterKey[] | null = null;
+
+  constructor(
+    private readonly variable = "SIGNING_KEYS",
+    private readonly keyFileName = "signing-keys"
+  ) {}
+
+  isSealed(value: string | null | undefined): boolean {
+    return !!value && value.startsWith(SEALED_PREFIX);
+  }
+
+  /**
+   * Encrypts with AES-256-GCM. `context` is authenticated but not stored, so a
+   * sealed value only opens for the record it was created for.
+   */
+  seal(plaintext: string, context: string): string {
+    const { id, key } = this.getKeys()[0];
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(Buffer.from(context, "utf8"));
+    const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+    return [
+      SEALED_PREFIX + id,
+      iv.toString("base64"),
+      cipher.getAuthTag().toString("base64"),
+      encrypted.toString("base64"),
+    ].join(":");
+  }
+
+  open(sealed: string, context: string): string {
+    if (!this.isSealed(sealed)) {
+      throw new Error("Value is not sealed");
+    }
+
+    const [id, iv, tag, encrypted] = sealed.slice(SEALED_PREFIX.length).split(":");
+    const masterKey = this.getKeys().find((candidate) => candidate.id === id);
+    if (!masterKey) {
+      throw new Error(`${this.variable} key "${id}" is not configured`);
+    }
+
+    const decipher = crypto.createDecipheriv("aes-256-gcm", masterKey.key, Buffer.from(iv, "base64"));
+    decipher.setAAD(Buffer.from(context, "utf8"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  /**
+   * HMAC-SHA256 of `value` under the current key: stable for the same input
+   * but impossible to predict without the key. Changes when keys rotate.
+   */
+  digest(value: string, context: string): Buffer {
+    return crypto.createHmac("sha256", this.getKeys()[0].key).update(`${context}:${value}`, "utf8").digest();
+  }
+
+  /** True for plaintext values and values sealed with a key other than the current one. */
+  needsResealing(value: string): boolean {
+    return !value.startsWith(`${SEALED_PREFIX}${this.getKeys()[0].id}:`);
+  }
+
+  private getKeys(): MasterKey[] {
+    if (!this.keys) {
+      this.keys = this.loadKeys();
+    }
+    return this.keys;
+  }
+
+  private loadKeys(): MasterKey[] {
+    const configured = process.env[this.variable];
+    if (configured) {
+      const keys = parseKeyList(configured, this.variable);
+      if (keys.length === 0) {
+        throw new Error(`${this.variable} is set but lists no keys`);
+      }
+      return keys;
+    }
+
+    // A generated key on an ephemeral filesystem would make everything sealed
+    // with it unreadable after the next deploy
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(`${this.variable} must be set in production`);
+    }
+
+    const keyPath = path.join(getKeyDirectory(), this.keyFileName);
+    if (fs.existsSync(keyPath)) {
+      return parseKeyList(fs.readFileSync(keyPath, "utf8"), this.variable);
+    }
+
+    console.warn(`${this.variable} not set, generating a development key in ${keyPath}`);
+    const generated = `dev-${Date.now().toString(36)}:${crypto.randomBytes(KEY_LENGTH).toString("base64")}`;
+    fs.mkdirSync(path.dirname(keyPath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(keyPath, generated, { mode: 0o600 });
+    return parseKeyList(generated, this.variable);
+  }
+}
+
+export const keyService = new KeyService();
+export const documentKeyService = new KeyService("DOCUMENT_KEYS", "document-keys");
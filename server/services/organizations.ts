@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { emailService } from "./email";
+import {
+  permissions,
+  rolePermissions,
+  type Organization,
+  type OrganizationAccess,
+  type OrganizationInvitation,
+  type OrganizationInvitationWithNames,
+  type OrganizationMember,
+  type OrganizationRole,
+  type Permission,
+  type PublicOrganizationInvitation,
+  type User,
+} from "@shared/schema";
+
+const INVITATION_TTL_DAYS = 14;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+export function toPublicInvitation(invitation: OrganizationInvitation): PublicOrganizationInvitation {
+  const { tokenHash: _, ...publicInvitation } = invitation;
+  return publicInvitation;
+}
+
+/**
+ * Organizations (firms), their members and what each member may do. Roles
+ * map to permissions through `rolePermissions`; a user who is not in an
+ * organization keeps every permission over their own documents. People join
+ * by accepting an invitation through the link emailed to them; accounts are
+ * not verified at registration, so the address alone proves nothing.
+ */
+export class OrganizationService {
+  async getAccess(userId: string): Promise<OrganizationAccess> {
+    const membership = await storage.getMembership(userId);
+    if (!membership) {
+      return {
+        organization: null,
+        role: null,
+        permissions: permissions.filter((permission) => permission !== "organization.manage"),
+      };
+    }
+
+    const organization = await storage.getOrganization(membership.organizationId);
+    return {
+      organization: organization || null,
+      role: membership.role,
+      permissions: [...rolePermissions[membership.role]],
+    };
+  }
+
+  can(access: OrganizationAccess, permission: Permission): boolean {
+    return access.permissions.includes(permission);
+  }
+
+  async createOrganization(userId: string, name: string): Promise<Organization> {
+    if (await storage.getMembership(userId)) {
+      throw new Error("You are already a member of an organization");
+    }
+    const organization = await storage.createOrganization(name, userId);
+    console.log(`Organization ${organization.id} created by user ${userId}`);
+    return organization;
+  }
+
+  /**
+   * Invites an email address. The response is the same whether or not the
+   * address has an account, and membership only starts once they accept.
+   * Inviting the address again sends a new link and voids the old one.
+   */
+  async inviteMember(
+    organization: Organization,
+    inviter: Pick<User, "id" | "fullName">,
+    email: string,
+    role: OrganizationRole
+  ): Promise<PublicOrganizationInvitation> {
+    email = normalizeEmail(email);
+    const members = await storage.getOrganizationMembers(organization.id);
+    if (members.some((member) => normalizeEmail(member.email) === email)) {
+      throw new Error(`${email} is already a member`);
+    }
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const invitation = await storage.createOrganizationInvitation({
+      organizationId: organization.id,
+      email,
+      role,
+      invitedBy: inviter.id,
+      tokenHash: hashInvitationToken(token),
+      expiresAt,
+    });
+
+    try {
+      await emailService.sendOrganizationInvitation({
+        to: email,
+        organizationName: organization.name,
+        inviterName: inviter.fullName,
+        role,
+        token,
+        expiresAt,
+      });
+    } catch (error: any) {
+      console.error(`Failed to email organization invitation ${invitation.id}:`, error.message);
+    }
+    console.log(`Invitation ${invitation.id} to organization ${organization.id} sent by user ${inviter.id}`);
+    return toPublicInvitation(invitation);
+  }
+
+  async cancelInvitation(organizationId: string, invitationId: string): Promise<void> {
+    const invitation = await storage.getOrganizationInvitation(invitationId);
+    if (!invitation || invitation.organizationId !== organizationId) {
+      throw new Error("Invitation not found");
+    }
+    await storage.deleteOrganizationInvitation(invitation.id);
+  }
+
+  /** The invitation behind a link, if it is addressed to the user's email. */
+  async getInvitation(user: Pick<User, "email">, token: string): Promise<OrganizationInvitationWithNames> {
+    const invitation = await storage.getOrganizationInvitationByTokenHash(hashInvitationToken(token));
+    if (!invitation || invitation.email !== normalizeEmail(user.email)) {
+      throw new Error("Invitation not found or expired");
+    }
+    return invitation;
+  }
+
+  async acceptInvitation(user: Pick<User, "id" | "email">, token: string): Promise<OrganizationMember> {
+    const invitation = await this.getInvitation(user, token);
+    if (await storage.getMembership(user.id)) {
+      throw new Error("Leave your current organization before joining another");
+    }
+
+    const member = await storage.acceptOrganizationInvitation(invitation, user.id);
+    console.log(`User ${user.id} joined organization ${invitation.organizationId} as ${invitation.role}`);
+    return member;
+  }
+
+  async declineInvitation(user: Pick<User, "id" | "email">, token: string): Promise<void> {
+    const invitation = await this.getInvitation(user, token);
+    await storage.deleteOrganizationInvitation(invitation.id);
+  }
+
+  async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const members = await storage.getOrganizationMembers(organizationId);
+    const member = members.find((candidate) => candidate.userId === userId);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+    if (member.role === "admin" && role !== "admin") {
+      this.checkOtherAdmin(members, userId);
+    }
+
+    const updated = await storage.updateOrganizationMemberRole(organizationId, userId, role);
+    if (!updated) {
+      throw new Error("Member not found");
+    }
+    return updated;
+  }
+
+  /**
+   * Removes a member; whatever they shared stops being shared. The last
+   * member leaving dissolves the organization.
+   */
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    const members = await storage.getOrganizationMembers(organizationId);
+    const member = members.find((candidate) => candidate.userId === userId);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+
+    if (members.length === 1) {
+      await storage.deleteOrganization(organizationId);
+      console.log(`Organization ${organizationId} dissolved as its last member left`);
+      return;
+    }
+    if (member.role === "admin") {
+      this.checkOtherAdmin(members, userId);
+    }
+    await storage.removeOrganizationMember(organizationId, userId);
+    console.log(`User ${userId} removed from organization ${organizationId}`);
+  }
+
+  private checkOtherAdmin(members: OrganizationMember[], userId: string) {
+    if (!members.some((member) => member.role === "admin" && member.userId !== userId)) {
+      throw new Error("An organization needs at least one admin");
+    }
+  }
+}
+
+export const organizationService = new OrganizationService();
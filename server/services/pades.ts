@@ -0,0 +1,371 @@
+import {
+  PDFDocument,
+  PDFName,
+  PDFDict,
+  PDFArray,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PDFNumber,
+  PDFObject,
+  PDFSignature,
+} from "pdf-lib";
+import { cmsService, type CmsSigner } from "./cms";
+import { timestampService } from "./timestamp";
+
+// Space reserved for the DER-encoded CMS blob inside /Contents
+const SIGNATURE_PLACEHOLDER_BYTES = 16384;
+const BYTE_RANGE_PLACEHOLDER = "[0 0000000000 0000000000 0000000000]";
+
+export interface PadesSigner extends CmsSigner {
+  name: string;
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  signingTime: Date;
+  // Attach an RFC 3161 signature timestamp (PAdES B-T)
+  timestamp?: boolean;
+}
+
+export interface SignatureRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SignatureFieldPlacement {
+  pageNumber: number;
+  rect: SignatureRect;
+  fieldName?: string;
+  // Empty signature field of the document's form to sign into, if it still exists
+  formFieldName?: string;
+  // Lock the whole document once signed: a field-lock (FieldMDP) signature that
+  // permits no further changes, so validators flag anything appended later
+  lock?: boolean;
+}
+
+interface PendingObject {
+  objectNumber: number;
+  body: string;
+}
+
+function toPdfDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function pdfText(value: string): string {
+  // Hex strings survive any characters in signer names or locations
+  return PDFHexString.fromText(value).toString();
+}
+
+export class PadesService {
+  /**
+   * Appends a PAdES signature to the PDF as an incremental update. The original
+   * bytes are never modified, so any earlier signatures keep covering exactly
+   * the revision they signed.
+   */
+  async signPdf(
+    pdfBytes: Uint8Array,
+    signer: PadesSigner,
+    placement: SignatureFieldPlacement
+  ): Promise<Buffer> {
+    const original = Buffer.from(pdfBytes);
+    const pdfDoc = await PDFDocument.load(original, { updateMetadata: false });
+    const context = pdfDoc.context;
+
+    const pageCount = pdfDoc.getPageCount();
+    if (placement.pageNumber < 1 || placement.pageNumber > pageCount) {
+      throw new Error(`Cannot place signature on page ${placement.pageNumber}; document has ${pageCount} pages`);
+    }
+
+    const previous = this.findPreviousXref(original);
+    const catalogRef = context.trailerInfo.Root as PDFRef;
+    const page = pdfDoc.getPage(placement.pageNumber - 1);
+
+    // Object streams and earlier xref streams are not registered in the
+    // context, so the previous trailer's /Size is the authoritative floor
+    let nextObjectNumber = Math.max(context.largestObjectNumber + 1, previous.size);
+    const sigNumber = nextObjectNumber++;
+    const appearanceNumber = nextObjectNumber++;
+    const sigRef = PDFRef.of(sigNumber);
+    const appearanceRef = PDFRef.of(appearanceNumber);
+    const { x, y, width, height } = placement.rect;
+
+    const pending: PendingObject[] = [];
+    const lock = placement.lock
+      ? context.obj({ Type: "SigFieldLock", Action: "All", P: 1 })
+      : undefined;
+
+    // AcroForm: mark the document as signed/append-only
+    const catalog = pdfDoc.catalog;
+    const acroFormEntry = catalog.get(PDFName.of("AcroForm"));
+    const existingAcroForm = catalog.lookup(PDFName.of("AcroForm"));
+    const acroForm =
+      existingAcroForm instanceof PDFDict ? (existingAcroForm.clone(context) as PDFDict) : context.obj({});
+    acroForm.set(PDFName.of("SigFlags"), PDFNumber.of(3));
+
+    const formField = placement.formFieldName
+      ? this.findEmptySignatureField(pdfDoc, placement.formFieldName)
+      : undefined;
+
+    if (formField) {
+      // The form already has a field for this signature: fill it in place
+      const fieldDict = (context.lookup(formField.fieldRef) as PDFDict).clone(context) as PDFDict;
+      fieldDict.set(PDFName.of("V"), sigRef);
+      if (lock) fieldDict.set(PDFName.of("Lock"), lock);
+      const widgetDict =
+        formField.widgetRef === formField.fieldRef
+          ? fieldDict
+          : ((context.lookup(formField.widgetRef) as PDFDict).clone(context) as PDFDict);
+      widgetDict.set(PDFName.of("AP"), context.obj({ N: appearanceRef }));
+      widgetDict.set(PDFName.of("F"), PDFNumber.of(132)); // Print + Locked
+      pending.push({ objectNumber: formField.fieldRef.objectNumber, body: fieldDict.toString() });
+      if (widgetDict !== fieldDict) {
+        pending.push({ objectNumber: formField.widgetRef.objectNumber, body: widgetDict.toString() });
+      }
+    } else {
+      const widgetNumber = nextObjectNumber++;
+      const widgetRef = PDFRef.of(widgetNumber);
+
+      // Page: append the widget to /Annots (copying any indirect array inline)
+      const pageDict = page.node.clone(context) as PDFDict;
+      const existingAnnots = page.node.lookup(PDFName.of("Annots"));
+      const annots = existingAnnots instanceof PDFArray ? (existingAnnots.clone(context) as PDFArray) : context.obj([]);
+      annots.push(widgetRef);
+      pageDict.set(PDFName.of("Annots"), annots);
+      pending.push({ objectNumber: page.ref.objectNumber, body: pageDict.toString() });
+
+      // AcroForm: append the field
+      const existingFields = acroForm.lookup(PDFName.of("Fields"));
+      const fields = existingFields instanceof PDFArray ? (existingFields.clone(context) as PDFArray) : context.obj([]);
+      const fieldName = placement.fieldName || this.uniqueFieldName(fields, context);
+      fields.push(widgetRef);
+      acroForm.set(PDFName.of("Fields"), fields);
+
+      const widget = context.obj({
+        Type: "Annot",
+        Subtype: "Widget",
+        FT: "Sig",
+        Rect: [x, y, x + width, y + height],
+        V: sigRef,
+        T: PDFString.of(fieldName),
+        F: 132, // Print + Locked
+        P: page.ref,
+        AP: { N: appearanceRef },
+      });
+      if (lock) widget.set(PDFName.of("Lock"), lock);
+      pending.push({ objectNumber: widgetNumber, body: widget.toString() });
+    }
+
+    if (acroFormEntry instanceof PDFRef) {
+      pending.push({ objectNumber: acroFormEntry.objectNumber, body: acroForm.toString() });
+    } else {
+      const acroFormNumber = nextObjectNumber++;
+      const catalogCopy = catalog.clone(context) as PDFDict;
+      catalogCopy.set(PDFName.of("AcroForm"), PDFRef.of(acroFormNumber));
+      pending.push({ objectNumber: acroFormNumber, body: acroForm.toString() });
+      pending.push({ objectNumber: catalogRef.objectNumber, body: catalogCopy.toString() });
+    }
+
+    // Empty appearance: the visible stamp is already drawn into the page content
+    pending.push({
+      objectNumber: appearanceNumber,
+      body: `<< /Type /XObject /Subtype /Form /BBox [0 0 ${width} ${height}] /Resources << >> /Length 0 >>\nstream\n\nendstream`,
+    });
+
+    const contentsPlaceholder = "<" + "0".repeat(SIGNATURE_PLACEHOLDER_BYTES * 2) + ">";
+    const sigEntries = [
+      "/Type /Sig",
+      "/Filter /Adobe.PPKLite",
+      "/SubFilter /ETSI.CAdES.detached",
+      `/ByteRange ${BYTE_RANGE_PLACEHOLDER}`,
+      `/Contents ${contentsPlaceholder}`,
+      `/M (${toPdfDate(signer.signingTime)})`,
+      `/Name ${pdfText(signer.name)}`,
+    ];
+    if (signer.reason) sigEntries.push(`/Reason ${pdfText(signer.reason)}`);
+    if (signer.location) sigEntries.push(`/Location ${pdfText(signer.location)}`);
+    if (signer.contactInfo) sigEntries.push(`/ContactInfo ${pdfText(signer.contactInfo)}`);
+    if (lock) {
+      sigEntries.push(
+        `/Reference [<< /Type /SigRef /TransformMethod /FieldMDP /TransformParams << /Type /TransformParams /Action /All /P 1 /V /1.2 >> /Data ${catalogRef.toString()} >>]`
+      );
+    }
+    pending.push({ objectNumber: sigNumber, body: `<<\n${sigEntries.join("\n")}\n>>` });
+
+    const updated = this.writeIncrementalUpdate(original, pending, {
+      size: nextObjectNumber,
+      previousXref: previous.offset,
+      useXrefStream: previous.isStream,
+      rootRef: catalogRef,
+      infoRef: context.trailerInfo.Info as PDFObject | undefined,
+      id: context.trailerInfo.ID as PDFObject | undefined,
+    });
+
+    return this.embedSignature(updated, original.length, signer);
+  }
+
+  private findEmptySignatureField(
+    pdfDoc: PDFDocument,
+    name: string
+  ): { fieldRef: PDFRef; widgetRef: PDFRef } | undefined {
+    // getForm() would create an AcroForm on documents without one
+    if (!pdfDoc.catalog.has(PDFName.of("AcroForm"))) return undefined;
+
+    const field = pdfDoc.getForm().getFieldMaybe(name);
+    if (!(field instanceof PDFSignature) || field.acroField.dict.has(PDFName.of("V"))) {
+      return undefined;
+    }
+    const widget = field.acroField.getWidgets()[0];
+    const widgetRef = widget && pdfDoc.context.getObjectRef(widget.dict);
+    return widgetRef ? { fieldRef: field.ref, widgetRef } : undefined;
+  }
+
+  private uniqueFieldName(fields: PDFArray, context: PDFDocument["context"]): string {
+    const names = new Set<string>();
+    for (let i = 0; i < fields.size(); i++) {
+      const field = context.lookup(fields.get(i));
+      if (field instanceof PDFDict) {
+        const name = field.lookup(PDFName.of("T"));
+        if (name instanceof PDFString || name instanceof PDFHexString) {
+          names.add(name.decodeText());
+        }
+      }
+    }
+    let index = 1;
+    while (names.has(`Signature${index}`)) index++;
+    return `Signature${index}`;
+  }
+
+  private findPreviousXref(bytes: Buffer): { offset: number; isStream: boolean; size: number } {
+    const tail = bytes.subarray(Math.max(0, bytes.length - 1024)).toString("latin1");
+    const matches = Array.from(tail.matchAll(/startxref\s+(\d+)\s+%%EOF/g));
+    if (matches.length === 0) {
+      throw new Error("Unable to locate the cross-reference table of the PDF");
+    }
+    const offset = parseInt(matches[matches.length - 1][1], 10);
+    const isStream = bytes.subarray(offset, offset + 4).toString("latin1") !== "xref";
+
+    // /Size lives in the trailer dictionary (or the xref stream dictionary)
+    const section = bytes.subarray(offset).toString("latin1");
+    const dictionaryStart = isStream ? 0 : section.indexOf("trailer");
+    const sizeMatch = section.slice(Math.max(0, dictionaryStart)).match(/\/Size\s+(\d+)/);
+
+    return { offset, isStream, size: sizeMatch ? parseInt(sizeMatch[1], 10) : 0 };
+  }
+
+  private writeIncrementalUpdate(
+    original: Buffer,
+    objects: PendingObject[],
+    trailer: {
+      size: number;
+      previousXref: number;
+      useXrefStream: boolean;
+      rootRef: PDFRef;
+      infoRef?: PDFObject;
+      id?: PDFObject;
+    }
+  ): Buffer {
+    const chunks: Buffer[] = [original];
+    let position = original.length;
+    const push = (text: string) => {
+      const chunk = Buffer.from(text, "latin1");
+      chunks.push(chunk);
+      position += chunk.length;
+    };
+
+    if (original[original.length - 1] !== 0x0a) push("\n");
+
+    const offsets = new Map<number, number>();
+    for (const object of objects.sort((a, b) => a.objectNumber - b.objectNumber)) {
+      offsets.set(object.objectNumber, position);
+      push(`${object.objectNumber} 0 obj\n${object.body}\nendobj\n`);
+    }
+
+    const trailerEntries = [
+      `/Size ${trailer.useXrefStream ? trailer.size + 1 : trailer.size}`,
+      `/Root ${trailer.rootRef.toString()}`,
+      `/Prev ${trailer.previousXref}`,
+    ];
+    if (trailer.infoRef) trailerEntries.push(`/Info ${trailer.infoRef.toString()}`);
+    if (trailer.id) trailerEntries.push(`/ID ${trailer.id.toString()}`);
+
+    const numbers = Array.from(offsets.keys()).sort((a, b) => a - b);
+    const xrefOffset = position;
+
+    if (trailer.useXrefStream) {
+      // Follow the previous revision's style: a stream (uncompressed, W [1 4 2])
+      const xrefNumber = trailer.size;
+      offsets.set(xrefNumber, xrefOffset);
+      numbers.push(xrefNumber);
+      const rows = numbers.map((n) => {
+        const row = Buffer.alloc(7);
+        row.writeUInt8(1, 0);
+        row.writeUInt32BE(offsets.get(n)!, 1);
+        row.writeUInt16BE(0, 5);
+        return row;
+      });
+      const data = Buffer.concat(rows);
+      const index = numbers.map((n) => `${n} 1`).join(" ");
+      push(
+        `${xrefNumber} 0 obj\n<< /Type /XRef ${trailerEntries.join(" ")} /Index [${index}] /W [1 4 2] /Length ${data.length} >>\nstream\n`
+      );
+      chunks.push(data);
+      position += data.length;
+      push(`\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    } else {
+      let xref = "xref\n";
+      for (const n of numbers) {
+        xref += `${n} 1\n${offsets.get(n)!.toString().padStart(10, "0")} 00000 n\r\n`;
+      }
+      push(xref);
+      push(`trailer\n<<\n${trailerEntries.join("\n")}\n>>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private async embedSignature(pdf: Buffer, searchFrom: number, signer: PadesSigner): Promise<Buffer> {
+    const byteRangeOffset = pdf.indexOf(`/ByteRange ${BYTE_RANGE_PLACEHOLDER}`, searchFrom, "latin1");
+    const contentsOffset = pdf.indexOf("/Contents <", byteRangeOffset, "latin1");
+    if (byteRangeOffset === -1 || contentsOffset === -1) {
+      throw new Error("Signature placeholder not found in PDF");
+    }
+
+    const contentsStart = contentsOffset + "/Contents ".length;
+    const contentsEnd = contentsStart + SIGNATURE_PLACEHOLDER_BYTES * 2 + 2;
+    const byteRange = [0, contentsStart, contentsEnd, pdf.length - contentsEnd];
+
+    const byteRangeText = `[${byteRange.join(" ")}]`.padEnd(BYTE_RANGE_PLACEHOLDER.length, " ");
+    if (byteRangeText.length > BYTE_RANGE_PLACEHOLDER.length) {
+      throw new Error("PDF is too large to sign");
+    }
+    pdf.write(byteRangeText, byteRangeOffset + "/ByteRange ".length, "latin1");
+
+    const signedContent = Buffer.concat([pdf.subarray(0, contentsStart), pdf.subarray(contentsEnd)]);
+    let cms = cmsService.createDetachedSignature(signer, signedContent);
+    if (signer.timestamp) {
+      try {
+        cms = await timestampService.timestampSignature(cms);
+      } catch (error: any) {
+        // An unreachable TSA should not block downloads; the signature stays PAdES B-B
+        console.error("PAdES: Signature timestamp failed, signing without it:", error.message);
+      }
+    }
+
+    const hex = cms.toString("hex").toUpperCase();
+    if (hex.length > SIGNATURE_PLACEHOLDER_BYTES * 2) {
+      throw new Error("CMS signature exceeds the reserved signature space");
+    }
+    pdf.write(hex, contentsStart + 1, "latin1");
+
+    return pdf;
+  }
+}
+
+export const padesService = new PadesService();
@@ -0,0 +1,99 @@
+import { createCanvas } from "@napi-rs/canvas";
+import type { PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { storage } from "../storage";
+import { fileStorage } from "./file-storage";
+import { openPdf } from "./pdfjs";
+import { type DocumentPage, type InsertDocumentPage, type PdfDocument } from "@shared/schema";
+
+export type PageImageSize = "thumbnail" | "preview";
+
+const THUMBNAIL_WIDTH = 200;
+const PREVIEW_WIDTH = 1000;
+// Enough for any sensible page; keeps banners and scrolls from exhausting memory
+const MAX_HEIGHT = 4000;
+const JPEG_QUALITY = { thumbnail: 70, preview: 80 };
+
+/**
+ * Thumbnails and previews of every page of an uploaded PDF, rendered with
+ * pdf.js on the server so the document list and the viewer can show pages
+ * before the browser has loaded the PDF. Images go through file storage like
+ * the PDFs themselves, so they are encrypted at rest too.
+ */
+export class PageImageService {
+  /**
+   * Renders every page of the document's original upload and replaces its
+   * stored page images. `onPage` is told after each page, for job progress.
+   */
+  async renderDocument(
+    document: PdfDocument,
+    onPage?: (rendered: number, total: number) => Promise<void>
+  ): Promise<DocumentPage[]> {
+    console.log(`Page images: Rendering pages of document ${document.id}`);
+    const pdf = await openPdf(new Uint8Array(await fileStorage.get(document.filePath)));
+
+    const pages: Omit<InsertDocumentPage, "documentId">[] = [];
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        try {
+          const thumbnail = await this.renderPage(page, THUMBNAIL_WIDTH, JPEG_QUALITY.thumbnail);
+          const preview = await this.renderPage(page, PREVIEW_WIDTH, JPEG_QUALITY.preview);
+          pages.push({
+            pageNumber,
+            thumbnailPath: await fileStorage.put(fileStorage.newKey("thumb", "jpg"), thumbnail.bytes),
+            previewPath: await fileStorage.put(fileStorage.newKey("preview", "jpg"), preview.bytes),
+            width: preview.width,
+            height: preview.height,
+          });
+        } finally {
+          page.cleanup();
+        }
+        await onPage?.(pageNumber, pdf.numPages);
+      }
+    } catch (error) {
+      await this.deleteFiles(pages);
+      throw error;
+    } finally {
+      await pdf.destroy();
+    }
+
+    const replaced = await storage.replaceDocumentPages(document.id, pages);
+    await this.deleteFiles(replaced);
+    console.log(`Page images: Stored ${pages.length} page(s) of document ${document.id}`);
+    return storage.getDocumentPages(document.id);
+  }
+
+  async getImage(page: DocumentPage, size: PageImageSize): Promise<Buffer> {
+    return fileStorage.get(size === "thumbnail" ? page.thumbnailPath : page.previewPath);
+  }
+
+  /** Deletes the stored images of the given pages, logging rather than failing. */
+  async deleteFiles(pages: Pick<DocumentPage, "thumbnailPath" | "previewPath">[]): Promise<void> {
+    for (const page of pages) {
+      for (const filePath of [page.thumbnailPath, page.previewPath]) {
+        await fileStorage.delete(filePath).catch((error: any) => {
+          console.error(`Could not delete page image ${filePath}:`, error.message);
+        });
+      }
+    }
+  }
+
+  private async renderPage(page: PDFPageProxy, width: number, quality: number) {
+    const unscaled = page.getViewport({ scale: 1 });
+    const scale = Math.min(width / unscaled.width, MAX_HEIGHT / unscaled.height);
+    const viewport = page.getViewport({ scale });
+    const canvas = createCanvas(Math.max(1, Math.round(viewport.width)), Math.max(1, Math.round(viewport.height)));
+    const context = canvas.getContext("2d");
+
+    // JPEG has no transparency; pages without a background would come out black
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    // @napi-rs/canvas implements what pdf.js draws with, not the whole DOM interface
+    const canvasContext = context as unknown as CanvasRenderingContext2D;
+    await page.render({ canvasContext, viewport }).promise;
+
+    return { bytes: await canvas.encode("jpeg", quality), width: canvas.width, height: canvas.height };
+  }
+}
+
+export const pageImageService = new PageImageService();
@@ -1,5 +1,31 @@
-import { PDFDocument, PDFPage, rgb, StandardFonts } from "pdf-lib";
-import fs from "fs/promises";
+import {
+  PDFArray,
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFFont,
+  PDFForm,
+  PDFName,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFRawStream,
+  PDFSignature,
+  PDFStream,
+  PDFString,
+  PDFHexString,
+  PDFTextField,
+  PDFWidgetAnnotation,
+  concatTransformationMatrix,
+  decodePDFRawStream,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  StandardFonts,
+} from "pdf-lib";
+import crypto from "crypto";
+import { fileStorage } from "./file-storage";
 import path from "path";
 
 export interface SignatureData {
@@ -8,6 +34,8 @@ export interface SignatureData {
   location: string;
   timestamp: Date;
   timeZone: string;
+  // The delegate who placed the stamp on the signer's behalf
+  appliedByName?: string;
 }
 
 export interface SignaturePosition {
@@ -16,13 +44,61 @@ export interface SignaturePosition {
   width: number;
   height: number;
   gridPosition: string;
+  rotation?: number;
+}
+
+// A box in PDF points (bottom-left origin), turned clockwise about its centre
+export interface PdfRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+// Stamps drawn from a grid preset, and the size their text layout is designed for
+const STAMP_WIDTH = 220;
+const STAMP_HEIGHT = 100;
+const GRID_MARGIN = 50;
+// US Letter, for documents whose page sizes were never recorded
+const DEFAULT_PAGE_SIZE = { width: 612, height: 792 };
+
+// A filled document field other than a signature, drawn inside its own box
+export interface FieldValue {
+  type: string; // One of fieldTypes
+  pageNumber: number;
+  position: SignaturePosition;
+  value: string;
+  fontSize?: number | null;
+}
+
+// An AcroForm field found in an uploaded PDF; radio groups give one per button
+export interface DetectedFormField {
+  formFieldName: string;
+  name: string;
+  type: "text" | "checkbox" | "radio" | "dropdown" | "signature";
+  pageNumber: number;
+  rect: { x: number; y: number; width: number; height: number };
+  required: boolean;
+  groupName?: string;
+  options?: string[];
+  maxLength?: number;
+  value: string | null;
+}
+
+// A value to set on an AcroForm field; for radio buttons, option is the one to select
+export interface FormFieldValue {
+  formFieldName: string;
+  type: string;
+  value: string;
+  option?: string;
 }
 
 export class PdfService {
   async loadPdf(filePath: string): Promise<PDFDocument> {
     try {
       console.log(`PDF Service: Reading file from ${filePath}`);
-      const pdfBytes = await fs.readFile(filePath);
+      const pdfBytes = await fileStorage.get(filePath);
       console.log(`PDF Service: File read successfully, size: ${pdfBytes.length} bytes`);
       
       console.log(`PDF Service: Loading PDF document...`);
@@ -76,7 +152,48 @@ export class PdfService {
     }
   }
 
-  async processDocument(filePath: string): Promise<{ pageCount: number; pageSizes: Array<{ width: number; height: number }> }> {
+  /**
+   * One hash per page over its drawing instructions and annotations, so two
+   * versions of a document can be compared page by page even though
+   * incremental signatures change the file's bytes as a whole.
+   */
+  async getPageFingerprints(pdfBytes: Uint8Array): Promise<string[]> {
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    return pdfDoc.getPages().map((page) => {
+      const hash = crypto.createHash("sha256");
+
+      const contents = page.node.Contents();
+      const streams = contents instanceof PDFArray
+        ? contents.asArray().map((ref) => pdfDoc.context.lookup(ref))
+        : [contents];
+      for (const stream of streams) {
+        if (stream instanceof PDFRawStream) {
+          try {
+            hash.update(decodePDFRawStream(stream).decode());
+          } catch {
+            hash.update(stream.getContents());
+          }
+        } else if (stream instanceof PDFStream) {
+          hash.update(stream.getContents());
+        }
+      }
+
+      // Object numbers differ between files, so only what an annotation is and where
+      for (const ref of page.node.Annots()?.asArray() || []) {
+        const annotation = pdfDoc.context.lookup(ref);
+        if (annotation instanceof PDFDict) {
+          hash.update(`${annotation.get(PDFName.of("Subtype"))}${annotation.get(PDFName.of("Rect"))}`);
+        }
+      }
+      return hash.digest("hex");
+    });
+  }
+
+  async processDocument(filePath: string): Promise<{
+    pageCount: number;
+    pageSizes: Array<{ width: number; height: number }>;
+    formFields: DetectedFormField[];
+  }> {
     try {
       console.log(`PDF Service: Processing document ${filePath}`);
       
@@ -89,9 +206,17 @@ export class PdfService {
         return { width, height };
       });
       
-      console.log(`PDF Service: Document processed successfully - Pages: ${pageCount}, Sizes:`, pageSizes);
+      let formFields: DetectedFormField[] = [];
+      try {
+        formFields = this.detectFormFields(pdfDoc);
+      } catch (formError: any) {
+        // A malformed form must not stop the upload; the pages are still usable
+        console.error(`PDF Service: Could not read form fields of ${filePath}:`, formError.message);
+      }
+
+      console.log(`PDF Service: Document processed successfully - Pages: ${pageCount}, Form fields: ${formFields.length}, Sizes:`, pageSizes);
       
-      return { pageCount, pageSizes };
+      return { pageCount, pageSizes, formFields };
     } catch (error: any) {
       console.error(`PDF Service: Error processing document ${filePath}:`, error);
       throw error;
@@ -104,18 +229,338 @@ export class PdfService {
       pageNumber: number;
       position: SignaturePosition;
       signatureData: SignatureData & { signatureImage?: string };
-    }>
+    }>,
+    options: {
+      useObjectStreams?: boolean;
+      appendPdf?: Uint8Array;
+      fieldValues?: FieldValue[];
+      formValues?: FormFieldValue[];
+      flattenForm?: boolean;
+    } = {}
   ): Promise<Uint8Array> {
     const pdfDoc = await this.loadPdf(filePath);
     const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
     const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
 
+    // Form values go in before the stamps so flattening cannot cover them
+    if (options.formValues?.length || options.flattenForm) {
+      const form = pdfDoc.getForm();
+      this.fillForm(form, options.formValues || [], font);
+      if (options.flattenForm) {
+        this.flattenForm(form);
+      }
+    }
+
     for (const sig of signatures) {
       const page = pdfDoc.getPage(sig.pageNumber - 1);
       await this.drawSignature(page, sig.position, sig.signatureData, font, boldFont);
     }
 
-    return pdfDoc.save();
+    if (options.fieldValues?.length) {
+      const initialsFont = await pdfDoc.embedFont(StandardFonts.TimesRomanBoldItalic);
+      for (const field of options.fieldValues) {
+        await this.drawField(pdfDoc.getPage(field.pageNumber - 1), field, field.type === "initials" ? initialsFont : font);
+      }
+    }
+
+    if (options.appendPdf) {
+      const appendix = await PDFDocument.load(options.appendPdf);
+      const pages = await pdfDoc.copyPages(appendix, appendix.getPageIndices());
+      pages.forEach((page) => pdfDoc.addPage(page));
+    }
+
+    // Cryptographic signing appends incremental updates, which are simplest
+    // on top of a classic cross-reference table
+    return pdfDoc.save({ useObjectStreams: options.useObjectStreams ?? true });
+  }
+
+  /**
+   * Turns a requested position into the stored form: a box in PDF points on a
+   * page of the given size. Grid presets are laid out with the given default
+   * size unless the position carries its own width and height.
+   */
+  toPdfPosition(
+    position: { gridPosition: string; x?: number; y?: number; width?: number; height?: number; rotation?: number },
+    pageWidth: number,
+    pageHeight: number,
+    defaultSize: { width: number; height: number } = { width: STAMP_WIDTH, height: STAMP_HEIGHT }
+  ): PdfRect & { gridPosition: "pdf" } {
+    const width = position.width || defaultSize.width;
+    const height = position.height || defaultSize.height;
+    const rotation = (((position.rotation || 0) % 360) + 360) % 360;
+
+    if (position.gridPosition === "pdf") {
+      if (!Number.isFinite(position.x) || !Number.isFinite(position.y)) {
+        throw new Error("A position in PDF points needs numeric x and y");
+      }
+      return { gridPosition: "pdf", x: position.x!, y: position.y!, width, height, rotation };
+    }
+
+    const corner = this.gridPositionToCoordinates(position.gridPosition, pageWidth, pageHeight, width, height);
+    if (!corner) {
+      throw new Error(`Unknown position "${position.gridPosition}"; use a grid position or "pdf" coordinates`);
+    }
+    return { gridPosition: "pdf", ...corner, width, height, rotation };
+  }
+
+  /** toPdfPosition for a page of a document, given its stored pageSizes JSON. */
+  resolvePosition(
+    pageSizes: string | null,
+    pageNumber: number,
+    position: Parameters<PdfService["toPdfPosition"]>[0],
+    defaultSize?: { width: number; height: number }
+  ): PdfRect & { gridPosition: "pdf" } {
+    const { width, height } = this.getPageSize(pageSizes, pageNumber);
+    return this.toPdfPosition(position, width, height, defaultSize);
+  }
+
+  /** Size in PDF points of a page, from a document's stored pageSizes JSON. */
+  getPageSize(pageSizes: string | null, pageNumber: number): { width: number; height: number } {
+    try {
+      const sizes: Array<{ width: number; height: number }> = JSON.parse(pageSizes || "[]");
+      return sizes[pageNumber - 1] || DEFAULT_PAGE_SIZE;
+    } catch {
+      return DEFAULT_PAGE_SIZE;
+    }
+  }
+
+  /**
+   * Returns the box (in PDF points, bottom-left origin) that a stamp
+   * occupies on a page of the given size.
+   */
+  getSignatureRect(pageWidth: number, pageHeight: number, position: SignaturePosition): PdfRect {
+    const { x, y, width, height, rotation } = this.toPdfPosition(position, pageWidth, pageHeight);
+    return { x, y, width, height, rotation };
+  }
+
+  /**
+   * Returns the box (in PDF points, bottom-left origin) of a document field,
+   * sized by the field rather than the stamp size.
+   */
+  getFieldRect(pageWidth: number, pageHeight: number, position: SignaturePosition): PdfRect {
+    return this.getSignatureRect(pageWidth, pageHeight, position);
+  }
+
+  /** The upright rectangle that contains a (possibly rotated) box. */
+  getBoundingRect(rect: PdfRect): { x: number; y: number; width: number; height: number } {
+    const radians = (rect.rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const width = rect.width * cos + rect.height * sin;
+    const height = rect.width * sin + rect.height * cos;
+    return {
+      x: rect.x + (rect.width - width) / 2,
+      y: rect.y + (rect.height - height) / 2,
+      width,
+      height,
+    };
+  }
+
+  // Draws into the upright box; the page sees it turned about the box centre
+  private async drawRotated(page: PDFPage, rect: PdfRect, draw: () => void | Promise<void>) {
+    if (!rect.rotation) {
+      await draw();
+      return;
+    }
+    // Clockwise on the page is a negative angle in PDF space
+    const radians = (-rect.rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const cx = rect.x + rect.width / 2;
+    const cy = rect.y + rect.height / 2;
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(cos, sin, -sin, cos, cx - cx * cos + cy * sin, cy - cx * sin - cy * cos)
+    );
+    try {
+      await draw();
+    } finally {
+      page.pushOperators(popGraphicsState());
+    }
+  }
+
+  private async drawField(page: PDFPage, field: FieldValue, font: PDFFont) {
+    const { width: pageWidth, height: pageHeight } = page.getSize();
+    const rect = this.getFieldRect(pageWidth, pageHeight, field.position);
+    await this.drawRotated(page, rect, () => this.drawFieldValue(page, rect, field, font));
+  }
+
+  private drawFieldValue(page: PDFPage, rect: PdfRect, field: FieldValue, font: PDFFont) {
+    const black = rgb(0, 0, 0);
+
+    if (field.type === "checkbox") {
+      const size = Math.min(rect.width, rect.height);
+      page.drawRectangle({ x: rect.x, y: rect.y, width: size, height: size, borderColor: black, borderWidth: 1 });
+      if (field.value === "true") {
+        const thickness = Math.max(1, size / 8);
+        page.drawLine({
+          start: { x: rect.x + size * 0.2, y: rect.y + size * 0.5 },
+          end: { x: rect.x + size * 0.42, y: rect.y + size * 0.25 },
+          thickness,
+          color: black,
+        });
+        page.drawLine({
+          start: { x: rect.x + size * 0.42, y: rect.y + size * 0.25 },
+          end: { x: rect.x + size * 0.8, y: rect.y + size * 0.8 },
+          thickness,
+          color: black,
+        });
+      }
+      return;
+    }
+
+    if (field.type === "radio") {
+      const radius = Math.min(rect.width, rect.height) / 2;
+      const center = { x: rect.x + radius, y: rect.y + radius };
+      page.drawCircle({ ...center, size: radius, borderColor: black, borderWidth: 1 });
+      if (field.value === "true") {
+        page.drawCircle({ ...center, size: radius * 0.5, color: black });
+      }
+      return;
+    }
+
+    const text = this.toFontText(font, field.value);
+
+    // Initials fill their box; other text uses the field's size, shrunk to fit
+    const padding = Math.min(4, rect.width / 10);
+    let size = field.fontSize || (field.type === "initials" ? rect.height * 0.7 : Math.min(12, rect.height * 0.7));
+    while (size > 6 && font.widthOfTextAtSize(text, size) > rect.width - 2 * padding) {
+      size -= 0.5;
+    }
+
+    page.drawText(text, {
+      x: rect.x + padding,
+      y: rect.y + (rect.height - font.heightAtSize(size, { descender: false })) / 2,
+      size,
+      font,
+      color: black,
+    });
+  }
+
+  // Standard fonts only cover WinAnsi; anything else would make drawing throw
+  private toFontText(font: PDFFont, text: string): string {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text)
+      .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+      .join("");
+  }
+
+  /**
+   * Lists the fillable fields of the PDF's AcroForm with the page and
+   * rectangle (PDF points) of each. Push buttons and signature fields that
+   * are already signed are left out.
+   */
+  detectFormFields(pdfDoc: PDFDocument): DetectedFormField[] {
+    if (!pdfDoc.catalog.has(PDFName.of("AcroForm"))) {
+      return [];
+    }
+
+    const pages = pdfDoc.getPages();
+    const pageNumberOf = (widget: PDFWidgetAnnotation): number => {
+      const pageRef = widget.P();
+      let index = pageRef ? pages.findIndex((page) => page.ref === pageRef) : -1;
+      if (index === -1) {
+        const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+        index = pages.findIndex((page) => !!page.node.Annots()?.asArray().some((ref) => ref === widgetRef));
+      }
+      return index + 1;
+    };
+    const rectOf = (widget: PDFWidgetAnnotation) => {
+      const { x, y, width, height } = widget.getRectangle();
+      return { x, y, width, height };
+    };
+
+    const detected: DetectedFormField[] = [];
+    for (const field of pdfDoc.getForm().getFields()) {
+      try {
+        const formFieldName = field.getName();
+        // Forms usually carry a readable label in the alternate name (/TU)
+        const label = field.acroField.dict.lookup(PDFName.of("TU"));
+        const name =
+          label instanceof PDFString || label instanceof PDFHexString ? label.decodeText() || formFieldName : formFieldName;
+        const widgets = field.acroField.getWidgets().filter((widget) => pageNumberOf(widget) > 0);
+        if (widgets.length === 0) continue;
+
+        const base = {
+          formFieldName,
+          name,
+          pageNumber: pageNumberOf(widgets[0]),
+          rect: rectOf(widgets[0]),
+          required: field.isRequired(),
+        };
+
+        if (field instanceof PDFTextField) {
+          detected.push({ ...base, type: "text", maxLength: field.getMaxLength(), value: field.getText() ?? null });
+        } else if (field instanceof PDFCheckBox) {
+          detected.push({ ...base, type: "checkbox", value: field.isChecked() ? "true" : null });
+        } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+          detected.push({ ...base, type: "dropdown", options: field.getOptions(), value: field.getSelected()[0] ?? null });
+        } else if (field instanceof PDFSignature) {
+          if (!field.acroField.dict.has(PDFName.of("V"))) {
+            detected.push({ ...base, type: "signature", value: null });
+          }
+        } else if (field instanceof PDFRadioGroup) {
+          // Options (export values from /Opt when present) line up with the widgets
+          const selected = field.getSelected();
+          const options = field.getOptions();
+          field.acroField.getWidgets().forEach((widget, index) => {
+            if (pageNumberOf(widget) === 0) return;
+            const option = options[index] || widget.getOnValue()?.decodeText() || `Option ${index + 1}`;
+            detected.push({
+              ...base,
+              name: option,
+              type: "radio",
+              groupName: name,
+              pageNumber: pageNumberOf(widget),
+              rect: rectOf(widget),
+              value: selected === undefined ? null : String(selected === option),
+            });
+          });
+        }
+      } catch (error: any) {
+        // Skip a malformed field rather than losing the whole form
+        console.error(`PDF Service: Could not read form field:`, error.message);
+      }
+    }
+
+    return detected;
+  }
+
+  private fillForm(form: PDFForm, values: FormFieldValue[], font: PDFFont) {
+    for (const entry of values) {
+      try {
+        const field = form.getField(entry.formFieldName);
+        if (field instanceof PDFTextField) {
+          field.setText(this.toFontText(font, entry.value) || undefined);
+        } else if (field instanceof PDFCheckBox) {
+          if (entry.value === "true") field.check();
+          else field.uncheck();
+        } else if (field instanceof PDFRadioGroup) {
+          if (entry.value === "true" && entry.option) field.select(entry.option);
+        } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+          field.select(entry.value);
+        }
+      } catch (error: any) {
+        // One bad value (e.g. an option the form no longer has) must not block the rest
+        console.error(`PDF Service: Could not fill form field ${entry.formFieldName}:`, error.message);
+      }
+    }
+  }
+
+  private flattenForm(form: PDFForm) {
+    // Empty signature fields have no appearance to flatten; they just go away.
+    // form.removeField() would also fail on them, so unlink the widgets by hand
+    const pages = form.doc.getPages();
+    for (const field of form.getFields()) {
+      if (field instanceof PDFSignature) {
+        for (const widget of field.acroField.getWidgets()) {
+          const widgetRef = form.doc.context.getObjectRef(widget.dict);
+          if (widgetRef) pages.forEach((page) => page.node.removeAnnot(widgetRef));
+        }
+        form.acroForm.removeField(field.acroField);
+      }
+    }
+    form.flatten();
   }
 
   private async drawSignature(
@@ -126,45 +571,23 @@ export class PdfService {
     boldFont: any
   ) {
     const { width: pageWidth, height: pageHeight } = page.getSize();
-    
-    // Handle custom positions with x, y coordinates
-    let actualPosition;
-    if (position.gridPosition === "custom" && position.x !== undefined && position.y !== undefined) {
-      // Convert frontend coordinates to PDF coordinates
-      // Frontend coordinates are in pixels relative to PDF viewer container
-      // PDF coordinates are in points relative to PDF page
-      
-      const frontendX = position.x;
-      const frontendY = position.y;
-      
-      // Get the actual viewer dimensions from the frontend
-      const viewerWidth = (position as any).viewerWidth || 800;
-      const viewerHeight = (position as any).viewerHeight || 600;
-      
-      // Convert to relative position (0-1)
-      const relativeX = frontendX / viewerWidth;
-      const relativeY = frontendY / viewerHeight;
-      
-      // Convert to PDF coordinates
-      actualPosition = { 
-        x: relativeX * pageWidth, 
-        y: pageHeight - (relativeY * pageHeight) - 100 // Convert from top-left to bottom-left, subtract signature height
-      };
-      
- 
-    } else {
-      // Convert grid position to actual coordinates
-      actualPosition = this.gridPositionToCoordinates(
-        position.gridPosition,
-        pageWidth,
-        pageHeight
-      );
-      console.log('📍 Using grid position for PDF:', actualPosition);
-    }
+    const rect = this.getSignatureRect(pageWidth, pageHeight, position);
+    await this.drawRotated(page, rect, () => this.drawSignatureContent(page, rect, signatureData, font, boldFont));
+  }
 
-    const signatureWidth = 220;
-    const signatureHeight = 100;
-    const padding = 8;
+  private async drawSignatureContent(
+    page: PDFPage,
+    rect: PdfRect,
+    signatureData: SignatureData & { signatureImage?: string },
+    font: any,
+    boldFont: any
+  ) {
+    const actualPosition = { x: rect.x, y: rect.y };
+    const signatureWidth = rect.width;
+    const signatureHeight = rect.height;
+    // The stamp layout is designed for 220x100 and scales with the box
+    const fit = Math.min(signatureWidth / STAMP_WIDTH, signatureHeight / STAMP_HEIGHT);
+    const padding = 8 * fit;
 
     // If we have a signature image, draw it instead of the text-based signature
     if (signatureData.signatureImage) {
@@ -180,21 +603,23 @@ export class PdfService {
         // Embed the image in the PDF
         const signatureImage = await page.doc.embedPng(imageBuffer);
         
-        // Draw the signature image
+        // Draw the signature image, above the delegation note if there is one
+        const noteHeight = signatureData.appliedByName ? 10 * fit : 0;
         page.drawImage(signatureImage, {
           x: actualPosition.x + padding,
-          y: actualPosition.y + padding,
+          y: actualPosition.y + padding + noteHeight,
           width: signatureWidth - (2 * padding),
-          height: signatureHeight - (2 * padding),
+          height: signatureHeight - (2 * padding) - noteHeight,
         });
+        this.drawDelegationNote(page, actualPosition, signatureData, font, signatureWidth, padding, fit);
       } catch (error) {
         console.error('Error embedding signature image:', error);
         // Fallback to text-based signature if image embedding fails
-        await this.drawSignatureText(page, actualPosition, signatureData, font, boldFont, signatureWidth, signatureHeight, padding);
+        await this.drawSignatureText(page, actualPosition, signatureData, font, boldFont, signatureHeight, padding, fit);
       }
     } else {
       // Draw text-based signature
-      await this.drawSignatureText(page, actualPosition, signatureData, font, boldFont, signatureWidth, signatureHeight, padding);
+      await this.drawSignatureText(page, actualPosition, signatureData, font, boldFont, signatureHeight, padding, fit);
     }
   }
 
@@ -204,35 +629,35 @@ export class PdfService {
     signatureData: SignatureData,
     font: any,
     boldFont: any,
-    signatureWidth: number,
     signatureHeight: number,
-    padding: number
+    padding: number,
+    fit: number
   ) {
     // No background or border - completely transparent
     // Text will be drawn directly on the PDF
 
     // Draw signature content
-    let yOffset = actualPosition.y + signatureHeight - padding - 12;
+    let yOffset = actualPosition.y + signatureHeight - padding - 12 * fit;
 
     // Name
     page.drawText(signatureData.fullName, {
       x: actualPosition.x + padding,
       y: yOffset,
-      size: 12,
+      size: 12 * fit,
       font: boldFont,
       color: rgb(0, 0, 0),
     });
-    yOffset -= 15;
+    yOffset -= 15 * fit;
 
     // Company
     page.drawText(signatureData.companyName, {
       x: actualPosition.x + padding,
       y: yOffset,
-      size: 10,
+      size: 10 * fit,
       font: font,
       color: rgb(0.2, 0.2, 0.2),
     });
-    yOffset -= 13;
+    yOffset -= 13 * fit;
 
     // Location and timestamp
     const timestampStr = signatureData.timestamp.toLocaleString("en-US", {
@@ -247,38 +672,70 @@ export class PdfService {
     page.drawText(`${signatureData.location}`, {
       x: actualPosition.x + padding,
       y: yOffset,
-      size: 9,
+      size: 9 * fit,
       font: font,
       color: rgb(0.4, 0.4, 0.4),
     });
-    yOffset -= 12;
+    yOffset -= 12 * fit;
 
     page.drawText(`${timestampStr} ${signatureData.timeZone}`, {
       x: actualPosition.x + padding,
       y: yOffset,
-      size: 9,
+      size: 9 * fit,
       font: font,
       color: rgb(0.4, 0.4, 0.4),
     });
 
-    // Draw verification indicator
+    // Draw verification indicator, or who placed the stamp for the signer
+    if (signatureData.appliedByName) {
+      this.drawDelegationNote(page, actualPosition, signatureData, font, STAMP_WIDTH * fit, padding, fit);
+      return;
+    }
     page.drawText("✓ Digitally Verified", {
       x: actualPosition.x + padding,
       y: actualPosition.y + padding,
-      size: 8,
+      size: 8 * fit,
       font: font,
       color: rgb(0, 0.6, 0),
     });
   }
 
+  // "Applied by X on behalf of Y" along the bottom of the stamp, shrunk to fit its width
+  private drawDelegationNote(
+    page: PDFPage,
+    actualPosition: { x: number; y: number },
+    signatureData: SignatureData,
+    font: PDFFont,
+    signatureWidth: number,
+    padding: number,
+    fit: number
+  ) {
+    if (!signatureData.appliedByName) return;
+    const text = this.toFontText(
+      font,
+      `Applied by ${signatureData.appliedByName} on behalf of ${signatureData.fullName}`
+    );
+    const maxWidth = signatureWidth - 2 * padding;
+    const size = Math.min(7 * fit, (7 * fit * maxWidth) / Math.max(font.widthOfTextAtSize(text, 7 * fit), 1));
+    page.drawText(text, {
+      x: actualPosition.x + padding,
+      y: actualPosition.y + padding,
+      size,
+      font,
+      color: rgb(0.1, 0.3, 0.7),
+    });
+  }
+
+  // Bottom-left corner of a box of the given size at a grid preset, or
+  // undefined for a name that is not one
   private gridPositionToCoordinates(
     gridPosition: string,
     pageWidth: number,
-    pageHeight: number
-  ): { x: number; y: number } {
-    const signatureWidth = 220;
-    const signatureHeight = 100;
-    const margin = 50;
+    pageHeight: number,
+    signatureWidth = STAMP_WIDTH,
+    signatureHeight = STAMP_HEIGHT
+  ): { x: number; y: number } | undefined {
+    const margin = GRID_MARGIN;
 
     const gridMap: Record<string, { x: number; y: number }> = {
       "top-left": { x: margin, y: pageHeight - margin - signatureHeight },
@@ -292,7 +749,7 @@ export class PdfService {
       "bottom-right": { x: pageWidth - margin - signatureWidth, y: margin },
     };
 
-    return gridMap[gridPosition] || gridMap["middle-center"];
+    return gridMap[gridPosition];
   }
 }
 
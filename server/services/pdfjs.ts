@@ -0,0 +1,25 @@
+import path from "path";
+import { createRequire } from "module";
+import type { PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+// Fonts and character maps ship with pdfjs-dist; without them text in PDFs
+// that do not embed their fonts renders as boxes
+const pdfjsRoot = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+
+/**
+ * Opens a PDF with pdf.js for work that needs its renderer or text layer,
+ * which pdf-lib does not have. Callers must destroy() the document.
+ */
+export async function openPdf(data: Uint8Array): Promise<PDFDocumentProxy> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    standardFontDataUrl: path.join(pdfjsRoot, "standard_fonts") + path.sep,
+    cMapUrl: path.join(pdfjsRoot, "cmaps") + path.sep,
+    cMapPacked: true,
+    verbosity: 0,
+  }).promise;
+}
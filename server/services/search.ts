@@ -0,0 +1,122 @@
+import { storage, SEARCH_MATCH_START, SEARCH_MATCH_END, type DocumentSearchScope } from "../storage";
+import { fileStorage } from "./file-storage";
+import { folderService } from "./folders";
+import { openPdf } from "./pdfjs";
+import {
+  type DocumentSearch,
+  type DocumentSearchMatch,
+  type DocumentSearchResult,
+  type PdfDocument,
+} from "@shared/schema";
+
+// Postgres refuses tsvectors over 1MB; no real page comes close
+const MAX_PAGE_TEXT = 200_000;
+const MAX_TEXT_MATCHES = 500;
+const MAX_RESULTS = 100;
+const MATCHES_PER_DOCUMENT = 3;
+
+// Whitespace runs become one space, lines are kept; control characters are
+// dropped so they cannot be confused with the headline markers
+function normalizeText(text: string): string {
+  return text
+    .replace(/[\u0000-\u0009\u000B-\u001F\u007F]+/g, " ")
+    .replace(/[ \u00A0]+/g, " ")
+    .replace(/ ?\n[\n ]*/g, "\n")
+    .trim()
+    .slice(0, MAX_PAGE_TEXT);
+}
+
+function toSnippet(headline: string): DocumentSearchMatch["snippet"] {
+  const parts: DocumentSearchMatch["snippet"] = [];
+  const pieces = headline.split(SEARCH_MATCH_START);
+  for (let index = 0; index < pieces.length; index++) {
+    const [matched, rest] = index === 0 ? [null, pieces[0]] : pieces[index].split(SEARCH_MATCH_END);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest.replace(/\s+/g, " "), match: false });
+  }
+  return parts;
+}
+
+/**
+ * Full-text search over the user's documents. The text of every page is
+ * extracted with pdf.js when a document is processed and kept in
+ * document_page_texts, where Postgres indexes it; searches combine that with
+ * the document name and filters on signing status, upload date, signer,
+ * folder and tag.
+ */
+export class SearchService {
+  /** Extracts the text of every page of the document's original upload and replaces what was indexed. */
+  async indexDocument(document: PdfDocument): Promise<number> {
+    const pdf = await openPdf(new Uint8Array(await fileStorage.get(document.filePath)));
+    const pages: { pageNumber: number; content: string }[] = [];
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        try {
+          const { items } = await page.getTextContent();
+          const text = items.map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : " ") : "")).join("");
+          const content = normalizeText(text);
+          if (content) {
+            pages.push({ pageNumber, content });
+          }
+        } finally {
+          page.cleanup();
+        }
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    await storage.replaceDocumentText(document.id, pages);
+    console.log(`Search: Indexed text of ${pages.length}/${document.pageCount} page(s) of document ${document.id}`);
+    return pages.length;
+  }
+
+  async search(userId: string, { folderId, ...filters }: DocumentSearch): Promise<DocumentSearchResult[]> {
+    const search: DocumentSearchScope = { ...filters };
+    if (folderId === "unfiled") {
+      search.folderIds = null;
+    } else if (folderId) {
+      search.folderIds = folderService.getSubtreeIds(await storage.getUserFolders(userId), folderId);
+    }
+
+    const textMatches = search.q ? await storage.searchDocumentText(userId, search, MAX_TEXT_MATCHES) : [];
+
+    // Matches arrive best first, so each document's first match is its best
+    const matchesByDocument = new Map<string, typeof textMatches>();
+    for (const match of textMatches) {
+      const matches = matchesByDocument.get(match.documentId) || [];
+      matches.push(match);
+      matchesByDocument.set(match.documentId, matches);
+    }
+
+    const documents = await storage.findDocuments(userId, search, Array.from(matchesByDocument.keys()), MAX_RESULTS);
+    const signers = await storage.getDocumentSigners(documents.map((document) => document.id));
+    const query = search.q?.toLowerCase();
+
+    const results = documents.map((document): DocumentSearchResult => {
+      const matches = matchesByDocument.get(document.id) || [];
+      const documentSigners = signers.filter((signer) => signer.documentId === document.id).map((signer) => signer.fullName);
+      return {
+        document,
+        signed: documentSigners.length > 0,
+        signers: documentSigners,
+        nameMatch: !!query && document.originalName.toLowerCase().includes(query),
+        matches: matches.slice(0, MATCHES_PER_DOCUMENT).map((match) => ({
+          pageNumber: match.pageNumber,
+          snippet: toSnippet(match.headline),
+        })),
+        matchingPages: matches.length,
+      };
+    });
+
+    if (!query) {
+      return results;
+    }
+    // Documents matching by name first, then by how well their best page matched
+    const bestRank = (result: DocumentSearchResult) => matchesByDocument.get(result.document.id)?.[0]?.rank || 0;
+    return results.sort((a, b) => Number(b.nameMatch) - Number(a.nameMatch) || bestRank(b) - bestRank(a));
+  }
+}
+
+export const searchService = new SearchService();
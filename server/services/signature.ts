@@ -1,43 +1,132 @@
 import { storage } from "../storage";
 import { CertificateService } from "./certificate";
-import { type InsertSignature, type DigitalSignature } from "@shared/schema";
+import { pdfService } from "./pdf";
+import { padesService } from "./pades";
+import { caService } from "./ca";
+import { keyService } from "./keys";
+import { timestampService, type TimestampVerification } from "./timestamp";
+import { auditService } from "./audit";
+import { type InsertSignature, type DigitalSignature, type PdfDocument, type PublicSignature, type AppliedSignature } from "@shared/schema";
+import bcrypt from "bcryptjs";
 import crypto from "crypto";
+import { fileStorage } from "./file-storage";
+
+const PASSWORD_HASH_ROUNDS = 12;
+
+function isPasswordHash(value: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(value);
+}
+
+/**
+ * Additional authenticated data for a sealed private key: ties the key to the
+ * certificate it belongs to, so keys cannot be swapped between rows.
+ */
+function privateKeyContext(certificatePem: string): string {
+  return "signature-private-key:" + crypto.createHash("sha256").update(certificatePem).digest("hex");
+}
 
 export class SignatureService {
   private certificateService = new CertificateService();
 
+  // userId is null for signatures adopted by external envelope recipients
   async createDigitalSignature(
-    userId: string,
+    userId: string | null,
     signatureData: InsertSignature,
     userEmail: string
   ): Promise<DigitalSignature> {
     // Generate certificate and keys
-    const { certificate, privateKey } = this.certificateService.generateKeyPairAndCertificate({
+    const { certificate, privateKey, serialNumber } = this.certificateService.generateKeyPairAndCertificate({
       fullName: signatureData.fullName,
       companyName: signatureData.companyName,
       location: signatureData.location,
       email: userEmail,
     });
 
-    // Encrypt private key with a generated password
-    const keyPassword = crypto.randomBytes(32).toString('hex');
-    const encryptedPrivateKey = this.certificateService.encryptPrivateKey(privateKey, keyPassword);
+    // Sealed under the master key, which never touches the database
+    const sealedPrivateKey = keyService.seal(privateKey, privateKeyContext(certificate));
 
-    // Extract signature image if provided
-    const { signatureImage, ...restSignatureData } = signatureData;
+    // Extract signature image and password if provided
+    const { signatureImage, password, ...restSignatureData } = signatureData;
     
     // Store signature with certificate
     const signature = await storage.createSignature({
       ...restSignatureData,
       userId,
       certificate,
-      privateKey: encryptedPrivateKey + ":" + keyPassword, // Store encrypted key with password
+      serialNumber,
+      privateKey: sealedPrivateKey,
+      password: password && password.trim() !== "" ? await bcrypt.hash(password, PASSWORD_HASH_ROUNDS) : undefined,
       signatureImage: signatureImage || null,
     });
 
     return signature;
   }
 
+  toPublicSignature(signature: DigitalSignature): PublicSignature {
+    const { privateKey: _, password, ...publicSignature } = signature;
+    return { ...publicSignature, hasPassword: !!password && password.trim() !== "" };
+  }
+
+  /**
+   * Checks a signature password. Signatures created before passwords were
+   * hashed still hold plain text; those are compared in constant time and
+   * hashed on the first successful match.
+   */
+  async verifyPassword(signature: DigitalSignature, password: string): Promise<boolean> {
+    if (!signature.password || signature.password.trim() === "") {
+      return true;
+    }
+
+    if (isPasswordHash(signature.password)) {
+      return bcrypt.compare(password, signature.password);
+    }
+
+    const expected = crypto.createHash("sha256").update(signature.password).digest();
+    const actual = crypto.createHash("sha256").update(password).digest();
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      return false;
+    }
+
+    await storage.updateSignature(signature.id, {
+      password: await bcrypt.hash(password, PASSWORD_HASH_ROUNDS),
+    });
+    return true;
+  }
+
+  /**
+   * Hashes plain-text passwords and seals private keys still stored in the
+   * legacy "<encrypted key>:<key password>" form or under a retired master key.
+   */
+  async upgradeLegacySecrets(): Promise<number> {
+    const signatures = await storage.getSignaturesWithLegacySecrets();
+    let upgraded = 0;
+
+    for (const signature of signatures) {
+      try {
+        const updates: Partial<DigitalSignature> = {};
+        if (keyService.needsResealing(signature.privateKey)) {
+          updates.privateKey = keyService.seal(this.openPrivateKey(signature), privateKeyContext(signature.certificate));
+        }
+        if (signature.password !== null && !isPasswordHash(signature.password)) {
+          updates.password = signature.password.trim() !== ""
+            ? await bcrypt.hash(signature.password, PASSWORD_HASH_ROUNDS)
+            : null;
+        }
+        if (Object.keys(updates).length > 0) {
+          await storage.updateSignature(signature.id, updates);
+          upgraded++;
+        }
+      } catch (error: any) {
+        console.error(`Could not upgrade secrets of signature ${signature.id}:`, error.message);
+      }
+    }
+
+    if (upgraded > 0) {
+      console.log(`Upgraded stored secrets of ${upgraded} signature(s)`);
+    }
+    return upgraded;
+  }
+
   async getUserSignatures(userId: string): Promise<DigitalSignature[]> {
     return storage.getUserSignatures(userId);
   }
@@ -48,7 +137,7 @@ export class SignatureService {
       return false;
     }
 
-    return this.certificateService.validateCertificate(signature.certificate);
+    return this.certificateService.validateCertificate(signature.certificate, new Date(), signature);
   }
 
   async getSignatureCertificateInfo(signatureId: string) {
@@ -57,15 +146,261 @@ export class SignatureService {
       throw new Error("Signature not found");
     }
 
-    return this.certificateService.getCertificateInfo(signature.certificate);
+    return this.certificateService.getCertificateInfo(signature.certificate, new Date(), signature);
+  }
+
+  /**
+   * Produces the downloadable PDF for a document: visible stamps are drawn
+   * and the certificate of completion is appended first, then every signer's
+   * certificate signs the result as its own incremental revision (one
+   * revision per digital signature, oldest first) and the platform seal
+   * closes it. With flattenForm, filled form fields become plain page content;
+   * with lock, the closing seal also locks the document against later changes.
+   */
+  async renderSignedDocument(
+    document: PdfDocument,
+    options: { flattenForm?: boolean; lock?: boolean } = {}
+  ): Promise<Uint8Array> {
+    const { appliedSignatures, signatureMap, signaturesToApply, fieldValues, formValues, formFieldNames } =
+      await this.getStamps(document);
+    const { flattenForm, lock } = options;
+
+    if (signaturesToApply.length === 0) {
+      return pdfService.applySignatureToPdf(document.filePath, [], {
+        useObjectStreams: false,
+        fieldValues,
+        formValues,
+        flattenForm,
+      });
+    }
+
+    let pdfBytes: Uint8Array = await pdfService.applySignatureToPdf(
+      document.filePath,
+      signaturesToApply,
+      {
+        useObjectStreams: false,
+        appendPdf: await auditService.generateCompletionCertificate(document),
+        fieldValues,
+        formValues,
+        flattenForm,
+      }
+    );
+
+    // Group applied stamps per signer, ordered by when each signer first signed
+    const groups = new Map<string, typeof appliedSignatures>();
+    const ordered = [...appliedSignatures].sort(
+      (a, b) => (a.appliedAt?.getTime() || 0) - (b.appliedAt?.getTime() || 0)
+    );
+    for (const appliedSig of ordered) {
+      if (!signatureMap.has(appliedSig.signatureId)) continue;
+      const group = groups.get(appliedSig.signatureId) || [];
+      group.push(appliedSig);
+      groups.set(appliedSig.signatureId, group);
+    }
+
+    for (const [signatureId, group] of Array.from(groups.entries())) {
+      const signature = signatureMap.get(signatureId)!;
+      // A revoked key must not sign anything again (the timestamp would expose
+      // the signature as made after revocation anyway); the visible stamp remains
+      if (signature.revokedAt) {
+        console.warn(`Signature ${signatureId} is revoked; skipping digital signature`);
+        continue;
+      }
+      // Sign into the form's own signature field when the signer filled one
+      const anchor = group.find((sig) => formFieldNames.has(sig.id)) || group[0];
+      const pageSize = pdfService.getPageSize(document.pageSizes, anchor.pageNumber);
+      const signingTime = group.reduce(
+        (latest, sig) => (sig.appliedAt && sig.appliedAt > latest ? sig.appliedAt : latest),
+        anchor.appliedAt || new Date()
+      );
+
+      pdfBytes = await padesService.signPdf(
+        pdfBytes,
+        {
+          certificatePem: signature.certificate,
+          // Decrypted only for the duration of this signing operation
+          privateKeyPem: this.openPrivateKey(signature),
+          chainPems: caService.getChainFor(signature.certificate),
+          name: signature.fullName,
+          reason: `Signed by ${signature.fullName} (${signature.companyName})`,
+          location: signature.location,
+          signingTime,
+          timestamp: true,
+        },
+        {
+          pageNumber: anchor.pageNumber,
+          // The widget is upright, so a turned stamp gets the box around it
+          rect: pdfService.getBoundingRect(
+            pdfService.getSignatureRect(pageSize.width, pageSize.height, anchor.position)
+          ),
+          formFieldName: flattenForm ? undefined : formFieldNames.get(anchor.id),
+        }
+      );
+    }
+
+    return auditService.sealCompletionCertificate(pdfBytes, document, document.pageCount + 1, { lock });
+  }
+
+  /** Visible stamps only, for on-screen previews. */
+  async renderPreview(document: PdfDocument): Promise<Uint8Array> {
+    const { signaturesToApply, fieldValues, formValues } = await this.getStamps(document);
+    return pdfService.applySignatureToPdf(document.filePath, signaturesToApply, { fieldValues, formValues });
+  }
+
+  private async getStamps(document: PdfDocument) {
+    const appliedSignatures = await storage.getDocumentSignatures(document.id);
+
+    const signatureIds = Array.from(new Set(appliedSignatures.map((sig) => sig.signatureId)));
+    const signatures = await Promise.all(signatureIds.map((id) => storage.getSignature(id)));
+    const signatureMap = new Map(
+      signatures.filter(Boolean).map((sig) => [sig!.id, sig!])
+    );
+
+    const signaturesToApply = [];
+    for (const appliedSig of appliedSignatures) {
+      const signature = signatureMap.get(appliedSig.signatureId);
+      if (signature) {
+        signaturesToApply.push({
+          pageNumber: appliedSig.pageNumber,
+          position: appliedSig.position,
+          signatureData: {
+            fullName: signature.fullName,
+            companyName: signature.companyName,
+            location: signature.location,
+            timestamp: appliedSig.appliedAt || new Date(),
+            timeZone: signature.timeZone,
+            signatureImage: signature.signatureImage || undefined,
+            appliedByName: appliedSig.appliedByName || undefined,
+          },
+        });
+      }
+    }
+
+    // Filled fields other than signatures: text, dates, initials, checkboxes.
+    // Fields of the PDF's own form are set through the form instead of drawn.
+    const fields = await storage.getDocumentFields(document.id);
+    const filledFields = fields.filter((field) => field.value !== null);
+    const fieldValues = filledFields
+      .filter((field) => !field.formFieldName)
+      .map((field) => ({
+        type: field.type,
+        pageNumber: field.pageNumber,
+        position: field.position as any,
+        value: field.value!,
+        fontSize: field.fontSize,
+      }));
+    const formValues = filledFields
+      .filter((field) => field.formFieldName)
+      .map((field) => ({
+        formFieldName: field.formFieldName!,
+        type: field.type,
+        value: field.value!,
+        option: field.type === "radio" ? field.name : undefined,
+      }));
+
+    // Stamps that went into one of the form's signature fields
+    const formFieldNames = new Map(
+      fields
+        .filter((field) => field.formFieldName && field.appliedSignatureId)
+        .map((field) => [field.appliedSignatureId!, field.formFieldName!])
+    );
+
+    return { appliedSignatures, signatureMap, signaturesToApply, fieldValues, formValues, formFieldNames };
+  }
+
+  private openPrivateKey(signature: DigitalSignature): string {
+    if (keyService.isSealed(signature.privateKey)) {
+      return keyService.open(signature.privateKey, privateKeyContext(signature.certificate));
+    }
+
+    // Legacy rows: "<encrypted JSON>:<key password>", upgraded by upgradeLegacySecrets
+    const separator = signature.privateKey.lastIndexOf(":");
+    if (separator === -1) {
+      throw new Error(`Private key for signature ${signature.id} is in an unknown format`);
+    }
+
+    return this.certificateService.decryptPrivateKey(
+      signature.privateKey.slice(0, separator),
+      signature.privateKey.slice(separator + 1)
+    );
+  }
+
+  /**
+   * The canonical statement a timestamp token covers for an applied
+   * signature: who signed which exact file, where and when, and which
+   * delegate placed the stamp if it was not the owner. The stamp's
+   * position is layout only and stays out, so moving it does not break the
+   * token.
+   */
+  async getAppliedSignatureRecord(
+    appliedSignature: AppliedSignature,
+    document: PdfDocument,
+    signature: DigitalSignature
+  ): Promise<string> {
+    const fileBytes = await fileStorage.get(document.filePath);
+
+    return JSON.stringify({
+      appliedSignatureId: appliedSignature.id,
+      documentId: document.id,
+      documentSha256: crypto.createHash("sha256").update(fileBytes).digest("hex"),
+      signatureId: signature.id,
+      certificateSerialNumber: signature.serialNumber,
+      pageNumber: appliedSignature.pageNumber,
+      appliedAt: (appliedSignature.appliedAt || new Date(0)).toISOString(),
+      // Only present for delegated stamps, so earlier tokens still verify
+      ...(appliedSignature.appliedBy ? { appliedBy: appliedSignature.appliedBy } : {}),
+    });
+  }
+
+  /**
+   * Obtains an RFC 3161 token over the applied-signature record so the signing
+   * time can be proven without trusting this server's clock.
+   */
+  async timestampAppliedSignature(
+    appliedSignature: AppliedSignature,
+    document: PdfDocument,
+    signature: DigitalSignature
+  ): Promise<AppliedSignature> {
+    const record = await this.getAppliedSignatureRecord(appliedSignature, document, signature);
+    const result = await timestampService.timestamp(Buffer.from(record, "utf8"));
+
+    const updated = await storage.updateAppliedSignature(appliedSignature.id, {
+      timestampToken: result.token.toString("base64"),
+      timestampedAt: result.genTime,
+      timestampAuthority: result.authority,
+    });
+    console.log(`Timestamped applied signature ${appliedSignature.id} at ${result.genTime.toISOString()} (${result.authority})`);
+    return updated || appliedSignature;
+  }
+
+  async verifyAppliedSignatureTimestamp(
+    appliedSignature: AppliedSignature,
+    document: PdfDocument,
+    signature: DigitalSignature
+  ): Promise<{ record: string; verification: TimestampVerification | null }> {
+    const record = await this.getAppliedSignatureRecord(appliedSignature, document, signature);
+    if (!appliedSignature.timestampToken) {
+      return { record, verification: null };
+    }
+
+    const token = Buffer.from(appliedSignature.timestampToken, "base64");
+    return { record, verification: timestampService.verifyToken(token, Buffer.from(record, "utf8")) };
   }
 
   async deleteSignature(signatureId: string, userId: string): Promise<void> {
-    const signature = await storage.getSignature(signatureId);
-    if (!signature || signature.userId !== userId) {
+    const signature = await storage.getUserSignature(signatureId, userId);
+    if (!signature) {
       throw new Error("Signature not found or unauthorized");
     }
 
+    // Deleting would strip the stamps from signed (possibly finalized) documents
+    const signedDocuments = await storage.countDocumentsSignedWith(signatureId);
+    if (signedDocuments > 0) {
+      throw new Error(
+        `This signature has been applied to ${signedDocuments} document(s) and cannot be deleted. Revoke it instead.`
+      );
+    }
+
     await storage.deleteSignature(signatureId);
   }
 }
@@ -0,0 +1,53 @@
+import { storage } from "../storage";
+import { type Tag } from "@shared/schema";
+
+/**
+ * Free-form tags. Names are unique per user regardless of case; tagging a
+ * document with a tag it already has is a no-op.
+ */
+export class TagService {
+  async createTag(userId: string, name: string): Promise<Tag> {
+    if (await storage.getUserTagByName(userId, name)) {
+      throw new Error(`A tag named "${name}" already exists`);
+    }
+    return storage.createTag(userId, name);
+  }
+
+  async renameTag(userId: string, tag: Tag, name: string): Promise<Tag> {
+    const existing = await storage.getUserTagByName(userId, name);
+    if (existing && existing.id !== tag.id) {
+      throw new Error(`A tag named "${name}" already exists`);
+    }
+    const renamed = await storage.renameTag(tag.id, name);
+    if (!renamed) {
+      throw new Error("Tag not found");
+    }
+    return renamed;
+  }
+
+  /** The user's tags, each with the documents it is on. */
+  async getTags(userId: string): Promise<(Tag & { documentIds: string[] })[]> {
+    const [userTags, documentTags] = await Promise.all([
+      storage.getUserTags(userId),
+      storage.getUserDocumentTags(userId),
+    ]);
+    return userTags.map((tag) => ({
+      ...tag,
+      documentIds: documentTags.filter((documentTag) => documentTag.tagId === tag.id).map((documentTag) => documentTag.documentId),
+    }));
+  }
+
+  /** Adds and removes tags on documents, all of which must belong to the user. */
+  async updateDocumentTags(userId: string, documentIds: string[], add: string[], remove: string[]): Promise<void> {
+    const userTagIds = new Set((await storage.getUserTags(userId)).map((tag) => tag.id));
+    const unknown = [...add, ...remove].find((tagId) => !userTagIds.has(tagId));
+    if (unknown) {
+      throw new Error(`Tag ${unknown} not found`);
+    }
+
+    await storage.removeDocumentTags(documentIds, remove);
+    await storage.addDocumentTags(documentIds, add.filter((tagId) => !remove.includes(tagId)));
+  }
+}
+
+export const tagService = new TagService();
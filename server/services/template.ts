@@ -0,0 +1,217 @@
+import { storage } from "../storage";
+import { envelopeService } from "./envelope";
+import { pdfService } from "./pdf";
+import { auditService, type AuditContext } from "./audit";
+import { versionService } from "./version";
+import { fileStorage } from "./file-storage";
+import {
+  fieldDefaultSizes,
+  type CreateFromTemplate,
+  type CreateTemplate,
+  type DocumentField,
+  type DocumentTemplate,
+  type EnvelopeWithRecipients,
+  type PdfDocument,
+  type TemplateField,
+  type UpdateTemplate,
+  type User,
+} from "@shared/schema";
+
+type TemplateOwner = Pick<User, "id" | "fullName" | "email">;
+
+/**
+ * Reusable documents. A template keeps its own copy of a PDF together with
+ * named fields, each belonging to a role ("Client", "Witness", ...). Creating
+ * a document from it copies the PDF, places every field and hands each role
+ * to either the owner or an external signer, who gets an envelope.
+ */
+export class TemplateService {
+  async createTemplate(owner: TemplateOwner, data: CreateTemplate): Promise<DocumentTemplate> {
+    const document = await storage.getAccessibleDocument(data.documentId, owner.id);
+    if (!document) {
+      throw new Error("Document not found");
+    }
+    this.checkFieldPages(data.fields, document.pageCount);
+
+    const filePath = await fileStorage.copy(document.filePath, fileStorage.newKey("template"));
+
+    try {
+      const template = await storage.createTemplate({
+        userId: owner.id,
+        name: data.name,
+        description: data.description || null,
+        originalName: document.originalName,
+        filePath,
+        fileSize: document.fileSize,
+        pageCount: document.pageCount,
+        pageSizes: document.pageSizes,
+        roles: data.roles,
+        fields: data.fields,
+      });
+      console.log(`Template ${template.id} created from document ${document.id}`);
+      return template;
+    } catch (error) {
+      await this.removeFile(filePath);
+      throw error;
+    }
+  }
+
+  async updateTemplate(template: DocumentTemplate, data: UpdateTemplate): Promise<DocumentTemplate> {
+    this.checkFieldPages(data.fields, template.pageCount);
+
+    const updated = await storage.updateTemplate(template.id, {
+      name: data.name,
+      description: data.description || null,
+      roles: data.roles,
+      fields: data.fields,
+    });
+    if (!updated) {
+      throw new Error("Template not found");
+    }
+    return updated;
+  }
+
+  async deleteTemplate(template: DocumentTemplate): Promise<void> {
+    await storage.deleteTemplate(template.id);
+    await this.removeFile(template.filePath);
+    console.log(`Template ${template.id} deleted`);
+  }
+
+  async createDocument(
+    owner: TemplateOwner,
+    template: DocumentTemplate,
+    data: CreateFromTemplate,
+    context: AuditContext
+  ): Promise<{ document: PdfDocument; fields: DocumentField[]; envelope: EnvelopeWithRecipients | null }> {
+    const roles = template.roles as string[];
+    const templateFields = template.fields as TemplateField[];
+
+    const assignments = new Map(data.assignments.map((assignment) => [assignment.role, assignment]));
+    const unassigned = roles.filter((role) => !assignments.has(role));
+    if (unassigned.length > 0) {
+      throw new Error(`Choose who signs as ${unassigned.join(", ")}`);
+    }
+    const unknown = data.assignments.filter((assignment) => !roles.includes(assignment.role));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown role: ${unknown.map((assignment) => assignment.role).join(", ")}`);
+    }
+
+    // Recipients in the template's role order, which is also the signing order
+    const recipientRoles = roles.filter((role) => assignments.get(role)!.signer === "recipient");
+    const emails = recipientRoles.map((role) => (assignments.get(role) as { email: string }).email);
+    if (new Set(emails).size !== emails.length) {
+      throw new Error("Each recipient can only sign one role");
+    }
+
+    const documentName = data.documentName || template.originalName;
+    const fileName = fileStorage.newKey("pdfs");
+    const filePath = await fileStorage.copy(template.filePath, fileName);
+
+    const document = await storage.createDocument({
+      userId: owner.id,
+      fileName,
+      originalName: documentName,
+      fileSize: template.fileSize,
+      filePath,
+      pageCount: template.pageCount,
+      pageSizes: template.pageSizes,
+      status: "processed",
+    });
+
+    try {
+      const uploaded = await auditService.record(context, "document.uploaded", document, {
+        originalName: documentName,
+        fileSize: template.fileSize,
+        pageCount: template.pageCount,
+        templateId: template.id,
+        templateName: template.name,
+      });
+      await versionService.recordOriginal(document, uploaded);
+
+      let envelope: EnvelopeWithRecipients | null = null;
+      if (recipientRoles.length > 0) {
+        // Created unsent so the fields exist before anyone is invited
+        envelope = await envelopeService.createEnvelope(
+          owner,
+          {
+            documentId: document.id,
+            title: data.title || `Please sign: ${documentName.replace(/\.pdf$/i, "")}`,
+            message: data.message,
+            signingOrder: data.signingOrder,
+            send: false,
+            recipients: recipientRoles.map((role) => {
+              const assignment = assignments.get(role) as { name: string; email: string };
+              const anchor = templateFields.find((field) => field.role === role && field.type === "signature")!;
+              return {
+                name: assignment.name,
+                email: assignment.email,
+                routingOrder: roles.indexOf(role) + 1,
+                pageNumber: anchor.pageNumber,
+                position: anchor.position,
+              };
+            }),
+          },
+          context
+        );
+      }
+
+      const recipientIds = new Map(
+        (envelope?.recipients || []).map((recipient) => [recipient.email, recipient.id])
+      );
+      const fields = await storage.createDocumentFields(
+        templateFields.map((field) => {
+          const assignment = assignments.get(field.role)!;
+          return {
+            documentId: document.id,
+            name: field.name,
+            type: field.type,
+            role: field.role,
+            recipientId: assignment.signer === "recipient" ? recipientIds.get(assignment.email)! : null,
+            pageNumber: field.pageNumber,
+            position: pdfService.resolvePosition(
+              template.pageSizes,
+              field.pageNumber,
+              field.position,
+              fieldDefaultSizes[field.type]
+            ),
+            required: field.required ?? true,
+            groupName: field.groupName || null,
+            fontSize: field.fontSize ?? null,
+            maxLength: field.maxLength ?? null,
+          };
+        })
+      );
+
+      if (envelope && data.send) {
+        envelope = await envelopeService.sendEnvelope(envelope, owner, context);
+      }
+
+      console.log(`Document ${document.id} created from template ${template.id} with ${fields.length} field(s)`);
+      return { document, fields, envelope };
+    } catch (error) {
+      await storage.deleteDocument(document.id);
+      await this.removeFile(filePath);
+      throw error;
+    }
+  }
+
+  private checkFieldPages(fields: TemplateField[], pageCount: number) {
+    const invalid = fields.filter((field) => field.pageNumber > pageCount);
+    if (invalid.length > 0) {
+      throw new Error(
+        `Field${invalid.length > 1 ? "s" : ""} ${invalid.map((field) => `"${field.name}"`).join(", ")} ` +
+          `must be on one of the document's ${pageCount} pages`
+      );
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await fileStorage.delete(filePath);
+    } catch (error: any) {
+      console.error(`Template: Could not remove ${filePath}:`, error.message);
+    }
+  }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,329 @@
+import crypto from "crypto";
+import forge from "node-forge";
+import { cmsService, digestAlgorithmName, CMS_OIDS } from "./cms";
+import { caService } from "./ca";
+
+const asn1 = forge.asn1;
+
+export const TSP_OIDS = {
+  tstInfo: "1.2.840.113549.1.9.16.1.4",
+  timeStampToken: "1.2.840.113549.1.9.16.2.14",
+  timeStamping: "1.3.6.1.5.5.7.3.8",
+};
+
+// OpenSSL's example TSA policy; set TSA_POLICY_OID to the firm's registered policy
+const LOCAL_TSA_POLICY = process.env.TSA_POLICY_OID || "1.2.3.4.1";
+const TSA_REQUEST_TIMEOUT_MS = 15000;
+
+export interface TimestampResult {
+  token: Buffer; // DER TimeStampToken (a CMS ContentInfo)
+  genTime: Date;
+  authority: string;
+  serialNumber: string;
+}
+
+export interface TimestampVerification {
+  genTime: Date | null;
+  authority: string | null;
+  serialNumber: string | null;
+  policy: string | null;
+  messageImprintMatches: boolean;
+  signatureValid: boolean;
+  // TSA certificate chains to this firm's root CA
+  trustedChain: boolean;
+  valid: boolean;
+  errors: string[];
+}
+
+interface TstInfo {
+  policy: string;
+  hashAlgorithm: string;
+  hashedMessage: Buffer;
+  serialNumber: string;
+  genTime: Date;
+  nonce: string | null;
+}
+
+/**
+ * Anything that can turn a SHA-256 message imprint into a DER TimeStampToken.
+ */
+export interface TimestampAuthority {
+  readonly name: string;
+  requestToken(messageImprint: Buffer, nonce: Buffer): Promise<Buffer>;
+}
+
+function oid(value: string) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes());
+}
+
+function integer(bytes: Buffer) {
+  // Keep the value positive
+  const value = bytes[0] & 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes;
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, value.toString("binary"));
+}
+
+function messageImprint(hashedMessage: Buffer) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      oid(CMS_OIDS.sha256),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ""),
+    ]),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, hashedMessage.toString("binary")),
+  ]);
+}
+
+function integerHex(node: forge.asn1.Asn1): string {
+  return forge.util.bytesToHex(node.value as string).replace(/^0+(?=.)/, "");
+}
+
+function parseTstInfo(der: Buffer): TstInfo {
+  const parts = asn1.fromDer(der.toString("binary")).value as forge.asn1.Asn1[];
+  const [policy, imprint, serialNumber, genTime] = parts.slice(1, 5);
+  const [algorithm, hashed] = imprint.value as forge.asn1.Asn1[];
+
+  const nonce = parts
+    .slice(5)
+    .find((part) => part.tagClass === asn1.Class.UNIVERSAL && part.type === asn1.Type.INTEGER);
+
+  return {
+    policy: asn1.derToOid(policy.value as string),
+    hashAlgorithm: asn1.derToOid((algorithm.value as forge.asn1.Asn1[])[0].value as string),
+    hashedMessage: Buffer.from(hashed.value as string, "binary"),
+    serialNumber: integerHex(serialNumber),
+    genTime: asn1.generalizedTimeToDate(genTime.value as string),
+    nonce: nonce ? integerHex(nonce) : null,
+  };
+}
+
+function commonName(cert: crypto.X509Certificate): string {
+  return /(?:^|\n)CN=([^\n]*)/.exec(cert.subject)?.[1] || cert.subject;
+}
+
+/**
+ * Built-in TSA for development and self-hosted installs. Tokens are signed
+ * with the timestamp certificate issued by the firm CA.
+ */
+export class LocalTimestampAuthority implements TimestampAuthority {
+  readonly name = "local";
+
+  async requestToken(hashedMessage: Buffer, nonce: Buffer): Promise<Buffer> {
+    // Load (or on first use, generate) the TSA certificate before taking the time
+    const signer = caService.getTimestampSigner();
+    const tstInfo = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+      oid(LOCAL_TSA_POLICY),
+      messageImprint(hashedMessage),
+      integer(Buffer.from(caService.generateSerialNumber(), "hex")),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.GENERALIZEDTIME, false, asn1.dateToGeneralizedTime(new Date())),
+      // Accuracy: one second
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+      ]),
+      integer(nonce),
+    ]);
+
+    return cmsService.createSignedData(signer, {
+      content: Buffer.from(asn1.toDer(tstInfo).getBytes(), "binary"),
+      contentType: TSP_OIDS.tstInfo,
+    });
+  }
+}
+
+/**
+ * RFC 3161 client for an external TSA over HTTP(S), e.g. a qualified trust
+ * service provider. Optional basic auth via TSA_USERNAME / TSA_PASSWORD.
+ */
+export class HttpTimestampAuthority implements TimestampAuthority {
+  readonly name: string;
+
+  constructor(private url: string, private username?: string, private password?: string) {
+    this.name = new URL(url).host;
+  }
+
+  async requestToken(hashedMessage: Buffer, nonce: Buffer): Promise<Buffer> {
+    const request = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+      messageImprint(hashedMessage),
+      integer(nonce),
+      // certReq: ask for the TSA certificate inside the token
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BOOLEAN, false, String.fromCharCode(0xff)),
+    ]);
+
+    const headers: Record<string, string> = { "Content-Type": "application/timestamp-query" };
+    if (this.username) {
+      headers.Authorization = "Basic " + Buffer.from(`${this.username}:${this.password || ""}`).toString("base64");
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: Buffer.from(asn1.toDer(request).getBytes(), "binary"),
+      signal: AbortSignal.timeout(TSA_REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`TSA ${this.name} responded with HTTP ${response.status}`);
+    }
+
+    // TimeStampResp ::= SEQUENCE { status PKIStatusInfo, timeStampToken OPTIONAL }
+    const body = Buffer.from(await response.arrayBuffer());
+    const [statusInfo, token] = asn1.fromDer(body.toString("binary")).value as forge.asn1.Asn1[];
+    const status = (statusInfo.value as forge.asn1.Asn1[])[0].value as string;
+    const statusCode = status.charCodeAt(status.length - 1);
+    // 0 = granted, 1 = grantedWithMods
+    if (statusCode > 1 || !token) {
+      throw new Error(`TSA ${this.name} rejected the request (status ${statusCode})`);
+    }
+    return Buffer.from(asn1.toDer(token).getBytes(), "binary");
+  }
+}
+
+export class TimestampService {
+  private authority: TimestampAuthority | null = null;
+
+  /** TSA_URL selects an external authority; otherwise the built-in one is used. */
+  getAuthority(): TimestampAuthority {
+    if (!this.authority) {
+      this.authority = process.env.TSA_URL
+        ? new HttpTimestampAuthority(process.env.TSA_URL, process.env.TSA_USERNAME, process.env.TSA_PASSWORD)
+        : new LocalTimestampAuthority();
+    }
+    return this.authority;
+  }
+
+  /**
+   * Obtains a timestamp token over SHA-256(data) and checks that the token
+   * actually answers this request before returning it.
+   */
+  async timestamp(data: Buffer): Promise<TimestampResult> {
+    const authority = this.getAuthority();
+    // Positive and minimally encoded, so it survives the DER round trip unchanged
+    const nonce = crypto.randomBytes(8);
+    nonce[0] = (nonce[0] & 0x7f) | 0x40;
+
+    const token = await authority.requestToken(crypto.createHash("sha256").update(data).digest(), nonce);
+    const verification = this.verifyToken(token, data);
+    if (!verification.valid) {
+      throw new Error(`Timestamp from ${authority.name} failed verification: ${verification.errors.join("; ")}`);
+    }
+
+    const tstInfo = parseTstInfo(cmsService.parseSignedData(token).content!);
+    if (tstInfo.nonce !== nonce.toString("hex").replace(/^0+(?=.)/, "")) {
+      throw new Error(`Timestamp from ${authority.name} does not echo the request nonce`);
+    }
+
+    return {
+      token,
+      genTime: verification.genTime!,
+      authority: verification.authority!,
+      serialNumber: verification.serialNumber!,
+    };
+  }
+
+  /**
+   * Signature timestamp for CMS (RFC 3161 appendix A): the token covers the
+   * signer's signature value and is attached as an unsigned attribute.
+   */
+  async timestampSignature(cmsDer: Buffer): Promise<Buffer> {
+    const signerInfo = cmsService.parseSignedData(cmsDer).signerInfos[0];
+    if (!signerInfo) {
+      throw new Error("CMS structure contains no signer to timestamp");
+    }
+
+    const { token } = await this.timestamp(signerInfo.signature);
+    return cmsService.addUnsignedAttribute(cmsDer, {
+      type: TSP_OIDS.timeStampToken,
+      values: [asn1.fromDer(token.toString("binary"))],
+    });
+  }
+
+  /**
+   * Wraps a stored token in a granted TimeStampResp so standard tools
+   * (`openssl ts -reply`, `openssl ts -verify -in`) can read it directly.
+   */
+  toTimestampResponse(token: Buffer): Buffer {
+    const response = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, String.fromCharCode(0)), // granted
+      ]),
+      asn1.fromDer(token.toString("binary")),
+    ]);
+    return Buffer.from(asn1.toDer(response).getBytes(), "binary");
+  }
+
+  /**
+   * Checks a token against the data it should cover: the message imprint, the
+   * TSA's CMS signature over the TSTInfo and the TSA certificate.
+   */
+  verifyToken(token: Buffer, data: Buffer): TimestampVerification {
+    const result: TimestampVerification = {
+      genTime: null,
+      authority: null,
+      serialNumber: null,
+      policy: null,
+      messageImprintMatches: false,
+      signatureValid: false,
+      trustedChain: false,
+      valid: false,
+      errors: [],
+    };
+
+    try {
+      const parsed = cmsService.parseSignedData(token);
+      if (parsed.contentType !== TSP_OIDS.tstInfo || !parsed.content) {
+        throw new Error("Token does not contain a TSTInfo");
+      }
+
+      const tstInfo = parseTstInfo(parsed.content);
+      result.genTime = tstInfo.genTime;
+      result.serialNumber = tstInfo.serialNumber;
+      result.policy = tstInfo.policy;
+
+      const hashName = digestAlgorithmName(tstInfo.hashAlgorithm);
+      try {
+        const digest = crypto.createHash(hashName).update(data).digest();
+        result.messageImprintMatches = digest.equals(tstInfo.hashedMessage);
+      } catch (error) {
+        result.errors.push(`Unsupported timestamp hash algorithm ${tstInfo.hashAlgorithm}`);
+      }
+      if (!result.messageImprintMatches) {
+        result.errors.push("Timestamp does not cover this data");
+      }
+
+      const signerInfo = parsed.signerInfos[0];
+      if (!signerInfo) throw new Error("Token has no signer");
+      const signer = cmsService.verifySigner(parsed, signerInfo, parsed.content);
+      result.signatureValid = signer.digestMatches && signer.signatureValid;
+      result.errors.push(...signer.errors);
+
+      if (signer.signerCertificate) {
+        const tsaCertificate = signer.signerCertificate;
+        result.authority = commonName(tsaCertificate);
+
+        if (!(tsaCertificate.keyUsage || []).includes(TSP_OIDS.timeStamping)) {
+          result.signatureValid = false;
+          result.errors.push("Timestamp certificate is not authorized for time stamping");
+        }
+        const notBefore = new Date(tsaCertificate.validFrom);
+        const notAfter = new Date(tsaCertificate.validTo);
+        if (tstInfo.genTime < notBefore || tstInfo.genTime > notAfter) {
+          result.signatureValid = false;
+          result.errors.push("Timestamp certificate was not valid at the timestamp time");
+        }
+
+        const embedded = parsed.certificates.map((der) => new crypto.X509Certificate(der));
+        try {
+          result.trustedChain = caService.chainsToRoot(tsaCertificate, embedded);
+        } catch (error: any) {
+          console.error("Timestamp: Chain check failed:", error.message);
+        }
+      }
+    } catch (error: any) {
+      result.errors.push(`Could not parse timestamp token: ${error.message}`);
+    }
+
+    result.valid = result.messageImprintMatches && result.signatureValid;
+    return result;
+  }
+}
+
+export const timestampService = new TimestampService();
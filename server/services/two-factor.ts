@@ -0,0 +1,259 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { keyService } from "./keys";
+import { auditService, type AuditContext } from "./audit";
+import { type TwoFactorCode, type TwoFactorStatus, type User } from "@shared/schema";
+
+const ISSUER = "XSignature";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1; // accept the previous and next code for clock drift
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+// Invalid codes an account may see in the window, across every session
+const MAX_FAILURES = 10;
+const FAILURE_WINDOW = 15 * 60 * 1000;
+
+export const TWO_FACTOR_LOCKED_ERROR = "Too many invalid codes, please try again in 15 minutes";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let index = 0; index < buffer.length; index++) {
+    const byte = buffer[index];
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// HOTP (RFC 4226) for one time step, as TOTP (RFC 6238) uses it
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[^A-Za-z0-9]/g, "").toUpperCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+function secretContext(userId: string): string {
+  return `two-factor:${userId}`;
+}
+
+/**
+ * TOTP two-factor authentication for any authenticator app. The shared
+ * secret is sealed with the signing master keys; recovery codes are stored
+ * as hashes and each works once. An accepted code's time step is recorded so
+ * the same code cannot be replayed within its validity window. Invalid codes
+ * are recorded as account audit events, and an account with too many recent
+ * ones accepts no code until they age out, however often the password is
+ * entered again.
+ */
+export class TwoFactorService {
+  isEnabled(user: Pick<User, "twoFactorEnabledAt">): boolean {
+    return !!user.twoFactorEnabledAt;
+  }
+
+  getStatus(user: User): TwoFactorStatus {
+    const enabled = this.isEnabled(user);
+    return {
+      enabled,
+      enabledAt: user.twoFactorEnabledAt,
+      signingChallenge: enabled && user.signingChallenge,
+      recoveryCodesRemaining: enabled ? user.twoFactorRecoveryCodes.length : 0,
+    };
+  }
+
+  /**
+   * Generates a new secret for the user to add to their authenticator app.
+   * It takes effect once enable() confirms a code from the app.
+   */
+  async beginEnrollment(user: User): Promise<{ secret: string; otpauthUrl: string }> {
+    if (this.isEnabled(user)) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+    await storage.updateUser(user.id, {
+      twoFactorSecret: keyService.seal(secret, secretContext(user.id)),
+      twoFactorLastStep: null,
+    });
+
+    const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: "SHA1",
+      digits: String(DIGITS),
+      period: String(STEP_SECONDS),
+    });
+    return { secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+  }
+
+  /** Turns two-factor authentication on and returns the recovery codes, shown only now. */
+  async enable(user: User, code: string): Promise<string[]> {
+    if (this.isEnabled(user)) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+    if (!user.twoFactorSecret) {
+      throw new Error("Start the setup first");
+    }
+    if (!(await this.verifyTotp(user, code))) {
+      throw new Error("Invalid code, check that your device's clock is correct");
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await storage.updateUser(user.id, {
+      twoFactorEnabledAt: new Date(),
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    });
+    console.log(`Two-factor authentication enabled for user ${user.id}`);
+    return recoveryCodes;
+  }
+
+  async isLockedOut(userId: string): Promise<boolean> {
+    const failures = await storage.countAccountAuditEvents({
+      actions: ["two_factor.failed"],
+      userId,
+      since: new Date(Date.now() - FAILURE_WINDOW),
+    });
+    return failures >= MAX_FAILURES;
+  }
+
+  /**
+   * Checks an authenticator code or consumes a recovery code, recording a
+   * failure if neither matches. Throws TWO_FACTOR_LOCKED_ERROR while the
+   * account is locked out.
+   */
+  async verify(user: User, input: TwoFactorCode, context: AuditContext): Promise<boolean> {
+    if (!this.isEnabled(user)) {
+      return false;
+    }
+    if (await this.isLockedOut(user.id)) {
+      throw new Error(TWO_FACTOR_LOCKED_ERROR);
+    }
+
+    let valid = false;
+    if (input.code) {
+      valid = await this.verifyTotp(user, input.code);
+    } else if (input.recoveryCode) {
+      valid = await storage.consumeRecoveryCode(user.id, hashRecoveryCode(input.recoveryCode));
+      if (valid) {
+        console.log(`User ${user.id} used a two-factor recovery code`);
+      }
+    }
+
+    if (!valid) {
+      await auditService.recordAccountEvent(context, "two_factor.failed", {
+        userId: user.id,
+        email: user.email.trim().toLowerCase(),
+      });
+    }
+    return valid;
+  }
+
+  async disable(user: User, input: TwoFactorCode, context: AuditContext): Promise<void> {
+    await this.requireValid(user, input, context);
+    await storage.updateUser(user.id, {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastStep: null,
+      signingChallenge: false,
+    });
+    console.log(`Two-factor authentication disabled for user ${user.id}`);
+  }
+
+  /** Replaces every recovery code; the old ones stop working. */
+  async regenerateRecoveryCodes(user: User, input: TwoFactorCode, context: AuditContext): Promise<string[]> {
+    await this.requireValid(user, input, context);
+    const recoveryCodes = this.generateRecoveryCodes();
+    await storage.updateUser(user.id, { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+    return recoveryCodes;
+  }
+
+  async setSigningChallenge(
+    user: User,
+    signingChallenge: boolean,
+    code: string,
+    context: AuditContext
+  ): Promise<void> {
+    await this.requireValid(user, { code }, context);
+    await storage.updateUser(user.id, { signingChallenge });
+  }
+
+  private async requireValid(user: User, input: TwoFactorCode, context: AuditContext): Promise<void> {
+    if (!this.isEnabled(user)) {
+      throw new Error("Two-factor authentication is not enabled");
+    }
+    if (!(await this.verify(user, input, context))) {
+      throw new Error("Invalid code");
+    }
+  }
+
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret || !/^\d{6}$/.test(code)) {
+      return false;
+    }
+
+    const secret = base32Decode(keyService.open(user.twoFactorSecret, secretContext(user.id)));
+    const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+    for (let step = currentStep - DRIFT_STEPS; step <= currentStep + DRIFT_STEPS; step++) {
+      if (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep) {
+        continue;
+      }
+      const expected = generateCode(secret, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        // Fails if a concurrent request already used this or a later code
+        return storage.recordTwoFactorStep(user.id, step);
+      }
+    }
+    return false;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(crypto.randomBytes(7)).slice(0, 10);
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
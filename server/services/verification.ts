@@ -0,0 +1,417 @@
+import crypto from "crypto";
+import {
+  PDFDocument,
+  PDFName,
+  PDFDict,
+  PDFArray,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PDFNumber,
+} from "pdf-lib";
+import { cmsService, digestAlgorithmName, sha256 } from "./cms";
+import { CertificateService } from "./certificate";
+import { caService } from "./ca";
+import { storage } from "../storage";
+import { timestampService, TSP_OIDS } from "./timestamp";
+import forge from "node-forge";
+
+export interface SignatureCertificateReport {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: Date | null;
+  validTo: Date | null;
+  selfSigned: boolean;
+  // Chains to this firm's root CA through the embedded or known intermediates
+  trustedChain: boolean;
+  validNow: boolean;
+  validAtSigningTime: boolean | null;
+  // Checked at the RFC 3161 timestamp time, which unlike the claimed signing time is independently attested
+  validAtTimestamp: boolean | null;
+  // null when the certificate was not issued by this CA, so its status is unknown here
+  revoked: boolean | null;
+  revokedAt: Date | null;
+  revocationReason: string | null;
+}
+
+export interface SignatureTimestampReport {
+  genTime: Date | null;
+  authority: string | null;
+  serialNumber: string | null;
+  trustedChain: boolean;
+  valid: boolean;
+}
+
+export interface SignatureReport {
+  fieldName: string;
+  signerName: string | null;
+  reason: string | null;
+  location: string | null;
+  subFilter: string | null;
+  signingTime: Date | null;
+  byteRange: number[];
+  revision: number;
+  digestAlgorithm: string | null;
+  digestMatches: boolean;
+  signatureValid: boolean;
+  coversWholeDocument: boolean;
+  modifiedAfterSigning: boolean;
+  // Every later change is itself covered by a later, valid signature
+  laterChangesSigned: boolean;
+  certificate: SignatureCertificateReport | null;
+  timestamp: SignatureTimestampReport | null;
+  valid: boolean;
+  errors: string[];
+}
+
+export interface VerificationReport {
+  fileName: string;
+  fileSize: number;
+  sha256: string;
+  pageCount: number | null;
+  revisionCount: number;
+  verifiedAt: Date;
+  signatures: SignatureReport[];
+  summary: {
+    signatureCount: number;
+    validSignatures: number;
+    allValid: boolean;
+    modifiedAfterLastSignature: boolean;
+  };
+}
+
+interface SignatureDictionary {
+  ref: PDFRef;
+  dict: PDFDict;
+}
+
+function textValue(obj: unknown): string | null {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) return obj.decodeText();
+  if (obj instanceof PDFName) return obj.decodeText();
+  return null;
+}
+
+function parsePdfDate(value: string | null): Date | null {
+  if (!value) return null;
+  const match = /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/.exec(value);
+  if (!match) return null;
+
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", zone] = match;
+  let offset = "Z";
+  if (zone && zone !== "Z") {
+    const digits = zone.replace(/'/g, "");
+    offset = `${digits.slice(0, 3)}:${digits.slice(3, 5)}`;
+  }
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export class VerificationService {
+  private certificateService = new CertificateService();
+
+  /**
+   * Inspects every signature dictionary in a PDF and reports, per signature,
+   * whether the signed byte ranges still hash to the signed digest, whether
+   * the CMS signature verifies and how the signer's certificate looked at
+   * signing time.
+   */
+  async verifyPdf(pdfBytes: Buffer, fileName: string): Promise<VerificationReport> {
+    const revisionEnds = this.findRevisionEnds(pdfBytes);
+    const signatures: SignatureReport[] = [];
+    let pageCount: number | null = null;
+
+    let pdfDoc: PDFDocument | null = null;
+    try {
+      pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+      pageCount = pdfDoc.getPageCount();
+    } catch (error: any) {
+      console.error("Verification: Could not parse PDF structure:", error.message);
+    }
+
+    if (pdfDoc) {
+      const fieldNames = this.collectFieldNames(pdfDoc);
+      const signatureDicts = this.findSignatureDictionaries(pdfDoc);
+
+      for (let index = 0; index < signatureDicts.length; index++) {
+        const { ref, dict } = signatureDicts[index];
+        const fieldName = fieldNames.get(ref.toString()) || `Signature${index + 1}`;
+        signatures.push(await this.verifySignature(pdfBytes, dict, fieldName, revisionEnds));
+      }
+
+      // Report signatures in the order they were applied
+      signatures.sort((a, b) => a.byteRange[2] + a.byteRange[3] - (b.byteRange[2] + b.byteRange[3]));
+
+      const last = signatures[signatures.length - 1];
+      const lastCoversAll = !!last && last.coversWholeDocument && last.valid;
+      signatures.forEach((signature) => {
+        signature.laterChangesSigned = signature.modifiedAfterSigning && lastCoversAll;
+      });
+    }
+
+    const validSignatures = signatures.filter((s) => s.valid).length;
+    const lastSignature = signatures[signatures.length - 1];
+
+    return {
+      fileName,
+      fileSize: pdfBytes.length,
+      sha256: sha256(pdfBytes).toString("hex"),
+      pageCount,
+      revisionCount: revisionEnds.length,
+      verifiedAt: new Date(),
+      signatures,
+      summary: {
+        signatureCount: signatures.length,
+        validSignatures,
+        allValid: signatures.length > 0 && validSignatures === signatures.length,
+        modifiedAfterLastSignature: lastSignature ? lastSignature.modifiedAfterSigning : false,
+      },
+    };
+  }
+
+  private async verifySignature(
+    pdfBytes: Buffer,
+    dict: PDFDict,
+    fieldName: string,
+    revisionEnds: number[]
+  ): Promise<SignatureReport> {
+    const byteRange = (dict.lookup(PDFName.of("ByteRange"), PDFArray) as PDFArray)
+      .asArray()
+      .map((n) => (n instanceof PDFNumber ? n.asNumber() : NaN));
+    const signedEnd = byteRange[2] + byteRange[3];
+
+    const report: SignatureReport = {
+      fieldName,
+      signerName: textValue(dict.get(PDFName.of("Name"))),
+      reason: textValue(dict.get(PDFName.of("Reason"))),
+      location: textValue(dict.get(PDFName.of("Location"))),
+      subFilter: textValue(dict.get(PDFName.of("SubFilter"))),
+      signingTime: parsePdfDate(textValue(dict.get(PDFName.of("M")))),
+      byteRange,
+      revision: revisionEnds.filter((end) => end <= signedEnd).length || 1,
+      digestAlgorithm: null,
+      digestMatches: false,
+      signatureValid: false,
+      coversWholeDocument: signedEnd === pdfBytes.length,
+      modifiedAfterSigning: signedEnd < pdfBytes.length,
+      laterChangesSigned: false,
+      certificate: null,
+      timestamp: null,
+      valid: false,
+      errors: [],
+    };
+
+    if (
+      byteRange.length !== 4 ||
+      byteRange.some((n) => !Number.isInteger(n) || n < 0) ||
+      byteRange[0] !== 0 ||
+      signedEnd > pdfBytes.length ||
+      byteRange[0] + byteRange[1] > byteRange[2]
+    ) {
+      report.errors.push("Malformed ByteRange");
+      return report;
+    }
+
+    // The signature value lives in the gap between the two signed ranges
+    const gap = pdfBytes.subarray(byteRange[1], byteRange[2]).toString("latin1").trim();
+    if (!gap.startsWith("<") || !gap.endsWith(">")) {
+      report.errors.push("ByteRange gap does not contain the /Contents hex string");
+      return report;
+    }
+
+    const signedContent = Buffer.concat([
+      pdfBytes.subarray(byteRange[0], byteRange[0] + byteRange[1]),
+      pdfBytes.subarray(byteRange[2], signedEnd),
+    ]);
+
+    try {
+      const parsed = cmsService.parseSignedData(Buffer.from(gap.slice(1, -1), "hex"));
+      const signerInfo = parsed.signerInfos[0];
+      if (!signerInfo) throw new Error("CMS structure contains no signer");
+
+      const result = cmsService.verifySigner(parsed, signerInfo, signedContent);
+      report.digestAlgorithm = digestAlgorithmName(signerInfo.digestAlgorithm);
+      report.digestMatches = result.digestMatches;
+      report.signatureValid = result.signatureValid;
+      report.errors.push(...result.errors);
+
+      // Prefer the signed signing-time attribute over the unsigned /M entry
+      if (signerInfo.signingTime) report.signingTime = signerInfo.signingTime;
+
+      const tokenAttribute = signerInfo.unsignedAttributes.find((attr) => attr.type === TSP_OIDS.timeStampToken);
+      if (tokenAttribute?.values[0]) {
+        const token = Buffer.from(forge.asn1.toDer(tokenAttribute.values[0]).getBytes(), "binary");
+        const timestamp = timestampService.verifyToken(token, signerInfo.signature);
+        report.timestamp = {
+          genTime: timestamp.genTime,
+          authority: timestamp.authority,
+          serialNumber: timestamp.serialNumber,
+          trustedChain: timestamp.trustedChain,
+          valid: timestamp.valid,
+        };
+        report.errors.push(...timestamp.errors.map((error) => `Timestamp: ${error}`));
+      }
+      const timestampTime = report.timestamp?.valid ? report.timestamp.genTime : null;
+
+      if (result.signerCertificate) {
+        const embedded = parsed.certificates.map((der) => new crypto.X509Certificate(der));
+        report.certificate = await this.describeCertificate(
+          result.signerCertificate,
+          embedded,
+          report.signingTime,
+          timestampTime
+        );
+        if (!report.signerName) report.signerName = report.certificate.subject;
+      }
+    } catch (error: any) {
+      report.errors.push(`Could not parse signature: ${error.message}`);
+    }
+
+    if (report.certificate && report.certificate.validAtSigningTime === false) {
+      report.errors.push("Signer certificate was not valid at signing time");
+    }
+    if (report.certificate && report.certificate.validAtTimestamp === false) {
+      report.errors.push("Signer certificate was not valid when the signature was timestamped");
+    }
+
+    // The signature cannot have been made after the TSA saw it (one second of accuracy)
+    const claimedAfterTimestamp =
+      !!report.signingTime &&
+      !!report.timestamp?.genTime &&
+      report.signingTime.getTime() > report.timestamp.genTime.getTime() + 1000;
+    if (claimedAfterTimestamp) {
+      report.errors.push("Claimed signing time is later than the timestamp");
+    }
+
+    // After a key compromise the signing time itself can no longer be trusted
+    const keyCompromised = report.certificate?.revocationReason === "keyCompromise";
+    if (keyCompromised) {
+      report.errors.push("Signer certificate was revoked because its key was compromised");
+    }
+
+    report.valid =
+      report.digestMatches &&
+      report.signatureValid &&
+      !!report.certificate &&
+      report.certificate.validAtSigningTime !== false &&
+      report.certificate.validAtTimestamp !== false &&
+      report.timestamp?.valid !== false &&
+      !claimedAfterTimestamp &&
+      !keyCompromised;
+
+    return report;
+  }
+
+  private async describeCertificate(
+    cert: crypto.X509Certificate,
+    embedded: crypto.X509Certificate[],
+    signingTime: Date | null,
+    timestampTime: Date | null
+  ): Promise<SignatureCertificateReport> {
+    const pem = cert.toString();
+    const revocation = await this.findRevocation(cert);
+    const info = this.certificateService.getCertificateInfo(pem, new Date(), revocation);
+
+    // node-forge only understands RSA keys; fall back to Node's parser for the rest
+    const readCn = (dn: string) => /(?:^|\n)CN=([^\n]*)/.exec(dn)?.[1] || "Unknown";
+    const forgeParsed = info.serialNumber !== "Unknown";
+    const validFrom = forgeParsed ? info.validFrom : new Date(cert.validFrom);
+    const validTo = forgeParsed ? info.validTo : new Date(cert.validTo);
+    const validAt = (at: Date) =>
+      forgeParsed
+        ? this.certificateService.validateCertificate(pem, at, revocation)
+        : at >= validFrom && at <= validTo && !(revocation?.revokedAt && revocation.revokedAt <= at);
+
+    return {
+      subject: forgeParsed ? info.subject : readCn(cert.subject),
+      issuer: forgeParsed ? info.issuer : readCn(cert.issuer),
+      serialNumber: forgeParsed ? info.serialNumber : cert.serialNumber.toLowerCase(),
+      validFrom,
+      validTo,
+      selfSigned: cert.subject === cert.issuer && cert.verify(cert.publicKey),
+      trustedChain: this.isTrusted(cert, embedded),
+      validNow: forgeParsed ? info.isValid : validAt(new Date()),
+      validAtSigningTime: signingTime ? validAt(signingTime) : null,
+      validAtTimestamp: timestampTime ? validAt(timestampTime) : null,
+      revoked: revocation ? !!revocation.revokedAt : null,
+      revokedAt: revocation?.revokedAt || null,
+      revocationReason: revocation?.revocationReason || null,
+    };
+  }
+
+  /**
+   * Revocation status from our own records, or null when the certificate was
+   * not issued by this CA (or is unknown to it) and the status cannot be told.
+   */
+  private async findRevocation(cert: crypto.X509Certificate) {
+    if (!caService.isIssuedByUs(cert)) return null;
+    try {
+      const signature = await storage.getSignatureBySerialNumber(cert.serialNumber);
+      return signature ? { revokedAt: signature.revokedAt, revocationReason: signature.revocationReason } : null;
+    } catch (error: any) {
+      console.error("Verification: Revocation lookup failed:", error.message);
+      return null;
+    }
+  }
+
+  private isTrusted(cert: crypto.X509Certificate, embedded: crypto.X509Certificate[]): boolean {
+    try {
+      return caService.chainsToRoot(cert, embedded);
+    } catch (error: any) {
+      console.error("Verification: Chain check failed:", error.message);
+      return false;
+    }
+  }
+
+  private findSignatureDictionaries(pdfDoc: PDFDocument): SignatureDictionary[] {
+    const found: SignatureDictionary[] = [];
+    for (const [ref, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+      if (
+        obj instanceof PDFDict &&
+        obj.has(PDFName.of("ByteRange")) &&
+        obj.has(PDFName.of("Contents"))
+      ) {
+        found.push({ ref, dict: obj });
+      }
+    }
+    return found;
+  }
+
+  private collectFieldNames(pdfDoc: PDFDocument): Map<string, string> {
+    const names = new Map<string, string>();
+    for (const [, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+      if (!(obj instanceof PDFDict)) continue;
+      const value = obj.get(PDFName.of("V"));
+      if (!(value instanceof PDFRef)) continue;
+
+      const parts: string[] = [];
+      let node: PDFDict | undefined = obj;
+      while (node) {
+        const partial = textValue(node.get(PDFName.of("T")));
+        if (partial) parts.unshift(partial);
+        node = node.lookupMaybe(PDFName.of("Parent"), PDFDict);
+      }
+      if (parts.length > 0) names.set(value.toString(), parts.join("."));
+    }
+    return names;
+  }
+
+  /**
+   * Byte offsets just past each %%EOF marker, i.e. where every incremental
+   * revision of the file ends.
+   */
+  private findRevisionEnds(pdfBytes: Buffer): number[] {
+    const ends: number[] = [];
+    let index = pdfBytes.indexOf("%%EOF");
+    while (index !== -1) {
+      let end = index + 5;
+      if (pdfBytes[end] === 0x0d) end++;
+      if (pdfBytes[end] === 0x0a) end++;
+      ends.push(end);
+      index = pdfBytes.indexOf("%%EOF", index + 5);
+    }
+    return ends.length > 0 ? ends : [pdfBytes.length];
+  }
+}
+
+export const verificationService = new VerificationService();
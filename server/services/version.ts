@@ -0,0 +1,309 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { signatureService } from "./signature";
+import { pdfService } from "./pdf";
+import { fileStorage } from "./file-storage";
+import {
+  type AuditEvent,
+  type DocumentVersion,
+  type InsertDocumentVersion,
+  type PdfDocument,
+  type VersionSnapshot,
+} from "@shared/schema";
+
+type SnapshotSignature = VersionSnapshot["signatures"][number];
+
+export interface VersionSummary {
+  versionNumber: number;
+  action: string;
+  sha256: string;
+  authorEmail: string | null;
+  createdAt: Date;
+}
+
+export interface VersionDiff {
+  from: VersionSummary;
+  to: VersionSummary;
+  identical: boolean;
+  pageCount: { from: number; to: number };
+  // Only pages that differ
+  pages: { pageNumber: number; change: "added" | "removed" | "changed" }[];
+  signatures: {
+    added: SnapshotSignature[];
+    removed: SnapshotSignature[];
+    moved: SnapshotSignature[];
+  };
+  fields: { fieldId: string; name: string; type: string; from: string | null; to: string | null }[];
+}
+
+function sha256(bytes: Uint8Array): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+function toSummary(version: DocumentVersion): VersionSummary {
+  return {
+    versionNumber: version.versionNumber,
+    action: version.action,
+    sha256: version.sha256,
+    authorEmail: version.authorEmail,
+    createdAt: version.createdAt,
+  };
+}
+
+/**
+ * Version history. The uploaded file is version 1 and is never written to
+ * again; every signing event stores the signed PDF as rendered at that
+ * moment, with its hash and the audit event that produced it, so it can be
+ * shown later exactly which bytes each party signed.
+ */
+export class VersionService {
+  /** Makes the uploaded file version 1 and marks it read-only. */
+  async recordOriginal(document: PdfDocument, event?: AuditEvent): Promise<DocumentVersion> {
+    const original = await this.describeOriginal(document, event);
+    const [created] = await storage.appendDocumentVersions(document.id, (latest) => (latest ? [] : [original]));
+    return created || (await storage.getDocumentVersion(document.id, 1))!;
+  }
+
+  /**
+   * Renders and stores the document as it stands after `event`. A failure is
+   * logged rather than thrown: the signing it records has already happened.
+   */
+  async recordVersion(document: PdfDocument, event: AuditEvent): Promise<DocumentVersion | undefined> {
+    try {
+      return await this.storeVersion(document, event);
+    } catch (error: any) {
+      console.error(`Failed to store a version of document ${document.id} after ${event.action}:`, error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores the sealed, locked copy of a finalized document. Unlike other
+   * versions this one is required, so failures are thrown to the caller.
+   */
+  async recordFinalVersion(document: PdfDocument, event: AuditEvent): Promise<DocumentVersion> {
+    return this.storeVersion(document, event, { lock: true });
+  }
+
+  /** The sealed copy stored when the document was finalized. */
+  async getFinalVersion(document: PdfDocument): Promise<DocumentVersion | undefined> {
+    const versions = await storage.getDocumentVersions(document.id);
+    return versions.reverse().find((version) => version.action === "document.finalized");
+  }
+
+  /**
+   * The PDF handed out for downloads: the stored sealed copy once the document
+   * is finalized (it is never re-rendered), otherwise a fresh rendering.
+   */
+  async getSignedDocument(document: PdfDocument, options: { flattenForm?: boolean } = {}): Promise<Uint8Array> {
+    if (!document.isReadOnly) {
+      return signatureService.renderSignedDocument(document, options);
+    }
+
+    const final = await this.getFinalVersion(document);
+    const read = final && (await this.readVersion(document, final.versionNumber));
+    if (!read) {
+      throw new Error("The finalized copy of this document is missing");
+    }
+    if (!read.intact) {
+      throw new Error("The finalized copy of this document has been altered since it was stored");
+    }
+    return read.bytes;
+  }
+
+  async getVersions(document: PdfDocument): Promise<DocumentVersion[]> {
+    const versions = await storage.getDocumentVersions(document.id);
+    if (versions.length > 0) {
+      return versions;
+    }
+    return [await this.recordOriginal(document)];
+  }
+
+  /**
+   * Reads a stored version back. `intact` is false when the file on disk no
+   * longer matches the hash taken when it was stored.
+   */
+  async readVersion(
+    document: PdfDocument,
+    versionNumber: number
+  ): Promise<{ version: DocumentVersion; bytes: Buffer; intact: boolean } | undefined> {
+    const version =
+      versionNumber === 1
+        ? (await this.getVersions(document))[0]
+        : await storage.getDocumentVersion(document.id, versionNumber);
+    if (!version) {
+      return undefined;
+    }
+
+    const bytes = await fileStorage.get(version.filePath);
+    return { version, bytes, intact: sha256(bytes) === version.sha256 };
+  }
+
+  async diff(document: PdfDocument, fromNumber: number, toNumber: number): Promise<VersionDiff> {
+    const [from, to] = await Promise.all([
+      this.readVersion(document, fromNumber),
+      this.readVersion(document, toNumber),
+    ]);
+    if (!from || !to) {
+      throw new Error(`Version ${!from ? fromNumber : toNumber} not found`);
+    }
+    for (const read of [from, to]) {
+      if (!read.intact) {
+        throw new Error(`Version ${read.version.versionNumber} has been altered since it was stored`);
+      }
+    }
+
+    const [fromPages, toPages] = await Promise.all([
+      pdfService.getPageFingerprints(from.bytes),
+      pdfService.getPageFingerprints(to.bytes),
+    ]);
+    const pages: VersionDiff["pages"] = [];
+    for (let i = 0; i < Math.max(fromPages.length, toPages.length); i++) {
+      if (i >= fromPages.length) {
+        pages.push({ pageNumber: i + 1, change: "added" });
+      } else if (i >= toPages.length) {
+        pages.push({ pageNumber: i + 1, change: "removed" });
+      } else if (fromPages[i] !== toPages[i]) {
+        pages.push({ pageNumber: i + 1, change: "changed" });
+      }
+    }
+
+    const fromSnapshot = from.version.snapshot as VersionSnapshot;
+    const toSnapshot = to.version.snapshot as VersionSnapshot;
+    const fromSignatures = new Map(fromSnapshot.signatures.map((sig) => [sig.appliedSignatureId, sig]));
+    const toSignatures = new Map(toSnapshot.signatures.map((sig) => [sig.appliedSignatureId, sig]));
+    const fromFields = new Map(fromSnapshot.fields.map((field) => [field.fieldId, field]));
+    const toFields = new Map(toSnapshot.fields.map((field) => [field.fieldId, field]));
+
+    return {
+      from: toSummary(from.version),
+      to: toSummary(to.version),
+      identical: from.version.sha256 === to.version.sha256,
+      pageCount: { from: fromPages.length, to: toPages.length },
+      pages,
+      signatures: {
+        added: toSnapshot.signatures.filter((sig) => !fromSignatures.has(sig.appliedSignatureId)),
+        removed: fromSnapshot.signatures.filter((sig) => !toSignatures.has(sig.appliedSignatureId)),
+        moved: toSnapshot.signatures.filter((sig) => {
+          const before = fromSignatures.get(sig.appliedSignatureId);
+          return (
+            before &&
+            (before.pageNumber !== sig.pageNumber || JSON.stringify(before.position) !== JSON.stringify(sig.position))
+          );
+        }),
+      },
+      fields: Array.from(new Set([...Array.from(fromFields.keys()), ...Array.from(toFields.keys())]))
+        .map((fieldId) => {
+          const field = (toFields.get(fieldId) || fromFields.get(fieldId))!;
+          return {
+            fieldId,
+            name: field.name,
+            type: field.type,
+            from: fromFields.get(fieldId)?.value ?? null,
+            to: toFields.get(fieldId)?.value ?? null,
+          };
+        })
+        .filter((field) => field.from !== field.to),
+    };
+  }
+
+  private async storeVersion(
+    document: PdfDocument,
+    event: AuditEvent,
+    options: { lock?: boolean } = {}
+  ): Promise<DocumentVersion> {
+    let filePath: string | undefined;
+    try {
+      const bytes = await signatureService.renderSignedDocument(document, options);
+      const snapshot = await this.takeSnapshot(document);
+
+      filePath = await fileStorage.put(fileStorage.newKey("version"), bytes, { immutable: true });
+
+      const version = {
+        action: event.action,
+        auditSequence: event.sequence,
+        filePath,
+        fileSize: bytes.length,
+        sha256: sha256(bytes),
+        authorId: event.userId,
+        authorEmail: event.userEmail,
+        snapshot,
+        createdAt: event.createdAt,
+      };
+      // Documents uploaded before versions were kept get their original first
+      const original = (await storage.getDocumentVersion(document.id, 1))
+        ? undefined
+        : await this.describeOriginal(document);
+      const created = await storage.appendDocumentVersions(document.id, (latest) =>
+        latest || !original ? [version] : [original, version]
+      );
+
+      const stored = created[created.length - 1];
+      console.log(`Stored version ${stored.versionNumber} of document ${document.id} (${event.action})`);
+      return stored;
+    } catch (error) {
+      if (filePath) {
+        await fileStorage.delete(filePath).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  private async describeOriginal(
+    document: PdfDocument,
+    event?: AuditEvent
+  ): Promise<Omit<InsertDocumentVersion, "documentId" | "versionNumber">> {
+    const bytes = await fileStorage.get(document.filePath);
+
+    // Nothing in the application writes to the original; this keeps anything else from doing so by accident
+    try {
+      await fileStorage.protect(document.filePath);
+    } catch (error: any) {
+      console.error(`Could not make ${document.filePath} read-only:`, error.message);
+    }
+
+    return {
+      action: "document.uploaded",
+      auditSequence: event?.sequence ?? null,
+      filePath: document.filePath,
+      fileSize: bytes.length,
+      sha256: sha256(bytes),
+      authorId: event ? event.userId : document.userId,
+      authorEmail: event?.userEmail ?? null,
+      // Values the uploaded form already had; a document versioned after the
+      // fact can no longer tell those apart from later ones
+      snapshot: event ? await this.takeSnapshot(document) : { signatures: [], fields: [] },
+      createdAt: event?.createdAt ?? document.uploadedAt ?? new Date(),
+    };
+  }
+
+  private async takeSnapshot(document: PdfDocument): Promise<VersionSnapshot> {
+    const appliedSignatures = await storage.getDocumentSignatures(document.id);
+    const signatureIds = Array.from(new Set(appliedSignatures.map((sig) => sig.signatureId)));
+    const signatures = await Promise.all(signatureIds.map((id) => storage.getSignature(id)));
+    const signatureMap = new Map(signatures.filter(Boolean).map((sig) => [sig!.id, sig!]));
+    const fields = await storage.getDocumentFields(document.id);
+
+    return {
+      signatures: appliedSignatures.map((applied) => ({
+        appliedSignatureId: applied.id,
+        signatureId: applied.signatureId,
+        signerName: signatureMap.get(applied.signatureId)?.fullName || "Unknown signer",
+        certificateSerialNumber: signatureMap.get(applied.signatureId)?.serialNumber || null,
+        pageNumber: applied.pageNumber,
+        position: applied.position as SnapshotSignature["position"],
+      })),
+      fields: fields
+        .filter((field) => field.value !== null)
+        .map((field) => ({
+          fieldId: field.id,
+          name: field.name,
+          type: field.type,
+          pageNumber: field.pageNumber,
+          value: field.value,
+        })),
+    };
+  }
+}
+
+export const versionService = new VersionService();
@@ -3,6 +3,26 @@ import {
   digitalSignatures, 
   pdfDocuments, 
   appliedSignatures,
+  auditEvents,
+  envelopes,
+  envelopeRecipients,
+  documentTemplates,
+  documentFields,
+  documentVersions,
+  documentPages,
+  documentPageTexts,
+  folders,
+  tags,
+  documentTags,
+  organizations,
+  organizationMembers,
+  organizationInvitations,
+  signatureDelegations,
+  delegationRequests,
+  passwordResetTokens,
+  accountAuditEvents,
+  sessions,
+  jobs,
   type User, 
   type InsertUser,
   type DigitalSignature,
@@ -10,12 +30,114 @@ import {
   type PdfDocument,
   type InsertDocument,
   type AppliedSignature,
-  type InsertAppliedSignature
+  type InsertAppliedSignature,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type Envelope,
+  type InsertEnvelope,
+  type EnvelopeRecipient,
+  type InsertEnvelopeRecipient,
+  type DocumentTemplate,
+  type InsertDocumentTemplate,
+  type DocumentField,
+  type InsertDocumentField,
+  type DocumentVersion,
+  type InsertDocumentVersion,
+  type DocumentPage,
+  type InsertDocumentPage,
+  type DocumentSearch,
+  type Folder,
+  type InsertFolder,
+  type Tag,
+  type DocumentTag,
+  type Organization,
+  type OrganizationMember,
+  type OrganizationMemberWithUser,
+  type OrganizationRole,
+  type OrganizationInvitation,
+  type InsertOrganizationInvitation,
+  type OrganizationInvitationWithNames,
+  type PublicOrganizationInvitation,
+  type SignatureDelegation,
+  type InsertSignatureDelegation,
+  type DelegationWithNames,
+  type DelegationRequest,
+  type DelegationRequestStatus,
+  type DelegationRequestWithDetails,
+  type DelegatedPlacement,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type AccountAuditAction,
+  type AccountAuditEvent,
+  type InsertAccountAuditEvent,
+  type Job,
+  type InsertJob
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db, pool } from "./db";
+import {
+  eq,
+  and,
+  or,
+  isNull,
+  isNotNull,
+  asc,
+  desc,
+  notLike,
+  ilike,
+  exists,
+  notExists,
+  sql,
+  inArray,
+  lt,
+  lte,
+  gt,
+  gte,
+  type SQL,
+} from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+export const DOCUMENT_FINALIZED_ERROR = "This document has been finalized and can no longer be changed";
+
+export interface DocumentTextMatch {
+  documentId: string;
+  pageNumber: number;
+  rank: number;
+  // ts_headline output, matches wrapped in SEARCH_MATCH_START/SEARCH_MATCH_END
+  headline: string;
+}
+
+// A search with its folder filter resolved to the folder and all its subfolders
+export type DocumentSearchScope = Omit<DocumentSearch, "folderId"> & { folderIds?: string[] | null };
+
+// Marks around matched words in headlines; stored text never contains control characters
+export const SEARCH_MATCH_START = "\u0002";
+export const SEARCH_MATCH_END = "\u0003";
+
+// `%` and `_` typed by the user match themselves
+function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (character) => `\\${character}`)}%`;
+}
+
+// The organization the user is a member of, if any, as a subquery
+function membershipOf(userId: string) {
+  return db
+    .select({ organizationId: organizationMembers.organizationId })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.userId, userId));
+}
+
+// Documents the user owns or that were shared with their organization
+function documentAccessibleBy(userId: string): SQL {
+  return or(eq(pdfDocuments.userId, userId), inArray(pdfDocuments.organizationId, membershipOf(userId)))!;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -23,31 +145,201 @@ export interface IStorage {
   createUser(user: InsertUser, verificationToken?: string): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>; // Added for testing purposes
+  // Two-factor codes are single use; both return false when already used
+  recordTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+
+  // Password reset methods (see AuthService)
+  // Creating a token invalidates the user's earlier unused ones
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  // Marks an unexpired, unused token used; undefined if there is none
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Sets the new hash, invalidates every outstanding token and ends the user's sessions
+  resetPassword(userId: string, passwordHash: string): Promise<void>;
+  createAccountAuditEvent(event: InsertAccountAuditEvent): Promise<AccountAuditEvent>;
+  countAccountAuditEvents(filter: {
+    actions: AccountAuditAction[];
+    userId?: string;
+    email?: string;
+    ipAddress?: string;
+    since: Date;
+  }): Promise<number>;
   
   // Digital signature methods
   createSignature(signature: InsertSignature): Promise<DigitalSignature>;
   getUserSignatures(userId: string): Promise<DigitalSignature[]>;
   getSignature(id: string): Promise<DigitalSignature | undefined>;
+  getUserSignature(id: string, userId: string): Promise<DigitalSignature | undefined>;
+  getAccessibleSignature(id: string, userId: string): Promise<DigitalSignature | undefined>;
+  getSharedSignatures(organizationId: string, excludeUserId: string): Promise<DigitalSignature[]>;
+  setSignatureOrganization(id: string, organizationId: string | null): Promise<DigitalSignature | undefined>;
   deleteSignature(id: string): Promise<void>;
+  updateSignature(id: string, updates: Partial<DigitalSignature>): Promise<DigitalSignature | undefined>;
+  getSignaturesWithLegacySecrets(): Promise<DigitalSignature[]>;
+  getSignatureBySerialNumber(serialNumber: string): Promise<DigitalSignature | undefined>;
+  revokeSignature(id: string, reason: string): Promise<DigitalSignature | undefined>;
+  getRevokedSignatures(): Promise<DigitalSignature[]>;
   
   // PDF document methods
   createDocument(document: InsertDocument): Promise<PdfDocument>;
   getUserDocuments(userId: string): Promise<PdfDocument[]>;
   getDocument(id: string): Promise<PdfDocument | undefined>;
+  getUserDocument(id: string, userId: string): Promise<PdfDocument | undefined>;
+  getAccessibleDocuments(userId: string): Promise<PdfDocument[]>;
+  getAccessibleDocument(id: string, userId: string): Promise<PdfDocument | undefined>;
+  setDocumentOrganization(id: string, organizationId: string | null): Promise<PdfDocument | undefined>;
   deleteDocument(id: string): Promise<void>;
   updateDocumentStatus(id: string, status: string, pageCount?: number, pageSizes?: string): Promise<void>;
-  // updateDocumentReadOnlyStatus(id: string, isReadOnly: boolean): Promise<void>; // temporarily removed
+  // Finalizing only succeeds once; undefined means the document was already finalized (or is gone)
+  updateDocumentReadOnlyStatus(id: string, isReadOnly: boolean): Promise<PdfDocument | undefined>;
   
   // Applied signature methods
   applySignature(appliedSignature: InsertAppliedSignature): Promise<AppliedSignature>;
   getDocumentSignatures(documentId: string): Promise<AppliedSignature[]>;
-  removeSignature(id: string): Promise<void>;
+  // Documents that carry at least one stamp made with the signature
+  countDocumentsSignedWith(signatureId: string): Promise<number>;
+  getAppliedSignature(documentId: string, id: string): Promise<AppliedSignature | undefined>;
+  updateAppliedSignature(id: string, updates: Partial<AppliedSignature>): Promise<AppliedSignature | undefined>;
+  removeSignature(documentId: string, id: string): Promise<void>;
   removeSignaturesFromPage(documentId: string, pageNumber: number): Promise<void>;
   removeSignaturesFromDocument(documentId: string): Promise<void>;
-  updateSignaturePosition(id: string, position: any): Promise<void>;
+  updateSignaturePosition(documentId: string, id: string, position: any): Promise<void>;
+
+  // Envelope methods
+  createEnvelope(envelope: InsertEnvelope, recipients: Omit<InsertEnvelopeRecipient, "envelopeId">[]): Promise<Envelope>;
+  getEnvelope(id: string): Promise<Envelope | undefined>;
+  getUserEnvelope(id: string, ownerId: string): Promise<Envelope | undefined>;
+  getUserEnvelopes(ownerId: string): Promise<Envelope[]>;
+  // Every envelope on the document, whoever sent it
+  getDocumentEnvelopes(documentId: string): Promise<Envelope[]>;
+  updateEnvelope(id: string, updates: Partial<Envelope>, expectedStatuses?: string[]): Promise<Envelope | undefined>;
+  getEnvelopeRecipients(envelopeId: string): Promise<EnvelopeRecipient[]>;
+  getRecipientByTokenHash(tokenHash: string): Promise<EnvelopeRecipient | undefined>;
+  updateRecipient(
+    id: string,
+    updates: Partial<EnvelopeRecipient>,
+    expectedStatuses?: string[]
+  ): Promise<EnvelopeRecipient | undefined>;
+
+  // Template methods
+  createTemplate(template: InsertDocumentTemplate): Promise<DocumentTemplate>;
+  getUserTemplates(userId: string): Promise<DocumentTemplate[]>;
+  getUserTemplate(id: string, userId: string): Promise<DocumentTemplate | undefined>;
+  updateTemplate(id: string, updates: Partial<DocumentTemplate>): Promise<DocumentTemplate | undefined>;
+  deleteTemplate(id: string): Promise<void>;
+
+  // Document field methods
+  createDocumentFields(fields: InsertDocumentField[]): Promise<DocumentField[]>;
+  getDocumentFields(documentId: string): Promise<DocumentField[]>;
+  updateDocumentField(id: string, updates: Partial<DocumentField>): Promise<DocumentField | undefined>;
+  deleteDocumentField(id: string): Promise<void>;
+
+  // Audit trail methods
+  appendAuditEvent(
+    documentId: string,
+    build: (previous: AuditEvent | undefined) => InsertAuditEvent
+  ): Promise<AuditEvent>;
+  getDocumentAuditEvents(documentId: string): Promise<AuditEvent[]>;
+
+  // Document version methods
+  appendDocumentVersions(
+    documentId: string,
+    build: (latest: DocumentVersion | undefined) => Omit<InsertDocumentVersion, "documentId" | "versionNumber">[]
+  ): Promise<DocumentVersion[]>;
+  getDocumentVersions(documentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersion(documentId: string, versionNumber: number): Promise<DocumentVersion | undefined>;
+
+  // Page image methods (see services/page-images)
+  getDocumentPages(documentId: string): Promise<DocumentPage[]>;
+  getDocumentPage(documentId: string, pageNumber: number): Promise<DocumentPage | undefined>;
+  replaceDocumentPages(documentId: string, pages: Omit<InsertDocumentPage, "documentId">[]): Promise<DocumentPage[]>;
+
+  // Organization methods (see services/organizations)
+  createOrganization(name: string, createdBy: string): Promise<Organization>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  deleteOrganization(id: string): Promise<void>;
+  getMembership(userId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]>;
+  updateOrganizationMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined>;
+  removeOrganizationMember(organizationId: string, userId: string): Promise<void>;
+  // Inviting an address again replaces its earlier invitation
+  createOrganizationInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
+  getOrganizationInvitation(id: string): Promise<OrganizationInvitation | undefined>;
+  getOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]>;
+  getOrganizationInvitationByTokenHash(tokenHash: string): Promise<OrganizationInvitationWithNames | undefined>;
+  deleteOrganizationInvitation(id: string): Promise<void>;
+  acceptOrganizationInvitation(invitation: PublicOrganizationInvitation, userId: string): Promise<OrganizationMember>;
+
+  // Signature delegation methods (see services/delegations)
+  createDelegation(delegation: InsertSignatureDelegation): Promise<SignatureDelegation>;
+  getDelegation(id: string): Promise<SignatureDelegation | undefined>;
+  getOwnedDelegations(ownerId: string): Promise<DelegationWithNames[]>;
+  getReceivedDelegations(delegateId: string): Promise<DelegationWithNames[]>;
+  getActiveDelegations(signatureId: string, delegateId: string): Promise<SignatureDelegation[]>;
+  revokeDelegation(id: string): Promise<SignatureDelegation | undefined>;
+  createDelegationRequest(delegationId: string, documentId: string, placement: DelegatedPlacement): Promise<DelegationRequest>;
+  getDelegationRequest(id: string): Promise<DelegationRequest | undefined>;
+  getPendingDelegationRequests(userId: string): Promise<DelegationRequestWithDetails[]>;
+  // Only moves a request that is still in `from`; undefined means it was already decided (or is gone)
+  decideDelegationRequest(
+    id: string,
+    status: DelegationRequestStatus,
+    from?: DelegationRequestStatus
+  ): Promise<DelegationRequest | undefined>;
+
+  // Folder and tag methods (see services/folders, services/tags)
+  createFolder(folder: InsertFolder): Promise<Folder>;
+  getUserFolders(userId: string): Promise<Folder[]>;
+  getUserFolder(id: string, userId: string): Promise<Folder | undefined>;
+  updateFolder(id: string, updates: Partial<Pick<Folder, "name" | "parentId">>): Promise<Folder | undefined>;
+  deleteFolder(id: string, moveContentsTo: string | null): Promise<void>;
+  getFolderDocuments(userId: string, folderIds: string[]): Promise<PdfDocument[]>;
+  moveDocuments(documentIds: string[], folderId: string | null): Promise<PdfDocument[]>;
+  createTag(userId: string, name: string): Promise<Tag>;
+  getUserTags(userId: string): Promise<Tag[]>;
+  getUserTag(id: string, userId: string): Promise<Tag | undefined>;
+  getUserTagByName(userId: string, name: string): Promise<Tag | undefined>;
+  renameTag(id: string, name: string): Promise<Tag | undefined>;
+  deleteTag(id: string): Promise<void>;
+  getUserDocumentTags(userId: string): Promise<DocumentTag[]>;
+  addDocumentTags(documentIds: string[], tagIds: string[]): Promise<void>;
+  removeDocumentTags(documentIds: string[], tagIds: string[]): Promise<void>;
+
+  // Full-text search methods (see services/search)
+  replaceDocumentText(documentId: string, pages: { pageNumber: number; content: string }[]): Promise<void>;
+  getDocumentsToIndex(includeIndexed?: boolean): Promise<PdfDocument[]>;
+  searchDocumentText(userId: string, search: DocumentSearchScope, limit: number): Promise<DocumentTextMatch[]>;
+  findDocuments(userId: string, search: DocumentSearchScope, textMatchIds: string[], limit: number): Promise<PdfDocument[]>;
+  getDocumentSigners(documentIds: string[]): Promise<{ documentId: string; fullName: string }[]>;
+
+  // Stored file methods (see services/file-storage)
+  getStoredFileLocations(): Promise<string[]>;
+  relocateStoredFile(from: string, to: string): Promise<number>;
+
+  // Job queue methods (see services/jobs)
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  getUserJob(id: string, userId: string): Promise<Job | undefined>;
+  getActiveDocumentJob(documentId: string, type: string): Promise<Job | undefined>;
+  getRecentUserJobs(userId: string, finishedSince: Date): Promise<Job[]>;
+  claimNextJob(workerId: string): Promise<Job | undefined>;
+  updateClaimedJob(id: string, workerId: string, updates: Partial<Job>): Promise<Job | undefined>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  deleteFinishedJobs(finishedBefore: Date): Promise<Job[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool: pool as any,
+      tableName: "sessions",
+      // Serverless invocations are too short-lived for a pruning timer
+      pruneSessionInterval: process.env.VERCEL ? false : 60 * 15,
+    });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -87,7 +379,100 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
-  async createSignature(insertSignature: InsertSignature & { certificate: string; privateKey: string; signatureImage?: string | null }): Promise<DigitalSignature> {
+  async recordTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ twoFactorLastStep: step })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step))
+        )
+      )
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ twoFactorRecoveryCodes: sql`${users.twoFactorRecoveryCodes} - ${codeHash}::text` })
+      .where(
+        and(
+          eq(users.id, userId),
+          sql`${users.twoFactorRecoveryCodes} @> ${JSON.stringify([codeHash])}::jsonb`
+        )
+      )
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    return db.transaction(async (tx) => {
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, token.userId), isNull(passwordResetTokens.usedAt)));
+      const [created] = await tx.insert(passwordResetTokens).values(token).returning();
+      return created;
+    });
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return token || undefined;
+  }
+
+  async resetPassword(userId: string, passwordHash: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(users).set({ password: passwordHash }).where(eq(users.id, userId));
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+      // passport keeps the user id in the session it serialized (see setupAuth)
+      await tx.delete(sessions).where(sql`${sessions.sess}->'passport'->>'user' = ${userId}`);
+    });
+  }
+
+  async createAccountAuditEvent(event: InsertAccountAuditEvent): Promise<AccountAuditEvent> {
+    const [created] = await db.insert(accountAuditEvents).values(event).returning();
+    return created;
+  }
+
+  async countAccountAuditEvents(filter: {
+    actions: AccountAuditAction[];
+    userId?: string;
+    email?: string;
+    ipAddress?: string;
+    since: Date;
+  }): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(accountAuditEvents)
+      .where(
+        and(
+          inArray(accountAuditEvents.action, filter.actions),
+          gte(accountAuditEvents.createdAt, filter.since),
+          filter.userId !== undefined ? eq(accountAuditEvents.userId, filter.userId) : undefined,
+          filter.email !== undefined ? eq(accountAuditEvents.email, filter.email) : undefined,
+          filter.ipAddress !== undefined ? eq(accountAuditEvents.ipAddress, filter.ipAddress) : undefined
+        )
+      );
+    return count;
+  }
+
+  async createSignature(insertSignature: InsertSignature & { certificate: string; serialNumber?: string | null; privateKey: string; signatureImage?: string | null }): Promise<DigitalSignature> {
     const [signature] = await db
       .insert(digitalSignatures)
       .values(insertSignature)
@@ -110,6 +495,51 @@ export class DatabaseStorage implements IStorage {
     return signature || undefined;
   }
 
+  // Scoped lookup: resolves only if the signature belongs to the given user
+  async getUserSignature(id: string, userId: string): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(digitalSignatures)
+      .where(and(eq(digitalSignatures.id, id), eq(digitalSignatures.userId, userId)));
+    return signature || undefined;
+  }
+
+  // Also resolves for signatures another member shared with the user's organization
+  async getAccessibleSignature(id: string, userId: string): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(digitalSignatures)
+      .where(
+        and(
+          eq(digitalSignatures.id, id),
+          or(eq(digitalSignatures.userId, userId), inArray(digitalSignatures.organizationId, membershipOf(userId)))
+        )
+      );
+    return signature || undefined;
+  }
+
+  async getSharedSignatures(organizationId: string, excludeUserId: string): Promise<DigitalSignature[]> {
+    return db
+      .select()
+      .from(digitalSignatures)
+      .where(
+        and(
+          eq(digitalSignatures.organizationId, organizationId),
+          sql`${digitalSignatures.userId} <> ${excludeUserId}`
+        )
+      )
+      .orderBy(asc(digitalSignatures.fullName));
+  }
+
+  async setSignatureOrganization(id: string, organizationId: string | null): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .update(digitalSignatures)
+      .set({ organizationId })
+      .where(eq(digitalSignatures.id, id))
+      .returning();
+    return signature || undefined;
+  }
+
   async deleteSignature(id: string): Promise<void> {
     try {
       console.log(`Storage: Deleting signature ${id} and all associated applied signatures`);
@@ -121,6 +551,14 @@ export class DatabaseStorage implements IStorage {
         .returning();
       
       console.log(`Storage: Deleted ${deletedAppliedSignatures.length} applied signatures for signature ${id}`);
+
+      // Delegations of the signature go with it
+      const delegationIds = db
+        .select({ id: signatureDelegations.id })
+        .from(signatureDelegations)
+        .where(eq(signatureDelegations.signatureId, id));
+      await db.delete(delegationRequests).where(inArray(delegationRequests.delegationId, delegationIds));
+      await db.delete(signatureDelegations).where(eq(signatureDelegations.signatureId, id));
       
       // Then delete the signature itself
       await db.delete(digitalSignatures).where(eq(digitalSignatures.id, id));
@@ -132,6 +570,63 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateSignature(id: string, updates: Partial<DigitalSignature>): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .update(digitalSignatures)
+      .set(updates)
+      .where(eq(digitalSignatures.id, id))
+      .returning();
+    return signature || undefined;
+  }
+
+  // Rows whose private key is not sealed by KeyService or whose password is not a bcrypt hash
+  async getSignaturesWithLegacySecrets(): Promise<DigitalSignature[]> {
+    return await db
+      .select()
+      .from(digitalSignatures)
+      .where(
+        or(
+          notLike(digitalSignatures.privateKey, "sealed:v1:%"),
+          and(
+            isNotNull(digitalSignatures.password),
+            notLike(digitalSignatures.password, "$2%")
+          )
+        )
+      );
+  }
+
+  async getSignatureBySerialNumber(serialNumber: string): Promise<DigitalSignature | undefined> {
+    const [signature] = await db
+      .select()
+      .from(digitalSignatures)
+      .where(eq(digitalSignatures.serialNumber, serialNumber.toLowerCase()));
+    return signature || undefined;
+  }
+
+  // Revocation keeps the row and its applied signatures; only the first revocation counts
+  async revokeSignature(id: string, reason: string): Promise<DigitalSignature | undefined> {
+    const existing = await this.getSignature(id);
+    if (!existing || existing.revokedAt) {
+      return existing;
+    }
+
+    const [signature] = await db
+      .update(digitalSignatures)
+      .set({ revokedAt: new Date(), revocationReason: reason })
+      .where(eq(digitalSignatures.id, id))
+      .returning();
+    console.log(`Storage: Revoked signature ${id} (${reason})`);
+    return signature || undefined;
+  }
+
+  async getRevokedSignatures(): Promise<DigitalSignature[]> {
+    return await db
+      .select()
+      .from(digitalSignatures)
+      .where(and(isNotNull(digitalSignatures.revokedAt), isNotNull(digitalSignatures.serialNumber)))
+      .orderBy(asc(digitalSignatures.revokedAt));
+  }
+
   async createDocument(insertDocument: InsertDocument): Promise<PdfDocument> {
     const [document] = await db
       .insert(pdfDocuments)
@@ -155,6 +650,42 @@ export class DatabaseStorage implements IStorage {
     return document || undefined;
   }
 
+  // Scoped lookup: resolves only if the document belongs to the given user
+  async getUserDocument(id: string, userId: string): Promise<PdfDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(pdfDocuments)
+      .where(and(eq(pdfDocuments.id, id), eq(pdfDocuments.userId, userId)));
+    return document || undefined;
+  }
+
+  // The user's own documents followed by those shared with their organization
+  async getAccessibleDocuments(userId: string): Promise<PdfDocument[]> {
+    return db
+      .select()
+      .from(pdfDocuments)
+      .where(documentAccessibleBy(userId))
+      .orderBy(sql`${pdfDocuments.userId} <> ${userId}`);
+  }
+
+  // Scoped lookup: resolves if the document belongs to the user or was shared with their organization
+  async getAccessibleDocument(id: string, userId: string): Promise<PdfDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(pdfDocuments)
+      .where(and(eq(pdfDocuments.id, id), documentAccessibleBy(userId)));
+    return document || undefined;
+  }
+
+  async setDocumentOrganization(id: string, organizationId: string | null): Promise<PdfDocument | undefined> {
+    const [document] = await db
+      .update(pdfDocuments)
+      .set({ organizationId })
+      .where(eq(pdfDocuments.id, id))
+      .returning();
+    return document || undefined;
+  }
+
   async deleteDocument(id: string): Promise<void> {
     try {
       console.log(`Storage: Deleting document ${id} and all associated signatures`);
@@ -166,6 +697,24 @@ export class DatabaseStorage implements IStorage {
         .returning();
       
       console.log(`Storage: Deleted ${deletedSignatures.length} applied signatures for document ${id}`);
+
+      await db.delete(documentFields).where(eq(documentFields.documentId, id));
+      await db.delete(documentVersions).where(eq(documentVersions.documentId, id));
+      await db.delete(documentPages).where(eq(documentPages.documentId, id));
+      await db.delete(documentPageTexts).where(eq(documentPageTexts.documentId, id));
+      await db.delete(documentTags).where(eq(documentTags.documentId, id));
+      await db.delete(delegationRequests).where(eq(delegationRequests.documentId, id));
+
+      // Envelopes only make sense for an existing document
+      const documentEnvelopes = await db
+        .select({ id: envelopes.id })
+        .from(envelopes)
+        .where(eq(envelopes.documentId, id));
+      if (documentEnvelopes.length > 0) {
+        const envelopeIds = documentEnvelopes.map((envelope) => envelope.id);
+        await db.delete(envelopeRecipients).where(inArray(envelopeRecipients.envelopeId, envelopeIds));
+        await db.delete(envelopes).where(inArray(envelopes.id, envelopeIds));
+      }
       
       // Then delete the document
       await db.delete(pdfDocuments).where(eq(pdfDocuments.id, id));
@@ -188,12 +737,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(pdfDocuments.id, id));
   }
 
-  // async updateDocumentReadOnlyStatus(id: string, isReadOnly: boolean): Promise<void> {
-  //   await db
-  //     .update(pdfDocuments)
-  //     .set({ isReadOnly })
-  //     .where(eq(pdfDocuments.id, id));
-  // }
+  async updateDocumentReadOnlyStatus(id: string, isReadOnly: boolean): Promise<PdfDocument | undefined> {
+    const [document] = await db
+      .update(pdfDocuments)
+      .set({ isReadOnly, finalizedAt: isReadOnly ? new Date() : null })
+      .where(and(eq(pdfDocuments.id, id), eq(pdfDocuments.isReadOnly, !isReadOnly)))
+      .returning();
+    return document || undefined;
+  }
+
+  // Signatures on a finalized document are part of its sealed copy and stay as they are
+  private async assertNotFinalized(documentId: string): Promise<void> {
+    const [document] = await db
+      .select({ isReadOnly: pdfDocuments.isReadOnly })
+      .from(pdfDocuments)
+      .where(eq(pdfDocuments.id, documentId));
+    if (document?.isReadOnly) {
+      throw new Error(DOCUMENT_FINALIZED_ERROR);
+    }
+  }
 
   async applySignature(insertAppliedSignature: InsertAppliedSignature, isAllPagesOperation: boolean = false): Promise<AppliedSignature> {
     try {
@@ -220,6 +782,7 @@ export class DatabaseStorage implements IStorage {
           position.gridPosition.trim() === '') {
         throw new Error("position.gridPosition is required and must be a non-empty string");
       }
+      await this.assertNotFinalized(insertAppliedSignature.documentId);
 
       // Optimized: Single query to check for existing signature on this page
       const existingOnPage = await db
@@ -229,14 +792,22 @@ export class DatabaseStorage implements IStorage {
           and(
             eq(appliedSignatures.documentId, insertAppliedSignature.documentId),
             eq(appliedSignatures.pageNumber, insertAppliedSignature.pageNumber),
-            eq(appliedSignatures.signatureId, insertAppliedSignature.signatureId)
+            eq(appliedSignatures.signatureId, insertAppliedSignature.signatureId),
+            // Only a stamp placed by the same person is moved
+            insertAppliedSignature.appliedBy
+              ? eq(appliedSignatures.appliedBy, insertAppliedSignature.appliedBy)
+              : isNull(appliedSignatures.appliedBy)
           )
         )
         .limit(1);
       
       if (existingOnPage.length > 0 && !isAllPagesOperation) {
         // Update existing signature position instead of creating duplicate
-        await this.updateSignaturePosition(existingOnPage[0].id, insertAppliedSignature.position);
+        await this.updateSignaturePosition(
+          insertAppliedSignature.documentId,
+          existingOnPage[0].id,
+          insertAppliedSignature.position
+        );
         return existingOnPage[0];
       }
 
@@ -260,39 +831,1017 @@ export class DatabaseStorage implements IStorage {
       .where(eq(appliedSignatures.documentId, documentId));
   }
 
-  async removeSignature(id: string): Promise<void> {
-    await db.delete(appliedSignatures).where(eq(appliedSignatures.id, id));
+  async countDocumentsSignedWith(signatureId: string): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(distinct ${appliedSignatures.documentId})::int` })
+      .from(appliedSignatures)
+      .where(eq(appliedSignatures.signatureId, signatureId));
+    return count;
+  }
+
+  async getAppliedSignature(documentId: string, id: string): Promise<AppliedSignature | undefined> {
+    const [appliedSignature] = await db
+      .select()
+      .from(appliedSignatures)
+      .where(and(eq(appliedSignatures.id, id), eq(appliedSignatures.documentId, documentId)));
+    return appliedSignature || undefined;
+  }
+
+  async updateAppliedSignature(id: string, updates: Partial<AppliedSignature>): Promise<AppliedSignature | undefined> {
+    const [appliedSignature] = await db
+      .update(appliedSignatures)
+      .set(updates)
+      .where(eq(appliedSignatures.id, id))
+      .returning();
+    return appliedSignature || undefined;
+  }
+
+  async removeSignature(documentId: string, id: string): Promise<void> {
+    await this.assertNotFinalized(documentId);
+    const removed = await db
+      .delete(appliedSignatures)
+      .where(
+        and(
+          eq(appliedSignatures.id, id),
+          eq(appliedSignatures.documentId, documentId)
+        )
+      )
+      .returning({ id: appliedSignatures.id });
+    await this.unfillFields(documentId, removed.map((applied) => applied.id));
   }
 
   async removeSignaturesFromPage(documentId: string, pageNumber: number): Promise<void> {
-    await db
+    await this.assertNotFinalized(documentId);
+    const removed = await db
       .delete(appliedSignatures)
       .where(
         and(
           eq(appliedSignatures.documentId, documentId),
           eq(appliedSignatures.pageNumber, pageNumber)
         )
-      );
+      )
+      .returning({ id: appliedSignatures.id });
+    await this.unfillFields(documentId, removed.map((applied) => applied.id));
   }
 
   async removeSignaturesFromDocument(documentId: string): Promise<void> {
-    await db
+    await this.assertNotFinalized(documentId);
+    const removed = await db
       .delete(appliedSignatures)
-      .where(eq(appliedSignatures.documentId, documentId));
+      .where(eq(appliedSignatures.documentId, documentId))
+      .returning({ id: appliedSignatures.id });
+    await this.unfillFields(documentId, removed.map((applied) => applied.id));
+  }
+
+  // Fields whose stamp was removed go back to waiting for a signature
+  private async unfillFields(documentId: string, appliedSignatureIds: string[]): Promise<void> {
+    if (appliedSignatureIds.length === 0) return;
+    await db
+      .update(documentFields)
+      .set({ appliedSignatureId: null, filledAt: null })
+      .where(
+        and(
+          eq(documentFields.documentId, documentId),
+          inArray(documentFields.appliedSignatureId, appliedSignatureIds)
+        )
+      );
   }
 
-  async updateSignaturePosition(id: string, position: any): Promise<void> {
+  async updateSignaturePosition(documentId: string, id: string, position: any): Promise<void> {
+    await this.assertNotFinalized(documentId);
     // Optimized: Direct update without logging overhead
     const result = await db
       .update(appliedSignatures)
       .set({ position })
-      .where(eq(appliedSignatures.id, id))
+      .where(
+        and(
+          eq(appliedSignatures.id, id),
+          eq(appliedSignatures.documentId, documentId)
+        )
+      )
       .returning();
     
     if (result.length === 0) {
       throw new Error(`Signature with ID ${id} not found for position update`);
     }
   }
+
+  async createEnvelope(
+    envelope: InsertEnvelope,
+    recipients: Omit<InsertEnvelopeRecipient, "envelopeId">[]
+  ): Promise<Envelope> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(envelopes).values(envelope).returning();
+      await tx
+        .insert(envelopeRecipients)
+        .values(recipients.map((recipient) => ({ ...recipient, envelopeId: created.id })));
+      return created;
+    });
+  }
+
+  async getEnvelope(id: string): Promise<Envelope | undefined> {
+    const [envelope] = await db.select().from(envelopes).where(eq(envelopes.id, id));
+    return envelope || undefined;
+  }
+
+  async getUserEnvelope(id: string, ownerId: string): Promise<Envelope | undefined> {
+    const [envelope] = await db
+      .select()
+      .from(envelopes)
+      .where(and(eq(envelopes.id, id), eq(envelopes.ownerId, ownerId)));
+    return envelope || undefined;
+  }
+
+  async getUserEnvelopes(ownerId: string): Promise<Envelope[]> {
+    return db
+      .select()
+      .from(envelopes)
+      .where(eq(envelopes.ownerId, ownerId))
+      .orderBy(desc(envelopes.createdAt));
+  }
+
+  async getDocumentEnvelopes(documentId: string): Promise<Envelope[]> {
+    return db
+      .select()
+      .from(envelopes)
+      .where(eq(envelopes.documentId, documentId))
+      .orderBy(desc(envelopes.createdAt));
+  }
+
+  // With expectedStatuses the update only applies if the row is still in one of
+  // them, so concurrent requests cannot both perform the same transition
+  async updateEnvelope(id: string, updates: Partial<Envelope>, expectedStatuses?: string[]): Promise<Envelope | undefined> {
+    const [envelope] = await db
+      .update(envelopes)
+      .set(updates)
+      .where(
+        expectedStatuses
+          ? and(eq(envelopes.id, id), inArray(envelopes.status, expectedStatuses))
+          : eq(envelopes.id, id)
+      )
+      .returning();
+    return envelope || undefined;
+  }
+
+  async getEnvelopeRecipients(envelopeId: string): Promise<EnvelopeRecipient[]> {
+    return db
+      .select()
+      .from(envelopeRecipients)
+      .where(eq(envelopeRecipients.envelopeId, envelopeId))
+      .orderBy(asc(envelopeRecipients.routingOrder), asc(envelopeRecipients.name));
+  }
+
+  async getRecipientByTokenHash(tokenHash: string): Promise<EnvelopeRecipient | undefined> {
+    const [recipient] = await db
+      .select()
+      .from(envelopeRecipients)
+      .where(eq(envelopeRecipients.tokenHash, tokenHash));
+    return recipient || undefined;
+  }
+
+  async updateRecipient(
+    id: string,
+    updates: Partial<EnvelopeRecipient>,
+    expectedStatuses?: string[]
+  ): Promise<EnvelopeRecipient | undefined> {
+    const [recipient] = await db
+      .update(envelopeRecipients)
+      .set(updates)
+      .where(
+        expectedStatuses
+          ? and(eq(envelopeRecipients.id, id), inArray(envelopeRecipients.status, expectedStatuses))
+          : eq(envelopeRecipients.id, id)
+      )
+      .returning();
+    return recipient || undefined;
+  }
+
+  async createTemplate(template: InsertDocumentTemplate): Promise<DocumentTemplate> {
+    const [created] = await db.insert(documentTemplates).values(template).returning();
+    return created;
+  }
+
+  async getUserTemplates(userId: string): Promise<DocumentTemplate[]> {
+    return db
+      .select()
+      .from(documentTemplates)
+      .where(eq(documentTemplates.userId, userId))
+      .orderBy(asc(documentTemplates.name));
+  }
+
+  async getUserTemplate(id: string, userId: string): Promise<DocumentTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(documentTemplates)
+      .where(and(eq(documentTemplates.id, id), eq(documentTemplates.userId, userId)));
+    return template || undefined;
+  }
+
+  async updateTemplate(id: string, updates: Partial<DocumentTemplate>): Promise<DocumentTemplate | undefined> {
+    const [template] = await db
+      .update(documentTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(documentTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await db.delete(documentTemplates).where(eq(documentTemplates.id, id));
+  }
+
+  async createDocumentFields(fields: InsertDocumentField[]): Promise<DocumentField[]> {
+    if (fields.length === 0) return [];
+    return db.insert(documentFields).values(fields).returning();
+  }
+
+  async getDocumentFields(documentId: string): Promise<DocumentField[]> {
+    return db
+      .select()
+      .from(documentFields)
+      .where(eq(documentFields.documentId, documentId))
+      .orderBy(asc(documentFields.pageNumber), asc(documentFields.createdAt));
+  }
+
+  async updateDocumentField(id: string, updates: Partial<DocumentField>): Promise<DocumentField | undefined> {
+    const [field] = await db
+      .update(documentFields)
+      .set(updates)
+      .where(eq(documentFields.id, id))
+      .returning();
+    return field || undefined;
+  }
+
+  async deleteDocumentField(id: string): Promise<void> {
+    await db.delete(documentFields).where(eq(documentFields.id, id));
+  }
+
+  /**
+   * Appends to a document's audit chain. The transaction-scoped advisory lock
+   * serializes writers per document, so `build` always sees the true chain
+   * head and no two events can claim the same predecessor.
+   */
+  async appendAuditEvent(
+    documentId: string,
+    build: (previous: AuditEvent | undefined) => InsertAuditEvent
+  ): Promise<AuditEvent> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${"audit:" + documentId}))`);
+
+      const [previous] = await tx
+        .select()
+        .from(auditEvents)
+        .where(eq(auditEvents.documentId, documentId))
+        .orderBy(desc(auditEvents.sequence))
+        .limit(1);
+
+      const [event] = await tx.insert(auditEvents).values(build(previous)).returning();
+      return event;
+    });
+  }
+
+  async getDocumentAuditEvents(documentId: string): Promise<AuditEvent[]> {
+    return db
+      .select()
+      .from(auditEvents)
+      .where(eq(auditEvents.documentId, documentId))
+      .orderBy(asc(auditEvents.sequence));
+  }
+
+  /**
+   * Adds versions after the document's latest one, numbered in order. Locked
+   * per document like the audit chain, so concurrent signings cannot claim
+   * the same version number.
+   */
+  async appendDocumentVersions(
+    documentId: string,
+    build: (latest: DocumentVersion | undefined) => Omit<InsertDocumentVersion, "documentId" | "versionNumber">[]
+  ): Promise<DocumentVersion[]> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${"version:" + documentId}))`);
+
+      const [latest] = await tx
+        .select()
+        .from(documentVersions)
+        .where(eq(documentVersions.documentId, documentId))
+        .orderBy(desc(documentVersions.versionNumber))
+        .limit(1);
+
+      const versions = build(latest).map((version, index) => ({
+        ...version,
+        documentId,
+        versionNumber: (latest?.versionNumber || 0) + index + 1,
+      }));
+      if (versions.length === 0) return [];
+      return tx.insert(documentVersions).values(versions).returning();
+    });
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    return db
+      .select()
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(asc(documentVersions.versionNumber));
+  }
+
+  async getDocumentVersion(documentId: string, versionNumber: number): Promise<DocumentVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(documentVersions)
+      .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.versionNumber, versionNumber)));
+    return version || undefined;
+  }
+
+  async getDocumentPages(documentId: string): Promise<DocumentPage[]> {
+    return db
+      .select()
+      .from(documentPages)
+      .where(eq(documentPages.documentId, documentId))
+      .orderBy(asc(documentPages.pageNumber));
+  }
+
+  async getDocumentPage(documentId: string, pageNumber: number): Promise<DocumentPage | undefined> {
+    const [page] = await db
+      .select()
+      .from(documentPages)
+      .where(and(eq(documentPages.documentId, documentId), eq(documentPages.pageNumber, pageNumber)));
+    return page || undefined;
+  }
+
+  /**
+   * Swaps the page images of a document for a new set in one transaction and
+   * returns the rows that were replaced, whose files the caller deletes.
+   */
+  async replaceDocumentPages(documentId: string, pages: Omit<InsertDocumentPage, "documentId">[]): Promise<DocumentPage[]> {
+    return db.transaction(async (tx) => {
+      const replaced = await tx.delete(documentPages).where(eq(documentPages.documentId, documentId)).returning();
+      if (pages.length > 0) {
+        await tx.insert(documentPages).values(pages.map((page) => ({ ...page, documentId })));
+      }
+      await tx.update(pdfDocuments).set({ pagesRenderedAt: new Date() }).where(eq(pdfDocuments.id, documentId));
+      return replaced;
+    });
+  }
+
+  // The creator becomes the organization's first admin
+  async createOrganization(name: string, createdBy: string): Promise<Organization> {
+    return db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values({ name, createdBy }).returning();
+      await tx.insert(organizationMembers).values({ organizationId: organization.id, userId: createdBy, role: "admin" });
+      return organization;
+    });
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async deleteOrganization(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(pdfDocuments).set({ organizationId: null }).where(eq(pdfDocuments.organizationId, id));
+      await tx.update(digitalSignatures).set({ organizationId: null }).where(eq(digitalSignatures.organizationId, id));
+      await tx.delete(organizationMembers).where(eq(organizationMembers.organizationId, id));
+      await tx.delete(organizationInvitations).where(eq(organizationInvitations.organizationId, id));
+      await tx.delete(organizations).where(eq(organizations.id, id));
+    });
+  }
+
+  async getMembership(userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db.select().from(organizationMembers).where(eq(organizationMembers.userId, userId));
+    return member || undefined;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMemberWithUser[]> {
+    const rows = await db
+      .select({ member: organizationMembers, email: users.email, fullName: users.fullName })
+      .from(organizationMembers)
+      .innerJoin(users, eq(users.id, organizationMembers.userId))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(asc(users.fullName));
+    return rows.map(({ member, email, fullName }) => ({ ...member, email, fullName }));
+  }
+
+  async updateOrganizationMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
+
+  // What the member shared stops being shared when they leave
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(pdfDocuments)
+        .set({ organizationId: null })
+        .where(and(eq(pdfDocuments.organizationId, organizationId), eq(pdfDocuments.userId, userId)));
+      await tx
+        .update(digitalSignatures)
+        .set({ organizationId: null })
+        .where(and(eq(digitalSignatures.organizationId, organizationId), eq(digitalSignatures.userId, userId)));
+      await tx
+        .delete(organizationMembers)
+        .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+    });
+  }
+
+  async createOrganizationInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    const [created] = await db
+      .insert(organizationInvitations)
+      .values(invitation)
+      .onConflictDoUpdate({
+        target: [organizationInvitations.organizationId, organizationInvitations.email],
+        set: {
+          role: invitation.role,
+          invitedBy: invitation.invitedBy,
+          tokenHash: invitation.tokenHash,
+          createdAt: new Date(),
+          expiresAt: invitation.expiresAt,
+        },
+      })
+      .returning();
+    return created;
+  }
+
+  async getOrganizationInvitation(id: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select().from(organizationInvitations).where(eq(organizationInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+    return db
+      .select()
+      .from(organizationInvitations)
+      .where(
+        and(
+          eq(organizationInvitations.organizationId, organizationId),
+          gt(organizationInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(asc(organizationInvitations.email));
+  }
+
+  async getOrganizationInvitationByTokenHash(tokenHash: string): Promise<OrganizationInvitationWithNames | undefined> {
+    const [row] = await db
+      .select({ invitation: organizationInvitations, organizationName: organizations.name, invitedByName: users.fullName })
+      .from(organizationInvitations)
+      .innerJoin(organizations, eq(organizations.id, organizationInvitations.organizationId))
+      .innerJoin(users, eq(users.id, organizationInvitations.invitedBy))
+      .where(and(eq(organizationInvitations.tokenHash, tokenHash), gt(organizationInvitations.expiresAt, new Date())));
+    if (!row) return undefined;
+    const { tokenHash: _, ...invitation } = row.invitation;
+    return { ...invitation, organizationName: row.organizationName, invitedByName: row.invitedByName };
+  }
+
+  async deleteOrganizationInvitation(id: string): Promise<void> {
+    await db.delete(organizationInvitations).where(eq(organizationInvitations.id, id));
+  }
+
+  // Accepting uses up the invitation along with any others to the same address
+  async acceptOrganizationInvitation(invitation: PublicOrganizationInvitation, userId: string): Promise<OrganizationMember> {
+    return db.transaction(async (tx) => {
+      const [member] = await tx
+        .insert(organizationMembers)
+        .values({ organizationId: invitation.organizationId, userId, role: invitation.role })
+        .returning();
+      await tx.delete(organizationInvitations).where(eq(organizationInvitations.email, invitation.email));
+      return member;
+    });
+  }
+
+  async createDelegation(delegation: InsertSignatureDelegation): Promise<SignatureDelegation> {
+    const [created] = await db.insert(signatureDelegations).values(delegation).returning();
+    return created;
+  }
+
+  async getDelegation(id: string): Promise<SignatureDelegation | undefined> {
+    const [delegation] = await db.select().from(signatureDelegations).where(eq(signatureDelegations.id, id));
+    return delegation || undefined;
+  }
+
+  async getOwnedDelegations(ownerId: string): Promise<DelegationWithNames[]> {
+    return this.selectDelegationsWithNames(eq(signatureDelegations.ownerId, ownerId));
+  }
+
+  async getReceivedDelegations(delegateId: string): Promise<DelegationWithNames[]> {
+    return this.selectDelegationsWithNames(eq(signatureDelegations.delegateId, delegateId));
+  }
+
+  // Newest first
+  private async selectDelegationsWithNames(condition: SQL): Promise<DelegationWithNames[]> {
+    const owner = alias(users, "owner");
+    const delegate = alias(users, "delegate");
+    const rows = await db
+      .select({
+        delegation: signatureDelegations,
+        signatureName: digitalSignatures.name,
+        signatureFullName: digitalSignatures.fullName,
+        ownerName: owner.fullName,
+        delegateName: delegate.fullName,
+        delegateEmail: delegate.email,
+      })
+      .from(signatureDelegations)
+      .innerJoin(digitalSignatures, eq(digitalSignatures.id, signatureDelegations.signatureId))
+      .innerJoin(owner, eq(owner.id, signatureDelegations.ownerId))
+      .innerJoin(delegate, eq(delegate.id, signatureDelegations.delegateId))
+      .where(condition)
+      .orderBy(desc(signatureDelegations.createdAt));
+    return rows.map(({ delegation, ...names }) => ({ ...delegation, ...names }));
+  }
+
+  // Grants that are neither revoked nor expired; their scope is checked by the caller
+  async getActiveDelegations(signatureId: string, delegateId: string): Promise<SignatureDelegation[]> {
+    return db
+      .select()
+      .from(signatureDelegations)
+      .where(
+        and(
+          eq(signatureDelegations.signatureId, signatureId),
+          eq(signatureDelegations.delegateId, delegateId),
+          isNull(signatureDelegations.revokedAt),
+          gt(signatureDelegations.expiresAt, new Date())
+        )
+      )
+      .orderBy(asc(signatureDelegations.createdAt));
+  }
+
+  // Pending requests under the delegation are rejected along with it
+  async revokeDelegation(id: string): Promise<SignatureDelegation | undefined> {
+    return db.transaction(async (tx) => {
+      const [delegation] = await tx
+        .update(signatureDelegations)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(signatureDelegations.id, id), isNull(signatureDelegations.revokedAt)))
+        .returning();
+      await tx
+        .update(delegationRequests)
+        .set({ status: "rejected", decidedAt: new Date() })
+        .where(and(eq(delegationRequests.delegationId, id), eq(delegationRequests.status, "pending")));
+      return delegation || undefined;
+    });
+  }
+
+  async createDelegationRequest(
+    delegationId: string,
+    documentId: string,
+    placement: DelegatedPlacement
+  ): Promise<DelegationRequest> {
+    const [request] = await db.insert(delegationRequests).values({ delegationId, documentId, placement }).returning();
+    return request;
+  }
+
+  async getDelegationRequest(id: string): Promise<DelegationRequest | undefined> {
+    const [request] = await db.select().from(delegationRequests).where(eq(delegationRequests.id, id));
+    return request || undefined;
+  }
+
+  // Pending requests the user has to decide on or is waiting for, oldest first
+  async getPendingDelegationRequests(userId: string): Promise<DelegationRequestWithDetails[]> {
+    const delegations = await this.selectDelegationsWithNames(
+      or(eq(signatureDelegations.ownerId, userId), eq(signatureDelegations.delegateId, userId))!
+    );
+    if (delegations.length === 0) return [];
+
+    const rows = await db
+      .select({ request: delegationRequests, documentName: pdfDocuments.originalName })
+      .from(delegationRequests)
+      .innerJoin(pdfDocuments, eq(pdfDocuments.id, delegationRequests.documentId))
+      .where(
+        and(
+          inArray(
+            delegationRequests.delegationId,
+            delegations.map((delegation) => delegation.id)
+          ),
+          eq(delegationRequests.status, "pending")
+        )
+      )
+      .orderBy(asc(delegationRequests.createdAt));
+    const byId = new Map(delegations.map((delegation) => [delegation.id, delegation]));
+    return rows.map(({ request, documentName }) => ({
+      ...request,
+      delegation: byId.get(request.delegationId)!,
+      documentName,
+    }));
+  }
+
+  async decideDelegationRequest(
+    id: string,
+    status: DelegationRequestStatus,
+    from: DelegationRequestStatus = "pending"
+  ): Promise<DelegationRequest | undefined> {
+    const [request] = await db
+      .update(delegationRequests)
+      .set({ status, decidedAt: status === "pending" ? null : new Date() })
+      .where(and(eq(delegationRequests.id, id), eq(delegationRequests.status, from)))
+      .returning();
+    return request || undefined;
+  }
+
+  async createFolder(folder: InsertFolder): Promise<Folder> {
+    const [created] = await db.insert(folders).values(folder).returning();
+    return created;
+  }
+
+  async getUserFolders(userId: string): Promise<Folder[]> {
+    return db.select().from(folders).where(eq(folders.userId, userId)).orderBy(asc(folders.name));
+  }
+
+  async getUserFolder(id: string, userId: string): Promise<Folder | undefined> {
+    const [folder] = await db.select().from(folders).where(and(eq(folders.id, id), eq(folders.userId, userId)));
+    return folder || undefined;
+  }
+
+  async updateFolder(id: string, updates: Partial<Pick<Folder, "name" | "parentId">>): Promise<Folder | undefined> {
+    const [folder] = await db
+      .update(folders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(folders.id, id))
+      .returning();
+    return folder || undefined;
+  }
+
+  /** Deletes a folder after moving its documents and subfolders to `moveContentsTo`. */
+  async deleteFolder(id: string, moveContentsTo: string | null): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(folders).set({ parentId: moveContentsTo, updatedAt: new Date() }).where(eq(folders.parentId, id));
+      await tx.update(pdfDocuments).set({ folderId: moveContentsTo }).where(eq(pdfDocuments.folderId, id));
+      // Delegations for the matter end with it
+      await tx
+        .update(signatureDelegations)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(signatureDelegations.folderId, id), isNull(signatureDelegations.revokedAt)));
+      await tx.update(signatureDelegations).set({ folderId: null }).where(eq(signatureDelegations.folderId, id));
+      await tx.delete(folders).where(eq(folders.id, id));
+    });
+  }
+
+  async getFolderDocuments(userId: string, folderIds: string[]): Promise<PdfDocument[]> {
+    if (folderIds.length === 0) return [];
+    return db
+      .select()
+      .from(pdfDocuments)
+      .where(and(eq(pdfDocuments.userId, userId), inArray(pdfDocuments.folderId, folderIds)))
+      .orderBy(desc(pdfDocuments.uploadedAt));
+  }
+
+  async moveDocuments(documentIds: string[], folderId: string | null): Promise<PdfDocument[]> {
+    return db.update(pdfDocuments).set({ folderId }).where(inArray(pdfDocuments.id, documentIds)).returning();
+  }
+
+  async createTag(userId: string, name: string): Promise<Tag> {
+    const [tag] = await db.insert(tags).values({ userId, name }).returning();
+    return tag;
+  }
+
+  async getUserTags(userId: string): Promise<Tag[]> {
+    return db.select().from(tags).where(eq(tags.userId, userId)).orderBy(asc(tags.name));
+  }
+
+  async getUserTag(id: string, userId: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(and(eq(tags.id, id), eq(tags.userId, userId)));
+    return tag || undefined;
+  }
+
+  // Case-insensitive, so "NDA" and "nda" are one tag
+  async getUserTagByName(userId: string, name: string): Promise<Tag | undefined> {
+    const [tag] = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.userId, userId), sql`lower(${tags.name}) = lower(${name})`));
+    return tag || undefined;
+  }
+
+  async renameTag(id: string, name: string): Promise<Tag | undefined> {
+    const [tag] = await db.update(tags).set({ name }).where(eq(tags.id, id)).returning();
+    return tag || undefined;
+  }
+
+  async deleteTag(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(documentTags).where(eq(documentTags.tagId, id));
+      await tx.delete(tags).where(eq(tags.id, id));
+    });
+  }
+
+  /** Which of the user's tags are on which documents. */
+  async getUserDocumentTags(userId: string): Promise<DocumentTag[]> {
+    return db
+      .select({
+        id: documentTags.id,
+        documentId: documentTags.documentId,
+        tagId: documentTags.tagId,
+        createdAt: documentTags.createdAt,
+      })
+      .from(documentTags)
+      .innerJoin(tags, eq(documentTags.tagId, tags.id))
+      .where(eq(tags.userId, userId));
+  }
+
+  async addDocumentTags(documentIds: string[], tagIds: string[]): Promise<void> {
+    const rows = documentIds.flatMap((documentId) => tagIds.map((tagId) => ({ documentId, tagId })));
+    if (rows.length === 0) return;
+    await db.insert(documentTags).values(rows).onConflictDoNothing();
+  }
+
+  async removeDocumentTags(documentIds: string[], tagIds: string[]): Promise<void> {
+    if (documentIds.length === 0 || tagIds.length === 0) return;
+    await db
+      .delete(documentTags)
+      .where(and(inArray(documentTags.documentId, documentIds), inArray(documentTags.tagId, tagIds)));
+  }
+
+  async replaceDocumentText(documentId: string, pages: { pageNumber: number; content: string }[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(documentPageTexts).where(eq(documentPageTexts.documentId, documentId));
+      if (pages.length > 0) {
+        await tx.insert(documentPageTexts).values(pages.map((page) => ({ ...page, documentId })));
+      }
+      await tx.update(pdfDocuments).set({ textIndexedAt: new Date() }).where(eq(pdfDocuments.id, documentId));
+    });
+  }
+
+  /** Processed documents whose text was never indexed, or all of them. */
+  async getDocumentsToIndex(includeIndexed = false): Promise<PdfDocument[]> {
+    return db
+      .select()
+      .from(pdfDocuments)
+      .where(
+        and(eq(pdfDocuments.status, "processed"), includeIndexed ? undefined : isNull(pdfDocuments.textIndexedAt))
+      )
+      .orderBy(asc(pdfDocuments.uploadedAt));
+  }
+
+  /** The user's pages matching `search.q`, best first, limited to documents passing the filters. */
+  async searchDocumentText(userId: string, search: DocumentSearchScope, limit: number): Promise<DocumentTextMatch[]> {
+    // Same expression as IDX_document_page_texts_search, so the index is used
+    const vector = sql`to_tsvector('english', ${documentPageTexts.content})`;
+    const query = sql`websearch_to_tsquery('english', ${search.q || ""})`;
+    const headlineOptions =
+      `StartSel=${SEARCH_MATCH_START}, StopSel=${SEARCH_MATCH_END}, ` +
+      `MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+    const rank = sql<number>`ts_rank(${vector}, ${query})`;
+
+    return db
+      .select({
+        documentId: documentPageTexts.documentId,
+        pageNumber: documentPageTexts.pageNumber,
+        rank,
+        headline: sql<string>`ts_headline('english', ${documentPageTexts.content}, ${query}, ${headlineOptions})`,
+      })
+      .from(documentPageTexts)
+      .innerJoin(pdfDocuments, eq(documentPageTexts.documentId, pdfDocuments.id))
+      .where(and(...this.documentSearchConditions(userId, search), sql`${vector} @@ ${query}`))
+      .orderBy(desc(rank), asc(documentPageTexts.pageNumber))
+      .limit(limit);
+  }
+
+  /**
+   * The user's documents passing the filters, newest first. With search text,
+   * only those whose name contains it or whose id is in `textMatchIds`.
+   */
+  async findDocuments(userId: string, search: DocumentSearchScope, textMatchIds: string[], limit: number): Promise<PdfDocument[]> {
+    const conditions = this.documentSearchConditions(userId, search);
+    if (search.q) {
+      const nameMatch = ilike(pdfDocuments.originalName, containsPattern(search.q));
+      conditions.push(textMatchIds.length > 0 ? or(nameMatch, inArray(pdfDocuments.id, textMatchIds))! : nameMatch);
+    }
+    return db
+      .select()
+      .from(pdfDocuments)
+      .where(and(...conditions))
+      .orderBy(desc(pdfDocuments.uploadedAt))
+      .limit(limit);
+  }
+
+  /** Who signed each document, by the name on their signing certificate. */
+  async getDocumentSigners(documentIds: string[]): Promise<{ documentId: string; fullName: string }[]> {
+    if (documentIds.length === 0) return [];
+    return db
+      .selectDistinct({ documentId: appliedSignatures.documentId, fullName: digitalSignatures.fullName })
+      .from(appliedSignatures)
+      .innerJoin(digitalSignatures, eq(appliedSignatures.signatureId, digitalSignatures.id))
+      .where(inArray(appliedSignatures.documentId, documentIds));
+  }
+
+  private documentSearchConditions(userId: string, search: DocumentSearchScope): SQL[] {
+    const conditions: SQL[] = [documentAccessibleBy(userId)];
+
+    // null: unfiled documents
+    if (search.folderIds === null) {
+      conditions.push(isNull(pdfDocuments.folderId));
+    } else if (search.folderIds) {
+      conditions.push(
+        search.folderIds.length > 0 ? inArray(pdfDocuments.folderId, search.folderIds) : sql`false`
+      );
+    }
+    if (search.tagId) {
+      conditions.push(
+        exists(
+          db
+            .select({ id: documentTags.id })
+            .from(documentTags)
+            .where(and(eq(documentTags.documentId, pdfDocuments.id), eq(documentTags.tagId, search.tagId)))
+        )
+      );
+    }
+
+    const signatures = db
+      .select({ id: appliedSignatures.id })
+      .from(appliedSignatures)
+      .where(eq(appliedSignatures.documentId, pdfDocuments.id));
+    if (search.status === "signed") {
+      conditions.push(exists(signatures));
+    } else if (search.status === "unsigned") {
+      conditions.push(notExists(signatures));
+    }
+
+    if (search.uploadedFrom) {
+      conditions.push(gte(pdfDocuments.uploadedAt, search.uploadedFrom));
+    }
+    if (search.uploadedTo) {
+      // Inclusive: the whole of that day
+      conditions.push(lt(pdfDocuments.uploadedAt, new Date(search.uploadedTo.getTime() + 24 * 60 * 60 * 1000)));
+    }
+
+    if (search.signer) {
+      const pattern = containsPattern(search.signer);
+      const signedBy = db
+        .select({ id: appliedSignatures.id })
+        .from(appliedSignatures)
+        .innerJoin(digitalSignatures, eq(appliedSignatures.signatureId, digitalSignatures.id))
+        .where(
+          and(
+            eq(appliedSignatures.documentId, pdfDocuments.id),
+            or(ilike(digitalSignatures.fullName, pattern), ilike(digitalSignatures.name, pattern))
+          )
+        );
+      // Envelope recipients are also found by the email they signed from
+      const signedByRecipient = db
+        .select({ id: envelopeRecipients.id })
+        .from(envelopeRecipients)
+        .innerJoin(envelopes, eq(envelopeRecipients.envelopeId, envelopes.id))
+        .where(
+          and(
+            eq(envelopes.documentId, pdfDocuments.id),
+            eq(envelopeRecipients.status, "signed"),
+            or(ilike(envelopeRecipients.name, pattern), ilike(envelopeRecipients.email, pattern))
+          )
+        );
+      conditions.push(or(exists(signedBy), exists(signedByRecipient))!);
+    }
+
+    return conditions;
+  }
+
+  /** Every file location referenced by documents, versions, templates and page images. */
+  async getStoredFileLocations(): Promise<string[]> {
+    const rows = await Promise.all([
+      db.selectDistinct({ filePath: pdfDocuments.filePath }).from(pdfDocuments),
+      db.selectDistinct({ filePath: documentVersions.filePath }).from(documentVersions),
+      db.selectDistinct({ filePath: documentTemplates.filePath }).from(documentTemplates),
+      db.selectDistinct({ filePath: documentPages.thumbnailPath }).from(documentPages),
+      db.selectDistinct({ filePath: documentPages.previewPath }).from(documentPages),
+    ]);
+    return Array.from(new Set(rows.flat().map((row) => row.filePath)));
+  }
+
+  /**
+   * Points every row that references `from` at `to`, all at once, so a
+   * document and its version 1 never disagree about where the original is.
+   */
+  async relocateStoredFile(from: string, to: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const moved = await Promise.all([
+        tx.update(pdfDocuments).set({ filePath: to }).where(eq(pdfDocuments.filePath, from)).returning({ id: pdfDocuments.id }),
+        tx
+          .update(documentVersions)
+          .set({ filePath: to })
+          .where(eq(documentVersions.filePath, from))
+          .returning({ id: documentVersions.id }),
+        tx
+          .update(documentTemplates)
+          .set({ filePath: to })
+          .where(eq(documentTemplates.filePath, from))
+          .returning({ id: documentTemplates.id }),
+        tx
+          .update(documentPages)
+          .set({ thumbnailPath: to })
+          .where(eq(documentPages.thumbnailPath, from))
+          .returning({ id: documentPages.id }),
+        tx
+          .update(documentPages)
+          .set({ previewPath: to })
+          .where(eq(documentPages.previewPath, from))
+          .returning({ id: documentPages.id }),
+      ]);
+      return moved.reduce((count, rows) => count + rows.length, 0);
+    });
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    const [created] = await db.insert(jobs).values(job).returning();
+    return created;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async getUserJob(id: string, userId: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(and(eq(jobs.id, id), eq(jobs.userId, userId)));
+    return job || undefined;
+  }
+
+  /** A queued or running job of `type` for the document, if there is one. */
+  async getActiveDocumentJob(documentId: string, type: string): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.documentId, documentId), eq(jobs.type, type), inArray(jobs.status, ["queued", "running"])))
+      .limit(1);
+    return job || undefined;
+  }
+
+  /** Unfinished jobs plus those that finished after `finishedSince`, newest first. */
+  async getRecentUserJobs(userId: string, finishedSince: Date): Promise<Job[]> {
+    return db
+      .select()
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.userId, userId),
+          or(inArray(jobs.status, ["queued", "running"]), gt(jobs.finishedAt, finishedSince))
+        )
+      )
+      .orderBy(desc(jobs.createdAt))
+      .limit(50);
+  }
+
+  /**
+   * Takes the oldest due job for `workerId`. SKIP LOCKED lets concurrent
+   * workers pass over a row another one is claiming instead of waiting for it.
+   */
+  async claimNextJob(workerId: string): Promise<Job | undefined> {
+    return db.transaction(async (tx) => {
+      const [next] = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, new Date())))
+        .orderBy(asc(jobs.runAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) return undefined;
+
+      const [claimed] = await tx
+        .update(jobs)
+        .set({
+          status: "running",
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedAt: new Date(),
+          lockedBy: workerId,
+          error: null,
+        })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  /** Updates a running job only while `workerId` still holds it. */
+  async updateClaimedJob(id: string, workerId: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set(updates)
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId)))
+      .returning();
+    return job || undefined;
+  }
+
+  /** Puts back jobs whose worker stopped without finishing them. */
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(jobs)
+      .set({ status: "queued", lockedAt: null, lockedBy: null, runAt: new Date() })
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<Job[]> {
+    return db
+      .delete(jobs)
+      .where(and(inArray(jobs.status, ["completed", "failed"]), lt(jobs.finishedAt, finishedBefore)))
+      .returning();
+  }
 }
 
 export const storage = new DatabaseStorage();
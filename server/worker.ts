@@ -0,0 +1,30 @@
+/**
+ * Runs background jobs (upload processing, signed-PDF rendering and ZIP
+ * exports) outside the web server.
+ *
+ *   npm run worker
+ *
+ * Any number of workers can run next to each other and next to servers that
+ * work the queue themselves (see services/jobs.ts); set JOB_WORKER=false on
+ * the web servers to leave all jobs to these.
+ */
+import { pool } from "./db";
+import { jobQueue } from "./services/jobs";
+import { registerDocumentJobs } from "./services/document-jobs";
+
+registerDocumentJobs();
+jobQueue.start();
+
+// Let the job in progress finish before exiting
+async function shutdown(signal: string) {
+  console.log(`${signal} received, stopping job worker`);
+  jobQueue.stop();
+  while (jobQueue.isWorking) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  await pool.end();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
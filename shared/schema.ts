@@ -1,5 +1,17 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, jsonb, integer } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  timestamp,
+  boolean,
+  jsonb,
+  json,
+  integer,
+  index,
+  unique,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,24 +23,148 @@ export const users = pgTable("users", {
   companyName: text("company_name"),
   isVerified: boolean("is_verified").default(false),
   verificationToken: text("verification_token"),
+  // TOTP two-factor authentication (see services/two-factor). The secret is
+  // sealed; it is set during enrollment and in use once enabledAt is set.
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  twoFactorRecoveryCodes: jsonb("two_factor_recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 hashes
+  twoFactorLastStep: integer("two_factor_last_step"), // time step of the last accepted code, against replays
+  // Ask for a code again right before signing
+  signingChallenge: boolean("signing_challenge").notNull().default(false),
+  // Optional password recovery; answers are bcrypt hashes of the normalized answer
+  securityQuestion1: text("security_question_1"),
+  securityAnswer1: text("security_answer_1"),
+  securityQuestion2: text("security_question_2"),
+  securityAnswer2: text("security_answer_2"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const digitalSignatures = pgTable("digital_signatures", {
+// Single-use links to choose a new password. Only a hash of the token is
+// stored; requesting a new one invalidates the user's earlier tokens.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token
+  method: text("method").notNull(), // One of passwordResetMethods
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_password_reset_tokens_user").on(table.userId)]);
+
+// Login sessions, managed by connect-pg-simple
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// A firm. Its members share documents and signatures their owners choose to
+// share with it; what each member may do depends on their role.
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const organizationRoles = ["admin", "attorney", "paralegal", "viewer"] as const;
+export type OrganizationRole = (typeof organizationRoles)[number];
+
+// A user belongs to at most one organization
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  userId: varchar("user_id").notNull().references(() => users.id).unique(),
+  role: text("role").$type<OrganizationRole>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_organization_members_organization").on(table.organizationId)]);
+
+// Membership only starts once the invited person accepts. Invitations go to
+// an email address, registered or not, and expire after a while. They are
+// answered through the emailed link, which proves the address is theirs.
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id),
+  email: text("email").notNull(), // Lowercased
+  role: text("role").$type<OrganizationRole>().notNull(),
+  invitedBy: varchar("invited_by").notNull().references(() => users.id),
+  // sha256 of the invitation link's token; the token itself is only emailed
+  tokenHash: text("token_hash").unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  index("IDX_organization_invitations_email").on(table.email),
+  unique("organization_invitations_organization_email_unique").on(table.organizationId, table.email),
+]);
+
+export const permissions = [
+  "documents.view", // list, open, download, search, audit trail
+  "documents.prepare", // upload, fields, folders, tags, documents from templates
+  "documents.delete",
+  "documents.sign", // apply one's own digital signatures, finalize
+  "documents.share", // share with or withdraw from the organization
+  "signatures.manage", // create, revoke and delete one's own digital signatures
+  "templates.manage",
+  "envelopes.send",
+  "organization.manage", // members and roles
+] as const;
+export type Permission = (typeof permissions)[number];
+
+// The permission matrix every authenticated route is checked against. Users
+// outside an organization work on their own documents with every permission.
+export const rolePermissions: Record<OrganizationRole, readonly Permission[]> = {
+  admin: permissions,
+  attorney: permissions.filter((permission) => permission !== "organization.manage"),
+  paralegal: ["documents.view", "documents.prepare", "templates.manage", "envelopes.send"],
+  viewer: ["documents.view"],
+};
+
+export const digitalSignatures = pgTable("digital_signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id), // null for signatures adopted by external envelope recipients
   name: text("name").notNull(),
   fullName: text("full_name").notNull(),
   companyName: text("company_name").notNull(),
   location: text("location").notNull(),
   timeZone: text("time_zone").notNull(),
   certificate: text("certificate").notNull(), // PEM encoded certificate
+  serialNumber: text("serial_number").unique(), // Hex serial assigned by the firm CA (null for legacy self-signed)
   privateKey: text("private_key").notNull(), // Encrypted private key
   signatureImage: text("signature_image"), // Base64 encoded signature image
   password: text("password"), // Optional password for signature protection
+  revokedAt: timestamp("revoked_at"), // Set when the certificate is revoked; the row is kept for history
+  revocationReason: text("revocation_reason"), // One of revocationReasons
+  organizationId: varchar("organization_id").references(() => organizations.id), // Set while shared with the owner's organization
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// RFC 5280 CRLReason values that a signature owner may choose
+export const revocationReasons = {
+  unspecified: 0,
+  keyCompromise: 1,
+  affiliationChanged: 3,
+  superseded: 4,
+  cessationOfOperation: 5,
+} as const;
+
+export type RevocationReason = keyof typeof revocationReasons;
+
+// Groups of a user's documents. Top-level folders are matters (one per client
+// engagement); folders inside them nest to any depth up to MAX_FOLDER_DEPTH
+export const folders = pgTable("folders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  parentId: varchar("parent_id").references((): AnyPgColumn => folders.id), // null for matters
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_folders_user").on(table.userId),
+  index("IDX_folders_parent").on(table.parentId),
+]);
+
+export const MAX_FOLDER_DEPTH = 5;
+
 export const pdfDocuments = pgTable("pdf_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -39,19 +175,445 @@ export const pdfDocuments = pgTable("pdf_documents", {
   pageCount: integer("page_count").notNull(),
   pageSizes: text("page_sizes"), // JSON string of page sizes
   status: varchar("status").notNull().default("pending"), // pending, processing, processed, error
-  // isReadOnly: boolean("is_read_only").default(false), // temporarily removed for database compatibility
+  // Finalized: signatures and fields are frozen and downloads serve the sealed copy
+  isReadOnly: boolean("is_read_only").notNull().default(false),
+  finalizedAt: timestamp("finalized_at"),
+  pagesRenderedAt: timestamp("pages_rendered_at"), // When documentPages last got images of every page
+  textIndexedAt: timestamp("text_indexed_at"), // When documentPageTexts last got the text of every page
+  folderId: varchar("folder_id").references(() => folders.id), // null while unfiled
+  organizationId: varchar("organization_id").references(() => organizations.id), // Set while shared with the owner's organization
   uploadedAt: timestamp("uploaded_at").defaultNow(),
 });
 
+// Free-form labels a user puts on documents, across matters
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique("tags_user_name").on(table.userId, table.name)]);
+
+export const documentTags = pgTable("document_tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
+  tagId: varchar("tag_id").notNull().references(() => tags.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("document_tags_document_tag").on(table.documentId, table.tagId),
+  index("IDX_document_tags_tag").on(table.tagId),
+]);
+
+export const delegationScopes = ["all", "documents", "matter"] as const;
+export type DelegationScope = (typeof delegationScopes)[number];
+
+// Lets the delegate apply one of the owner's digital signatures on the owner's
+// behalf: on any document, on listed documents, or on the documents of a
+// matter (a folder and its subfolders), until the grant expires or is revoked
+export const signatureDelegations = pgTable("signature_delegations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  signatureId: varchar("signature_id").notNull().references(() => digitalSignatures.id),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  delegateId: varchar("delegate_id").notNull().references(() => users.id),
+  scope: text("scope").$type<DelegationScope>().notNull(),
+  documentIds: jsonb("document_ids").$type<string[]>().notNull().default([]), // scope "documents"
+  folderId: varchar("folder_id").references(() => folders.id), // scope "matter"
+  // Every use waits for the owner to approve it
+  requiresApproval: boolean("requires_approval").notNull().default(false),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_signature_delegations_owner").on(table.ownerId),
+  index("IDX_signature_delegations_delegate").on(table.delegateId),
+]);
+
+// Where a delegate asked to place the stamp, kept until the owner decides
+export interface DelegatedPlacement {
+  pageNumbers: number[];
+  position: RequestedPosition;
+  fieldId?: string;
+}
+
+export const delegationRequestStatuses = ["pending", "approved", "rejected"] as const;
+export type DelegationRequestStatus = (typeof delegationRequestStatuses)[number];
+
+// A use of a delegation that requires approval
+export const delegationRequests = pgTable("delegation_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  delegationId: varchar("delegation_id").notNull().references(() => signatureDelegations.id),
+  documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
+  placement: jsonb("placement").$type<DelegatedPlacement>().notNull(),
+  status: text("status").$type<DelegationRequestStatus>().notNull().default("pending"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => [index("IDX_delegation_requests_delegation").on(table.delegationId)]);
+
 export const appliedSignatures = pgTable("applied_signatures", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
   signatureId: varchar("signature_id").notNull().references(() => digitalSignatures.id),
   pageNumber: integer("page_number").notNull(),
-  position: jsonb("position").notNull(), // {x, y, width, height, gridPosition}
+  position: jsonb("position").$type<PdfPosition>().notNull(),
   appliedAt: timestamp("applied_at").defaultNow(),
+  // RFC 3161 token over the applied-signature record (see SignatureService.timestampAppliedSignature)
+  timestampToken: text("timestamp_token"), // base64 DER
+  timestampedAt: timestamp("timestamped_at"), // genTime from the token
+  timestampAuthority: text("timestamp_authority"),
+  // Set when a delegate applied the signature on its owner's behalf; the name
+  // is kept as it was at the time for the stamp and the certificate
+  appliedBy: varchar("applied_by").references(() => users.id),
+  appliedByName: text("applied_by_name"),
+  delegationId: varchar("delegation_id").references(() => signatureDelegations.id),
+});
+
+// A request for one or more people to sign a document, sent by its owner
+export const envelopes = pgTable("envelopes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  title: text("title").notNull(),
+  message: text("message"),
+  signingOrder: varchar("signing_order").notNull().default("sequential"), // sequential, parallel
+  status: varchar("status").notNull().default("draft"), // draft, sent, completed, declined, voided
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const envelopeRecipients = pgTable("envelope_recipients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  envelopeId: varchar("envelope_id").notNull().references(() => envelopes.id),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  routingOrder: integer("routing_order").notNull().default(1), // Recipients with the same order sign in parallel
+  pageNumber: integer("page_number").notNull(),
+  position: jsonb("position").notNull(), // Where the owner wants this recipient to sign, as in appliedSignatures
+  status: varchar("status").notNull().default("pending"), // pending, sent, viewed, signed, declined
+  tokenHash: text("token_hash").unique(), // sha256 of the signing link token; the token itself is only emailed
+  tokenExpiresAt: timestamp("token_expires_at"),
+  sentAt: timestamp("sent_at"),
+  viewedAt: timestamp("viewed_at"),
+  signedAt: timestamp("signed_at"),
+  declinedAt: timestamp("declined_at"),
+  declineReason: text("decline_reason"),
+  signatureId: varchar("signature_id").references(() => digitalSignatures.id),
+  appliedSignatureId: varchar("applied_signature_id"),
+}, (table) => [index("IDX_envelope_recipients_envelope").on(table.envelopeId)]);
+
+// A reusable PDF with named fields, each assigned to a role such as "Client"
+export const documentTemplates = pgTable("document_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  originalName: text("original_name").notNull(), // Name given to documents created from the template
+  filePath: text("file_path").notNull(), // The template's own copy of the PDF
+  fileSize: integer("file_size").notNull(),
+  pageCount: integer("page_count").notNull(),
+  pageSizes: text("page_sizes"), // JSON string of page sizes, as in pdfDocuments
+  roles: jsonb("roles").notNull(), // Role names in signing order
+  fields: jsonb("fields").notNull(), // TemplateField[]
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A field placed on a document for someone to fill, usually copied from a template
+export const documentFields = pgTable("document_fields", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
+  name: text("name").notNull(),
+  type: varchar("type").notNull(), // One of fieldTypes
+  role: text("role").notNull(),
+  recipientId: varchar("recipient_id").references(() => envelopeRecipients.id), // null: filled by the document owner
+  pageNumber: integer("page_number").notNull(),
+  position: jsonb("position").notNull(), // PdfPosition, as in appliedSignatures
+  required: boolean("required").notNull().default(true),
+  groupName: text("group_name"), // Radio buttons with the same group name are one choice
+  fontSize: integer("font_size"), // Text size in points; by default the text is fitted to the box
+  maxLength: integer("max_length"), // Longest value accepted for a text field
+  options: jsonb("options"), // Choices of a dropdown field
+  formFieldName: text("form_field_name"), // AcroForm field in the uploaded PDF that this field fills
+  value: text("value"), // Filled-in text; "true" or "false" for checkboxes and radio buttons
+  appliedSignatureId: varchar("applied_signature_id"), // Stamp that fills a signature field
+  filledAt: timestamp("filled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_document_fields_document").on(table.documentId)]);
+
+export const fieldTypes = [
+  "signature",
+  "initials",
+  "date",
+  "text",
+  "name",
+  "company",
+  "checkbox",
+  "radio",
+  "dropdown",
+] as const;
+
+export type FieldType = (typeof fieldTypes)[number];
+
+// Filled from the signer's signature as they sign
+export const signerFieldTypes: FieldType[] = ["initials", "date", "name", "company"];
+
+// Typed in or ticked by the signer before signing
+export const inputFieldTypes: FieldType[] = ["text", "checkbox", "radio", "dropdown"];
+
+// Where a stamp or field sits: a box in PDF points measured from the
+// bottom-left corner of its page, turned clockwise by rotation degrees about
+// its centre. Stored positions always use this form; requests may instead
+// name a grid preset ("bottom-left", ...) that the server resolves against
+// the page size.
+export interface PdfPosition {
+  gridPosition: "pdf";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export const positionSchema = z
+  .object({
+    gridPosition: z.string().min(1),
+    x: z.number().finite().optional(),
+    y: z.number().finite().optional(),
+    width: z.number().positive().optional(),
+    height: z.number().positive().optional(),
+    rotation: z.number().finite().optional(),
+  })
+  .passthrough();
+export type RequestedPosition = z.infer<typeof positionSchema>;
+
+// Box size in PDF points when a field is placed without one
+export const fieldDefaultSizes: Record<FieldType, { width: number; height: number }> = {
+  signature: { width: 220, height: 100 },
+  initials: { width: 80, height: 40 },
+  date: { width: 140, height: 24 },
+  text: { width: 200, height: 24 },
+  name: { width: 200, height: 24 },
+  company: { width: 200, height: 24 },
+  checkbox: { width: 14, height: 14 },
+  radio: { width: 14, height: 14 },
+  dropdown: { width: 200, height: 24 },
+};
+
+// Append-only, hash-chained log of everything that happens to a document.
+// documentId deliberately has no foreign key: the trail outlives the document.
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull(),
+  sequence: integer("sequence").notNull(), // 1-based position in the document's chain
+  action: text("action").notNull(), // One of auditActions
+  userId: varchar("user_id"),
+  userEmail: text("user_email"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  documentSha256: text("document_sha256"), // Hash of the stored file when the event happened
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").notNull(),
+  previousHash: text("previous_hash").notNull(),
+  hash: text("hash").notNull(), // sha256 over this event's fields and previousHash
+}, (table) => [
+  unique("audit_events_document_sequence").on(table.documentId, table.sequence),
+  index("IDX_audit_events_document").on(table.documentId),
+]);
+
+// Immutable copies of a document as it stood after each signing event.
+// Version 1 is the original upload itself; later versions are the signed PDF
+// rendered once, at the time, and never regenerated.
+export const documentVersions = pgTable("document_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
+  versionNumber: integer("version_number").notNull(), // 1-based; 1 is the original upload
+  action: text("action").notNull(), // Audit action that produced the version
+  auditSequence: integer("audit_sequence"), // That event's sequence in the document's audit trail
+  filePath: text("file_path").notNull(),
+  fileSize: integer("file_size").notNull(),
+  sha256: text("sha256").notNull(),
+  authorId: varchar("author_id"), // null for external signers
+  authorEmail: text("author_email"),
+  snapshot: jsonb("snapshot").notNull(), // VersionSnapshot
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("document_versions_document_number").on(table.documentId, table.versionNumber),
+  index("IDX_document_versions_document").on(table.documentId),
+]);
+
+// The stamps and filled-in fields a version was rendered with, kept so two
+// versions can be compared without re-reading either PDF's structure
+export interface VersionSnapshot {
+  signatures: {
+    appliedSignatureId: string;
+    signatureId: string;
+    signerName: string;
+    certificateSerialNumber: string | null;
+    pageNumber: number;
+    position: PdfPosition;
+  }[];
+  fields: {
+    fieldId: string;
+    name: string;
+    type: string;
+    pageNumber: number;
+    value: string | null;
+  }[];
+}
+
+// Images of each page of the uploaded PDF, rendered on the server so lists and
+// the viewer can show pages before pdf.js has loaded the document itself
+export const documentPages = pgTable("document_pages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
+  pageNumber: integer("page_number").notNull(),
+  thumbnailPath: text("thumbnail_path").notNull(), // JPEG, 200px wide
+  previewPath: text("preview_path").notNull(), // JPEG, up to 1000px wide
+  width: integer("width").notNull(), // Of the preview, in pixels
+  height: integer("height").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("document_pages_document_page").on(table.documentId, table.pageNumber),
+  index("IDX_document_pages_document").on(table.documentId),
+]);
+
+// Text of each page of the uploaded PDF, for full-text search. The GIN index is
+// on to_tsvector('english', content); queries must use the same expression
+export const documentPageTexts = pgTable("document_page_texts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => pdfDocuments.id),
+  pageNumber: integer("page_number").notNull(),
+  content: text("content").notNull(),
+}, (table) => [
+  unique("document_page_texts_document_page").on(table.documentId, table.pageNumber),
+  index("IDX_document_page_texts_search").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
+
+// Work done outside the request that asked for it (see server/services/jobs.ts).
+// Workers claim queued rows with FOR UPDATE SKIP LOCKED, so any number of them
+// can share the table. documentId has no foreign key so deleting a document
+// does not have to wait for its jobs.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // One of jobTypes
+  status: varchar("status").notNull().default("queued"), // queued, running, completed, failed
+  userId: varchar("user_id").notNull().references(() => users.id),
+  documentId: varchar("document_id"),
+  payload: jsonb("payload").notNull(),
+  result: jsonb("result"), // JobResult once completed
+  error: text("error"),
+  progress: integer("progress").notNull().default(0), // 0-100
+  progressMessage: text("progress_message"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Not claimed before this, e.g. when retrying
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("IDX_jobs_queue").on(table.status, table.runAt),
+  index("IDX_jobs_user").on(table.userId),
+]);
+
+export const jobTypes = ["document.process", "document.thumbnails", "document.render", "documents.export"] as const;
+export type JobType = (typeof jobTypes)[number];
+
+export interface JobResult {
+  // Jobs that produce a file keep it in file storage until the job is cleaned up
+  filePath?: string;
+  fileName?: string;
+  contentType?: string;
+  fileSize?: number;
+  documentIds?: string[];
+  skipped?: string[];
+}
+
+// One page of a search result; `match` parts are the words that matched
+export interface DocumentSearchMatch {
+  pageNumber: number;
+  snippet: { text: string; match: boolean }[];
+}
+
+export interface DocumentSearchResult {
+  document: PdfDocument;
+  signed: boolean;
+  signers: string[];
+  nameMatch: boolean;
+  // Best pages first, at most a few per document
+  matches: DocumentSearchMatch[];
+  matchingPages: number;
+}
+
+export const auditActions = [
+  "document.uploaded",
+  "document.viewed",
+  "document.downloaded",
+  "document.deleted",
+  "signature.applied",
+  "signature.moved",
+  "signature.removed",
+  "signature.declined",
+  "document.finalized",
+  "envelope.sent",
+  "envelope.completed",
+  "envelope.voided",
+  "field.added",
+  "field.filled",
+  "field.removed",
+  "document.shared",
+  "document.unshared",
+  "delegation.requested",
+  "delegation.rejected",
+] as const;
+
+export type AuditAction = (typeof auditActions)[number];
+
+// Account security events; they have no document and are not hash-chained
+export const accountAuditActions = [
+  "password_reset.requested",
+  "password_reset.questions_requested",
+  "password_reset.answers_failed",
+  "password_reset.answers_verified",
+  "password_reset.invalid_token",
+  "password_reset.completed",
+  "security_questions.updated",
+  "security_questions.removed",
+  "two_factor.failed",
+] as const;
+
+export type AccountAuditAction = (typeof accountAuditActions)[number];
+
+// Also counted to rate-limit password resets and two-factor codes, so the
+// limits hold across instances and sessions
+export const accountAuditEvents = pgTable("account_audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  action: text("action").notNull(), // One of accountAuditActions
+  userId: varchar("user_id").references(() => users.id), // null when no account matched
+  email: text("email"), // As entered, lowercased
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_account_audit_events_email").on(table.email, table.createdAt),
+  index("IDX_account_audit_events_ip").on(table.ipAddress, table.createdAt),
+  index("IDX_account_audit_events_user").on(table.userId, table.createdAt),
+]);
+
+export const passwordResetMethods = ["email", "security_questions"] as const;
+export type PasswordResetMethod = (typeof passwordResetMethods)[number];
+
+export const securityQuestionOptions = [
+  "What was the name of your first pet?",
+  "In what city were you born?",
+  "What was the name of your first school?",
+  "What is your mother's maiden name?",
+  "What was the make of your first car?",
+  "In what city did your parents meet?",
+  "What was your childhood nickname?",
+  "What is the name of the street you grew up on?",
+] as const;
+
 export const usersRelations = relations(users, ({ many }) => ({
   signatures: many(digitalSignatures),
   documents: many(pdfDocuments),
@@ -89,13 +651,26 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
   isVerified: true,
   verificationToken: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastStep: true,
+  signingChallenge: true,
+  securityQuestion1: true,
+  securityAnswer1: true,
+  securityQuestion2: true,
+  securityAnswer2: true,
 });
 
 export const insertSignatureSchema = createInsertSchema(digitalSignatures).omit({
   id: true,
   createdAt: true,
   certificate: true,
+  serialNumber: true,
+  revokedAt: true,
+  revocationReason: true,
   privateKey: true,
+  organizationId: true,
 }).extend({
   signatureImage: z.string().optional().nullable(),
   password: z.string().optional(),
@@ -104,6 +679,8 @@ export const insertSignatureSchema = createInsertSchema(digitalSignatures).omit(
 export const insertDocumentSchema = createInsertSchema(pdfDocuments).omit({
   id: true,
   uploadedAt: true,
+  isReadOnly: true,
+  finalizedAt: true,
 }).extend({
   status: z.string().default("pending"),
 });
@@ -111,13 +688,382 @@ export const insertDocumentSchema = createInsertSchema(pdfDocuments).omit({
 export const insertAppliedSignatureSchema = createInsertSchema(appliedSignatures).omit({
   id: true,
   appliedAt: true,
+  timestampToken: true,
+  timestampedAt: true,
+  timestampAuthority: true,
+});
+
+export const envelopeRecipientSchema = z.object({
+  name: z.string().trim().min(1, "Recipient name is required"),
+  email: z.string().trim().toLowerCase().email("Recipient email is invalid"),
+  routingOrder: z.number().int().min(1).optional(),
+  pageNumber: z.number().int().min(1),
+  position: positionSchema,
+});
+
+export const createEnvelopeSchema = z.object({
+  documentId: z.string().min(1),
+  title: z.string().trim().min(1, "Title is required"),
+  message: z.string().trim().optional(),
+  signingOrder: z.enum(["sequential", "parallel"]).default("sequential"),
+  recipients: z.array(envelopeRecipientSchema).min(1, "Add at least one recipient"),
+  send: z.boolean().default(true),
+});
+
+// What an external signer submits to adopt a signature and sign
+export const recipientSignSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required"),
+  companyName: z.string().trim().default(""),
+  location: z.string().trim().min(1, "Location is required"),
+  timeZone: z.string().trim().min(1).default("UTC"),
+  signatureImage: z.string().optional().nullable(),
+  // Values for the recipient's text, checkbox and radio fields, by field id
+  fieldValues: z.record(z.string(), z.string()).default({}),
+  consent: z.literal(true, { errorMap: () => ({ message: "You must agree to sign electronically" }) }),
+});
+
+export const declineEnvelopeSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+const fieldLayoutSchema = z.object({
+  name: z.string().trim().min(1, "Field name is required"),
+  type: z.enum(fieldTypes),
+  pageNumber: z.number().int().min(1),
+  position: positionSchema,
+  required: z.boolean().default(true),
+  groupName: z.string().trim().optional(),
+  fontSize: z.number().int().min(6).max(36).optional(),
+  maxLength: z.number().int().min(1).max(2000).optional(),
+  options: z.array(z.string().trim().min(1)).optional(),
+});
+
+function checkFieldLayout(field: z.infer<typeof fieldLayoutSchema>, ctx: z.RefinementCtx) {
+  if (field.type === "radio" && !field.groupName) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Radio button "${field.name}" needs a group name`,
+      path: ["groupName"],
+    });
+  }
+  if (field.type === "dropdown" && !field.options?.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Dropdown "${field.name}" needs at least one option`,
+      path: ["options"],
+    });
+  }
+}
+
+export const templateFieldSchema = fieldLayoutSchema
+  .extend({
+    id: z.string().min(1),
+    role: z.string().trim().min(1, "Field role is required"),
+  })
+  .superRefine(checkFieldLayout);
+
+// A field the owner places on one of their documents
+export const createDocumentFieldSchema = fieldLayoutSchema
+  .extend({ role: z.string().trim().min(1).default("Owner") })
+  .superRefine(checkFieldLayout);
+
+export const fillDocumentFieldsSchema = z.object({
+  values: z.record(z.string(), z.string()),
+});
+
+const templateLayoutSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required"),
+  description: z.string().trim().optional(),
+  roles: z.array(z.string().trim().min(1, "Role names cannot be empty")).min(1, "Add at least one role"),
+  fields: z.array(templateFieldSchema).min(1, "Add at least one field"),
+});
+
+function checkTemplateLayout(layout: z.infer<typeof templateLayoutSchema>, ctx: z.RefinementCtx) {
+  if (new Set(layout.roles).size !== layout.roles.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Role names must be unique", path: ["roles"] });
+  }
+  for (const field of layout.fields) {
+    if (!layout.roles.includes(field.role)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Field "${field.name}" is assigned to unknown role "${field.role}"`,
+        path: ["fields"],
+      });
+    }
+  }
+  for (const role of layout.roles) {
+    if (!layout.fields.some((field) => field.role === role && field.type === "signature")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Role "${role}" needs at least one signature field`,
+        path: ["fields"],
+      });
+    }
+  }
+}
+
+// Saves an existing document as a template
+export const createTemplateSchema = templateLayoutSchema
+  .extend({ documentId: z.string().min(1) })
+  .superRefine(checkTemplateLayout);
+
+export const updateTemplateSchema = templateLayoutSchema.superRefine(checkTemplateLayout);
+
+// Who fills each role when a document is created from a template
+export const roleAssignmentSchema = z.discriminatedUnion("signer", [
+  z.object({ role: z.string().min(1), signer: z.literal("me") }),
+  z.object({
+    role: z.string().min(1),
+    signer: z.literal("recipient"),
+    name: z.string().trim().min(1, "Recipient name is required"),
+    email: z.string().trim().toLowerCase().email("Recipient email is invalid"),
+  }),
+]);
+
+export const createFromTemplateSchema = z.object({
+  documentName: z.string().trim().optional(),
+  assignments: z.array(roleAssignmentSchema).min(1),
+  title: z.string().trim().optional(),
+  message: z.string().trim().optional(),
+  signingOrder: z.enum(["sequential", "parallel"]).default("sequential"),
+  send: z.boolean().default(true),
+});
+
+export const revokeSignatureSchema = z.object({
+  reason: z
+    .enum(Object.keys(revocationReasons) as [RevocationReason, ...RevocationReason[]])
+    .default("unspecified"),
+});
+
+// Query string of GET /api/documents/search; every part is optional
+export const documentSearchSchema = z.object({
+  q: z.string().trim().max(200, "Search text is too long").optional(),
+  status: z.enum(["all", "signed", "unsigned"]).default("all"),
+  uploadedFrom: z.coerce.date().optional(),
+  uploadedTo: z.coerce.date().optional(),
+  signer: z.string().trim().max(200, "Signer is too long").optional(),
+  folderId: z.string().optional(), // Includes subfolders; "unfiled" for documents in no folder
+  tagId: z.string().optional(),
+});
+
+const folderNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Folder name is required")
+  .max(100, "Folder name must be at most 100 characters");
+
+export const createFolderSchema = z.object({
+  name: folderNameSchema,
+  parentId: z.string().nullable().default(null),
+});
+
+// Renames and/or moves a folder; parentId null makes it a matter
+export const updateFolderSchema = z
+  .object({
+    name: folderNameSchema.optional(),
+    parentId: z.string().nullable().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.parentId !== undefined, "Nothing to update");
+
+export const tagSchema = z.object({
+  name: z.string().trim().min(1, "Tag name is required").max(50, "Tag name must be at most 50 characters"),
+});
+
+export const moveDocumentsSchema = z.object({
+  documentIds: z.array(z.string()).min(1, "Select at least one document"),
+  folderId: z.string().nullable(), // null to unfile
+});
+
+export const updateDocumentTagsSchema = z.object({
+  documentIds: z.array(z.string()).min(1, "Select at least one document"),
+  add: z.array(z.string()).default([]),
+  remove: z.array(z.string()).default([]),
+});
+
+// A list of documents or everything in a folder and its subfolders
+export const documentSelectionSchema = z.union([
+  z.object({ documentIds: z.array(z.string()).min(1, "Document IDs array is required") }),
+  z.object({ folderId: z.string() }),
+]);
+
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1, "Organization name is required").max(200),
+});
+
+export const inviteOrganizationMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: z.enum(organizationRoles),
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: z.enum(organizationRoles),
+});
+
+export const shareSchema = z.object({
+  shared: z.boolean(),
+});
+
+export const createDelegationSchema = z
+  .object({
+    signatureId: z.string().min(1, "Choose a signature"),
+    delegateEmail: z.string().trim().email("Enter a valid email address"),
+    scope: z.enum(delegationScopes),
+    documentIds: z.array(z.string()).default([]),
+    folderId: z.string().nullable().default(null),
+    expiresAt: z.coerce.date({ invalid_type_error: "Enter a valid expiry date" }),
+    requiresApproval: z.boolean().default(false),
+  })
+  .refine((data) => data.scope !== "documents" || data.documentIds.length > 0, {
+    message: "Select at least one document",
+    path: ["documentIds"],
+  })
+  .refine((data) => data.scope !== "matter" || !!data.folderId, {
+    message: "Choose a matter",
+    path: ["folderId"],
+  });
+
+// A code from the authenticator app, or one of the recovery codes instead
+export const twoFactorCodeSchema = z
+  .object({
+    code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app").optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !!data.code || !!data.recoveryCode, "Enter a code");
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const securityAnswersSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+  answer1: z.string().trim().min(1, "Answer both questions"),
+  answer2: z.string().trim().min(1, "Answer both questions"),
+});
+
+export const completePasswordResetSchema = z.object({
+  token: z.string().min(1, "The reset link is incomplete"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const securityQuestionsSchema = z
+  .object({
+    password: z.string().min(1, "Enter your current password"),
+    question1: z.enum(securityQuestionOptions),
+    answer1: z.string().trim().min(2, "Answers must be at least 2 characters"),
+    question2: z.enum(securityQuestionOptions),
+    answer2: z.string().trim().min(2, "Answers must be at least 2 characters"),
+  })
+  .refine((data) => data.question1 !== data.question2, {
+    message: "Choose two different questions",
+    path: ["question2"],
+  });
+
+export const signingChallengeSchema = z.object({
+  signingChallenge: z.boolean(),
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
 });
 
 export type User = typeof users.$inferSelect;
+// Users as the API returns them: never the password hash or any secret
+export type PublicUser = Omit<
+  User,
+  | "password"
+  | "verificationToken"
+  | "twoFactorSecret"
+  | "twoFactorRecoveryCodes"
+  | "twoFactorLastStep"
+  | "securityAnswer1"
+  | "securityAnswer2"
+>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type DigitalSignature = typeof digitalSignatures.$inferSelect;
 export type InsertSignature = z.infer<typeof insertSignatureSchema>;
+// What the API returns for a signature: never the private key or password hash
+export type PublicSignature = Omit<DigitalSignature, "privateKey" | "password"> & { hasPassword: boolean };
 export type PdfDocument = typeof pdfDocuments.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type AppliedSignature = typeof appliedSignatures.$inferSelect;
 export type InsertAppliedSignature = z.infer<typeof insertAppliedSignatureSchema>;
+export type Envelope = typeof envelopes.$inferSelect;
+export type InsertEnvelope = typeof envelopes.$inferInsert;
+export type EnvelopeRecipient = typeof envelopeRecipients.$inferSelect;
+export type InsertEnvelopeRecipient = typeof envelopeRecipients.$inferInsert;
+// Recipients as returned by the API, without the signing token hash
+export type PublicEnvelopeRecipient = Omit<EnvelopeRecipient, "tokenHash">;
+export type EnvelopeWithRecipients = Envelope & { recipients: PublicEnvelopeRecipient[] };
+export type CreateEnvelope = z.infer<typeof createEnvelopeSchema>;
+export type DocumentTemplate = typeof documentTemplates.$inferSelect;
+export type InsertDocumentTemplate = typeof documentTemplates.$inferInsert;
+export type TemplateField = z.infer<typeof templateFieldSchema>;
+export type CreateTemplate = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplate = z.infer<typeof updateTemplateSchema>;
+export type CreateFromTemplate = z.infer<typeof createFromTemplateSchema>;
+export type CreateDocumentField = z.infer<typeof createDocumentFieldSchema>;
+export type DocumentSearch = z.infer<typeof documentSearchSchema>;
+export type DocumentField = typeof documentFields.$inferSelect;
+export type InsertDocumentField = typeof documentFields.$inferInsert;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = typeof documentVersions.$inferInsert;
+export type DocumentPage = typeof documentPages.$inferSelect;
+export type InsertDocumentPage = typeof documentPages.$inferInsert;
+export type DocumentPageText = typeof documentPageTexts.$inferSelect;
+export type Folder = typeof folders.$inferSelect;
+export type InsertFolder = typeof folders.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type DocumentTag = typeof documentTags.$inferSelect;
+export type CreateFolder = z.infer<typeof createFolderSchema>;
+export type UpdateFolder = z.infer<typeof updateFolderSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = typeof organizationMembers.$inferInsert;
+export type OrganizationMemberWithUser = OrganizationMember & { email: string; fullName: string };
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InsertOrganizationInvitation = typeof organizationInvitations.$inferInsert;
+export type PublicOrganizationInvitation = Omit<OrganizationInvitation, "tokenHash">;
+// An invitation as its recipient sees it
+export type OrganizationInvitationWithNames = PublicOrganizationInvitation & {
+  organizationName: string;
+  invitedByName: string;
+};
+// What the client needs to know about the user's place in their organization
+export interface OrganizationAccess {
+  organization: Organization | null;
+  role: OrganizationRole | null;
+  permissions: Permission[];
+}
+export type SignatureDelegation = typeof signatureDelegations.$inferSelect;
+export type InsertSignatureDelegation = typeof signatureDelegations.$inferInsert;
+export type CreateDelegation = z.infer<typeof createDelegationSchema>;
+export type DelegationRequest = typeof delegationRequests.$inferSelect;
+// Delegations as listed for their owner and their delegate
+export type DelegationWithNames = SignatureDelegation & {
+  signatureName: string;
+  signatureFullName: string;
+  ownerName: string;
+  delegateName: string;
+  delegateEmail: string;
+};
+// A signature someone delegated to the user, as listed with the user's own
+export type DelegatedSignature = PublicSignature & { ownerName: string };
+export type DelegationRequestWithDetails = DelegationRequest & {
+  delegation: DelegationWithNames;
+  documentName: string;
+};
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+// Jobs as the API returns them, without where their output is kept
+export type PublicJob = Omit<Job, "result" | "lockedBy"> & { result: Omit<JobResult, "filePath"> | null };
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  signingChallenge: boolean;
+  recoveryCodesRemaining: number;
+}
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+export type AccountAuditEvent = typeof accountAuditEvents.$inferSelect;
+export type InsertAccountAuditEvent = typeof accountAuditEvents.$inferInsert;
+export type SecurityQuestions = z.infer<typeof securityQuestionsSchema>;